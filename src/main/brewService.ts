@@ -0,0 +1,1216 @@
+import { existsSync, readdirSync, realpathSync, rmSync } from 'fs'
+import { basename, join } from 'path'
+import { ipcMain } from 'electron'
+import { consumeApproval } from './destructiveActions'
+
+export type BrewType = 'cask' | 'formula'
+
+export type BrewCommandResult = {
+  success: boolean
+  code: number | null
+  stdout: string
+  stderr: string
+  error?: string
+}
+
+export type BrewServiceDeps = {
+  resolveBrewPath: () => Promise<string | null>
+  // Pass `historyOrigin` only for commands the user started, so they land in job history.
+  runCommand: (
+    bin: string,
+    args: string[],
+    timeoutMs?: number,
+    historyOrigin?: string | null
+  ) => Promise<BrewCommandResult>
+}
+
+export type BrewInstalledList = {
+  success: boolean
+  brewInstalled: boolean
+  casks: string[]
+  formulae: string[]
+  error?: string
+}
+
+export type BrewOutdatedPackage = {
+  token: string
+  brewType: BrewType
+  installedVersion: string | null
+  latestVersion: string | null
+  pinned: boolean
+}
+
+export type BrewPackageInfo = {
+  token: string
+  brewType: BrewType
+  name: string
+  description: string
+  homepage: string | null
+  version: string | null
+}
+
+export type BrewInstallAnalytics = {
+  days30: number | null
+  days90: number | null
+  days365: number | null
+}
+
+export type BrewPackageDetail = {
+  token: string
+  brewType: BrewType
+  name: string
+  description: string
+  homepage: string | null
+  tap: string | null
+  license: string | null
+  version: string | null
+  installedVersions: string[]
+  outdated: boolean
+  dependencies: string[]
+  buildDependencies: string[]
+  reverseDependencies: string[]
+  conflicts: string[]
+  caveats: string | null
+  artifacts: string[]
+  analytics: BrewInstallAnalytics | null
+  diskBytes: number | null
+}
+
+export type BrewDependencyNode = {
+  token: string
+  dependencies: string[]
+  dependents: string[]
+  installedOnRequest: boolean
+  leaf: boolean
+  orphan: boolean
+}
+
+export type BrewCleanupOldVersion = {
+  token: string
+  keptVersion: string
+  versions: string[]
+  bytes: number | null
+}
+
+export type BrewCleanupStaleCaskroom = {
+  token: string
+  path: string
+  reason: 'not-installed' | 'old-version'
+  bytes: number | null
+}
+
+export type BrewCleanupReport = {
+  success: boolean
+  pruneDays: number
+  cachePath: string | null
+  cacheBytes: number | null
+  oldVersions: BrewCleanupOldVersion[]
+  orphans: string[]
+  staleCaskroom: BrewCleanupStaleCaskroom[]
+  prunePreview: string[]
+  error?: string
+}
+
+export type BrewCleanupOptions = {
+  pruneDays: number
+  autoremove: boolean
+  removeStaleCaskroom: boolean
+}
+
+export type BrewCleanupRunResult = {
+  success: boolean
+  beforeBytes: number | null
+  afterBytes: number | null
+  freedBytes: number | null
+  removedPaths: string[]
+  output: string[]
+  error?: string
+}
+
+export type BrewTap = {
+  name: string
+  remote: string | null
+  customRemote: boolean
+  private: boolean
+  official: boolean
+  path: string | null
+  lastCommit: string | null
+  formulaCount: number
+  caskCount: number
+  installedPackages: Array<{ token: string; brewType: BrewType }>
+}
+
+export type BrewTapActionResult = {
+  success: boolean
+  output?: string
+  error?: string
+}
+
+export type BrewSearchResult = {
+  success: boolean
+  formulae: string[]
+  casks: string[]
+  error?: string
+}
+
+export type BrewServiceEntry = {
+  name: string
+  status: string
+  user: string | null
+  file: string | null
+  exitCode: number | null
+}
+
+export type BrewServiceDetail = BrewServiceEntry & {
+  running: boolean
+  pid: number | null
+  logPath: string | null
+  errorLogPath: string | null
+}
+
+type RawBrewService = {
+  name?: string
+  status?: string
+  user?: string | null
+  file?: string | null
+  exit_code?: number | null
+  running?: boolean
+  pid?: number | null
+  log_path?: string | null
+  error_log_path?: string | null
+}
+
+type RawTapInfo = {
+  name?: string
+  path?: string
+  remote?: string | null
+  custom_remote?: boolean
+  private?: boolean
+  official?: boolean
+  last_commit?: string | null
+  formula_names?: string[]
+  cask_tokens?: string[]
+}
+
+type RawAnalytics = {
+  install?: Record<string, Record<string, number> | undefined>
+}
+
+type RawFormulaDetail = {
+  name?: string
+  full_name?: string
+  tap?: string
+  desc?: string
+  license?: string | null
+  homepage?: string
+  versions?: { stable?: string | null }
+  installed?: Array<{ version?: string }>
+  outdated?: boolean
+  dependencies?: string[]
+  build_dependencies?: string[]
+  conflicts_with?: string[]
+  caveats?: string | null
+  analytics?: RawAnalytics
+}
+
+type RawCaskDetail = {
+  token?: string
+  full_token?: string
+  tap?: string
+  name?: string[]
+  desc?: string
+  homepage?: string
+  version?: string | null
+  installed?: string | null
+  outdated?: boolean
+  depends_on?: { formula?: string[]; cask?: string[] }
+  conflicts_with?: { cask?: string[]; formula?: string[] } | null
+  caveats?: string | null
+  artifacts?: Array<Record<string, unknown>>
+  analytics?: RawAnalytics
+}
+
+const INFO_CHUNK_SIZE = 50
+const TAP_NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]*\/[a-z0-9][a-z0-9_.-]*$/i
+const DEFAULT_PRUNE_DAYS = 120
+const MAX_PRUNE_DAYS = 3650
+const ANALYTICS_API_TIMEOUT_MS = 8000
+// Artifact stanzas that describe removal or scripts rather than installed files.
+const IGNORED_ARTIFACT_KEYS = new Set([
+  'uninstall',
+  'zap',
+  'preflight',
+  'postflight',
+  'uninstall_postflight'
+])
+
+let deps: BrewServiceDeps | null = null
+
+function brewNotInstalled(): BrewCommandResult {
+  return { success: false, code: null, stdout: '', stderr: '', error: 'Homebrew is not installed.' }
+}
+
+async function runBrew(
+  args: string[],
+  timeoutMs?: number,
+  historyOrigin: string | null = null
+): Promise<BrewCommandResult> {
+  if (!deps) return brewNotInstalled()
+  const brewPath = await deps.resolveBrewPath()
+  if (!brewPath) return brewNotInstalled()
+  return deps.runCommand(brewPath, args, timeoutMs, historyOrigin)
+}
+
+function describeFailure(result: BrewCommandResult, fallback: string): string {
+  return result.error || result.stderr.trim() || fallback
+}
+
+function parseLines(raw: string): string[] {
+  return raw
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+function parseSearchTokens(raw: string): string[] {
+  return parseLines(raw)
+    .flatMap((line) => line.split(/\s+/g))
+    .map((token) => token.trim())
+    .filter(
+      (token) =>
+        token.length > 0 && !token.startsWith('==>') && token !== 'Formulae' && token !== 'Casks'
+    )
+}
+
+function chunkTokens(tokens: string[]): string[][] {
+  const chunks: string[][] = []
+  for (let i = 0; i < tokens.length; i += INFO_CHUNK_SIZE) {
+    chunks.push(tokens.slice(i, i + INFO_CHUNK_SIZE))
+  }
+  return chunks
+}
+
+function toInstalledVersion(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    const versions = value.filter((entry): entry is string => typeof entry === 'string')
+    return versions[versions.length - 1] ?? null
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function toServiceEntry(raw: RawBrewService): BrewServiceEntry {
+  return {
+    name: raw.name as string,
+    status: raw.status || 'unknown',
+    user: raw.user || null,
+    file: raw.file || null,
+    exitCode: typeof raw.exit_code === 'number' ? raw.exit_code : null
+  }
+}
+
+export function configureBrewService(nextDeps: BrewServiceDeps): void {
+  deps = nextDeps
+}
+
+export async function isBrewAvailable(): Promise<boolean> {
+  return Boolean(deps && (await deps.resolveBrewPath()))
+}
+
+export async function listInstalled(): Promise<BrewInstalledList> {
+  if (!(await isBrewAvailable())) {
+    return {
+      success: false,
+      brewInstalled: false,
+      casks: [],
+      formulae: [],
+      error: 'Homebrew is not installed.'
+    }
+  }
+
+  const [caskResult, formulaResult] = await Promise.all([
+    runBrew(['list', '--cask']),
+    runBrew(['list', '--formula'])
+  ])
+  if (!caskResult.success || !formulaResult.success) {
+    return {
+      success: false,
+      brewInstalled: true,
+      casks: [],
+      formulae: [],
+      error: !caskResult.success
+        ? describeFailure(caskResult, 'brew list failed')
+        : describeFailure(formulaResult, 'brew list failed')
+    }
+  }
+
+  return {
+    success: true,
+    brewInstalled: true,
+    casks: parseLines(caskResult.stdout),
+    formulae: parseLines(formulaResult.stdout)
+  }
+}
+
+export async function outdated(): Promise<{
+  success: boolean
+  items: BrewOutdatedPackage[]
+  error?: string
+}> {
+  const result = await runBrew(['outdated', '--json=v2'], 1000 * 60 * 2)
+  if (!result.success) {
+    return { success: false, items: [], error: describeFailure(result, 'brew outdated failed.') }
+  }
+
+  let parsed: {
+    formulae?: Array<{
+      name?: string
+      installed_versions?: unknown
+      current_version?: string
+      pinned?: boolean
+    }>
+    casks?: Array<{ name?: string; installed_versions?: unknown; current_version?: string }>
+  }
+  try {
+    parsed = JSON.parse(result.stdout || '{}')
+  } catch {
+    return { success: false, items: [], error: 'Unable to parse brew outdated output.' }
+  }
+
+  return {
+    success: true,
+    items: [
+      ...(parsed.formulae ?? [])
+        .filter((entry) => entry.name)
+        .map((entry) => ({
+          token: entry.name as string,
+          brewType: 'formula' as const,
+          installedVersion: toInstalledVersion(entry.installed_versions),
+          latestVersion: entry.current_version ?? null,
+          pinned: entry.pinned === true
+        })),
+      ...(parsed.casks ?? [])
+        .filter((entry) => entry.name)
+        .map((entry) => ({
+          token: entry.name as string,
+          brewType: 'cask' as const,
+          installedVersion: toInstalledVersion(entry.installed_versions),
+          latestVersion: entry.current_version ?? null,
+          pinned: false
+        }))
+    ]
+  }
+}
+
+export async function info(tokens: string[], brewType?: BrewType): Promise<BrewPackageInfo[]> {
+  const uniqueTokens = [...new Set(tokens.map((token) => token.trim()).filter(Boolean))]
+  const typeFlag = brewType ? [`--${brewType}`] : []
+  const packages: BrewPackageInfo[] = []
+
+  for (const tokenChunk of chunkTokens(uniqueTokens)) {
+    const result = await runBrew(['info', '--json=v2', ...typeFlag, ...tokenChunk], 1000 * 60 * 10)
+    if (!result.success || !result.stdout.trim()) continue
+    try {
+      const parsed = JSON.parse(result.stdout) as {
+        casks?: Array<{
+          token?: string
+          name?: string[]
+          desc?: string
+          homepage?: string
+          version?: string
+        }>
+        formulae?: Array<{
+          name?: string
+          desc?: string
+          homepage?: string
+          versions?: { stable?: string }
+        }>
+      }
+      for (const cask of parsed.casks ?? []) {
+        const token = cask.token?.trim()
+        if (!token) continue
+        packages.push({
+          token,
+          brewType: 'cask',
+          name: cask.name?.[0]?.trim() || token,
+          description: cask.desc?.trim() || '',
+          homepage: cask.homepage?.trim() || null,
+          version: cask.version ?? null
+        })
+      }
+      for (const formula of parsed.formulae ?? []) {
+        const token = formula.name?.trim()
+        if (!token) continue
+        packages.push({
+          token,
+          brewType: 'formula',
+          name: token,
+          description: formula.desc?.trim() || '',
+          homepage: formula.homepage?.trim() || null,
+          version: formula.versions?.stable ?? null
+        })
+      }
+    } catch {
+      // Ignore invalid JSON chunk and fall back to token-only records.
+    }
+  }
+
+  return packages
+}
+
+function toAnalytics(raw: RawAnalytics | undefined, fullName: string): BrewInstallAnalytics | null {
+  const install = raw?.install
+  if (!install) return null
+  const pick = (period: string): number | null => {
+    const value = install[period]?.[fullName]
+    return typeof value === 'number' ? value : null
+  }
+  return { days30: pick('30d'), days90: pick('90d'), days365: pick('365d') }
+}
+
+async function fetchAnalytics(
+  token: string,
+  brewType: BrewType
+): Promise<BrewInstallAnalytics | null> {
+  try {
+    const response = await fetch(
+      `https://formulae.brew.sh/api/${brewType}/${encodeURIComponent(token)}.json`,
+      { signal: AbortSignal.timeout(ANALYTICS_API_TIMEOUT_MS) }
+    )
+    if (!response.ok) return null
+    const parsed = (await response.json()) as { analytics?: RawAnalytics }
+    return toAnalytics(parsed.analytics, token)
+  } catch {
+    return null
+  }
+}
+
+function toArtifactLabels(artifacts: Array<Record<string, unknown>>): string[] {
+  const labels: string[] = []
+  for (const artifact of artifacts) {
+    for (const [key, value] of Object.entries(artifact)) {
+      if (IGNORED_ARTIFACT_KEYS.has(key) || !Array.isArray(value)) continue
+      value
+        .filter((entry): entry is string => typeof entry === 'string')
+        .forEach((entry) => labels.push(`${key}: ${entry}`))
+    }
+  }
+  return labels
+}
+
+export async function measureDiskBytes(
+  paths: string[],
+  timeoutMs = 1000 * 60
+): Promise<number | null> {
+  const existing = paths.filter((path) => existsSync(path))
+  if (!existing.length || !deps) return null
+  const result = await deps.runCommand('du', ['-sk', ...existing], timeoutMs)
+  if (!result.stdout.trim()) return null
+  return parseLines(result.stdout).reduce((total, line) => {
+    const kilobytes = Number(line.split(/\s+/)[0])
+    return Number.isFinite(kilobytes) ? total + kilobytes * 1024 : total
+  }, 0)
+}
+
+async function formulaDetail(raw: RawFormulaDetail, token: string): Promise<BrewPackageDetail> {
+  const [usesResult, cellarResult] = await Promise.all([
+    runBrew(['uses', '--installed', token], 1000 * 60 * 2),
+    runBrew(['--cellar', token])
+  ])
+  const cellarPath = cellarResult.stdout.trim()
+  const installedVersions = (raw.installed ?? [])
+    .map((entry) => entry.version)
+    .filter((version): version is string => Boolean(version))
+
+  return {
+    token,
+    brewType: 'formula',
+    name: raw.name?.trim() || token,
+    description: raw.desc?.trim() || '',
+    homepage: raw.homepage?.trim() || null,
+    tap: raw.tap ?? null,
+    license: raw.license ?? null,
+    version: raw.versions?.stable ?? null,
+    installedVersions,
+    outdated: raw.outdated === true,
+    dependencies: raw.dependencies ?? [],
+    buildDependencies: raw.build_dependencies ?? [],
+    reverseDependencies: usesResult.success ? parseSearchTokens(usesResult.stdout) : [],
+    conflicts: raw.conflicts_with ?? [],
+    caveats: raw.caveats?.trim() || null,
+    artifacts: [],
+    analytics:
+      toAnalytics(raw.analytics, raw.full_name ?? token) ??
+      (await fetchAnalytics(token, 'formula')),
+    diskBytes: installedVersions.length && cellarPath ? await measureDiskBytes([cellarPath]) : null
+  }
+}
+
+async function caskDetail(raw: RawCaskDetail, token: string): Promise<BrewPackageDetail> {
+  const artifacts = toArtifactLabels(raw.artifacts ?? [])
+  let diskBytes: number | null = null
+  if (raw.installed) {
+    const caskroomResult = await runBrew(['--caskroom'])
+    const appPaths = artifacts
+      .filter((label) => label.startsWith('app: '))
+      .map((label) => join('/Applications', label.slice('app: '.length)))
+    const caskroom = caskroomResult.stdout.trim()
+    diskBytes = await measureDiskBytes([...(caskroom ? [join(caskroom, token)] : []), ...appPaths])
+  }
+
+  return {
+    token,
+    brewType: 'cask',
+    name: raw.name?.[0]?.trim() || token,
+    description: raw.desc?.trim() || '',
+    homepage: raw.homepage?.trim() || null,
+    tap: raw.tap ?? null,
+    license: null,
+    version: raw.version ?? null,
+    installedVersions: raw.installed ? [raw.installed] : [],
+    outdated: raw.outdated === true,
+    dependencies: [...(raw.depends_on?.formula ?? []), ...(raw.depends_on?.cask ?? [])],
+    buildDependencies: [],
+    reverseDependencies: [],
+    conflicts: [...(raw.conflicts_with?.cask ?? []), ...(raw.conflicts_with?.formula ?? [])],
+    caveats: raw.caveats?.trim() || null,
+    artifacts,
+    analytics:
+      toAnalytics(raw.analytics, raw.full_token ?? token) ?? (await fetchAnalytics(token, 'cask')),
+    diskBytes
+  }
+}
+
+export async function packageDetail(
+  token: string,
+  brewType: BrewType
+): Promise<{ success: boolean; detail?: BrewPackageDetail; error?: string }> {
+  if (!token || token.startsWith('-')) {
+    return { success: false, error: 'Invalid package token.' }
+  }
+  const result = await runBrew(['info', '--json=v2', `--${brewType}`, token], 1000 * 60 * 2)
+  if (!result.success) {
+    return { success: false, error: describeFailure(result, `brew info ${token} failed.`) }
+  }
+
+  try {
+    const parsed = JSON.parse(result.stdout) as {
+      formulae?: RawFormulaDetail[]
+      casks?: RawCaskDetail[]
+    }
+    const formula = parsed.formulae?.[0]
+    const cask = parsed.casks?.[0]
+    if (brewType === 'formula' && formula) {
+      return { success: true, detail: await formulaDetail(formula, token) }
+    }
+    if (brewType === 'cask' && cask) {
+      return { success: true, detail: await caskDetail(cask, token) }
+    }
+    return { success: false, error: `No ${brewType} named ${token}.` }
+  } catch {
+    return { success: false, error: 'Unable to parse brew info output.' }
+  }
+}
+
+export async function dependencyGraph(): Promise<{
+  success: boolean
+  nodes: BrewDependencyNode[]
+  error?: string
+}> {
+  const [infoResult, leavesResult, autoremoveResult] = await Promise.all([
+    runBrew(['info', '--json=v2', '--installed'], 1000 * 60 * 5),
+    runBrew(['leaves']),
+    runBrew(['autoremove', '--dry-run'], 1000 * 60 * 2)
+  ])
+  if (!infoResult.success) {
+    return { success: false, nodes: [], error: describeFailure(infoResult, 'brew info failed.') }
+  }
+
+  let formulae: Array<{
+    name?: string
+    dependencies?: string[]
+    installed?: Array<{ installed_on_request?: boolean }>
+  }>
+  try {
+    formulae = (JSON.parse(infoResult.stdout) as { formulae?: typeof formulae }).formulae ?? []
+  } catch {
+    return { success: false, nodes: [], error: 'Unable to parse brew info output.' }
+  }
+
+  const leaves = new Set(leavesResult.success ? parseLines(leavesResult.stdout) : [])
+  // `brew autoremove --dry-run` prints a "==> Would autoremove ..." header followed by tokens.
+  const orphans = new Set(
+    autoremoveResult.success
+      ? parseLines(autoremoveResult.stdout).filter((line) => !line.startsWith('==>'))
+      : []
+  )
+  const installed = new Set(formulae.map((formula) => formula.name).filter(Boolean))
+  const dependents = new Map<string, string[]>()
+  for (const formula of formulae) {
+    for (const dependency of formula.dependencies ?? []) {
+      if (!formula.name || !installed.has(dependency)) continue
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), formula.name])
+    }
+  }
+
+  return {
+    success: true,
+    nodes: formulae
+      .filter((formula) => formula.name)
+      .map((formula) => {
+        const token = formula.name as string
+        return {
+          token,
+          dependencies: (formula.dependencies ?? []).filter((dependency) =>
+            installed.has(dependency)
+          ),
+          dependents: dependents.get(token) ?? [],
+          installedOnRequest: formula.installed?.[0]?.installed_on_request === true,
+          leaf: leaves.has(token),
+          orphan: orphans.has(token)
+        }
+      })
+  }
+}
+
+export async function installedDependents(token: string): Promise<string[]> {
+  if (!token || token.startsWith('-')) return []
+  const result = await runBrew(['uses', '--installed', '--recursive', token], 1000 * 60 * 2)
+  return result.success ? parseSearchTokens(result.stdout) : []
+}
+
+// Paths `brew uninstall` is expected to delete, plus installed formulae that depend on the token.
+export async function uninstallFootprint(
+  token: string,
+  brewType: BrewType
+): Promise<{ paths: string[]; dependents: string[] }> {
+  if (!token || token.startsWith('-')) return { paths: [], dependents: [] }
+  if (brewType === 'formula') {
+    const [cellarResult, dependents] = await Promise.all([
+      runBrew(['--cellar', token]),
+      installedDependents(token)
+    ])
+    const cellarPath = cellarResult.success ? cellarResult.stdout.trim() : ''
+    return { paths: cellarPath && existsSync(cellarPath) ? [cellarPath] : [], dependents }
+  }
+
+  const [infoResult, caskroomResult] = await Promise.all([
+    runBrew(['info', '--json=v2', '--cask', token], 1000 * 60 * 2),
+    runBrew(['--caskroom'])
+  ])
+  let artifacts: string[] = []
+  try {
+    const parsed = JSON.parse(infoResult.stdout) as { casks?: RawCaskDetail[] }
+    artifacts = toArtifactLabels(parsed.casks?.[0]?.artifacts ?? [])
+  } catch {
+    artifacts = []
+  }
+  const caskroom = caskroomResult.stdout.trim()
+  const paths = [
+    ...(caskroom ? [join(caskroom, token)] : []),
+    ...artifacts
+      .filter((label) => label.startsWith('app: '))
+      .map((label) => join('/Applications', label.slice('app: '.length)))
+  ]
+  return { paths: paths.filter((path) => existsSync(path)), dependents: [] }
+}
+
+function normalizePruneDays(value: unknown): number {
+  const days = Number(value)
+  if (!Number.isFinite(days)) return DEFAULT_PRUNE_DAYS
+  return Math.min(MAX_PRUNE_DAYS, Math.max(0, Math.floor(days)))
+}
+
+export function normalizeCleanupOptions(options: Partial<BrewCleanupOptions>): BrewCleanupOptions {
+  return {
+    pruneDays: normalizePruneDays(options?.pruneDays ?? DEFAULT_PRUNE_DAYS),
+    autoremove: options?.autoremove === true,
+    removeStaleCaskroom: options?.removeStaleCaskroom === true
+  }
+}
+
+// The cleanup approval is bound to this description of the steps it covers.
+export function cleanupTarget(options: BrewCleanupOptions): string {
+  return [
+    `brew cleanup --prune=${options.pruneDays}`,
+    ...(options.autoremove ? ['brew autoremove'] : []),
+    ...(options.removeStaleCaskroom ? ['stale Caskroom directories'] : [])
+  ].join(', ')
+}
+
+function listDirectories(path: string): string[] {
+  try {
+    return readdirSync(path, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map((entry) => entry.name)
+  } catch {
+    return []
+  }
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true })
+}
+
+function findLinkedVersion(prefix: string, token: string): string | null {
+  const optPath = join(prefix, 'opt', token)
+  if (!existsSync(optPath)) return null
+  try {
+    return basename(realpathSync(optPath))
+  } catch {
+    return null
+  }
+}
+
+async function readBrewPath(
+  flag: '--prefix' | '--cellar' | '--caskroom' | '--cache'
+): Promise<string | null> {
+  const result = await runBrew([flag])
+  const path = result.success ? result.stdout.trim() : ''
+  return path || null
+}
+
+async function findOldCellarVersions(
+  prefix: string | null,
+  cellar: string | null
+): Promise<BrewCleanupOldVersion[]> {
+  if (!cellar) return []
+  const entries: BrewCleanupOldVersion[] = []
+  for (const token of listDirectories(cellar)) {
+    const versions = listDirectories(join(cellar, token)).sort(compareVersions)
+    if (versions.length < 2) continue
+    // Keep the linked keg when there is one; otherwise assume the newest version is active.
+    const linked = prefix ? findLinkedVersion(prefix, token) : null
+    const keptVersion = linked && versions.includes(linked) ? linked : versions[versions.length - 1]
+    const stale = versions.filter((version) => version !== keptVersion)
+    entries.push({
+      token,
+      keptVersion,
+      versions: stale,
+      bytes: await measureDiskBytes(stale.map((version) => join(cellar, token, version)))
+    })
+  }
+  return entries
+}
+
+async function findStaleCaskroom(caskroom: string | null): Promise<BrewCleanupStaleCaskroom[]> {
+  if (!caskroom) return []
+  const listResult = await runBrew(['list', '--cask', '--versions'])
+  if (!listResult.success) return []
+
+  const installedVersions = new Map<string, string>()
+  for (const line of parseLines(listResult.stdout)) {
+    const [token, ...versions] = line.split(/\s+/)
+    installedVersions.set(token, versions[versions.length - 1] ?? '')
+  }
+
+  const entries: BrewCleanupStaleCaskroom[] = []
+  for (const token of listDirectories(caskroom)) {
+    const tokenPath = join(caskroom, token)
+    const installedVersion = installedVersions.get(token)
+    if (installedVersion === undefined) {
+      entries.push({
+        token,
+        path: tokenPath,
+        reason: 'not-installed',
+        bytes: await measureDiskBytes([tokenPath])
+      })
+      continue
+    }
+    for (const version of listDirectories(tokenPath)) {
+      if (!installedVersion || version === installedVersion) continue
+      const versionPath = join(tokenPath, version)
+      entries.push({
+        token,
+        path: versionPath,
+        reason: 'old-version',
+        bytes: await measureDiskBytes([versionPath])
+      })
+    }
+  }
+  return entries
+}
+
+function parsePrunePreview(raw: string): string[] {
+  // Dry-run lines look like "Would remove: /path/to/file (12.3MB)".
+  return parseLines(raw)
+    .filter((line) => line.startsWith('Would remove:'))
+    .map((line) => line.replace(/^Would remove:\s*/, ''))
+}
+
+export async function cleanupReport(pruneDaysInput: number): Promise<BrewCleanupReport> {
+  const pruneDays = normalizePruneDays(pruneDaysInput)
+  const empty: BrewCleanupReport = {
+    success: false,
+    pruneDays,
+    cachePath: null,
+    cacheBytes: null,
+    oldVersions: [],
+    orphans: [],
+    staleCaskroom: [],
+    prunePreview: []
+  }
+  if (!(await isBrewAvailable())) {
+    return { ...empty, error: 'Homebrew is not installed.' }
+  }
+
+  const [prefix, cellar, caskroom, cachePath] = await Promise.all([
+    readBrewPath('--prefix'),
+    readBrewPath('--cellar'),
+    readBrewPath('--caskroom'),
+    readBrewPath('--cache')
+  ])
+  const [cacheBytes, oldVersions, staleCaskroom, autoremoveResult, previewResult] =
+    await Promise.all([
+      cachePath ? measureDiskBytes([cachePath], 1000 * 60 * 5) : Promise.resolve(null),
+      findOldCellarVersions(prefix, cellar),
+      findStaleCaskroom(caskroom),
+      runBrew(['autoremove', '--dry-run'], 1000 * 60 * 2),
+      runBrew(['cleanup', `--prune=${pruneDays}`, '-n'], 1000 * 60 * 5)
+    ])
+  if (!previewResult.success) {
+    return {
+      ...empty,
+      error: describeFailure(previewResult, 'brew cleanup --dry-run failed.')
+    }
+  }
+
+  return {
+    success: true,
+    pruneDays,
+    cachePath,
+    cacheBytes,
+    oldVersions,
+    orphans: autoremoveResult.success
+      ? parseLines(autoremoveResult.stdout).filter((line) => !line.startsWith('==>'))
+      : [],
+    staleCaskroom,
+    prunePreview: parsePrunePreview(previewResult.stdout)
+  }
+}
+
+export async function runCleanup(
+  options: BrewCleanupOptions,
+  approvalId?: string
+): Promise<BrewCleanupRunResult> {
+  const pruneDays = normalizePruneDays(options.pruneDays)
+  const failed: BrewCleanupRunResult = {
+    success: false,
+    beforeBytes: null,
+    afterBytes: null,
+    freedBytes: null,
+    removedPaths: [],
+    output: []
+  }
+  if (!consumeApproval(approvalId, 'brew-cleanup', cleanupTarget({ ...options, pruneDays }))) {
+    return { ...failed, error: 'Cleanup was not confirmed.' }
+  }
+  if (!(await isBrewAvailable())) {
+    return { ...failed, error: 'Homebrew is not installed.' }
+  }
+
+  const [cellar, caskroom, cachePath] = await Promise.all([
+    readBrewPath('--cellar'),
+    readBrewPath('--caskroom'),
+    readBrewPath('--cache')
+  ])
+  const measuredPaths = [cachePath, cellar, caskroom].filter((path): path is string =>
+    Boolean(path)
+  )
+  const beforeBytes = await measureDiskBytes(measuredPaths, 1000 * 60 * 5)
+  const output: string[] = []
+  const removedPaths: string[] = []
+
+  const cleanupResult = await runBrew(['cleanup', `--prune=${pruneDays}`], undefined, 'cleanup')
+  output.push(...parseLines(cleanupResult.stdout))
+  if (!cleanupResult.success) {
+    return {
+      ...failed,
+      beforeBytes,
+      output,
+      error: describeFailure(cleanupResult, 'brew cleanup failed.')
+    }
+  }
+
+  if (options.autoremove) {
+    const autoremoveResult = await runBrew(['autoremove'], 1000 * 60 * 10, 'cleanup')
+    output.push(...parseLines(autoremoveResult.stdout))
+    if (!autoremoveResult.success) {
+      return {
+        ...failed,
+        beforeBytes,
+        output,
+        error: describeFailure(autoremoveResult, 'brew autoremove failed.')
+      }
+    }
+  }
+
+  if (options.removeStaleCaskroom) {
+    // Re-detect instead of trusting paths from the renderer so only Caskroom entries are removed.
+    for (const entry of await findStaleCaskroom(caskroom)) {
+      try {
+        rmSync(entry.path, { recursive: true, force: true })
+        removedPaths.push(entry.path)
+      } catch (error) {
+        return {
+          ...failed,
+          beforeBytes,
+          removedPaths,
+          output,
+          error: error instanceof Error ? error.message : `Failed to remove ${entry.path}.`
+        }
+      }
+    }
+  }
+
+  const afterBytes = await measureDiskBytes(measuredPaths, 1000 * 60 * 5)
+  return {
+    success: true,
+    beforeBytes,
+    afterBytes,
+    freedBytes:
+      beforeBytes !== null && afterBytes !== null ? Math.max(0, beforeBytes - afterBytes) : null,
+    removedPaths,
+    output
+  }
+}
+
+async function installedPackagesByTap(): Promise<
+  Map<string, Array<{ token: string; brewType: BrewType }>>
+> {
+  const packagesByTap = new Map<string, Array<{ token: string; brewType: BrewType }>>()
+  const result = await runBrew(['info', '--json=v2', '--installed'], 1000 * 60 * 5)
+  if (!result.success) return packagesByTap
+
+  try {
+    const parsed = JSON.parse(result.stdout) as {
+      formulae?: Array<{ name?: string; tap?: string | null }>
+      casks?: Array<{ token?: string; tap?: string | null }>
+    }
+    const add = (
+      tap: string | null | undefined,
+      token: string | undefined,
+      brewType: BrewType
+    ): void => {
+      if (!tap || !token) return
+      packagesByTap.set(tap, [...(packagesByTap.get(tap) ?? []), { token, brewType }])
+    }
+    parsed.formulae?.forEach((formula) => add(formula.tap, formula.name, 'formula'))
+    parsed.casks?.forEach((cask) => add(cask.tap, cask.token, 'cask'))
+  } catch {
+    // Leave the map empty; the tap list is still useful without package ownership.
+  }
+  return packagesByTap
+}
+
+export async function listTaps(): Promise<{ success: boolean; taps: BrewTap[]; error?: string }> {
+  const [tapInfoResult, packagesByTap] = await Promise.all([
+    runBrew(['tap-info', '--json', '--installed'], 1000 * 60 * 2),
+    installedPackagesByTap()
+  ])
+  if (!tapInfoResult.success) {
+    return {
+      success: false,
+      taps: [],
+      error: describeFailure(tapInfoResult, 'brew tap-info failed.')
+    }
+  }
+
+  let rawTaps: RawTapInfo[]
+  try {
+    rawTaps = JSON.parse(tapInfoResult.stdout || '[]') as RawTapInfo[]
+  } catch {
+    return { success: false, taps: [], error: 'Unable to parse brew tap-info output.' }
+  }
+
+  return {
+    success: true,
+    taps: rawTaps
+      .filter((tap) => tap.name)
+      .map((tap) => {
+        const name = tap.name as string
+        return {
+          name,
+          remote: tap.remote || null,
+          customRemote: tap.custom_remote === true,
+          private: tap.private === true,
+          official: tap.official === true,
+          path: tap.path || null,
+          lastCommit: tap.last_commit || null,
+          formulaCount: tap.formula_names?.length ?? 0,
+          caskCount: tap.cask_tokens?.length ?? 0,
+          installedPackages: packagesByTap.get(name) ?? []
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+export async function addTap(name: string, remote?: string): Promise<BrewTapActionResult> {
+  const tapName = name.trim()
+  const tapRemote = remote?.trim() ?? ''
+  if (!TAP_NAME_PATTERN.test(tapName)) {
+    return { success: false, error: 'Tap names look like user/repo.' }
+  }
+  if (tapRemote.startsWith('-')) {
+    return { success: false, error: 'Invalid tap remote URL.' }
+  }
+
+  const result = await runBrew(
+    ['tap', tapName, ...(tapRemote ? [tapRemote] : [])],
+    1000 * 60 * 10,
+    'taps'
+  )
+  if (!result.success) {
+    return { success: false, error: describeFailure(result, `brew tap ${tapName} failed.`) }
+  }
+  return { success: true, output: `${result.stdout}${result.stderr}`.trim() }
+}
+
+export async function removeTap(name: string): Promise<BrewTapActionResult> {
+  const tapName = name.trim()
+  if (!TAP_NAME_PATTERN.test(tapName)) {
+    return { success: false, error: 'Tap names look like user/repo.' }
+  }
+
+  // `brew untap` refuses too, but checking first gives a readable list of blockers.
+  const installedPackages = (await installedPackagesByTap()).get(tapName) ?? []
+  if (installedPackages.length > 0) {
+    return {
+      success: false,
+      error: `${tapName} still provides installed packages: ${installedPackages
+        .map((entry) => entry.token)
+        .join(', ')}. Uninstall them before untapping.`
+    }
+  }
+
+  const result = await runBrew(['untap', tapName], 1000 * 60 * 2, 'taps')
+  if (!result.success) {
+    return { success: false, error: describeFailure(result, `brew untap ${tapName} failed.`) }
+  }
+  return { success: true, output: `${result.stdout}${result.stderr}`.trim() }
+}
+
+export async function repairTaps(): Promise<BrewTapActionResult> {
+  const result = await runBrew(['tap', '--repair'], 1000 * 60 * 5, 'taps')
+  if (!result.success) {
+    return { success: false, error: describeFailure(result, 'brew tap --repair failed.') }
+  }
+  return { success: true, output: `${result.stdout}${result.stderr}`.trim() }
+}
+
+export async function search(query: string): Promise<BrewSearchResult> {
+  const q = query.trim()
+  if (!q) return { success: true, formulae: [], casks: [] }
+
+  const [formulaResult, caskResult] = await Promise.all([
+    runBrew(['search', '--formula', q]),
+    runBrew(['search', '--cask', q])
+  ])
+  // `brew search` exits non-zero when nothing matches, so only spawn failures count as errors.
+  if (formulaResult.error && caskResult.error) {
+    return {
+      success: false,
+      formulae: [],
+      casks: [],
+      error: describeFailure(formulaResult, 'brew search failed.')
+    }
+  }
+
+  return {
+    success: true,
+    formulae: parseSearchTokens(formulaResult.stdout),
+    casks: parseSearchTokens(caskResult.stdout)
+  }
+}
+
+export async function listServices(): Promise<{
+  success: boolean
+  items: BrewServiceEntry[]
+  error?: string
+}> {
+  const result = await runBrew(['services', 'list', '--json'], 1000 * 60)
+  if (!result.success) {
+    return { success: false, items: [], error: describeFailure(result, 'brew services failed.') }
+  }
+  try {
+    const parsed = JSON.parse(result.stdout || '[]') as RawBrewService[]
+    return {
+      success: true,
+      items: parsed.filter((entry) => entry.name).map(toServiceEntry)
+    }
+  } catch {
+    return { success: false, items: [], error: 'Unable to parse brew services output.' }
+  }
+}
+
+export async function serviceInfo(name: string): Promise<BrewServiceDetail | null> {
+  const result = await runBrew(['services', 'info', name, '--json'], 1000 * 60)
+  if (!result.success) return null
+  try {
+    const [raw] = JSON.parse(result.stdout || '[]') as RawBrewService[]
+    if (!raw?.name) return null
+    return {
+      ...toServiceEntry(raw),
+      running: raw.running === true,
+      pid: typeof raw.pid === 'number' ? raw.pid : null,
+      logPath: raw.log_path || null,
+      errorLogPath: raw.error_log_path || null
+    }
+  } catch {
+    return null
+  }
+}
+
+export function setupBrewServiceHandlers(): void {
+  ipcMain.handle('brew:list-installed', async () => {
+    return listInstalled()
+  })
+  ipcMain.handle('brew:outdated', async () => {
+    return outdated()
+  })
+  ipcMain.handle('brew:info', async (_, payload: { tokens: string[]; brewType?: BrewType }) => {
+    return info(payload.tokens ?? [], payload.brewType)
+  })
+  ipcMain.handle('brew:search', async (_, payload: { query: string }) => {
+    return search(payload.query ?? '')
+  })
+  ipcMain.handle(
+    'brew:package-detail',
+    async (_, payload: { token: string; brewType: BrewType }) => {
+      return packageDetail(payload.token ?? '', payload.brewType === 'cask' ? 'cask' : 'formula')
+    }
+  )
+  ipcMain.handle('brew:dependency-graph', async () => {
+    return dependencyGraph()
+  })
+  ipcMain.handle('brew:installed-dependents', async (_, payload: { token: string }) => {
+    return installedDependents(payload.token ?? '')
+  })
+  ipcMain.handle('brew:cleanup-report', async (_, payload: { pruneDays: number }) => {
+    return cleanupReport(payload?.pruneDays ?? DEFAULT_PRUNE_DAYS)
+  })
+  ipcMain.handle(
+    'brew:cleanup-run',
+    async (_, payload: BrewCleanupOptions & { approvalId?: string }) => {
+      return runCleanup(normalizeCleanupOptions(payload), payload?.approvalId)
+    }
+  )
+  ipcMain.handle('brew:taps-list', async () => {
+    return listTaps()
+  })
+  ipcMain.handle('brew:tap-add', async (_, payload: { name: string; remote?: string }) => {
+    return addTap(payload.name ?? '', payload.remote)
+  })
+  ipcMain.handle('brew:tap-remove', async (_, payload: { name: string }) => {
+    return removeTap(payload.name ?? '')
+  })
+  ipcMain.handle('brew:tap-repair', async () => {
+    return repairTaps()
+  })
+  ipcMain.handle('brew:services-list', async () => {
+    return listServices()
+  })
+  ipcMain.handle('brew:service-info', async (_, payload: { name: string }) => {
+    return serviceInfo(payload.name ?? '')
+  })
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { diffBrewfileEntries, formatBrewfile, parseBrewfile, planBrewfileApply } from './brewfile'
+
+describe('parseBrewfile', () => {
+  it('reads tap, brew and cask lines and reports the rest as skipped', () => {
+    const { entries, skippedLines } = parseBrewfile(
+      [
+        '# comment',
+        'tap "homebrew/cask-fonts"',
+        "brew 'wget' # trailing comment",
+        'brew "wget"',
+        'cask "visual-studio-code", greedy: true',
+        'mas "Xcode", id: 497799835',
+        'brew "-rf"',
+        ''
+      ].join('\n')
+    )
+    expect(entries).toEqual([
+      { kind: 'tap', token: 'homebrew/cask-fonts' },
+      { kind: 'brew', token: 'wget' },
+      { kind: 'cask', token: 'visual-studio-code' }
+    ])
+    expect(skippedLines).toEqual(['mas "Xcode", id: 497799835', 'brew "-rf"'])
+  })
+
+  it('round-trips what formatBrewfile writes', () => {
+    const entries = [
+      { kind: 'cask' as const, token: 'zed' },
+      { kind: 'brew' as const, token: 'wget' },
+      { kind: 'tap' as const, token: 'user/tools' }
+    ]
+    expect(parseBrewfile(formatBrewfile(entries)).entries).toEqual([
+      { kind: 'tap', token: 'user/tools' },
+      { kind: 'brew', token: 'wget' },
+      { kind: 'cask', token: 'zed' }
+    ])
+  })
+})
+
+describe('diffBrewfileEntries', () => {
+  it('matches tap-qualified names by their short token', () => {
+    const diff = diffBrewfileEntries(
+      [
+        { kind: 'tap', token: 'user/tools' },
+        { kind: 'brew', token: 'user/tools/fancy' },
+        { kind: 'brew', token: 'jq' },
+        { kind: 'cask', token: 'zed' }
+      ],
+      [
+        { kind: 'brew', token: 'fancy' },
+        { kind: 'brew', token: 'wget' },
+        { kind: 'cask', token: 'zed' }
+      ],
+      ['user/tools']
+    )
+    expect(diff.unchanged.map((entry) => entry.token)).toEqual([
+      'user/tools',
+      'user/tools/fancy',
+      'zed'
+    ])
+    expect(diff.toInstall).toEqual([{ kind: 'brew', token: 'jq' }])
+    expect(diff.toRemove).toEqual([{ kind: 'brew', token: 'wget' }])
+  })
+})
+
+describe('planBrewfileApply', () => {
+  it('taps first, then installs, then removals, and never untaps', () => {
+    const { commands } = planBrewfileApply({
+      install: [
+        { kind: 'cask', token: 'zed' },
+        { kind: 'tap', token: 'user/tools' },
+        { kind: 'brew', token: 'jq' },
+        { kind: 'brew', token: 'bad token' }
+      ],
+      remove: [
+        { kind: 'tap', token: 'user/old' },
+        { kind: 'cask', token: 'atom' }
+      ]
+    })
+    expect(commands).toEqual([
+      { binary: 'brew', args: ['tap', 'user/tools'] },
+      { binary: 'brew', args: ['install', '--cask', 'zed'] },
+      { binary: 'brew', args: ['install', 'jq'] },
+      { binary: 'brew', args: ['uninstall', '--cask', 'atom'] }
+    ])
+  })
+})
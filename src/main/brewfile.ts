@@ -0,0 +1,129 @@
+import { brewCommand, type CommandSpec } from './commandSpec'
+
+export type BrewfileEntry = {
+  kind: 'tap' | 'brew' | 'cask'
+  token: string
+}
+
+export type BrewfileImportPreview = {
+  filePath: string
+  entries: BrewfileEntry[]
+  toInstall: BrewfileEntry[]
+  toRemove: BrewfileEntry[]
+  unchanged: BrewfileEntry[]
+  skippedLines: string[]
+}
+
+export const BREWFILE_TOKEN_PATTERN = /^[a-z0-9][a-z0-9+_.@/-]*$/i
+export const BREWFILE_BUILTIN_TAPS = new Set(['homebrew/core', 'homebrew/cask'])
+
+export function parseBrewfile(content: string): {
+  entries: BrewfileEntry[]
+  skippedLines: string[]
+} {
+  const entries: BrewfileEntry[] = []
+  const skippedLines: string[] = []
+  const seen = new Set<string>()
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    if (!line) continue
+
+    const match = line.match(/^(tap|brew|cask)\s+["']([^"']+)["']/)
+    const token = match?.[2]?.trim() ?? ''
+    if (!match || !BREWFILE_TOKEN_PATTERN.test(token)) {
+      skippedLines.push(rawLine.trim())
+      continue
+    }
+
+    const kind = match[1] as BrewfileEntry['kind']
+    const key = `${kind}:${token}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    entries.push({ kind, token })
+  }
+
+  return { entries, skippedLines }
+}
+
+export function formatBrewfile(entries: BrewfileEntry[]): string {
+  const order: BrewfileEntry['kind'][] = ['tap', 'brew', 'cask']
+  const lines = [`# Brewfile exported by appPad on ${new Date().toISOString()}`]
+  for (const kind of order) {
+    const group = entries
+      .filter((entry) => entry.kind === kind)
+      .sort((a, b) => a.token.localeCompare(b.token))
+    if (group.length === 0) continue
+    lines.push('')
+    group.forEach((entry) => lines.push(`${kind} "${entry.token}"`))
+  }
+  return `${lines.join('\n')}\n`
+}
+
+// Brewfiles may name tap packages in full (user/tap/foo) while brew lists some by short token.
+export function brewfilePackageName(token: string): string {
+  return token.slice(token.lastIndexOf('/') + 1)
+}
+
+// Taps compare by name; packages compare by short token, so a tap-qualified Brewfile entry
+// matches the package brew lists under its short name.
+export function diffBrewfileEntries(
+  entries: BrewfileEntry[],
+  installedEntries: BrewfileEntry[],
+  installedTaps: string[]
+): Pick<BrewfileImportPreview, 'toInstall' | 'toRemove' | 'unchanged'> {
+  const installedTokens = new Set(installedEntries.map((entry) => brewfilePackageName(entry.token)))
+  const tapSet = new Set(installedTaps)
+  const wantedTokens = new Set(
+    entries.filter((entry) => entry.kind !== 'tap').map((entry) => brewfilePackageName(entry.token))
+  )
+
+  const toInstall: BrewfileEntry[] = []
+  const unchanged: BrewfileEntry[] = []
+  entries.forEach((entry) => {
+    const present =
+      entry.kind === 'tap'
+        ? tapSet.has(entry.token)
+        : installedTokens.has(brewfilePackageName(entry.token))
+    if (present) {
+      unchanged.push(entry)
+    } else {
+      toInstall.push(entry)
+    }
+  })
+
+  const toRemove = installedEntries.filter(
+    (entry) => !wantedTokens.has(brewfilePackageName(entry.token))
+  )
+
+  return { toInstall, toRemove, unchanged }
+}
+
+export function planBrewfileApply(payload: { install: BrewfileEntry[]; remove: BrewfileEntry[] }): {
+  commands: CommandSpec[]
+} {
+  const isValid = (entry: BrewfileEntry): boolean =>
+    ['tap', 'brew', 'cask'].includes(entry.kind) && BREWFILE_TOKEN_PATTERN.test(entry.token)
+  const install = payload.install.filter(isValid)
+  const remove = payload.remove.filter((entry) => isValid(entry) && entry.kind !== 'tap')
+
+  const commands = [
+    ...install
+      .filter((entry) => entry.kind === 'tap')
+      .map((entry) => brewCommand('tap', entry.token)),
+    ...install
+      .filter((entry) => entry.kind !== 'tap')
+      .map((entry) =>
+        entry.kind === 'cask'
+          ? brewCommand('install', '--cask', entry.token)
+          : brewCommand('install', entry.token)
+      ),
+    ...remove.map((entry) =>
+      entry.kind === 'cask'
+        ? brewCommand('uninstall', '--cask', entry.token)
+        : brewCommand('uninstall', entry.token)
+    )
+  ]
+
+  return { commands }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { formatCommandSpec, parseCommandLine, toCommandSpec } from './commandSpec'
+
+describe('parseCommandLine', () => {
+  it('splits words and honours quotes and escapes', () => {
+    expect(parseCommandLine(`mo uninstall 'Visual Studio Code'`)).toEqual({
+      binary: 'mo',
+      args: ['uninstall', 'Visual Studio Code']
+    })
+    expect(parseCommandLine('brew install "a\\"b" c\\ d')).toEqual({
+      binary: 'brew',
+      args: ['install', 'a"b', 'c d']
+    })
+  })
+
+  it('reads leading assignments as environment variables', () => {
+    expect(parseCommandLine('HOMEBREW_NO_AUTO_UPDATE=1 brew upgrade')).toEqual({
+      binary: 'brew',
+      args: ['upgrade'],
+      env: { HOMEBREW_NO_AUTO_UPDATE: '1' }
+    })
+  })
+
+  it('rejects shell operators, substitution and unterminated quotes', () => {
+    expect(() => parseCommandLine('brew list; rm -rf ~')).toThrow('Shell operators')
+    expect(() => parseCommandLine('brew install $(whoami)')).toThrow('Shell operators')
+    expect(() => parseCommandLine('brew install "$(whoami)"')).toThrow('Command substitution')
+    expect(() => parseCommandLine(`brew install 'wget`)).toThrow('Unterminated quote')
+    expect(() => parseCommandLine('   ')).toThrow('Command is empty.')
+  })
+})
+
+describe('toCommandSpec', () => {
+  it('accepts allowlisted commands and strips known brew directories', () => {
+    expect(toCommandSpec('brew install --cask visual-studio-code')).toEqual({
+      binary: 'brew',
+      args: ['install', '--cask', 'visual-studio-code']
+    })
+    expect(toCommandSpec('/opt/homebrew/bin/brew upgrade homebrew/cask/zed')).toEqual({
+      binary: 'brew',
+      args: ['upgrade', 'homebrew/cask/zed']
+    })
+    expect(
+      toCommandSpec({ binary: 'brew', args: ['services', 'restart', 'postgresql@16'] })
+    ).toEqual({ binary: 'brew', args: ['services', 'restart', 'postgresql@16'] })
+  })
+
+  it('rejects binaries, subcommands, flags and operands outside the allowlist', () => {
+    expect(() => toCommandSpec('rm -rf /')).toThrow('rm is not an allowed executable.')
+    expect(() => toCommandSpec('constructor')).toThrow('is not an allowed executable.')
+    expect(() => toCommandSpec('brew bundle')).toThrow('brew bundle is not an allowed subcommand.')
+    expect(() => toCommandSpec('brew install --HEAD wget')).toThrow('does not allow the --HEAD')
+    expect(() => toCommandSpec('brew install ../wget')).toThrow('does not accept')
+    expect(() => toCommandSpec('brew pin')).toThrow('wrong number of arguments')
+    expect(() => toCommandSpec('/bin/bash -c "echo hi"')).toThrow('bundled Homebrew installer')
+    expect(() => toCommandSpec('PATH=/tmp brew list')).toThrow('PATH is not allowed')
+  })
+})
+
+describe('formatCommandSpec', () => {
+  it('quotes words the shell would otherwise interpret', () => {
+    expect(
+      formatCommandSpec({
+        binary: 'mo',
+        args: ['uninstall', "Bob's App"],
+        env: { HOMEBREW_NO_ENV_HINTS: '1' }
+      })
+    ).toBe(`HOMEBREW_NO_ENV_HINTS=1 mo uninstall 'Bob'\\''s App'`)
+    expect(formatCommandSpec({ binary: 'brew', args: ['install', '=wget'] })).toBe(
+      `brew install '=wget'`
+    )
+  })
+})
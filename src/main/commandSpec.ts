@@ -0,0 +1,247 @@
+import { HOMEBREW_INSTALL_SCRIPT, type CommandInput, type CommandSpec } from '../shared/command'
+
+export {
+  brewCommand,
+  formatCommandSpec,
+  HOMEBREW_INSTALL_SCRIPT,
+  type CommandInput,
+  type CommandSpec
+} from '../shared/command'
+
+const MAX_ARGS = 64
+const MAX_ARG_LENGTH = 1024
+const ENV_KEY_PATTERN = /^(?:HOMEBREW_[A-Z0-9_]+|NONINTERACTIVE|CI)$/
+const SHELL_OPERATOR_CHARS = new Set([';', '&', '|', '<', '>', '(', ')', '`', '$'])
+
+// Formula, cask and tap names, optionally tap-qualified (`user/tap/name`).
+const PACKAGE_NAME_PATTERN =
+  /^[A-Za-z0-9@+_][A-Za-z0-9@+._-]*(?:\/[A-Za-z0-9@+_][A-Za-z0-9@+._-]*){0,2}$/
+const TAP_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9._-]*\/[A-Za-z0-9_][A-Za-z0-9._-]*$/
+
+type ArgsRule = {
+  flags: Set<string> | RegExp
+  // Validates each non-flag argument.
+  operand: (value: string) => boolean
+  minOperands: number
+  maxOperands: number
+}
+
+function isPackageName(value: string): boolean {
+  return PACKAGE_NAME_PATTERN.test(value) && !value.split('/').some((part) => /^\.+$/.test(part))
+}
+
+function isTapName(value: string): boolean {
+  return TAP_NAME_PATTERN.test(value) && !value.split('/').some((part) => /^\.+$/.test(part))
+}
+
+function packageRule(flags: string[], minOperands = 1): ArgsRule {
+  return { flags: new Set(flags), operand: isPackageName, minOperands, maxOperands: MAX_ARGS }
+}
+
+const NO_ARGS: ArgsRule = {
+  flags: new Set(),
+  operand: () => false,
+  minOperands: 0,
+  maxOperands: 0
+}
+
+// Only the subcommands the app issues, each with the flags and operands it actually passes.
+const BREW_RULES: Record<string, ArgsRule> = {
+  autoremove: { ...NO_ARGS, flags: new Set(['--dry-run']) },
+  cleanup: { ...NO_ARGS, flags: /^(?:--prune=\d+|--dry-run|-n|-s)$/ },
+  install: packageRule(['--cask', '--formula', '--force', '--quiet', '--verbose']),
+  link: packageRule(['--overwrite', '--force']),
+  list: packageRule(['--cask', '--formula', '--versions', '--pinned', '-1'], 0),
+  pin: packageRule([]),
+  reinstall: packageRule(['--cask', '--formula', '--force', '--quiet', '--verbose']),
+  tap: {
+    flags: new Set(['--repair']),
+    operand: isTapName,
+    minOperands: 0,
+    maxOperands: 1
+  },
+  uninstall: packageRule(['--cask', '--formula', '--force', '--zap', '--ignore-dependencies']),
+  unlink: packageRule([]),
+  unpin: packageRule([]),
+  untap: { flags: new Set(['--force']), operand: isTapName, minOperands: 1, maxOperands: MAX_ARGS },
+  update: NO_ARGS,
+  upgrade: packageRule(['--cask', '--formula', '--greedy', '--quiet', '--verbose'], 0)
+}
+
+const BREW_SERVICE_ACTIONS = new Set(['start', 'stop', 'restart', 'run', 'cleanup'])
+
+const MOLE_RULES: Record<string, ArgsRule> = {
+  analyze: NO_ARGS,
+  clean: { ...NO_ARGS, flags: new Set(['--dry-run']) },
+  optimize: NO_ARGS,
+  purge: NO_ARGS,
+  status: NO_ARGS,
+  // Mole names apps by their display name, which may contain spaces.
+  uninstall: {
+    flags: new Set(),
+    operand: (value) => value.trim().length > 0 && !value.startsWith('-'),
+    minOperands: 1,
+    maxOperands: 1
+  },
+  update: NO_ARGS
+}
+
+// History entries recorded by the main process name brew by its resolved path.
+const BINARY_DIRECTORIES = ['/opt/homebrew/bin/', '/usr/local/bin/']
+
+const TRUSTED_SCRIPTS = new Set([HOMEBREW_INSTALL_SCRIPT])
+
+function checkArgs(command: string, rule: ArgsRule, args: string[]): string | null {
+  const operands: string[] = []
+  for (const arg of args) {
+    if (arg.startsWith('-')) {
+      const allowed = rule.flags instanceof RegExp ? rule.flags.test(arg) : rule.flags.has(arg)
+      if (!allowed) return `${command} does not allow the ${arg} option.`
+    } else if (!rule.operand(arg)) {
+      return `${command} does not accept "${arg}" as an argument.`
+    } else {
+      operands.push(arg)
+    }
+  }
+  if (operands.length < rule.minOperands || operands.length > rule.maxOperands) {
+    return `${command} has the wrong number of arguments.`
+  }
+  return null
+}
+
+function allowSubcommands(
+  binary: string,
+  rules: Record<string, ArgsRule>
+): (args: string[]) => string | null {
+  return ([subcommand, ...rest]) => {
+    const rule = subcommand && Object.hasOwn(rules, subcommand) ? rules[subcommand] : null
+    if (!rule) {
+      return `${binary} ${subcommand ?? '(none)'} is not an allowed subcommand.`
+    }
+    return checkArgs(`${binary} ${subcommand}`, rule, rest)
+  }
+}
+
+function checkBrewArgs(args: string[]): string | null {
+  if (args[0] !== 'services') return allowSubcommands('brew', BREW_RULES)(args)
+  const [, action, ...rest] = args
+  if (!action || !BREW_SERVICE_ACTIONS.has(action)) {
+    return `brew services ${action ?? '(none)'} is not an allowed action.`
+  }
+  return checkArgs(`brew services ${action}`, packageRule(['--all'], 0), rest)
+}
+
+// Each allowlisted binary gets a rule that returns an error message, or null when the argv is fine.
+const COMMAND_RULES: Record<string, (args: string[]) => string | null> = {
+  brew: checkBrewArgs,
+  mo: allowSubcommands('mo', MOLE_RULES),
+  '/bin/bash': (args) =>
+    args.length === 2 && args[0] === '-c' && TRUSTED_SCRIPTS.has(args[1])
+      ? null
+      : '/bin/bash may only run the bundled Homebrew installer.'
+}
+
+function hasControlChars(value: string): boolean {
+  return Array.from(value).some((char) => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f)
+}
+
+export function parseCommandLine(line: string): CommandSpec {
+  const words: string[] = []
+  let current: string | null = null
+  let quote: "'" | '"' | null = null
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index]
+    if (quote === "'") {
+      if (char === "'") quote = null
+      else current += char
+      continue
+    }
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null
+      } else if (char === '$' || char === '`') {
+        throw new Error(`Command substitution is not allowed: ${line}`)
+      } else if (char === '\\' && index + 1 < line.length && '"\\'.includes(line[index + 1])) {
+        current += line[++index]
+      } else {
+        current += char
+      }
+      continue
+    }
+    if (char === ' ' || char === '\t') {
+      if (current !== null) words.push(current)
+      current = null
+      continue
+    }
+    if (SHELL_OPERATOR_CHARS.has(char) || char === '\n' || char === '\r') {
+      throw new Error(`Shell operators are not allowed: ${line}`)
+    }
+    current ??= ''
+    if (char === "'" || char === '"') {
+      quote = char
+    } else if (char === '\\' && index + 1 < line.length) {
+      current += line[++index]
+    } else {
+      current += char
+    }
+  }
+
+  if (quote) throw new Error(`Unterminated quote in command: ${line}`)
+  if (current !== null) words.push(current)
+
+  const env: Record<string, string> = {}
+  while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+    const assignment = words.shift() as string
+    const separator = assignment.indexOf('=')
+    env[assignment.slice(0, separator)] = assignment.slice(separator + 1)
+  }
+  const binary = words.shift()
+  if (!binary) throw new Error('Command is empty.')
+
+  return Object.keys(env).length > 0 ? { binary, args: words, env } : { binary, args: words }
+}
+
+export function validateCommandSpec(spec: CommandSpec): CommandSpec {
+  if (!spec || typeof spec.binary !== 'string' || !Array.isArray(spec.args)) {
+    throw new Error('Command must have a binary and an argument list.')
+  }
+  const directory = BINARY_DIRECTORIES.find((entry) => spec.binary.startsWith(entry))
+  const binary = directory ? spec.binary.slice(directory.length) : spec.binary
+  const rule = Object.hasOwn(COMMAND_RULES, binary) ? COMMAND_RULES[binary] : null
+  if (!rule) {
+    throw new Error(`${spec.binary || 'Command'} is not an allowed executable.`)
+  }
+  if (spec.args.length > MAX_ARGS) {
+    throw new Error(`Command has more than ${MAX_ARGS} arguments.`)
+  }
+  const args = spec.args.map((arg) => {
+    if (typeof arg !== 'string' || arg.length > MAX_ARG_LENGTH) {
+      throw new Error('Command arguments must be strings of reasonable length.')
+    }
+    if (hasControlChars(arg)) {
+      throw new Error('Command arguments must not contain control characters.')
+    }
+    return arg
+  })
+  const ruleError = rule(args)
+  if (ruleError) throw new Error(ruleError)
+
+  const envEntries = Object.entries(spec.env ?? {})
+  envEntries.forEach(([key, value]) => {
+    if (!ENV_KEY_PATTERN.test(key)) {
+      throw new Error(`Environment variable ${key} is not allowed.`)
+    }
+    if (typeof value !== 'string' || hasControlChars(value)) {
+      throw new Error(`Environment variable ${key} has an invalid value.`)
+    }
+  })
+
+  return envEntries.length > 0
+    ? { binary, args, env: Object.fromEntries(envEntries) }
+    : { binary, args }
+}
+
+export function toCommandSpec(input: CommandInput): CommandSpec {
+  return validateCommandSpec(typeof input === 'string' ? parseCommandLine(input.trim()) : input)
+}
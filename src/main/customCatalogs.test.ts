@@ -0,0 +1,99 @@
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { diffSeeds, loadCatalogSource, type CustomCatalogSeed } from './customCatalogs'
+
+vi.mock('electron', () => ({ dialog: {}, ipcMain: { handle: vi.fn() } }))
+
+const CATALOG = {
+  title: 'Editors',
+  version: '2',
+  seeds: [{ token: 'visual-studio-code' }, { token: 'zed', name: 'Zed' }]
+}
+const OVERSIZED_BYTES = 2 * 1024 * 1024
+
+let server: Server
+let baseUrl: string
+let streamedBytes = 0
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/catalog.json') {
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify(CATALOG))
+      return
+    }
+    if (request.url === '/declared-too-large.json') {
+      response.setHeader('Content-Length', String(OVERSIZED_BYTES))
+      response.end()
+      return
+    }
+    if (request.url === '/streamed-too-large.json') {
+      // No Content-Length, so only the streaming check can stop it.
+      const chunk = Buffer.alloc(64 * 1024, 0x20)
+      const write = (): void => {
+        while (streamedBytes < OVERSIZED_BYTES * 4) {
+          streamedBytes += chunk.length
+          if (!response.write(chunk)) {
+            response.once('drain', write)
+            return
+          }
+        }
+        response.end()
+      }
+      response.on('close', () => response.removeAllListeners('drain'))
+      write()
+      return
+    }
+    response.statusCode = 404
+    response.end()
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+})
+
+describe('loadCatalogSource', () => {
+  it('fetches and normalizes a remote catalog', async () => {
+    const document = await loadCatalogSource(`${baseUrl}/catalog.json`)
+    expect(document.title).toBe('Editors')
+    expect(document.version).toBe('2')
+    expect(document.seeds.map((seed) => seed.token)).toEqual(['visual-studio-code', 'zed'])
+  })
+
+  it('rejects a response whose Content-Length is over the limit', async () => {
+    await expect(loadCatalogSource(`${baseUrl}/declared-too-large.json`)).rejects.toThrow(
+      'Catalog file is too large.'
+    )
+  })
+
+  it('stops reading a response that grows past the limit', async () => {
+    await expect(loadCatalogSource(`${baseUrl}/streamed-too-large.json`)).rejects.toThrow(
+      'Catalog file is too large.'
+    )
+    expect(streamedBytes).toBeLessThan(OVERSIZED_BYTES * 4)
+  })
+
+  it('reports HTTP errors', async () => {
+    await expect(loadCatalogSource(`${baseUrl}/missing.json`)).rejects.toThrow(
+      'Fetching catalog failed: 404'
+    )
+  })
+})
+
+describe('diffSeeds', () => {
+  it('lists added, removed and changed tokens', () => {
+    const previous: CustomCatalogSeed[] = [{ token: 'atom' }, { token: 'zed' }]
+    const next: CustomCatalogSeed[] = [{ token: 'zed', name: 'Zed' }, { token: 'helix' }]
+    expect(diffSeeds(previous, next, '1', '2')).toEqual({
+      previousVersion: '1',
+      version: '2',
+      added: ['helix'],
+      removed: ['atom'],
+      changed: ['zed']
+    })
+  })
+})
@@ -0,0 +1,535 @@
+import { existsSync, readFileSync, statSync } from 'fs'
+import { homedir } from 'os'
+import { isAbsolute, join } from 'path'
+import { fileURLToPath } from 'url'
+import { dialog, ipcMain } from 'electron'
+import type Database from 'better-sqlite3'
+import { formatCommandSpec, toCommandSpec } from './commandSpec'
+
+export type CustomCatalogSeed = {
+  token: string
+  brewType?: 'cask' | 'formula'
+  name?: string
+  description?: string
+  fallbackDomain?: string
+  iconKey?: string | null
+  installCommand?: string
+  uninstallCommand?: string
+  updateCommand?: string
+}
+
+export type CatalogSubscriptionChanges = {
+  previousVersion: string | null
+  version: string
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
+export type CatalogSubscription = {
+  source: string
+  version: string
+  fetchedAt: number
+  changes: CatalogSubscriptionChanges | null
+}
+
+export type CustomCatalog = {
+  id: number
+  catalogKey: string
+  title: string
+  description: string
+  icon: string
+  defaultBrewType: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+  sortOrder: number
+  updatedAt: number
+  subscription: CatalogSubscription | null
+}
+
+export type CustomCatalogInput = {
+  id?: number
+  title: string
+  description?: string
+  icon?: string
+  defaultBrewType?: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+}
+
+export type CustomCatalogDeps = {
+  getDb: () => Database.Database
+}
+
+type CustomCatalogRow = {
+  id: number
+  title: string
+  description: string
+  icon: string
+  default_brew_type: string
+  seeds: string
+  sort_order: number
+  updated_at: number
+  source: string | null
+  version: string | null
+  fetched_at: number | null
+  changes: string | null
+}
+
+export type RemoteCatalogDocument = {
+  title: string
+  description?: string
+  icon?: string
+  version: string
+  defaultBrewType?: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+}
+
+const CUSTOM_CATALOG_KEY_PREFIX = 'custom:'
+const MAX_TITLE_LENGTH = 60
+const MAX_SEEDS = 200
+const SEED_TOKEN_PATTERN = /^[a-z0-9][a-z0-9+_.@/-]*$/i
+const DEFAULT_ICON = 'package'
+const REMOTE_FETCH_TIMEOUT_MS = 15000
+const MAX_REMOTE_CATALOG_BYTES = 1024 * 1024
+const CATALOG_COLUMNS = `
+  c.id, c.title, c.description, c.icon, c.default_brew_type, c.seeds, c.sort_order, c.updated_at,
+  s.source, s.version, s.fetched_at, s.changes
+`
+
+let deps: CustomCatalogDeps | null = null
+
+function getDb(): Database.Database {
+  if (!deps) throw new Error('Custom catalogs are not configured.')
+  return deps.getDb()
+}
+
+export function toCustomCatalogKey(id: number): string {
+  return `${CUSTOM_CATALOG_KEY_PREFIX}${id}`
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// Custom commands are checked against the command allowlist up front and stored in their
+// normalized, fully quoted form.
+function optionalCommand(value: unknown, token: string): string | undefined {
+  const text = optionalText(value)
+  if (!text) return undefined
+  try {
+    return formatCommandSpec(toCommandSpec(text))
+  } catch (error) {
+    throw new Error(`${token}: ${error instanceof Error ? error.message : 'Invalid command.'}`)
+  }
+}
+
+function normalizeSeed(raw: CustomCatalogSeed): CustomCatalogSeed {
+  const token = typeof raw?.token === 'string' ? raw.token.trim() : ''
+  if (!SEED_TOKEN_PATTERN.test(token)) {
+    throw new Error(`Invalid package token: ${token || '(empty)'}`)
+  }
+  return {
+    token,
+    brewType: raw.brewType === 'cask' || raw.brewType === 'formula' ? raw.brewType : undefined,
+    name: optionalText(raw.name),
+    description: optionalText(raw.description),
+    fallbackDomain: optionalText(raw.fallbackDomain),
+    iconKey: optionalText(raw.iconKey) ?? null,
+    installCommand: optionalCommand(raw.installCommand, token),
+    uninstallCommand: optionalCommand(raw.uninstallCommand, token),
+    updateCommand: optionalCommand(raw.updateCommand, token)
+  }
+}
+
+export function normalizeCustomCatalogSeeds(raw: unknown): CustomCatalogSeed[] {
+  if (!Array.isArray(raw)) throw new Error('Catalog seeds must be a list.')
+  if (raw.length > MAX_SEEDS) throw new Error(`A catalog can hold at most ${MAX_SEEDS} packages.`)
+  const seen = new Set<string>()
+  return raw.map((entry) => {
+    const seed = normalizeSeed(entry as CustomCatalogSeed)
+    if (seen.has(seed.token)) throw new Error(`Duplicate package token: ${seed.token}`)
+    seen.add(seed.token)
+    return seed
+  })
+}
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+function toCustomCatalog(row: CustomCatalogRow): CustomCatalog {
+  const seeds = parseJson<CustomCatalogSeed[]>(row.seeds, [])
+  return {
+    id: row.id,
+    catalogKey: toCustomCatalogKey(row.id),
+    title: row.title,
+    description: row.description,
+    icon: row.icon || DEFAULT_ICON,
+    defaultBrewType: row.default_brew_type === 'formula' ? 'formula' : 'cask',
+    seeds,
+    sortOrder: row.sort_order,
+    updatedAt: row.updated_at,
+    subscription: row.source
+      ? {
+          source: row.source,
+          version: row.version ?? '',
+          fetchedAt: row.fetched_at ?? row.updated_at,
+          changes: parseJson<CatalogSubscriptionChanges | null>(row.changes, null)
+        }
+      : null
+  }
+}
+
+export function configureCustomCatalogs(nextDeps: CustomCatalogDeps): void {
+  deps = nextDeps
+}
+
+export function listCustomCatalogs(): CustomCatalog[] {
+  const rows = getDb()
+    .prepare(
+      `
+      SELECT ${CATALOG_COLUMNS}
+      FROM custom_catalogs c
+      LEFT JOIN catalog_subscriptions s ON s.catalog_id = c.id
+      ORDER BY c.sort_order ASC, c.id ASC
+    `
+    )
+    .all() as CustomCatalogRow[]
+  return rows.map(toCustomCatalog)
+}
+
+export function getCustomCatalog(id: number): CustomCatalog | null {
+  const row = getDb()
+    .prepare(
+      `
+      SELECT ${CATALOG_COLUMNS}
+      FROM custom_catalogs c
+      LEFT JOIN catalog_subscriptions s ON s.catalog_id = c.id
+      WHERE c.id = ?
+    `
+    )
+    .get(id) as CustomCatalogRow | undefined
+  return row ? toCustomCatalog(row) : null
+}
+
+export function saveCustomCatalog(input: CustomCatalogInput): CustomCatalog {
+  const title = typeof input?.title === 'string' ? input.title.trim() : ''
+  if (!title) throw new Error('Catalog title is required.')
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new Error(`Catalog title must be at most ${MAX_TITLE_LENGTH} characters.`)
+  }
+  const seeds = normalizeCustomCatalogSeeds(input.seeds)
+  const db = getDb()
+  const now = Date.now()
+  const values = {
+    title,
+    description: optionalText(input.description) ?? '',
+    icon: optionalText(input.icon) ?? DEFAULT_ICON,
+    default_brew_type: input.defaultBrewType === 'formula' ? 'formula' : 'cask',
+    seeds: JSON.stringify(seeds),
+    updated_at: now
+  }
+
+  if (typeof input.id === 'number') {
+    if (getCustomCatalog(input.id)?.subscription) {
+      throw new Error('Subscribed catalogs are managed by their source. Refresh it instead.')
+    }
+    const result = db
+      .prepare(
+        `
+        UPDATE custom_catalogs
+        SET title = @title, description = @description, icon = @icon,
+          default_brew_type = @default_brew_type, seeds = @seeds, updated_at = @updated_at
+        WHERE id = @id
+      `
+      )
+      .run({ ...values, id: input.id })
+    if (result.changes === 0) throw new Error('Catalog no longer exists.')
+    // Cached rows keep the previous commands and metadata, so force a fresh load.
+    db.prepare('DELETE FROM catalog_items_cache WHERE catalog_key = ?').run(
+      toCustomCatalogKey(input.id)
+    )
+    return getCustomCatalog(input.id) as CustomCatalog
+  }
+
+  const { next_order: nextOrder } = db
+    .prepare('SELECT COALESCE(MAX(sort_order) + 1, 0) AS next_order FROM custom_catalogs')
+    .get() as { next_order: number }
+  const result = db
+    .prepare(
+      `
+      INSERT INTO custom_catalogs (
+        title, description, icon, default_brew_type, seeds, sort_order, created_at, updated_at
+      )
+      VALUES (
+        @title, @description, @icon, @default_brew_type, @seeds, @sort_order, @updated_at,
+        @updated_at
+      )
+    `
+    )
+    .run({ ...values, sort_order: nextOrder })
+  return getCustomCatalog(Number(result.lastInsertRowid)) as CustomCatalog
+}
+
+export function deleteCustomCatalog(id: number): { success: true } {
+  const db = getDb()
+  db.transaction(() => {
+    db.prepare('DELETE FROM custom_catalogs WHERE id = ?').run(id)
+    db.prepare('DELETE FROM catalog_subscriptions WHERE catalog_id = ?').run(id)
+    db.prepare('DELETE FROM catalog_items_cache WHERE catalog_key = ?').run(toCustomCatalogKey(id))
+  })()
+  return { success: true }
+}
+
+export function reorderCustomCatalogs(ids: number[]): CustomCatalog[] {
+  const db = getDb()
+  const update = db.prepare('UPDATE custom_catalogs SET sort_order = ? WHERE id = ?')
+  db.transaction(() => {
+    ids.forEach((id, index) => update.run(index, id))
+  })()
+  return listCustomCatalogs()
+}
+
+function resolveFileSource(source: string): string | null {
+  if (source.startsWith('file://')) return fileURLToPath(source)
+  if (source === '~' || source.startsWith('~/')) return join(homedir(), source.slice(1))
+  return isAbsolute(source) ? source : null
+}
+
+// Stops reading as soon as the body passes the limit, so an oversized or endless response is
+// never buffered in full.
+async function readLimitedBody(response: Response): Promise<string> {
+  const declaredLength = Number(response.headers.get('content-length'))
+  if (declaredLength > MAX_REMOTE_CATALOG_BYTES) throw new Error('Catalog file is too large.')
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    received += value.byteLength
+    if (received > MAX_REMOTE_CATALOG_BYTES) {
+      await reader.cancel()
+      throw new Error('Catalog file is too large.')
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+async function readCatalogSource(source: string): Promise<string> {
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source, {
+      signal: AbortSignal.timeout(REMOTE_FETCH_TIMEOUT_MS),
+      headers: { Accept: 'application/json' }
+    })
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new Error(`Fetching catalog failed: ${response.status} ${response.statusText}`)
+    }
+    return readLimitedBody(response)
+  }
+
+  const filePath = resolveFileSource(source)
+  if (!filePath) throw new Error('Catalog source must be an http(s) URL or an absolute file path.')
+  if (!existsSync(filePath)) throw new Error(`Catalog file not found: ${filePath}`)
+  if (statSync(filePath).size > MAX_REMOTE_CATALOG_BYTES) {
+    throw new Error('Catalog file is too large.')
+  }
+  return readFileSync(filePath, 'utf8')
+}
+
+function parseRemoteCatalog(raw: string): RemoteCatalogDocument {
+  let parsed: Partial<RemoteCatalogDocument>
+  try {
+    parsed = JSON.parse(raw) as Partial<RemoteCatalogDocument>
+  } catch {
+    throw new Error('Catalog source is not valid JSON.')
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Catalog source must be a JSON object with title, version and seeds.')
+  }
+  const title = optionalText(parsed.title)
+  if (!title) throw new Error('Catalog is missing a title.')
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new Error(`Catalog title must be at most ${MAX_TITLE_LENGTH} characters.`)
+  }
+  const version =
+    typeof parsed.version === 'number' ? String(parsed.version) : optionalText(parsed.version)
+  if (!version) throw new Error('Catalog is missing a version.')
+  if (parsed.defaultBrewType && !['cask', 'formula'].includes(parsed.defaultBrewType)) {
+    throw new Error('defaultBrewType must be "cask" or "formula".')
+  }
+
+  return {
+    title,
+    description: optionalText(parsed.description),
+    icon: optionalText(parsed.icon),
+    version,
+    defaultBrewType: parsed.defaultBrewType,
+    seeds: normalizeCustomCatalogSeeds(parsed.seeds)
+  }
+}
+
+export async function loadCatalogSource(source: string): Promise<RemoteCatalogDocument> {
+  return parseRemoteCatalog(await readCatalogSource(source))
+}
+
+export function diffSeeds(
+  previous: CustomCatalogSeed[],
+  next: CustomCatalogSeed[],
+  previousVersion: string | null,
+  version: string
+): CatalogSubscriptionChanges {
+  const previousByToken = new Map(previous.map((seed) => [seed.token, JSON.stringify(seed)]))
+  const nextTokens = new Set(next.map((seed) => seed.token))
+  return {
+    previousVersion,
+    version,
+    added: next.filter((seed) => !previousByToken.has(seed.token)).map((seed) => seed.token),
+    removed: previous.filter((seed) => !nextTokens.has(seed.token)).map((seed) => seed.token),
+    changed: next
+      .filter((seed) => {
+        const before = previousByToken.get(seed.token)
+        return before !== undefined && before !== JSON.stringify(seed)
+      })
+      .map((seed) => seed.token)
+  }
+}
+
+function writeSubscription(
+  db: Database.Database,
+  catalogId: number,
+  source: string,
+  changes: CatalogSubscriptionChanges
+): void {
+  db.prepare(
+    `
+    INSERT INTO catalog_subscriptions (catalog_id, source, version, fetched_at, changes)
+    VALUES (@catalog_id, @source, @version, @fetched_at, @changes)
+    ON CONFLICT(catalog_id) DO UPDATE SET
+      source = excluded.source,
+      version = excluded.version,
+      fetched_at = excluded.fetched_at,
+      changes = excluded.changes
+  `
+  ).run({
+    catalog_id: catalogId,
+    source,
+    version: changes.version,
+    fetched_at: Date.now(),
+    changes: JSON.stringify(changes)
+  })
+}
+
+export async function subscribeCatalog(sourceInput: string): Promise<CustomCatalog> {
+  const source = sourceInput.trim()
+  if (!source) throw new Error('Enter a catalog URL or file path.')
+  const existing = listCustomCatalogs().find((catalog) => catalog.subscription?.source === source)
+  if (existing) throw new Error(`Already subscribed as ${existing.title}.`)
+
+  const document = await loadCatalogSource(source)
+  const db = getDb()
+  const catalog = db.transaction(() => {
+    const created = saveCustomCatalog({
+      title: document.title,
+      description: document.description,
+      icon: document.icon,
+      defaultBrewType: document.defaultBrewType,
+      seeds: document.seeds
+    })
+    writeSubscription(db, created.id, source, diffSeeds([], document.seeds, null, document.version))
+    return created
+  })()
+  return getCustomCatalog(catalog.id) as CustomCatalog
+}
+
+export async function refreshCatalogSubscription(id: number): Promise<CustomCatalog> {
+  const catalog = getCustomCatalog(id)
+  if (!catalog?.subscription) throw new Error('Catalog is not a subscription.')
+  const { source, version: previousVersion } = catalog.subscription
+
+  const document = await loadCatalogSource(source)
+  const changes = diffSeeds(catalog.seeds, document.seeds, previousVersion, document.version)
+  const db = getDb()
+  db.transaction(() => {
+    db.prepare(
+      `
+      UPDATE custom_catalogs
+      SET title = @title, description = @description, icon = @icon,
+        default_brew_type = @default_brew_type, seeds = @seeds, updated_at = @updated_at
+      WHERE id = @id
+    `
+    ).run({
+      id,
+      title: document.title,
+      description: document.description ?? '',
+      icon: document.icon ?? DEFAULT_ICON,
+      default_brew_type: document.defaultBrewType === 'formula' ? 'formula' : 'cask',
+      seeds: JSON.stringify(document.seeds),
+      updated_at: Date.now()
+    })
+    db.prepare('DELETE FROM catalog_items_cache WHERE catalog_key = ?').run(toCustomCatalogKey(id))
+    writeSubscription(db, id, source, changes)
+  })()
+  return getCustomCatalog(id) as CustomCatalog
+}
+
+export function setupCustomCatalogHandlers(): void {
+  ipcMain.handle('custom-catalogs:list', () => {
+    return listCustomCatalogs()
+  })
+  ipcMain.handle('custom-catalogs:save', (_, payload: CustomCatalogInput) => {
+    try {
+      return { success: true, catalog: saveCustomCatalog(payload) }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save catalog.'
+      }
+    }
+  })
+  ipcMain.handle('custom-catalogs:subscribe', async (_, payload: { source: string }) => {
+    try {
+      return { success: true, catalog: await subscribeCatalog(payload.source ?? '') }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to subscribe to catalog.'
+      }
+    }
+  })
+  ipcMain.handle('custom-catalogs:refresh', async (_, payload: { id: number }) => {
+    try {
+      return { success: true, catalog: await refreshCatalogSubscription(Number(payload.id)) }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to refresh catalog.'
+      }
+    }
+  })
+  ipcMain.handle('custom-catalogs:choose-file', async () => {
+    const result = await dialog.showOpenDialog({
+      title: 'Subscribe to Catalog File',
+      properties: ['openFile'],
+      filters: [{ name: 'Catalog JSON', extensions: ['json'] }]
+    })
+    const filePath = result.filePaths[0]
+    return result.canceled || !filePath ? null : filePath
+  })
+  ipcMain.handle('custom-catalogs:delete', (_, payload: { id: number }) => {
+    return deleteCustomCatalog(Number(payload.id))
+  })
+  ipcMain.handle('custom-catalogs:reorder', (_, payload: { ids: number[] }) => {
+    return reorderCustomCatalogs(
+      (payload.ids ?? []).map(Number).filter((id) => Number.isInteger(id))
+    )
+  })
+}
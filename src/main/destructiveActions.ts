@@ -0,0 +1,503 @@
+import { existsSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import { ipcMain } from 'electron'
+import type Database from 'better-sqlite3'
+import {
+  cleanupReport,
+  cleanupTarget,
+  measureDiskBytes,
+  normalizeCleanupOptions,
+  uninstallFootprint,
+  type BrewCleanupOptions,
+  type BrewType
+} from './brewService'
+import type { CommandSpec } from './commandSpec'
+
+export type DestructiveActionRequest =
+  | { kind: 'brew-uninstall'; packages: Array<{ token: string; brewType: BrewType }> }
+  | { kind: 'force-clean-cask'; token: string }
+  | { kind: 'mole-uninstall'; name: string }
+  | { kind: 'mole-clean' }
+  | ({ kind: 'brew-cleanup' } & BrewCleanupOptions)
+
+export type DestructiveActionKind = DestructiveActionRequest['kind']
+
+export type DestructiveActionPath = {
+  path: string
+  bytes: number | null
+}
+
+export type DestructiveActionPreview = {
+  actionId: string
+  kind: DestructiveActionKind
+  target: string
+  title: string
+  summary: string
+  paths: DestructiveActionPath[]
+  notes: string[]
+  dryRunOutput: string | null
+  risk: 'normal' | 'high'
+  // Risky actions are only approved when this phrase is typed back exactly.
+  confirmationPhrase: string | null
+  createdAt: number
+}
+
+export type DestructiveActionDecision = {
+  id: number
+  actionId: string
+  kind: DestructiveActionKind
+  target: string
+  decision: 'confirmed' | 'cancelled'
+  risk: 'normal' | 'high'
+  paths: string[]
+  decidedAt: number
+}
+
+export type DestructiveActionDeps = {
+  getDb: () => Database.Database
+  runCommand: (
+    bin: string,
+    args: string[],
+    timeoutMs?: number
+  ) => Promise<{ success: boolean; stdout: string; stderr: string; error?: string }>
+}
+
+type PendingAction = {
+  request: DestructiveActionRequest
+  preview: DestructiveActionPreview
+  approved: boolean
+}
+
+const PREVIEW_TTL_MS = 1000 * 60 * 15
+const MAX_MEASURED_PATHS = 20
+const MAX_DRY_RUN_OUTPUT = 20000
+const DEFAULT_LOG_LIMIT = 100
+const MAX_LOG_LIMIT = 500
+const CASK_TOKEN_PATTERN = /^[a-z0-9][a-z0-9+_.@-]*$/i
+const ESC = String.fromCharCode(27)
+const ANSI_PATTERN = new RegExp(`${ESC}\\[[0-?]*[ -/]*[@-~]|${ESC}[@-_]`, 'g')
+
+let deps: DestructiveActionDeps | null = null
+let nextActionId = 1
+const pending = new Map<string, PendingAction>()
+
+function getDeps(): DestructiveActionDeps {
+  if (!deps) throw new Error('Destructive action policy is not configured.')
+  return deps
+}
+
+export function configureDestructiveActions(nextDeps: DestructiveActionDeps): void {
+  deps = nextDeps
+}
+
+export function caskResiduePaths(token: string): string[] {
+  return ['/opt/homebrew/Caskroom', '/usr/local/Caskroom']
+    .map((baseDir) => join(baseDir, token))
+    .filter((path) => existsSync(path))
+}
+
+function moleUninstallPaths(name: string): string[] {
+  const home = homedir()
+  return [
+    join('/Applications', `${name}.app`),
+    join(home, 'Applications', `${name}.app`),
+    join(home, 'Library', 'Application Support', name),
+    join(home, 'Library', 'Caches', name),
+    join(home, 'Library', 'Logs', name)
+  ].filter((path) => existsSync(path))
+}
+
+// Tap-qualified names (user/tap/foo) are installed under their short token.
+function shortToken(token: string): string {
+  return token.slice(token.lastIndexOf('/') + 1)
+}
+
+async function measurePaths(paths: string[]): Promise<DestructiveActionPath[]> {
+  const measured = await Promise.all(
+    paths.slice(0, MAX_MEASURED_PATHS).map(async (path) => ({
+      path,
+      bytes: await measureDiskBytes([path])
+    }))
+  )
+  return [...measured, ...paths.slice(MAX_MEASURED_PATHS).map((path) => ({ path, bytes: null }))]
+}
+
+function prunePending(): void {
+  const cutoff = Date.now() - PREVIEW_TTL_MS
+  pending.forEach((entry, actionId) => {
+    if (entry.preview.createdAt < cutoff) pending.delete(actionId)
+  })
+}
+
+type PreviewDraft = Omit<DestructiveActionPreview, 'actionId' | 'kind' | 'createdAt'>
+
+// The preview and the later approval check both read this normalized request, so an approval
+// never covers packages the preview dropped.
+function normalizeRequest(request: DestructiveActionRequest): DestructiveActionRequest | null {
+  switch (request?.kind) {
+    case 'brew-uninstall':
+      return {
+        kind: request.kind,
+        packages: (Array.isArray(request.packages) ? request.packages : [])
+          .map((entry) => ({
+            token: shortToken(String(entry?.token ?? '')),
+            brewType: entry?.brewType
+          }))
+          .filter(
+            (entry) =>
+              CASK_TOKEN_PATTERN.test(entry.token) &&
+              (entry.brewType === 'cask' || entry.brewType === 'formula')
+          )
+      }
+    case 'force-clean-cask':
+      return { kind: request.kind, token: String(request.token ?? '').trim() }
+    case 'mole-uninstall':
+      return { kind: request.kind, name: String(request.name ?? '').trim() }
+    case 'mole-clean':
+      return { kind: request.kind }
+    case 'brew-cleanup':
+      return { kind: request.kind, ...normalizeCleanupOptions(request) }
+    default:
+      return null
+  }
+}
+
+async function previewBrewUninstall(
+  valid: Array<{ token: string; brewType: BrewType }>
+): Promise<PreviewDraft> {
+  if (valid.length === 0) throw new Error('No packages to uninstall.')
+
+  const footprints = await Promise.all(
+    valid.map((entry) => uninstallFootprint(entry.token, entry.brewType))
+  )
+  const notes = footprints.flatMap((footprint, index) =>
+    footprint.dependents.length > 0
+      ? [
+          `${footprint.dependents.join(', ')} depend on ${valid[index].token}. Uninstalling it may break them.`
+        ]
+      : []
+  )
+  const tokens = valid.map((entry) => entry.token)
+  const target = tokens.join(', ')
+  const risky = notes.length > 0
+
+  return {
+    target,
+    title: valid.length === 1 ? `Uninstall ${tokens[0]}` : `Uninstall ${valid.length} packages`,
+    summary: `brew uninstall removes ${target} and the files below.`,
+    paths: await measurePaths(footprints.flatMap((footprint) => footprint.paths)),
+    notes,
+    dryRunOutput: null,
+    risk: risky ? 'high' : 'normal',
+    confirmationPhrase: risky ? (valid.length === 1 ? tokens[0] : 'uninstall') : null
+  }
+}
+
+async function previewForceClean(token: string): Promise<PreviewDraft> {
+  if (!CASK_TOKEN_PATTERN.test(token)) throw new Error('Invalid cask token format.')
+  const paths = caskResiduePaths(token)
+  return {
+    target: token,
+    title: `Force clean ${token}`,
+    summary: 'These Caskroom directories are deleted directly, without going through Homebrew.',
+    paths: await measurePaths(paths),
+    notes: paths.length === 0 ? [`No Caskroom residue exists for ${token}.`] : [],
+    dryRunOutput: null,
+    risk: 'high',
+    confirmationPhrase: token
+  }
+}
+
+async function previewMoleUninstall(name: string): Promise<PreviewDraft> {
+  if (!name || name.includes('/')) throw new Error('Invalid application name.')
+  return {
+    target: name,
+    title: `Uninstall ${name}`,
+    summary: 'Mole removes the application bundle and the support files it finds.',
+    paths: await measurePaths(moleUninstallPaths(name)),
+    notes: ['Mole may also remove preferences, launch agents and containers not listed here.'],
+    dryRunOutput: null,
+    risk: 'high',
+    confirmationPhrase: name
+  }
+}
+
+async function previewMoleClean(): Promise<PreviewDraft> {
+  const result = await getDeps().runCommand('mo', ['clean', '--dry-run'], 1000 * 60 * 3)
+  const output = [result.stdout, result.stderr]
+    .filter(Boolean)
+    .join('\n')
+    .replace(ANSI_PATTERN, '')
+    .trim()
+  return {
+    target: 'system',
+    title: 'Clean caches and logs',
+    summary: 'mo clean deletes caches, logs and temporary files across the system.',
+    paths: [],
+    notes: result.success
+      ? []
+      : [
+          `The dry run did not complete: ${result.error || result.stderr.trim() || 'unknown error'}`
+        ],
+    dryRunOutput: output ? output.slice(0, MAX_DRY_RUN_OUTPUT) : null,
+    risk: 'high',
+    confirmationPhrase: 'clean'
+  }
+}
+
+async function previewBrewCleanup(options: BrewCleanupOptions): Promise<PreviewDraft> {
+  const report = await cleanupReport(options.pruneDays)
+  if (!report.success) throw new Error(report.error ?? 'Failed to inspect Homebrew disk usage.')
+
+  const notes: string[] = []
+  if (options.autoremove) {
+    notes.push(
+      report.orphans.length > 0
+        ? `brew autoremove uninstalls ${report.orphans.join(', ')}.`
+        : 'brew autoremove found no unused dependencies.'
+    )
+  }
+  if (options.removeStaleCaskroom) {
+    notes.push('Stale Caskroom directories are deleted directly, without going through Homebrew.')
+  }
+  const risky = options.autoremove || options.removeStaleCaskroom
+
+  return {
+    target: cleanupTarget(options),
+    title: 'Clean up Homebrew',
+    summary: `brew cleanup removes old versions and downloads older than ${options.pruneDays} days.`,
+    paths: options.removeStaleCaskroom
+      ? report.staleCaskroom.map((entry) => ({ path: entry.path, bytes: entry.bytes }))
+      : [],
+    notes,
+    dryRunOutput:
+      report.prunePreview.length > 0
+        ? report.prunePreview.join('\n').slice(0, MAX_DRY_RUN_OUTPUT)
+        : null,
+    risk: risky ? 'high' : 'normal',
+    confirmationPhrase: risky ? 'cleanup' : null
+  }
+}
+
+export async function previewDestructiveAction(
+  request: DestructiveActionRequest
+): Promise<{ success: boolean; preview?: DestructiveActionPreview; error?: string }> {
+  prunePending()
+  const normalized = normalizeRequest(request)
+  if (!normalized) return { success: false, error: 'Unknown destructive action.' }
+  try {
+    let draft: PreviewDraft
+    switch (normalized.kind) {
+      case 'brew-uninstall':
+        draft = await previewBrewUninstall(normalized.packages)
+        break
+      case 'force-clean-cask':
+        draft = await previewForceClean(normalized.token)
+        break
+      case 'mole-uninstall':
+        draft = await previewMoleUninstall(normalized.name)
+        break
+      case 'mole-clean':
+        draft = await previewMoleClean()
+        break
+      case 'brew-cleanup':
+        draft = await previewBrewCleanup(normalized)
+        break
+    }
+
+    const preview: DestructiveActionPreview = {
+      ...draft,
+      actionId: `action-${Date.now()}-${nextActionId++}`,
+      kind: normalized.kind,
+      createdAt: Date.now()
+    }
+    pending.set(preview.actionId, { request: normalized, preview, approved: false })
+    return { success: true, preview }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to preview action.'
+    }
+  }
+}
+
+function logDecision(preview: DestructiveActionPreview, decision: 'confirmed' | 'cancelled'): void {
+  getDeps()
+    .getDb()
+    .prepare(
+      `
+      INSERT INTO destructive_action_log (action_id, kind, target, decision, risk, paths, decided_at)
+      VALUES (@action_id, @kind, @target, @decision, @risk, @paths, @decided_at)
+    `
+    )
+    .run({
+      action_id: preview.actionId,
+      kind: preview.kind,
+      target: preview.target,
+      decision,
+      risk: preview.risk,
+      paths: JSON.stringify(preview.paths.map((entry) => entry.path)),
+      decided_at: Date.now()
+    })
+}
+
+export function decideDestructiveAction(payload: {
+  actionId: string
+  approved: boolean
+  typedConfirmation?: string
+}): { success: boolean; error?: string } {
+  const entry = pending.get(payload.actionId)
+  if (!entry || entry.approved) {
+    return { success: false, error: 'This confirmation has expired. Preview the action again.' }
+  }
+  const { preview } = entry
+
+  if (!payload.approved) {
+    pending.delete(payload.actionId)
+    logDecision(preview, 'cancelled')
+    return { success: true }
+  }
+  if (
+    preview.confirmationPhrase !== null &&
+    (payload.typedConfirmation ?? '').trim() !== preview.confirmationPhrase
+  ) {
+    return { success: false, error: `Type ${preview.confirmationPhrase} to confirm.` }
+  }
+
+  entry.approved = true
+  logDecision(preview, 'confirmed')
+  return { success: true }
+}
+
+// Main-process operations that delete files themselves require a matching, unused approval.
+export function consumeApproval(
+  actionId: string | undefined,
+  kind: DestructiveActionKind,
+  target: string
+): boolean {
+  const entry = actionId ? pending.get(actionId) : undefined
+  if (!entry || !entry.approved) return false
+  if (entry.preview.kind !== kind || entry.preview.target !== target) return false
+  pending.delete(actionId as string)
+  return true
+}
+
+type CommandTargets = {
+  brewTokens: string[]
+  moleNames: string[]
+  moleClean: boolean
+}
+
+function commandTargets(specs: CommandSpec[]): CommandTargets {
+  return {
+    brewTokens: specs
+      .filter((spec) => spec.binary === 'brew' && spec.args[0] === 'uninstall')
+      .flatMap((spec) => spec.args.slice(1).filter((arg) => !arg.startsWith('-')))
+      .map(shortToken),
+    moleNames: specs
+      .filter((spec) => spec.binary === 'mo' && spec.args[0] === 'uninstall')
+      .map((spec) => spec.args[1]),
+    moleClean: specs.some(
+      (spec) => spec.binary === 'mo' && spec.args[0] === 'clean' && !spec.args.includes('--dry-run')
+    )
+  }
+}
+
+function isApprovedFor(request: DestructiveActionRequest, targets: CommandTargets): boolean {
+  const { brewTokens, moleNames, moleClean } = targets
+  switch (request.kind) {
+    case 'brew-uninstall': {
+      const approved = request.packages.map((entry) => entry.token)
+      return (
+        moleNames.length === 0 &&
+        !moleClean &&
+        brewTokens.every((token) => approved.includes(token))
+      )
+    }
+    case 'mole-uninstall':
+      return (
+        brewTokens.length === 0 &&
+        !moleClean &&
+        moleNames.length === 1 &&
+        moleNames[0] === request.name
+      )
+    case 'mole-clean':
+      return brewTokens.length === 0 && moleNames.length === 0
+    default:
+      return false
+  }
+}
+
+// Queued commands that uninstall or clean something need an unused approval whose preview
+// covered them; anything else needs none.
+export function consumeCommandApproval(
+  actionId: string | undefined,
+  specs: CommandSpec[]
+): boolean {
+  const targets = commandTargets(specs)
+  if (targets.brewTokens.length === 0 && targets.moleNames.length === 0 && !targets.moleClean) {
+    return true
+  }
+  const entry = actionId ? pending.get(actionId) : undefined
+  if (!entry || !entry.approved || !isApprovedFor(entry.request, targets)) return false
+  pending.delete(actionId as string)
+  return true
+}
+
+export function listDestructiveActionLog(limit = DEFAULT_LOG_LIMIT): DestructiveActionDecision[] {
+  const rows = getDeps()
+    .getDb()
+    .prepare(
+      `
+      SELECT id, action_id, kind, target, decision, risk, paths, decided_at
+      FROM destructive_action_log
+      ORDER BY decided_at DESC, id DESC
+      LIMIT ?
+    `
+    )
+    .all(Math.min(MAX_LOG_LIMIT, Math.max(1, Math.floor(limit)))) as Array<{
+    id: number
+    action_id: string
+    kind: DestructiveActionKind
+    target: string
+    decision: 'confirmed' | 'cancelled'
+    risk: 'normal' | 'high'
+    paths: string
+    decided_at: number
+  }>
+
+  return rows.map((row) => {
+    let paths: string[] = []
+    try {
+      paths = JSON.parse(row.paths) as string[]
+    } catch {
+      paths = []
+    }
+    return {
+      id: row.id,
+      actionId: row.action_id,
+      kind: row.kind,
+      target: row.target,
+      decision: row.decision,
+      risk: row.risk,
+      paths,
+      decidedAt: row.decided_at
+    }
+  })
+}
+
+export function setupDestructiveActionHandlers(): void {
+  ipcMain.handle('destructive:preview', (_, payload: DestructiveActionRequest) => {
+    return previewDestructiveAction(payload)
+  })
+  ipcMain.handle(
+    'destructive:decide',
+    (_, payload: { actionId: string; approved: boolean; typedConfirmation?: string }) => {
+      return decideDestructiveAction(payload)
+    }
+  )
+  ipcMain.handle('destructive:log', (_, payload?: { limit?: number }) => {
+    return listDestructiveActionLog(payload?.limit)
+  })
+}
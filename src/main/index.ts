@@ -1,12 +1,94 @@
-import { app, shell, BrowserWindow, ipcMain, nativeTheme } from 'electron'
+import { app, shell, BrowserWindow, dialog, ipcMain, nativeTheme } from 'electron'
 import { join } from 'path'
-import { spawn } from 'child_process'
-import { chmodSync, createWriteStream, existsSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs'
+import { execFile, spawn } from 'child_process'
+import {
+  chmodSync,
+  createWriteStream,
+  existsSync,
+  readFileSync,
+  readlinkSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync
+} from 'fs'
 import Database from 'better-sqlite3'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import electronUpdater from 'electron-updater'
 import { spawn as spawnPty, type IPty } from 'node-pty'
 import icon from '../renderer/src/assets/logo.png?asset'
+import {
+  configureBrewService,
+  info as brewInfo,
+  listInstalled as listBrewInstalled,
+  outdated as brewOutdated,
+  setupBrewServiceHandlers,
+  type BrewOutdatedPackage
+} from './brewService'
+import {
+  brewCommand,
+  formatCommandSpec,
+  toCommandSpec,
+  type CommandInput,
+  type CommandSpec
+} from './commandSpec'
+import {
+  BREWFILE_BUILTIN_TAPS,
+  BREWFILE_TOKEN_PATTERN,
+  diffBrewfileEntries,
+  formatBrewfile,
+  parseBrewfile,
+  planBrewfileApply,
+  type BrewfileEntry,
+  type BrewfileImportPreview
+} from './brewfile'
+import { configureCustomCatalogs, setupCustomCatalogHandlers } from './customCatalogs'
+import {
+  caskResiduePaths,
+  configureDestructiveActions,
+  consumeApproval,
+  setupDestructiveActionHandlers
+} from './destructiveActions'
+import { onJobBatchStart, onJobItemFinished, setupJobQueueHandlers } from './jobQueue'
+import { setupLogTailHandlers, stopAllLogTails } from './logTail'
+import {
+  configureScheduler,
+  getLastScheduledCheck,
+  onScheduledCheck,
+  setupSchedulerHandlers,
+  startScheduler,
+  stopScheduler,
+  type AppUpdateCheck
+} from './scheduler'
+import { configureRuntimeProjects, setupRuntimeProjectHandlers } from './runtimeProjects'
+import {
+  appendScrollback,
+  configureTerminalScrollback,
+  finishAllScrollbackRecordings,
+  finishScrollbackRecording,
+  setupTerminalScrollbackHandlers,
+  startScrollbackRecording
+} from './terminalScrollback'
+import {
+  cancelAllTerminalExecs,
+  configureTerminalExec,
+  setupTerminalExecHandlers
+} from './terminalExec'
+import {
+  resolveTerminalShell,
+  resolveTerminalShellArgs,
+  setupTerminalShellHandlers
+} from './terminalShells'
+import { configureRuntimes, setupRuntimeHandlers } from './runtimes'
+import { captureSnapshot, configureSnapshots, setupSnapshotHandlers } from './snapshots'
+import {
+  createTray,
+  destroyTray,
+  hasTray,
+  setTrayOutdatedCount,
+  type TrayAction,
+  type TrayActionResult
+} from './tray'
 
 const { autoUpdater } = electronUpdater
 
@@ -56,6 +138,17 @@ function createWindow(): void {
   }
 }
 
+function showMainWindow(): void {
+  const [window] = BrowserWindow.getAllWindows()
+  if (!window) {
+    createWindow()
+    return
+  }
+  if (window.isMinimized()) window.restore()
+  window.show()
+  window.focus()
+}
+
 type BrewStatus = {
   installed: boolean
   currentVersion: string | null
@@ -69,19 +162,12 @@ type MoleStatus = {
   installMethod: string | null
 }
 
-type NodeVersionCacheItem = {
-  formula: string
-  installedVersion: string | null
-  installed: boolean
-  active: boolean
-}
-
 type MoleUninstallCandidate = {
   name: string
   size: string | null
   lastUsed: string | null
   uninstallSource: 'brew' | 'mole'
-  uninstallCommand: string
+  uninstallCommand: CommandSpec
 }
 
 type MoleUninstallAppsCache = {
@@ -164,8 +250,34 @@ type CatalogCachePayload = {
   items: CatalogCacheItem[]
 }
 
+type PackageHold = {
+  token: string
+  brewType: 'cask' | 'formula'
+}
+
+type JobHistoryEntry = {
+  id: number
+  command: string
+  origin: string
+  token: string | null
+  startedAt: number
+  finishedAt: number
+  exitCode: number | null
+  success: boolean
+  output: string
+  error: string | null
+}
+
+type JobHistoryRecord = Omit<
+  JobHistoryEntry,
+  'id' | 'exitCode' | 'success' | 'output' | 'error'
+> & {
+  result: CommandResult
+}
+
 type TerminalSessionState = {
   pty: IPty
+  shellPath: string
   flowPaused: boolean
 }
 
@@ -173,6 +285,8 @@ const COMMON_BREW_PATHS = ['/opt/homebrew/bin/brew', '/usr/local/bin/brew']
 let nextTerminalSessionId = 1
 const terminalSessions = new Map<number, TerminalSessionState>()
 let cacheDb: Database.Database | null = null
+const JOB_HISTORY_MAX_ROWS = 2000
+const JOB_HISTORY_MAX_OUTPUT_CHARS = 64 * 1024
 let currentUpdateInfo: any = null
 let downloadedDmgPath: string | null = null
 
@@ -182,6 +296,11 @@ if (!app.isPackaged) {
 autoUpdater.autoDownload = false
 autoUpdater.autoInstallOnAppQuit = true
 
+configureBrewService({
+  resolveBrewPath,
+  runCommand
+})
+
 function getCacheDb(): Database.Database {
   if (cacheDb) return cacheDb
 
@@ -233,21 +352,101 @@ function getCacheDb(): Database.Database {
       updated_at INTEGER NOT NULL,
       PRIMARY KEY (catalog_key, token)
     );
+
+    CREATE TABLE IF NOT EXISTS job_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      command TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      token TEXT,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER NOT NULL,
+      exit_code INTEGER,
+      success INTEGER NOT NULL DEFAULT 0,
+      output TEXT NOT NULL,
+      error TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS job_history_started_at_idx ON job_history (started_at);
+    CREATE INDEX IF NOT EXISTS job_history_token_idx ON job_history (token);
+
+    CREATE TABLE IF NOT EXISTS package_holds (
+      brew_type TEXT NOT NULL,
+      token TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (brew_type, token)
+    );
+
+    CREATE TABLE IF NOT EXISTS scheduler_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      enabled INTEGER NOT NULL DEFAULT 0,
+      interval_minutes INTEGER NOT NULL,
+      quiet_hours_start INTEGER,
+      quiet_hours_end INTEGER,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS custom_catalogs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      icon TEXT NOT NULL,
+      default_brew_type TEXT NOT NULL,
+      seeds TEXT NOT NULL,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS catalog_subscriptions (
+      catalog_id INTEGER PRIMARY KEY,
+      source TEXT NOT NULL,
+      version TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      changes TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS destructive_action_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      target TEXT NOT NULL,
+      decision TEXT NOT NULL,
+      risk TEXT NOT NULL,
+      paths TEXT NOT NULL,
+      decided_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS package_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      reason TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      packages TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS runtime_projects (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      path TEXT NOT NULL UNIQUE,
+      added_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS terminal_scrollbacks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      label TEXT NOT NULL,
+      shell TEXT NOT NULL,
+      cwd TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER,
+      exit_code INTEGER,
+      bytes INTEGER NOT NULL,
+      truncated INTEGER NOT NULL
+    );
   `)
 
   cacheDb = db
   return db
 }
 
-function chunkArray<T>(items: T[], size: number): T[][] {
-  if (size <= 0) return [items]
-  const chunks: T[][] = []
-  for (let i = 0; i < items.length; i += size) {
-    chunks.push(items.slice(i, i + size))
-  }
-  return chunks
-}
-
 function toDuckDuckGoFavicon(domainOrHomepage: string | null | undefined): string | null {
   if (!domainOrHomepage) return null
   try {
@@ -634,10 +833,21 @@ function getTerminalEnv(): NodeJS.ProcessEnv {
   return env
 }
 
-function runCommand(bin: string, args: string[], timeoutMs = 1000 * 60 * 20): Promise<CommandResult> {
+// Only commands the user asked for pass `historyOrigin`; status queries and background checks
+// would otherwise bury their actions in job_history.
+function runCommand(
+  bin: string,
+  args: string[],
+  timeoutMs = 1000 * 60 * 20,
+  historyOrigin: string | null = null,
+  env: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<CommandResult> {
   return new Promise((resolve) => {
+    const startedAt = Date.now()
     const child = spawn(bin, args, {
-      env: getBaseEnv()
+      env: { ...getBaseEnv(), ...env },
+      signal
     })
 
     let stdout = ''
@@ -647,6 +857,16 @@ function runCommand(bin: string, args: string[], timeoutMs = 1000 * 60 * 20): Pr
     const finalize = (result: CommandResult): void => {
       if (settled) return
       settled = true
+      if (historyOrigin !== null) {
+        recordJobHistory({
+          command: [bin, ...args].map(shellQuote).join(' '),
+          origin: historyOrigin,
+          token: null,
+          startedAt,
+          finishedAt: Date.now(),
+          result
+        })
+      }
       resolve(result)
     }
 
@@ -692,8 +912,13 @@ function runCommand(bin: string, args: string[], timeoutMs = 1000 * 60 * 20): Pr
   })
 }
 
-function runShellCommand(command: string, timeoutMs = 1000 * 60 * 20): Promise<CommandResult> {
+function runShellCommand(
+  command: string,
+  timeoutMs = 1000 * 60 * 20,
+  historyOrigin: string | null = null
+): Promise<CommandResult> {
   return new Promise((resolve) => {
+    const startedAt = Date.now()
     const child = spawn('/bin/zsh', ['-lc', command], {
       env: getBaseEnv()
     })
@@ -705,6 +930,16 @@ function runShellCommand(command: string, timeoutMs = 1000 * 60 * 20): Promise<C
     const finalize = (result: CommandResult): void => {
       if (settled) return
       settled = true
+      if (historyOrigin !== null) {
+        recordJobHistory({
+          command,
+          origin: historyOrigin,
+          token: null,
+          startedAt,
+          finishedAt: Date.now(),
+          result
+        })
+      }
       resolve(result)
     }
 
@@ -750,6 +985,96 @@ function runShellCommand(command: string, timeoutMs = 1000 * 60 * 20): Promise<C
   })
 }
 
+function formatJobHistoryOutput(result: CommandResult): string {
+  const output = [result.stdout, result.stderr].filter((part) => part.length > 0).join('\n')
+  if (output.length <= JOB_HISTORY_MAX_OUTPUT_CHARS) return output
+  return `[output truncated]\n${output.slice(output.length - JOB_HISTORY_MAX_OUTPUT_CHARS)}`
+}
+
+function recordJobHistory(record: JobHistoryRecord): void {
+  try {
+    const db = getCacheDb()
+    db.prepare(
+      `
+      INSERT INTO job_history (command, origin, token, started_at, finished_at, exit_code, success, output, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      record.command,
+      record.origin,
+      record.token,
+      record.startedAt,
+      record.finishedAt,
+      record.result.code,
+      record.result.success ? 1 : 0,
+      formatJobHistoryOutput(record.result),
+      record.result.error ?? null
+    )
+    db.prepare(
+      `
+      DELETE FROM job_history
+      WHERE id <= (SELECT id FROM job_history ORDER BY id DESC LIMIT 1 OFFSET ?)
+    `
+    ).run(JOB_HISTORY_MAX_ROWS)
+  } catch {
+    // history is best-effort and must never break command execution
+  }
+}
+
+function listJobHistory(query: {
+  token?: string
+  failedOnly?: boolean
+  limit?: number
+}): JobHistoryEntry[] {
+  const db = getCacheDb()
+  const conditions: string[] = []
+  const params: Array<string | number> = []
+  const token = query.token?.trim()
+  if (token) {
+    conditions.push('(token = ? OR command LIKE ?)')
+    params.push(token, `%${token}%`)
+  }
+  if (query.failedOnly) {
+    conditions.push('success = 0')
+  }
+  const limit = Math.min(500, Math.max(1, Math.floor(query.limit ?? 200)))
+  const rows = db
+    .prepare(
+      `
+      SELECT id, command, origin, token, started_at, finished_at, exit_code, success, output, error
+      FROM job_history
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY id DESC
+      LIMIT ?
+    `
+    )
+    .all(...params, limit) as Array<{
+    id: number
+    command: string
+    origin: string
+    token: string | null
+    started_at: number
+    finished_at: number
+    exit_code: number | null
+    success: number
+    output: string
+    error: string | null
+  }>
+
+  return rows.map((row) => ({
+    id: row.id,
+    command: row.command,
+    origin: row.origin,
+    token: row.token,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    exitCode: row.exit_code,
+    success: row.success === 1,
+    output: row.output,
+    error: row.error
+  }))
+}
+
 function sendUpdateEvent(channel: string, payload?: unknown): void {
   BrowserWindow.getAllWindows().forEach((window) => {
     window.webContents.send(channel, payload)
@@ -921,52 +1246,56 @@ function resolveMacDmgUrlCandidatesFromUpdateInfo(updateInfo: any): string[] {
   return [...new Set(candidates)]
 }
 
-function setupUpdateHandlers(): void {
-  ipcMain.handle('check-for-updates', async () => {
-    if (!app.isPackaged) {
+async function checkForAppUpdate(): Promise<AppUpdateCheck> {
+  if (!app.isPackaged) {
+    return {
+      success: true,
+      updateAvailable: false,
+      currentVersion: `v${app.getVersion()}`,
+      latestVersion: `v${app.getVersion()}`,
+      releaseNotes: 'Update checks are disabled in development mode.'
+    }
+  }
+
+  try {
+    const result = await autoUpdater.checkForUpdates()
+    if (!result) {
       return {
         success: true,
         updateAvailable: false,
         currentVersion: `v${app.getVersion()}`,
         latestVersion: `v${app.getVersion()}`,
-        releaseNotes: 'Update checks are disabled in development mode.'
+        releaseNotes: ''
       }
     }
 
-    try {
-      const result = await autoUpdater.checkForUpdates()
-      if (!result) {
-        return {
-          success: true,
-          updateAvailable: false,
-          currentVersion: `v${app.getVersion()}`,
-          latestVersion: `v${app.getVersion()}`,
-          releaseNotes: ''
-        }
-      }
-
-      currentUpdateInfo = result.updateInfo
-      const latestVersion = `v${result.updateInfo.version}`
-      const currentVersion = `v${app.getVersion()}`
-      const updateAvailable = result.updateInfo.version !== app.getVersion()
-      const dmgDownloadUrl = resolveMacDmgUrlFromUpdateInfo(result.updateInfo)
+    currentUpdateInfo = result.updateInfo
+    const latestVersion = `v${result.updateInfo.version}`
+    const currentVersion = `v${app.getVersion()}`
+    const updateAvailable = result.updateInfo.version !== app.getVersion()
+    const dmgDownloadUrl = resolveMacDmgUrlFromUpdateInfo(result.updateInfo)
 
-      return {
-        success: true,
-        updateAvailable,
-        currentVersion,
-        latestVersion,
-        releaseNotes: parseReleaseNotes((result.updateInfo as any).releaseNotes),
-        downloadUrl: dmgDownloadUrl
-      }
-    } catch (error) {
-      return {
-        success: false,
-        updateAvailable: false,
-        error: error instanceof Error ? error.message : 'Failed to check updates.',
-        currentVersion: `v${app.getVersion()}`
-      }
+    return {
+      success: true,
+      updateAvailable,
+      currentVersion,
+      latestVersion,
+      releaseNotes: parseReleaseNotes((result.updateInfo as any).releaseNotes),
+      downloadUrl: dmgDownloadUrl
     }
+  } catch (error) {
+    return {
+      success: false,
+      updateAvailable: false,
+      error: error instanceof Error ? error.message : 'Failed to check updates.',
+      currentVersion: `v${app.getVersion()}`
+    }
+  }
+}
+
+function setupUpdateHandlers(): void {
+  ipcMain.handle('check-for-updates', async () => {
+    return checkForAppUpdate()
   })
 
   ipcMain.handle('download-and-install-update', async () => {
@@ -1123,34 +1452,44 @@ rm -f "$SCRIPT_PATH"
   })
 }
 
-function normalizeTerminalShell(rawShell?: string): string {
-  const candidate = (rawShell || '').trim()
-  if (!candidate) return process.env.APPPAD_TERMINAL_SHELL || process.env.SHELL || '/bin/zsh'
-
-  const basename = candidate.split('/').pop()?.toLowerCase() || ''
-  if (basename === 'zsh') return '/bin/zsh'
-  if (basename === 'bash') return '/bin/bash'
-  if (candidate === '/bin/zsh' || candidate === '/bin/bash') return candidate
-
-  return process.env.APPPAD_TERMINAL_SHELL || process.env.SHELL || '/bin/zsh'
+function normalizeTerminalCwd(cwd?: string): string {
+  const fallback = process.env.HOME || process.cwd()
+  if (!cwd || !cwd.startsWith('/')) return fallback
+  try {
+    return statSync(cwd).isDirectory() ? cwd : fallback
+  } catch {
+    return fallback
+  }
 }
 
-function createTerminalSession(shell?: string): { sessionId: number } {
-  const shellPath = normalizeTerminalShell(shell)
+function createTerminalSession(
+  shell?: string,
+  cwd?: string,
+  label?: string,
+  args?: unknown
+): { sessionId: number; shell: string } {
+  const shellPath = resolveTerminalShell(shell)
   const shellName = shellPath.split('/').pop()?.toLowerCase() || ''
-  const shellArgs = ['zsh', 'bash', 'fish'].includes(shellName) ? ['-l'] : []
+  const shellArgs = resolveTerminalShellArgs(shellPath, args)
   const sessionId = nextTerminalSessionId++
+  const sessionCwd = normalizeTerminalCwd(cwd)
   const pty = spawnPty(shellPath, shellArgs, {
     name: 'xterm-256color',
     cols: 120,
     rows: 30,
-    cwd: process.env.HOME || process.cwd(),
+    cwd: sessionCwd,
     env: getTerminalEnv()
   })
 
-  terminalSessions.set(sessionId, { pty, flowPaused: false })
+  terminalSessions.set(sessionId, { pty, shellPath, flowPaused: false })
+  startScrollbackRecording(sessionId, {
+    label: label?.trim() || shellName || 'Terminal',
+    shell: shellPath,
+    cwd: sessionCwd
+  })
 
   pty.onData((data) => {
+    appendScrollback(sessionId, data)
     BrowserWindow.getAllWindows().forEach((window) => {
       window.webContents.send('terminal:data', {
         sessionId,
@@ -1161,6 +1500,7 @@ function createTerminalSession(shell?: string): { sessionId: number } {
 
   pty.onExit((event) => {
     terminalSessions.delete(sessionId)
+    finishScrollbackRecording(sessionId, event.exitCode)
     BrowserWindow.getAllWindows().forEach((window) => {
       window.webContents.send('terminal:exit', {
         sessionId,
@@ -1169,7 +1509,7 @@ function createTerminalSession(shell?: string): { sessionId: number } {
     })
   })
 
-  return { sessionId }
+  return { sessionId, shell: shellPath }
 }
 
 function writeTerminalSession(sessionId: number, data: string): { success: boolean } {
@@ -1231,6 +1571,31 @@ function resizeTerminalSession(sessionId: number, cols: number, rows: number): {
   return { success: true }
 }
 
+// Polled by the renderer to persist tabs, so it bypasses runCommand and its history records.
+function getTerminalSessionCwd(sessionId: number): Promise<{ cwd: string | null }> {
+  const session = terminalSessions.get(sessionId)
+  if (!session) return Promise.resolve({ cwd: null })
+  const pid = session.pty.pid
+  if (process.platform === 'linux') {
+    try {
+      return Promise.resolve({ cwd: readlinkSync(`/proc/${pid}/cwd`) })
+    } catch {
+      return Promise.resolve({ cwd: null })
+    }
+  }
+  return new Promise((resolve) => {
+    execFile(
+      '/usr/sbin/lsof',
+      ['-a', '-p', String(pid), '-d', 'cwd', '-Fn'],
+      { timeout: 5000 },
+      (error, stdout) => {
+        const line = error ? undefined : stdout.split('\n').find((entry) => entry.startsWith('n/'))
+        resolve({ cwd: line ? line.slice(1) : null })
+      }
+    )
+  })
+}
+
 function closeTerminalSession(sessionId: number): { success: boolean } {
   const session = terminalSessions.get(sessionId)
   if (!session) {
@@ -1238,6 +1603,7 @@ function closeTerminalSession(sessionId: number): { success: boolean } {
   }
   session.pty.kill()
   terminalSessions.delete(sessionId)
+  finishScrollbackRecording(sessionId, null)
   return { success: true }
 }
 
@@ -1400,60 +1766,6 @@ function getInstalledBrewTokenMap(): Map<string, string> {
   return map
 }
 
-async function getNodeVersionItems(): Promise<NodeVersionCacheItem[]> {
-  const brewPath = await resolveBrewPath()
-  if (!brewPath) {
-    return []
-  }
-
-  const [search, nodeExecPathResult] = await Promise.all([
-    runCommand(brewPath, ['search', '/^node(@[0-9]+)?$/'], 1000 * 30),
-    runShellCommand('node -p "process.execPath" 2>/dev/null || true', 1000 * 15)
-  ])
-  const activeExecPath = nodeExecPathResult.stdout.trim()
-
-  const formulas = [
-    ...new Set(
-      search.stdout
-        .split('\n')
-        .map((line) => line.trim())
-        .filter((line) => /^node(?:@\d+)?$/.test(line))
-    )
-  ]
-
-  formulas.sort((a, b) => {
-    if (a === 'node') return -1
-    if (b === 'node') return 1
-    const aMajor = Number.parseInt(a.replace('node@', ''), 10)
-    const bMajor = Number.parseInt(b.replace('node@', ''), 10)
-    if (Number.isNaN(aMajor) || Number.isNaN(bMajor)) return a.localeCompare(b)
-    return bMajor - aMajor
-  })
-
-  const next: NodeVersionCacheItem[] = []
-  for (const formula of formulas) {
-    const versionResult = await runCommand(brewPath, ['list', '--versions', formula], 1000 * 20)
-    const tokens = versionResult.stdout.trim().split(/\s+/).filter(Boolean)
-    const installedVersion = tokens.length > 1 ? tokens[1] : null
-    const installed = installedVersion !== null
-    const active =
-      installed &&
-      activeExecPath.length > 0 &&
-      (activeExecPath.includes(`/Cellar/${formula}/`) ||
-        activeExecPath.includes(`/opt/homebrew/opt/${formula}/`) ||
-        activeExecPath.includes(`/usr/local/opt/${formula}/`))
-
-    next.push({
-      formula,
-      installedVersion,
-      installed,
-      active
-    })
-  }
-
-  return next
-}
-
 const MOLE_UNINSTALL_QUERY_COMMAND = "printf 'q\\n' | (mo uninstall)"
 
 async function queryMoleUninstallApps(): Promise<MoleUninstallAppsCache> {
@@ -1477,13 +1789,13 @@ async function queryMoleUninstallApps(): Promise<MoleUninstallAppsCache> {
       return {
         ...row,
         uninstallSource: 'brew',
-        uninstallCommand: `brew uninstall --cask ${shellQuote(matchedBrewToken)}`
+        uninstallCommand: brewCommand('uninstall', '--cask', matchedBrewToken)
       }
     }
     return {
       ...row,
       uninstallSource: 'mole',
-      uninstallCommand: `mo uninstall ${shellQuote(row.name)}`
+      uninstallCommand: { binary: 'mo', args: ['uninstall', row.name] }
     }
   })
 
@@ -1572,7 +1884,10 @@ async function getBrewStatus(): Promise<BrewStatus> {
   }
 }
 
-async function forceCleanBrewCaskResidue(tokenInput: string): Promise<{
+async function forceCleanBrewCaskResidue(
+  tokenInput: string,
+  approvalId?: string
+): Promise<{
   success: boolean
   message?: string
   error?: string
@@ -1587,6 +1902,10 @@ async function forceCleanBrewCaskResidue(tokenInput: string): Promise<{
     return { success: false, error: 'Invalid cask token format.' }
   }
 
+  if (!consumeApproval(approvalId, 'force-clean-cask', token)) {
+    return { success: false, error: 'Force cleanup was not confirmed.' }
+  }
+
   const brewPath = await resolveBrewPath()
   if (!brewPath) {
     return { success: false, error: 'Homebrew is not installed.' }
@@ -1607,9 +1926,7 @@ async function forceCleanBrewCaskResidue(tokenInput: string): Promise<{
   const infoText = `${infoResult.stdout}\n${infoResult.stderr}`
   const notInstalled = /not installed/i.test(infoText)
 
-  const residueCandidates = ['/opt/homebrew/Caskroom', '/usr/local/Caskroom']
-    .map((baseDir) => join(baseDir, token))
-    .filter((path) => existsSync(path))
+  const residueCandidates = caskResiduePaths(token)
 
   const removedPaths: string[] = []
   for (const residuePath of residueCandidates) {
@@ -1679,33 +1996,23 @@ async function refreshMoleStatusCache(): Promise<CachedStatusPayload<MoleStatus>
   return { status, updatedAt }
 }
 
-function getCachedNodeVersions(): CachedStatusPayload<NodeVersionCacheItem[]> {
-  return getJsonCacheValue<NodeVersionCacheItem[]>('node_versions_v1')
-}
-
-async function refreshNodeVersionsCache(): Promise<CachedStatusPayload<NodeVersionCacheItem[]>> {
-  const status = await getNodeVersionItems()
-  const updatedAt = setJsonCacheValue('node_versions_v1', status)
-  return { status, updatedAt }
-}
-
 function getCachedMoleUninstallApps(): CachedStatusPayload<MoleUninstallAppsCache> {
-  return getJsonCacheValue<MoleUninstallAppsCache>('mole_uninstall_apps_v1')
+  return getJsonCacheValue<MoleUninstallAppsCache>('mole_uninstall_apps_v2')
 }
 
 async function refreshMoleUninstallAppsCache(): Promise<CachedStatusPayload<MoleUninstallAppsCache>> {
   const status = await queryMoleUninstallApps()
-  const updatedAt = setJsonCacheValue('mole_uninstall_apps_v1', status)
+  const updatedAt = setJsonCacheValue('mole_uninstall_apps_v2', status)
   return { status, updatedAt }
 }
 
 async function syncInstalledAppsCache(): Promise<{ success: boolean; count: number; error?: string }> {
   try {
-    const brewPath = await resolveBrewPath()
     const db = getCacheDb()
     const now = Date.now()
+    const installedList = await listBrewInstalled()
 
-    if (!brewPath) {
+    if (!installedList.brewInstalled) {
       db.prepare('UPDATE installed_apps_cache SET installed = 0, updated_at = @updated_at').run({
         updated_at: now
       })
@@ -1737,9 +2044,7 @@ async function syncInstalledAppsCache(): Promise<{ success: boolean; count: numb
       return { success: false, count: 0, error: 'Homebrew is not installed.' }
     }
 
-    const caskListResult = await runCommand(brewPath, ['list', '--cask'])
-    const formulaListResult = await runCommand(brewPath, ['list', '--formula'])
-    if (!caskListResult.success || !formulaListResult.success) {
+    if (!installedList.success) {
       db.prepare('UPDATE installed_apps_cache SET installed = 0, updated_at = @updated_at').run({
         updated_at: now
       })
@@ -1758,26 +2063,11 @@ async function syncInstalledAppsCache(): Promise<{ success: boolean; count: numb
           updated_at = excluded.updated_at
       `
       ).run({ updated_at: now })
-      return {
-        success: false,
-        count: 0,
-        error:
-          caskListResult.error ||
-          caskListResult.stderr ||
-          formulaListResult.error ||
-          formulaListResult.stderr ||
-          'brew list failed'
-      }
+      return { success: false, count: 0, error: installedList.error || 'brew list failed' }
     }
 
-    const installedCaskTokens = caskListResult.stdout
-      .split('\n')
-      .map((line) => line.trim())
-      .filter(Boolean)
-    const installedFormulaTokens = formulaListResult.stdout
-      .split('\n')
-      .map((line) => line.trim())
-      .filter(Boolean)
+    const installedCaskTokens = installedList.casks
+    const installedFormulaTokens = installedList.formulae
 
     const installedTokens = [...new Set([...installedCaskTokens, ...installedFormulaTokens])]
     const installedSet = new Set(installedTokens)
@@ -1804,54 +2094,17 @@ async function syncInstalledAppsCache(): Promise<{ success: boolean; count: numb
       { name: string; description: string; homepage: string | null; brewType: 'cask' | 'formula' }
     >()
 
-    for (const tokenChunk of chunkArray(installedCaskTokens, 50)) {
-      if (tokenChunk.length === 0) continue
-      const infoResult = await runCommand(brewPath, ['info', '--json=v2', ...tokenChunk], 1000 * 60 * 10)
-      if (!infoResult.success || !infoResult.stdout.trim()) {
-        continue
-      }
-      try {
-        const parsed = JSON.parse(infoResult.stdout) as {
-          casks?: Array<{ token?: string; name?: string[]; desc?: string; homepage?: string }>
-        }
-        for (const cask of parsed.casks ?? []) {
-          const token = cask.token?.trim()
-          if (!token) continue
-          metadataMap.set(token, {
-            name: cask.name?.[0]?.trim() || token,
-            description: cask.desc?.trim() || '',
-            homepage: cask.homepage?.trim() || null,
-            brewType: 'cask'
-          })
-        }
-      } catch {
-        // Ignore invalid JSON chunk and fallback to token-only records.
-      }
-    }
-
-    for (const tokenChunk of chunkArray(installedFormulaTokens, 50)) {
-      if (tokenChunk.length === 0) continue
-      const infoResult = await runCommand(brewPath, ['info', '--json=v2', ...tokenChunk], 1000 * 60 * 10)
-      if (!infoResult.success || !infoResult.stdout.trim()) {
-        continue
-      }
-      try {
-        const parsed = JSON.parse(infoResult.stdout) as {
-          formulae?: Array<{ name?: string; desc?: string; homepage?: string }>
-        }
-        for (const formula of parsed.formulae ?? []) {
-          const token = formula.name?.trim()
-          if (!token) continue
-          metadataMap.set(token, {
-            name: token,
-            description: formula.desc?.trim() || '',
-            homepage: formula.homepage?.trim() || null,
-            brewType: 'formula'
-          })
-        }
-      } catch {
-        // Ignore invalid JSON chunk and fallback to token-only records.
-      }
+    const installedInfo = [
+      ...(await brewInfo(installedCaskTokens, 'cask')),
+      ...(await brewInfo(installedFormulaTokens, 'formula'))
+    ]
+    for (const pkg of installedInfo) {
+      metadataMap.set(pkg.token, {
+        name: pkg.name,
+        description: pkg.description,
+        homepage: pkg.homepage,
+        brewType: pkg.brewType
+      })
     }
 
     const appRows: InstalledAppCacheItem[] = installedTokens.map((token) => {
@@ -1966,9 +2219,16 @@ async function syncInstalledAppsCache(): Promise<{ success: boolean; count: numb
           fallback_icon_url: row.fallbackIconUrl,
           installed: 1,
           icon_key: row.iconKey,
-          install_command: row.brewType === 'cask' ? `brew install --cask ${row.token}` : `brew install ${row.token}`,
-          uninstall_command:
-            row.brewType === 'cask' ? `brew uninstall --cask ${row.token}` : `brew uninstall ${row.token}`,
+          install_command: formatCommandSpec(
+            row.brewType === 'cask'
+              ? brewCommand('install', '--cask', row.token)
+              : brewCommand('install', row.token)
+          ),
+          uninstall_command: formatCommandSpec(
+            row.brewType === 'cask'
+              ? brewCommand('uninstall', '--cask', row.token)
+              : brewCommand('uninstall', row.token)
+          ),
           brew_type: row.brewType,
           updated_at: now
         })
@@ -2021,6 +2281,331 @@ async function syncInstalledAppsCache(): Promise<{ success: boolean; count: numb
   }
 }
 
+async function listInstalledTaps(): Promise<string[]> {
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) return []
+  const result = await runCommand(brewPath, ['tap'], 1000 * 30)
+  if (!result.success) return []
+  return result.stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !BREWFILE_BUILTIN_TAPS.has(line))
+}
+
+// Formulae come from `brew leaves`, so dependencies pulled in by other formulae are neither
+// exported nor offered for removal.
+async function getInstalledBrewfileEntries(): Promise<BrewfileEntry[]> {
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) throw new Error('Homebrew is not installed.')
+  const [leaves, casks] = await Promise.all([
+    runCommand(brewPath, ['leaves'], 1000 * 60),
+    runCommand(brewPath, ['list', '--cask', '-1'], 1000 * 60)
+  ])
+  const failed = [leaves, casks].find((result) => !result.success)
+  if (failed) {
+    throw new Error(failed.error || failed.stderr.trim() || 'Failed to list installed packages.')
+  }
+
+  const toTokens = (stdout: string): string[] =>
+    stdout
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((token) => BREWFILE_TOKEN_PATTERN.test(token))
+  return [
+    ...toTokens(leaves.stdout).map((token) => ({ kind: 'brew' as const, token })),
+    ...toTokens(casks.stdout).map((token) => ({ kind: 'cask' as const, token }))
+  ]
+}
+
+async function exportBrewfile(): Promise<{
+  success: boolean
+  canceled?: boolean
+  filePath?: string
+  count?: number
+  error?: string
+}> {
+  try {
+    const taps = await listInstalledTaps()
+    const entries: BrewfileEntry[] = [
+      ...taps.map((token) => ({ kind: 'tap' as const, token })),
+      ...(await getInstalledBrewfileEntries())
+    ]
+
+    const result = await dialog.showSaveDialog({
+      title: 'Export Brewfile',
+      defaultPath: join(app.getPath('documents'), 'Brewfile'),
+      buttonLabel: 'Export'
+    })
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true }
+    }
+
+    writeFileSync(result.filePath, formatBrewfile(entries))
+    return { success: true, filePath: result.filePath, count: entries.length }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export Brewfile.'
+    }
+  }
+}
+
+async function diffBrewfile(filePath: string, content: string): Promise<BrewfileImportPreview> {
+  const { entries, skippedLines } = parseBrewfile(content)
+  const installedEntries = await getInstalledBrewfileEntries()
+  const installedTaps = entries.some((entry) => entry.kind === 'tap')
+    ? await listInstalledTaps()
+    : []
+  return {
+    filePath,
+    entries,
+    ...diffBrewfileEntries(entries, installedEntries, installedTaps),
+    skippedLines
+  }
+}
+
+async function importBrewfilePreview(): Promise<{
+  success: boolean
+  canceled?: boolean
+  preview?: BrewfileImportPreview
+  error?: string
+}> {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Import Brewfile',
+      properties: ['openFile']
+    })
+    const filePath = result.filePaths[0]
+    if (result.canceled || !filePath) {
+      return { success: false, canceled: true }
+    }
+
+    const preview = await diffBrewfile(filePath, readFileSync(filePath, 'utf8'))
+    if (preview.entries.length === 0) {
+      return { success: false, error: 'No tap, brew or cask entries found in the selected file.' }
+    }
+    return { success: true, preview }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read Brewfile.'
+    }
+  }
+}
+
+async function listPackageHolds(): Promise<PackageHold[]> {
+  const db = getCacheDb()
+  const caskRows = db
+    .prepare(`SELECT token FROM package_holds WHERE brew_type = 'cask' ORDER BY token ASC`)
+    .all() as Array<{ token: string }>
+  const holds: PackageHold[] = caskRows.map((row) => ({ token: row.token, brewType: 'cask' }))
+
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) return holds
+  const pinned = await runCommand(brewPath, ['list', '--pinned'], 1000 * 30)
+  if (pinned.success) {
+    pinned.stdout
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .forEach((token) => holds.push({ token, brewType: 'formula' }))
+  }
+  return holds
+}
+
+async function setPackageHold(payload: PackageHold & { held: boolean }): Promise<{
+  success: boolean
+  error?: string
+}> {
+  if (!BREWFILE_TOKEN_PATTERN.test(payload.token)) {
+    return { success: false, error: `Invalid package token: ${payload.token}` }
+  }
+
+  if (payload.brewType === 'cask') {
+    const db = getCacheDb()
+    if (payload.held) {
+      db.prepare(
+        `
+        INSERT INTO package_holds (brew_type, token, created_at)
+        VALUES ('cask', ?, ?)
+        ON CONFLICT(brew_type, token) DO NOTHING
+      `
+      ).run(payload.token, Date.now())
+    } else {
+      db.prepare(`DELETE FROM package_holds WHERE brew_type = 'cask' AND token = ?`).run(
+        payload.token
+      )
+    }
+    return { success: true }
+  }
+
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) {
+    return { success: false, error: 'Homebrew is not installed.' }
+  }
+  const result = await runCommand(
+    brewPath,
+    [payload.held ? 'pin' : 'unpin', payload.token],
+    1000 * 60,
+    'holds'
+  )
+  if (!result.success) {
+    return {
+      success: false,
+      error:
+        result.error ||
+        result.stderr.trim() ||
+        `Failed to ${payload.held ? 'pin' : 'unpin'} ${payload.token}.`
+    }
+  }
+  return { success: true }
+}
+
+async function getOutdatedReport(runUpdate = true): Promise<{
+  success: boolean
+  items: BrewOutdatedPackage[]
+  error?: string
+}> {
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) {
+    return { success: false, items: [], error: 'Homebrew is not installed.' }
+  }
+
+  if (runUpdate) {
+    await runCommand(brewPath, ['update'], 1000 * 60 * 5)
+  }
+  const report = await brewOutdated()
+  if (!report.success) return report
+
+  const heldCasks = new Set(
+    (await listPackageHolds()).filter((hold) => hold.brewType === 'cask').map((hold) => hold.token)
+  )
+  return {
+    success: true,
+    items: report.items.map((item) =>
+      item.brewType === 'cask' ? { ...item, pinned: heldCasks.has(item.token) } : item
+    )
+  }
+}
+
+function countUpgradable(items: BrewOutdatedPackage[]): number {
+  return items.filter((item) => !item.pinned).length
+}
+
+async function refreshTrayOutdatedCount(): Promise<void> {
+  const report = await getOutdatedReport(false)
+  if (report.success) {
+    setTrayOutdatedCount(countUpgradable(report.items))
+  }
+}
+
+// Aborted by the tray's cancel item while tray Upgrade All runs.
+let trayUpgrade: AbortController | null = null
+
+function describeSnapshotReason(verb: string, tokens: string[]): string {
+  if (tokens.length === 0) return `Before ${verb}`
+  if (tokens.length > 3) return `Before ${verb} of ${tokens.length} packages`
+  return `Before ${verb} of ${tokens.join(', ')}`
+}
+
+// Runs entirely in the main process, so it does not need the window and keeps going after the
+// window is closed.
+async function upgradeAllFromTray(
+  onProgress: (message: string) => void
+): Promise<TrayActionResult> {
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) return { success: false, message: 'Homebrew is not installed.' }
+
+  const controller = new AbortController()
+  trayUpgrade = controller
+  try {
+    return await runTrayUpgrade(brewPath, controller.signal, onProgress)
+  } finally {
+    trayUpgrade = null
+  }
+}
+
+async function runTrayUpgrade(
+  brewPath: string,
+  signal: AbortSignal,
+  onProgress: (message: string) => void
+): Promise<TrayActionResult> {
+  onProgress('checking outdated packages')
+  const report = await getOutdatedReport()
+  if (!report.success) {
+    return { success: false, message: report.error ?? 'brew outdated failed.' }
+  }
+  if (signal.aborted) return { success: false, message: 'Canceled before upgrading.' }
+
+  const targets = report.items.filter((item) => !item.pinned)
+  if (targets.length > 0) {
+    onProgress('taking a snapshot')
+    const tokens = targets.map((item) => item.token)
+    await captureSnapshot(describeSnapshotReason('upgrade', tokens), 'tray')
+  }
+
+  let succeeded = 0
+  const failed: string[] = []
+  for (const [index, item] of targets.entries()) {
+    if (signal.aborted) break
+    onProgress(`${index + 1}/${targets.length} ${item.token}`)
+    const args =
+      item.brewType === 'cask' ? ['upgrade', '--cask', item.token] : ['upgrade', item.token]
+    const result = await runCommand(brewPath, args, 1000 * 60 * 30, 'tray', {}, signal)
+    if (result.success) {
+      succeeded += 1
+    } else if (!signal.aborted) {
+      failed.push(item.token)
+    }
+  }
+
+  onProgress('syncing installed apps')
+  await syncInstalledAppsCache()
+  await refreshTrayOutdatedCount()
+  // Only packages that actually upgraded count; canceled ones are neither upgraded nor failed.
+  const summary = [
+    `Upgraded ${succeeded} of ${targets.length} package(s)`,
+    ...(failed.length > 0 ? [`failed: ${failed.join(', ')}`] : []),
+    ...(signal.aborted ? ['canceled'] : [])
+  ].join(', ')
+  return { success: failed.length === 0 && !signal.aborted, message: summary }
+}
+
+function cancelTrayAction(action: TrayAction): void {
+  if (action === 'upgrade-all') trayUpgrade?.abort()
+}
+
+// Destructive tray actions are only requested here; the window shows their preview and
+// confirmation, and takes the request once it is ready to.
+let pendingTrayRequest: 'mo-clean' | null = null
+
+function requestFromTray(request: 'mo-clean'): void {
+  pendingTrayRequest = request
+  showMainWindow()
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('tray:request')
+  })
+}
+
+async function runTrayAction(
+  action: TrayAction,
+  onProgress: (message: string) => void
+): Promise<TrayActionResult> {
+  if (action === 'upgrade-all') {
+    return upgradeAllFromTray(onProgress)
+  }
+  if (action === 'mo-clean') {
+    requestFromTray('mo-clean')
+    return { success: true, message: 'Confirm mo clean in the appPad window' }
+  }
+
+  const result = await syncInstalledAppsCache()
+  await refreshTrayOutdatedCount()
+  return result.success
+    ? { success: true, message: `${result.count} installed package(s)` }
+    : { success: false, message: result.error }
+}
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
@@ -2050,12 +2635,79 @@ app.whenReady().then(() => {
     })
   })
   setupUpdateHandlers()
+  setupJobQueueHandlers()
+  setupBrewServiceHandlers()
+  setupLogTailHandlers()
+  configureScheduler({
+    getDb: getCacheDb,
+    getOutdatedReport,
+    checkForAppUpdate,
+    getCacheValue: getJsonCacheValue,
+    setCacheValue: setJsonCacheValue,
+    onNotificationClick: showMainWindow
+  })
+  setupSchedulerHandlers()
+  configureCustomCatalogs({ getDb: getCacheDb })
+  setupCustomCatalogHandlers()
+  configureDestructiveActions({
+    getDb: getCacheDb,
+    runCommand
+  })
+  setupDestructiveActionHandlers()
+  configureSnapshots({
+    getDb: getCacheDb,
+    resolveBrewPath,
+    runCommand
+  })
+  setupSnapshotHandlers()
+  configureRuntimes({
+    resolveBrewPath,
+    runCommand,
+    runShellCommand,
+    getCacheValue: getJsonCacheValue,
+    setCacheValue: setJsonCacheValue
+  })
+  setupRuntimeHandlers()
+  configureRuntimeProjects({ getDb: getCacheDb })
+  setupRuntimeProjectHandlers()
+  configureTerminalScrollback({ getDb: getCacheDb })
+  setupTerminalScrollbackHandlers()
+  setupTerminalShellHandlers()
+  configureTerminalExec({
+    getSessionShell: (sessionId) => terminalSessions.get(sessionId)?.shellPath ?? null,
+    writeToSession: (sessionId, data) => writeTerminalSession(sessionId, data).success
+  })
+  setupTerminalExecHandlers()
+  onJobBatchStart(async (batch) => {
+    const actions = batch.items.map((item) => item.action)
+    if (!actions.includes('upgrade') && !actions.includes('uninstall')) return
+    const tokens = batch.items.map((item) => item.token).filter((token) => token !== null)
+    const verb = actions.includes('upgrade') ? 'upgrade' : 'uninstall'
+    await captureSnapshot(describeSnapshotReason(verb, tokens), batch.origin)
+  })
+  onJobItemFinished((batch, item) => {
+    if (!item.result) return
+    recordJobHistory({
+      command: item.command,
+      origin: batch.origin,
+      token: item.token,
+      startedAt: item.startedAt ?? Date.now(),
+      finishedAt: item.finishedAt ?? Date.now(),
+      result: item.result
+    })
+  })
   ipcMain.handle('brew:get-status', async () => {
     const refreshed = await refreshBrewStatusCache()
     return refreshed.status
   })
-  ipcMain.handle('terminal:create', async (_, payload?: { shell?: string }) => {
-    return createTerminalSession(payload?.shell)
+  ipcMain.handle(
+    'terminal:create',
+    async (_, payload?: { shell?: string; args?: string[]; cwd?: string; label?: string }) => {
+      return createTerminalSession(payload?.shell, payload?.cwd, payload?.label, payload?.args)
+    }
+  )
+  ipcMain.handle('terminal:get-cwd', async (_, payload: { sessionId: number }) => {
+    return getTerminalSessionCwd(payload.sessionId)
   })
   ipcMain.handle('terminal:write', async (_, payload: { sessionId: number; data: string }) => {
     return writeTerminalSession(payload.sessionId, payload.data)
@@ -2072,9 +2724,31 @@ app.whenReady().then(() => {
   ipcMain.handle('terminal:close', async (_, payload: { sessionId: number }) => {
     return closeTerminalSession(payload.sessionId)
   })
-  ipcMain.handle('terminal:exec', async (_, payload: { command: string }) => {
-    return runShellCommand(payload.command, 1000 * 60 * 20)
-  })
+  ipcMain.handle(
+    'terminal:exec',
+    async (_, payload: { command: CommandInput }): Promise<CommandResult> => {
+      let spec: CommandSpec
+      try {
+        spec = toCommandSpec(payload.command)
+      } catch (error) {
+        return {
+          success: false,
+          code: null,
+          stdout: '',
+          stderr: '',
+          error: error instanceof Error ? error.message : 'Command is not allowed.'
+        }
+      }
+      // Silent status queries from the renderer; anything the user runs goes through the job queue.
+      return runCommand(spec.binary, spec.args, 1000 * 60 * 20, null, spec.env)
+    }
+  )
+  ipcMain.handle(
+    'history:list',
+    async (_, payload?: { token?: string; failedOnly?: boolean; limit?: number }) => {
+      return listJobHistory(payload ?? {})
+    }
+  )
   ipcMain.handle('cache:get-browser-catalog', async () => {
     return getBrowserCatalogCache()
   })
@@ -2096,6 +2770,27 @@ app.whenReady().then(() => {
   ipcMain.handle('cache:sync-installed-apps', async () => {
     return syncInstalledAppsCache()
   })
+  ipcMain.handle('brewfile:export', async () => {
+    return exportBrewfile()
+  })
+  ipcMain.handle('brewfile:import-preview', async () => {
+    return importBrewfilePreview()
+  })
+  ipcMain.handle(
+    'brewfile:plan-apply',
+    async (_, payload: { install: BrewfileEntry[]; remove: BrewfileEntry[] }) => {
+      return planBrewfileApply(payload)
+    }
+  )
+  ipcMain.handle('brew:outdated-report', async () => {
+    return getOutdatedReport()
+  })
+  ipcMain.handle('holds:list', async () => {
+    return listPackageHolds()
+  })
+  ipcMain.handle('holds:set', async (_, payload: PackageHold & { held: boolean }) => {
+    return setPackageHold(payload)
+  })
   ipcMain.handle('cache:get-search-icon-cache', async (_, payload: { tokens: string[] }) => {
     return getSearchIconCache(payload.tokens)
   })
@@ -2117,12 +2812,6 @@ app.whenReady().then(() => {
   ipcMain.handle('cache:refresh-mole-status', async () => {
     return refreshMoleStatusCache()
   })
-  ipcMain.handle('cache:get-node-versions', async () => {
-    return getCachedNodeVersions()
-  })
-  ipcMain.handle('cache:refresh-node-versions', async () => {
-    return refreshNodeVersionsCache()
-  })
   ipcMain.handle('cache:get-mole-uninstall-apps', async () => {
     return getCachedMoleUninstallApps()
   })
@@ -2151,7 +2840,7 @@ app.whenReady().then(() => {
   ipcMain.handle('brew:install', async () => {
     const command =
       'NONINTERACTIVE=1 CI=1 /bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh)"'
-    const result = await runShellCommand(command, 1000 * 60 * 30)
+    const result = await runShellCommand(command, 1000 * 60 * 30, 'homebrew')
     const status = (await refreshBrewStatusCache()).status
 
     return {
@@ -2172,7 +2861,7 @@ app.whenReady().then(() => {
       }
     }
 
-    const updateResult = await runCommand(brewPath, ['update'], 1000 * 60 * 15)
+    const updateResult = await runCommand(brewPath, ['update'], 1000 * 60 * 15, 'homebrew')
     const result: CommandResult = {
       success: updateResult.success,
       code: updateResult.code,
@@ -2187,17 +2876,41 @@ app.whenReady().then(() => {
       status
     }
   })
-  ipcMain.handle('brew:force-clean-cask', async (_, payload: { token: string }) => {
-    const result = await forceCleanBrewCaskResidue(payload.token)
-    await syncInstalledAppsCache()
-    await refreshBrewStatusCache()
-    return result
+  ipcMain.handle(
+    'brew:force-clean-cask',
+    async (_, payload: { token: string; approvalId?: string }) => {
+      const result = await forceCleanBrewCaskResidue(payload.token, payload.approvalId)
+      await syncInstalledAppsCache()
+      await refreshBrewStatusCache()
+      return result
+    }
+  )
+  ipcMain.handle('tray:take-request', () => {
+    const request = pendingTrayRequest
+    pendingTrayRequest = null
+    return request
   })
 
   createWindow()
+  createTray({
+    iconPath: icon,
+    showMainWindow,
+    runAction: runTrayAction,
+    cancelAction: cancelTrayAction
+  })
+  const lastCheck = getLastScheduledCheck().result
+  if (lastCheck?.outdated.success) {
+    setTrayOutdatedCount(countUpgradable(lastCheck.outdated.items))
+  }
+  onScheduledCheck((result) => {
+    if (result.outdated.success) {
+      setTrayOutdatedCount(countUpgradable(result.outdated.items))
+    }
+  })
   void syncInstalledAppsCache()
   void refreshBrewStatusCache()
   void refreshMoleStatusCache()
+  startScheduler()
 
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
@@ -2208,18 +2921,25 @@ app.whenReady().then(() => {
 
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
-// explicitly with Cmd + Q.
+// explicitly with Cmd + Q. The tray keeps the app alive on other platforms too.
 app.on('window-all-closed', () => {
+  // The sessions belong to the closed window; a reopened window starts its own. Jobs that were
+  // running in them have already been canceled by the job queue when the window went away.
+  cancelAllTerminalExecs()
   terminalSessions.forEach((session) => {
     session.pty.kill()
   })
   terminalSessions.clear()
-  if (process.platform !== 'darwin') {
+  finishAllScrollbackRecordings()
+  if (process.platform !== 'darwin' && !hasTray()) {
     app.quit()
   }
 })
 
 app.on('before-quit', () => {
+  stopScheduler()
+  stopAllLogTails()
+  destroyTray()
   if (cacheDb) {
     cacheDb.close()
     cacheDb = null
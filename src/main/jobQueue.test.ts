@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { JobBatch, JobCommandResult } from './jobQueue'
+
+type Handler = (event: unknown, payload?: unknown) => unknown
+
+const handlers = vi.hoisted(() => new Map<string, Handler>())
+
+vi.mock('electron', () => ({
+  BrowserWindow: { getAllWindows: () => [] },
+  dialog: {},
+  ipcMain: { handle: (channel: string, handler: Handler) => handlers.set(channel, handler) }
+}))
+
+const FAILED: JobCommandResult = { success: false, code: 1, stdout: '', stderr: 'boom' }
+const SUCCEEDED: JobCommandResult = { success: true, code: 0, stdout: 'ok', stderr: '' }
+
+let queue: typeof import('./jobQueue')
+let runs: Array<{ batchId: string; itemId: string; command: string }>
+
+// Stands in for the terminal pane: it records every item the queue hands it.
+function registerExecutor(): void {
+  const sender = {
+    isDestroyed: () => false,
+    once: vi.fn(),
+    send: (channel: string, payload: { batchId: string; itemId: string; command: string }) => {
+      if (channel === 'jobs:run') runs.push(payload)
+    }
+  }
+  handlers.get('jobs:register-executor')?.({ sender })
+}
+
+async function report(result: JobCommandResult): Promise<void> {
+  // The queue sends an item only after its batch start listeners settle.
+  await vi.waitFor(() => expect(runs.length).toBeGreaterThan(0))
+  const run = runs.shift() as (typeof runs)[number]
+  handlers.get('jobs:report-result')?.({}, { batchId: run.batchId, itemId: run.itemId, result })
+}
+
+function findBatch(batchId: string): JobBatch {
+  return queue.listJobBatches().find((batch) => batch.batchId === batchId) as JobBatch
+}
+
+beforeEach(async () => {
+  vi.resetModules()
+  handlers.clear()
+  runs = []
+  queue = await import('./jobQueue')
+  queue.setupJobQueueHandlers()
+  registerExecutor()
+})
+
+describe('job queue', () => {
+  it('retries a failed item up to maxRetries before failing it', async () => {
+    const batch = queue.enqueueJobBatch({
+      origin: 'test',
+      maxRetries: 1,
+      items: [{ token: 'wget', action: 'install', command: 'brew install wget' }]
+    })
+
+    await report(FAILED)
+    expect(findBatch(batch.batchId).items[0]).toMatchObject({ status: 'running', attempts: 2 })
+
+    await report(FAILED)
+    expect(findBatch(batch.batchId)).toMatchObject({ status: 'failed' })
+    expect(findBatch(batch.batchId).items[0]).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      error: 'boom'
+    })
+  })
+
+  it('skips the remaining items after a failure unless continueOnFailure is set', async () => {
+    const items = [
+      { token: 'wget', command: 'brew install wget' },
+      { token: 'jq', command: 'brew install jq' }
+    ]
+    const stopping = queue.enqueueJobBatch({ origin: 'test', continueOnFailure: false, items })
+    await report(FAILED)
+    expect(findBatch(stopping.batchId).items.map((item) => item.status)).toEqual([
+      'failed',
+      'skipped'
+    ])
+
+    const continuing = queue.enqueueJobBatch({ origin: 'test', continueOnFailure: true, items })
+    await report(FAILED)
+    await report(SUCCEEDED)
+    expect(findBatch(continuing.batchId).items.map((item) => item.status)).toEqual([
+      'failed',
+      'succeeded'
+    ])
+    expect(findBatch(continuing.batchId).status).toBe('failed')
+  })
+
+  it('runs a failed item again when the user retries it', async () => {
+    const batch = queue.enqueueJobBatch({
+      origin: 'test',
+      items: [{ token: 'wget', command: 'brew install wget' }]
+    })
+    await report(FAILED)
+    const [item] = findBatch(batch.batchId).items
+    expect(item.status).toBe('failed')
+
+    handlers.get('jobs:retry-item')?.({}, { batchId: batch.batchId, itemId: item.itemId })
+    await report(SUCCEEDED)
+    expect(findBatch(batch.batchId)).toMatchObject({ status: 'completed' })
+    expect(findBatch(batch.batchId).items[0]).toMatchObject({ status: 'succeeded', attempts: 1 })
+  })
+
+  it('rejects a queued uninstall without a confirmed preview', () => {
+    expect(() =>
+      queue.enqueueJobBatch({
+        origin: 'test',
+        items: [{ token: 'wget', action: 'uninstall', command: 'brew uninstall wget' }]
+      })
+    ).toThrow('Confirm the uninstall or clean before queueing it.')
+  })
+})
@@ -0,0 +1,405 @@
+import { BrowserWindow, ipcMain, type WebContents } from 'electron'
+import { formatCommandSpec, toCommandSpec, type CommandInput } from './commandSpec'
+import { consumeCommandApproval } from './destructiveActions'
+
+export type JobAction = 'install' | 'uninstall' | 'upgrade' | 'command'
+
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'canceled'
+
+export type JobBatchStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export type JobCommandResult = {
+  success: boolean
+  code: number | null
+  stdout: string
+  stderr: string
+  error?: string
+}
+
+export type JobItem = {
+  itemId: string
+  token: string | null
+  action: JobAction
+  command: string
+  status: JobItemStatus
+  attempts: number
+  // Set while the executor is interrupting the running command on the user's request.
+  cancelRequested: boolean
+  error: string | null
+  result: JobCommandResult | null
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+export type JobBatch = {
+  batchId: string
+  origin: string
+  maxRetries: number
+  continueOnFailure: boolean
+  status: JobBatchStatus
+  items: JobItem[]
+  createdAt: number
+  finishedAt: number | null
+}
+
+export type JobBatchRequest = {
+  origin: string
+  maxRetries?: number
+  continueOnFailure?: boolean
+  // The confirmed destructive action preview for batches that uninstall or clean something.
+  approvalId?: string
+  items: Array<{ token?: string | null; action?: JobAction; command: CommandInput }>
+}
+
+const MAX_FINISHED_BATCHES = 30
+const MAX_RETRIES = 3
+const CANCELED_MESSAGE = 'Canceled by user.'
+
+let nextBatchId = 1
+const batches: JobBatch[] = []
+let executor: WebContents | null = null
+let runningItem: { batchId: string; itemId: string } | null = null
+// Panes re-register on every remount, but each window needs only one 'destroyed' listener.
+const watchedExecutors = new WeakSet<WebContents>()
+const itemFinishedListeners = new Set<(batch: JobBatch, item: JobItem) => void>()
+const batchStartListeners = new Set<(batch: JobBatch) => Promise<void>>()
+// Batches whose start listeners already ran; a retried item does not run them again.
+const startedBatches = new WeakSet<JobBatch>()
+
+function broadcastBatch(batch: JobBatch): void {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('jobs:updated', batch)
+  })
+}
+
+function findItem(batchId: string, itemId: string): { batch: JobBatch; item: JobItem } | null {
+  const batch = batches.find((entry) => entry.batchId === batchId)
+  const item = batch?.items.find((entry) => entry.itemId === itemId)
+  return batch && item ? { batch, item } : null
+}
+
+function settleBatchStatus(batch: JobBatch): void {
+  const unfinished = batch.items.some(
+    (item) => item.status === 'pending' || item.status === 'running'
+  )
+  if (unfinished) {
+    batch.status = batch.items.some((item) => item.status !== 'pending') ? 'running' : 'queued'
+    batch.finishedAt = null
+    return
+  }
+  batch.status = batch.items.every((item) => item.status === 'succeeded') ? 'completed' : 'failed'
+  batch.finishedAt = Date.now()
+}
+
+function pruneFinishedBatches(): void {
+  const finished = batches.filter((batch) => batch.finishedAt !== null)
+  const overflow = finished.length - MAX_FINISHED_BATCHES
+  if (overflow <= 0) return
+  finished
+    .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0))
+    .slice(0, overflow)
+    .forEach((batch) => {
+      batches.splice(batches.indexOf(batch), 1)
+    })
+}
+
+function pumpQueue(): void {
+  if (runningItem || !executor || executor.isDestroyed()) return
+
+  for (const batch of batches) {
+    const next = batch.items.find((item) => item.status === 'pending')
+    if (!next) continue
+
+    next.status = 'running'
+    next.attempts += 1
+    next.cancelRequested = false
+    next.error = null
+    next.startedAt = Date.now()
+    next.finishedAt = null
+    runningItem = { batchId: batch.batchId, itemId: next.itemId }
+    settleBatchStatus(batch)
+    broadcastBatch(batch)
+    if (startedBatches.has(batch)) {
+      sendRunningItem(batch, next)
+      return
+    }
+    startedBatches.add(batch)
+    // Start listeners such as the pre-upgrade snapshot run while the item already holds the queue,
+    // so they never delay the enqueue itself.
+    void Promise.allSettled([...batchStartListeners].map((listener) => listener(batch))).then(() =>
+      sendRunningItem(batch, next)
+    )
+    return
+  }
+}
+
+function sendRunningItem(batch: JobBatch, item: JobItem): void {
+  // The item may have been failed, or the executor replaced, while start listeners ran.
+  if (runningItem?.batchId !== batch.batchId || runningItem.itemId !== item.itemId) return
+  if (!executor || executor.isDestroyed()) return
+  executor.send('jobs:run', {
+    batchId: batch.batchId,
+    itemId: item.itemId,
+    command: item.command
+  })
+}
+
+function completeItem(batchId: string, itemId: string, result: JobCommandResult): void {
+  const found = findItem(batchId, itemId)
+  if (!found || found.item.status !== 'running') return
+  const { batch, item } = found
+
+  if (runningItem?.batchId === batchId && runningItem.itemId === itemId) {
+    runningItem = null
+  }
+
+  const canceled = item.cancelRequested
+  item.cancelRequested = false
+  item.result = result
+  item.finishedAt = Date.now()
+  if (result.success) {
+    item.status = 'succeeded'
+  } else if (!canceled && item.attempts <= batch.maxRetries) {
+    item.status = 'pending'
+    item.error = result.error || result.stderr || 'Command failed.'
+  } else {
+    item.status = canceled ? 'canceled' : 'failed'
+    item.error = canceled ? CANCELED_MESSAGE : result.error || result.stderr || 'Command failed.'
+    if (!batch.continueOnFailure) {
+      batch.items
+        .filter((entry) => entry.status === 'pending')
+        .forEach((entry) => {
+          entry.status = 'skipped'
+          entry.error = `Skipped after ${item.token ?? item.command} ${canceled ? 'was canceled' : 'failed'}.`
+        })
+    }
+  }
+
+  settleBatchStatus(batch)
+  // Listeners see the item's settled status, including a retry putting it back to pending.
+  itemFinishedListeners.forEach((listener) => listener(batch, item))
+  pruneFinishedBatches()
+  broadcastBatch(batch)
+  pumpQueue()
+}
+
+function failRunningItem(message: string): void {
+  if (!runningItem) return
+  const { batchId, itemId } = runningItem
+  completeItem(batchId, itemId, {
+    success: false,
+    code: null,
+    stdout: '',
+    stderr: '',
+    error: message
+  })
+}
+
+export function enqueueJobBatch(request: JobBatchRequest): JobBatch {
+  const batchId = `batch-${Date.now()}-${nextBatchId++}`
+  const requested = request.items.filter(
+    (item) => typeof item.command !== 'string' || item.command.trim().length > 0
+  )
+  const specs = requested.map((item) => toCommandSpec(item.command))
+  if (!consumeCommandApproval(request.approvalId, specs)) {
+    throw new Error('Confirm the uninstall or clean before queueing it.')
+  }
+  const items = requested.map((item, index) => ({
+    itemId: `${batchId}-${index + 1}`,
+    token: item.token ?? null,
+    action: item.action ?? 'command',
+    // Only the rendering of a validated spec ever reaches the terminal executor.
+    command: formatCommandSpec(specs[index]),
+    status: 'pending' as const,
+    attempts: 0,
+    cancelRequested: false,
+    error: null,
+    result: null,
+    startedAt: null,
+    finishedAt: null
+  }))
+
+  const batch: JobBatch = {
+    batchId,
+    origin: request.origin,
+    maxRetries: Math.min(MAX_RETRIES, Math.max(0, Math.floor(request.maxRetries ?? 0))),
+    continueOnFailure: request.continueOnFailure ?? true,
+    status: 'queued',
+    items,
+    createdAt: Date.now(),
+    finishedAt: null
+  }
+  settleBatchStatus(batch)
+
+  batches.push(batch)
+  broadcastBatch(batch)
+  pumpQueue()
+  return batch
+}
+
+// The command of the item the queue handed to `sender`, or null when that item is not running.
+export function getRunningJobCommand(
+  sender: WebContents,
+  batchId: string,
+  itemId: string
+): string | null {
+  if (sender !== executor || runningItem?.batchId !== batchId || runningItem.itemId !== itemId) {
+    return null
+  }
+  return findItem(batchId, itemId)?.item.command ?? null
+}
+
+export function listJobBatches(): JobBatch[] {
+  return [...batches]
+}
+
+export function onJobItemFinished(listener: (batch: JobBatch, item: JobItem) => void): () => void {
+  itemFinishedListeners.add(listener)
+  return () => itemFinishedListeners.delete(listener)
+}
+
+// Runs once before a batch's first command starts; failures never block the batch.
+export function onJobBatchStart(listener: (batch: JobBatch) => Promise<void>): () => void {
+  batchStartListeners.add(listener)
+  return () => batchStartListeners.delete(listener)
+}
+
+function retryJobItem(batchId: string, itemId: string): { success: boolean } {
+  const found = findItem(batchId, itemId)
+  if (!found || !['failed', 'skipped', 'canceled'].includes(found.item.status)) {
+    return { success: false }
+  }
+  found.item.status = 'pending'
+  found.item.attempts = 0
+  found.item.error = null
+  settleBatchStatus(found.batch)
+  broadcastBatch(found.batch)
+  pumpQueue()
+  return { success: true }
+}
+
+function skipJobItem(batchId: string, itemId: string): { success: boolean } {
+  const found = findItem(batchId, itemId)
+  if (!found || found.item.status !== 'pending') {
+    return { success: false }
+  }
+  found.item.status = 'skipped'
+  found.item.error = 'Skipped by user.'
+  settleBatchStatus(found.batch)
+  pruneFinishedBatches()
+  broadcastBatch(found.batch)
+  return { success: true }
+}
+
+// Pending items are canceled right away; a running one is interrupted by the executor, which
+// still reports its result so the queue only moves on once the command has actually stopped.
+function cancelJobItem(batchId: string, itemId: string): { success: boolean } {
+  const found = findItem(batchId, itemId)
+  if (!found) return { success: false }
+  const { batch, item } = found
+
+  if (item.status === 'pending') {
+    item.status = 'canceled'
+    item.error = CANCELED_MESSAGE
+    item.finishedAt = Date.now()
+  } else if (item.status === 'running') {
+    item.cancelRequested = true
+    if (!executor || executor.isDestroyed()) {
+      failRunningItem('Terminal executor is not available.')
+      return { success: true }
+    }
+    executor.send('jobs:cancel', { batchId, itemId })
+  } else {
+    return { success: false }
+  }
+
+  settleBatchStatus(batch)
+  pruneFinishedBatches()
+  broadcastBatch(batch)
+  return { success: true }
+}
+
+function cancelJobBatch(batchId: string): { success: boolean } {
+  const batch = batches.find((entry) => entry.batchId === batchId)
+  if (!batch) return { success: false }
+  // Pending items go first so interrupting the running one cannot start the next.
+  const targets = [
+    ...batch.items.filter((item) => item.status === 'pending'),
+    ...batch.items.filter((item) => item.status === 'running')
+  ]
+  targets.forEach((item) => cancelJobItem(batchId, item.itemId))
+  return { success: targets.length > 0 }
+}
+
+// Nothing runs the queue until a window opens again, so instead of failing the running item and
+// leaving the rest waiting unseen, every unfinished item is canceled.
+function cancelUnfinishedJobs(message: string): void {
+  if (runningItem) {
+    const running = findItem(runningItem.batchId, runningItem.itemId)
+    if (running) running.item.cancelRequested = true
+    failRunningItem(message)
+  }
+  batches.forEach((batch) => {
+    batch.items
+      .filter((item) => item.status === 'pending')
+      .forEach((item) => cancelJobItem(batch.batchId, item.itemId))
+  })
+}
+
+function registerExecutor(sender: WebContents): { success: boolean } {
+  if (executor && executor !== sender) {
+    failRunningItem('Terminal executor was replaced before command completion.')
+  }
+  executor = sender
+  if (!watchedExecutors.has(sender)) {
+    watchedExecutors.add(sender)
+    sender.once('destroyed', () => {
+      if (executor !== sender) return
+      executor = null
+      cancelUnfinishedJobs('Terminal window was closed before command completion.')
+    })
+  }
+  pumpQueue()
+  return { success: true }
+}
+
+function unregisterExecutor(sender: WebContents): { success: boolean } {
+  if (executor !== sender) return { success: false }
+  executor = null
+  failRunningItem('Terminal panel was disposed before command completion.')
+  return { success: true }
+}
+
+export function setupJobQueueHandlers(): void {
+  ipcMain.handle('jobs:enqueue-batch', (_, payload: JobBatchRequest) => {
+    return enqueueJobBatch(payload)
+  })
+  ipcMain.handle('jobs:list', () => {
+    return listJobBatches()
+  })
+  ipcMain.handle('jobs:retry-item', (_, payload: { batchId: string; itemId: string }) => {
+    return retryJobItem(payload.batchId, payload.itemId)
+  })
+  ipcMain.handle('jobs:skip-item', (_, payload: { batchId: string; itemId: string }) => {
+    return skipJobItem(payload.batchId, payload.itemId)
+  })
+  ipcMain.handle('jobs:cancel-item', (_, payload: { batchId: string; itemId: string }) => {
+    return cancelJobItem(payload.batchId, payload.itemId)
+  })
+  ipcMain.handle('jobs:cancel-batch', (_, payload: { batchId: string }) => {
+    return cancelJobBatch(payload.batchId)
+  })
+  ipcMain.handle('jobs:register-executor', (event) => {
+    return registerExecutor(event.sender)
+  })
+  ipcMain.handle('jobs:unregister-executor', (event) => {
+    return unregisterExecutor(event.sender)
+  })
+  ipcMain.handle(
+    'jobs:report-result',
+    (_, payload: { batchId: string; itemId: string; result: JobCommandResult }) => {
+      completeItem(payload.batchId, payload.itemId, payload.result)
+      return { success: true }
+    }
+  )
+}
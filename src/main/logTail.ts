@@ -0,0 +1,84 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { existsSync } from 'fs'
+import { isAbsolute } from 'path'
+import { ipcMain, type WebContents } from 'electron'
+
+type LogTailSession = {
+  child: ChildProcess
+  sender: WebContents
+  onSenderDestroyed: () => void
+}
+
+const LOG_TAIL_INITIAL_LINES = 200
+
+let nextTailId = 1
+const tailSessions = new Map<number, LogTailSession>()
+
+function sendToSender(sender: WebContents, channel: string, payload: unknown): void {
+  if (sender.isDestroyed()) return
+  sender.send(channel, payload)
+}
+
+export function startLogTail(
+  sender: WebContents,
+  paths: string[]
+): { success: boolean; tailId?: number; error?: string } {
+  const existingPaths = [
+    ...new Set(paths.filter((path) => path && isAbsolute(path) && existsSync(path)))
+  ]
+  if (existingPaths.length === 0) {
+    return { success: false, error: 'No log file found for this service.' }
+  }
+
+  const tailId = nextTailId++
+  // '--' keeps tail from reading a path as an option.
+  const child = spawn('tail', ['-n', String(LOG_TAIL_INITIAL_LINES), '-F', '--', ...existingPaths])
+  const onSenderDestroyed = (): void => stopLogTail(tailId)
+  tailSessions.set(tailId, { child, sender, onSenderDestroyed })
+
+  const forward = (chunk: Buffer): void => {
+    sendToSender(sender, 'logs:tail-data', { tailId, data: chunk.toString() })
+  }
+  child.stdout?.on('data', forward)
+  child.stderr?.on('data', forward)
+  child.on('error', (error) => {
+    sendToSender(sender, 'logs:tail-data', { tailId, data: `\n${error.message}\n` })
+  })
+  child.on('close', (code) => {
+    releaseSession(tailId)
+    sendToSender(sender, 'logs:tail-exit', { tailId, code })
+  })
+  sender.once('destroyed', onSenderDestroyed)
+
+  return { success: true, tailId }
+}
+
+function releaseSession(tailId: number): LogTailSession | null {
+  const session = tailSessions.get(tailId)
+  if (!session) return null
+  tailSessions.delete(tailId)
+  if (!session.sender.isDestroyed()) {
+    session.sender.removeListener('destroyed', session.onSenderDestroyed)
+  }
+  return session
+}
+
+export function stopLogTail(tailId: number): void {
+  releaseSession(tailId)?.child.kill('SIGTERM')
+}
+
+export function stopAllLogTails(): void {
+  for (const tailId of [...tailSessions.keys()]) {
+    stopLogTail(tailId)
+  }
+}
+
+export function setupLogTailHandlers(): void {
+  ipcMain.handle('logs:start-tail', (event, payload: { paths: string[] }) => {
+    return startLogTail(event.sender, payload.paths ?? [])
+  })
+  ipcMain.handle('logs:stop-tail', (_, payload: { tailId: number }) => {
+    stopLogTail(payload.tailId)
+    return { success: true }
+  })
+}
@@ -0,0 +1,288 @@
+import { existsSync, readFileSync, statSync } from 'fs'
+import { basename, join, resolve } from 'path'
+import { dialog, ipcMain } from 'electron'
+import type Database from 'better-sqlite3'
+import {
+  findRuntimeByToolVersionsPlugin,
+  getRuntimeStatus,
+  resolveRuntimeFormula,
+  type RuntimeStatus,
+  type RuntimeVersionItem
+} from './runtimes'
+
+export type RuntimeRequirementSource =
+  | '.nvmrc'
+  | '.node-version'
+  | 'package.json'
+  | '.tool-versions'
+
+export type RuntimeRequirement = {
+  runtimeId: string
+  source: RuntimeRequirementSource
+  // The version as written in the file, e.g. `v20.11.0`, `lts/iron` or `>=18 <21`.
+  spec: string
+  formula: string | null
+  installed: boolean
+  installedVersion: string | null
+  active: boolean
+}
+
+export type RuntimeProject = {
+  id: number
+  path: string
+  name: string
+  exists: boolean
+  requirements: RuntimeRequirement[]
+}
+
+export type RuntimeProjectDeps = {
+  getDb: () => Database.Database
+}
+
+type ProjectRow = {
+  id: number
+  path: string
+}
+
+// Node release lines by LTS codename, as accepted by nvm and fnm in `.nvmrc`.
+const NODE_LTS_CODENAMES: Record<string, number> = {
+  argon: 4,
+  boron: 6,
+  carbon: 8,
+  dubnium: 10,
+  erbium: 12,
+  fermium: 14,
+  gallium: 16,
+  hydrogen: 18,
+  iron: 20,
+  jod: 22,
+  krypton: 24
+}
+const NODE_LATEST_ALIASES = new Set(['node', 'stable', 'latest', 'current'])
+const MAX_VERSION_FILE_BYTES = 1024 * 64
+
+let deps: RuntimeProjectDeps | null = null
+
+function getDeps(): RuntimeProjectDeps {
+  if (!deps) throw new Error('Runtime projects are not configured.')
+  return deps
+}
+
+export function configureRuntimeProjects(nextDeps: RuntimeProjectDeps): void {
+  deps = nextDeps
+}
+
+function readSmallFile(path: string): string | null {
+  try {
+    if (!existsSync(path) || statSync(path).size > MAX_VERSION_FILE_BYTES) return null
+    return readFileSync(path, 'utf8')
+  } catch {
+    return null
+  }
+}
+
+function firstMeaningfulLine(content: string): string | null {
+  return (
+    content
+      .split('\n')
+      .map((line) => line.replace(/#.*$/, '').trim())
+      .find(Boolean) ?? null
+  )
+}
+
+function readRequirementSpecs(
+  directory: string
+): Array<{ runtimeId: string; source: RuntimeRequirementSource; spec: string }> {
+  const specs: Array<{ runtimeId: string; source: RuntimeRequirementSource; spec: string }> = []
+
+  for (const source of ['.nvmrc', '.node-version'] as const) {
+    const content = readSmallFile(join(directory, source))
+    const spec = content ? firstMeaningfulLine(content) : null
+    if (spec) specs.push({ runtimeId: 'node', source, spec })
+  }
+
+  const packageJson = readSmallFile(join(directory, 'package.json'))
+  if (packageJson) {
+    try {
+      const engines = (JSON.parse(packageJson) as { engines?: { node?: unknown } }).engines
+      if (typeof engines?.node === 'string' && engines.node.trim()) {
+        specs.push({ runtimeId: 'node', source: 'package.json', spec: engines.node.trim() })
+      }
+    } catch {
+      // A broken package.json simply contributes no requirement.
+    }
+  }
+
+  const toolVersions = readSmallFile(join(directory, '.tool-versions'))
+  toolVersions
+    ?.split('\n')
+    .map((line) => line.replace(/#.*$/, '').trim().split(/\s+/))
+    .forEach(([plugin, version]) => {
+      const runtimeId = plugin ? findRuntimeByToolVersionsPlugin(plugin) : null
+      if (runtimeId && version && version !== 'system') {
+        specs.push({ runtimeId, source: '.tool-versions', spec: version })
+      }
+    })
+
+  return specs
+}
+
+function versionMajor(version: string): number | null {
+  const match = version.match(/\d+/)
+  return match ? Number(match[0]) : null
+}
+
+// Judges an npm semver range at major-version granularity, which is all formula selection needs.
+function rangeAllowsMajor(range: string, major: number): boolean {
+  return range.split('||').some((alternative) => {
+    const hyphen = alternative.match(/^\s*v?(\d+)\S*\s+-\s+v?(\d+)\S*\s*$/)
+    if (hyphen) return major >= Number(hyphen[1]) && major <= Number(hyphen[2])
+
+    return alternative
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((comparator) => {
+        const match = comparator.match(
+          /^(>=|<=|>|<|=|\^|~)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?/
+        )
+        if (!match) return true
+        const [, operator = '', rawMajor, minor, patch] = match
+        if (!/\d/.test(rawMajor)) return true
+        const bound = Number(rawMajor)
+        const hasLowerParts = [minor, patch].some((part) => part && /\d/.test(part) && part !== '0')
+        switch (operator) {
+          case '>=':
+            return major >= bound
+          case '>':
+            return hasLowerParts ? major >= bound : major > bound
+          case '<':
+            return hasLowerParts ? major <= bound : major < bound
+          case '<=':
+            return major <= bound
+          default:
+            return major === bound
+        }
+      })
+  })
+}
+
+function resolveNodeVersion(spec: string, items: RuntimeVersionItem[]): string | null {
+  const normalized = spec.trim().toLowerCase()
+  const versionedMajors = items
+    .map((item) => (item.formula.includes('@') ? versionMajor(item.formula) : null))
+    .filter((major): major is number => major !== null)
+  const installedLatest = items.find((item) => item.formula === 'node')?.installedVersion
+
+  if (NODE_LATEST_ALIASES.has(normalized)) {
+    return installedLatest ?? String(Math.max(0, ...versionedMajors) + 1)
+  }
+  if (normalized.startsWith('lts/')) {
+    const codename = normalized.slice('lts/'.length)
+    const major =
+      codename === '*' || codename === 'latest'
+        ? Math.max(...versionedMajors)
+        : NODE_LTS_CODENAMES[codename]
+    return Number.isFinite(major) ? String(major) : null
+  }
+  if (/^v?\d+(?:\.\d+){0,2}$/.test(normalized)) {
+    return normalized
+  }
+
+  // A range: prefer the newest release line that satisfies it.
+  const candidates = [...versionedMajors]
+  const latestMajor = installedLatest ? versionMajor(installedLatest) : null
+  if (latestMajor !== null) candidates.push(latestMajor)
+  const best = candidates.filter((major) => rangeAllowsMajor(spec, major)).sort((a, b) => b - a)[0]
+  return best === undefined ? null : String(best)
+}
+
+function buildRequirement(
+  spec: { runtimeId: string; source: RuntimeRequirementSource; spec: string },
+  status: RuntimeStatus
+): RuntimeRequirement {
+  const version =
+    spec.runtimeId === 'node' ? resolveNodeVersion(spec.spec, status.items) : spec.spec
+  const formula = version ? resolveRuntimeFormula(spec.runtimeId, version, status.items) : null
+  const item = status.items.find((entry) => entry.formula === formula)
+  return {
+    ...spec,
+    formula,
+    installed: item?.installed ?? false,
+    installedVersion: item?.installedVersion ?? null,
+    active: item?.active ?? false
+  }
+}
+
+export async function listRuntimeProjects(refresh = false): Promise<RuntimeProject[]> {
+  const rows = getDeps()
+    .getDb()
+    .prepare('SELECT id, path FROM runtime_projects ORDER BY added_at ASC, id ASC')
+    .all() as ProjectRow[]
+
+  const projects = rows.map((row) => ({
+    row,
+    exists: existsSync(row.path),
+    specs: existsSync(row.path) ? readRequirementSpecs(row.path) : []
+  }))
+
+  // Each runtime is looked up once, however many projects pin it.
+  const runtimeIds = [
+    ...new Set(projects.flatMap((project) => project.specs.map((s) => s.runtimeId)))
+  ]
+  const statuses = new Map<string, RuntimeStatus>()
+  for (const runtimeId of runtimeIds) {
+    statuses.set(runtimeId, await getRuntimeStatus(runtimeId, refresh))
+  }
+
+  return projects.map(({ row, exists, specs }) => ({
+    id: row.id,
+    path: row.path,
+    name: basename(row.path),
+    exists,
+    requirements: specs.map((spec) =>
+      buildRequirement(spec, statuses.get(spec.runtimeId) as RuntimeStatus)
+    )
+  }))
+}
+
+function addRuntimeProject(path: string): { success: boolean; error?: string } {
+  const normalized = resolve(path)
+  try {
+    if (!statSync(normalized).isDirectory()) {
+      return { success: false, error: `${normalized} is not a directory.` }
+    }
+  } catch {
+    return { success: false, error: `${normalized} does not exist.` }
+  }
+  getDeps()
+    .getDb()
+    .prepare('INSERT OR IGNORE INTO runtime_projects (path, added_at) VALUES (?, ?)')
+    .run(normalized, Date.now())
+  return { success: true }
+}
+
+function removeRuntimeProject(id: number): { success: boolean } {
+  getDeps().getDb().prepare('DELETE FROM runtime_projects WHERE id = ?').run(id)
+  return { success: true }
+}
+
+export function setupRuntimeProjectHandlers(): void {
+  ipcMain.handle('runtime-projects:list', (_, payload?: { refresh?: boolean }) => {
+    return listRuntimeProjects(payload?.refresh === true)
+  })
+  ipcMain.handle('runtime-projects:choose-directory', async () => {
+    const result = await dialog.showOpenDialog({
+      title: 'Add Project Directory',
+      properties: ['openDirectory']
+    })
+    const directory = result.filePaths[0]
+    return result.canceled || !directory ? null : directory
+  })
+  ipcMain.handle('runtime-projects:add', (_, payload: { path: string }) => {
+    return addRuntimeProject(String(payload.path ?? ''))
+  })
+  ipcMain.handle('runtime-projects:remove', (_, payload: { id: number }) => {
+    return removeRuntimeProject(Number(payload.id))
+  })
+}
@@ -0,0 +1,413 @@
+import { existsSync, realpathSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import { ipcMain } from 'electron'
+
+type CommandResult = { success: boolean; stdout: string; stderr: string; error?: string }
+
+type VersionManager = {
+  name: string
+  // Substring of a resolved binary path that means the manager supplied it.
+  pathMarker: string
+  // Relative to the home directory; any of them existing means the manager has versions of this runtime.
+  installDirs: string[]
+}
+
+type RuntimeDefinition = {
+  id: string
+  label: string
+  formulaPattern: RegExp
+  // Passed to `brew search` to discover every available formula of the runtime.
+  searchQuery: string
+  // Shell snippet printing the path of the binary (or home) that is active on PATH.
+  probe: string
+  managers: VersionManager[]
+  // Formula name without `@version`, and how many version parts the `@` suffix carries.
+  baseFormula: string
+  versionDepth: 1 | 2
+  // Plugin names that refer to this runtime in asdf/mise `.tool-versions` files.
+  toolVersionsPlugins: string[]
+  note: string | null
+}
+
+export type RuntimeSummary = {
+  id: string
+  label: string
+  note: string | null
+}
+
+export type RuntimeVersionItem = {
+  formula: string
+  installedVersion: string | null
+  installed: boolean
+  active: boolean
+}
+
+export type RuntimeConflict = {
+  manager: string
+  // `active`: the manager's binary wins on PATH; `installed`: it has versions that may shadow Homebrew.
+  kind: 'active' | 'installed'
+  detail: string
+}
+
+export type RuntimeStatus = {
+  runtimeId: string
+  activePath: string | null
+  items: RuntimeVersionItem[]
+  conflicts: RuntimeConflict[]
+}
+
+export type RuntimeDeps = {
+  resolveBrewPath: () => Promise<string | null>
+  runCommand: (bin: string, args: string[], timeoutMs?: number) => Promise<CommandResult>
+  runShellCommand: (command: string, timeoutMs?: number) => Promise<CommandResult>
+  getCacheValue: <T>(cacheKey: string) => { status: T | null; updatedAt: number | null }
+  setCacheValue: (cacheKey: string, value: unknown) => number
+}
+
+const asdf = (plugin: string): VersionManager => ({
+  name: 'asdf',
+  pathMarker: '/.asdf/',
+  installDirs: [join('.asdf', 'installs', plugin)]
+})
+const mise = (plugin: string): VersionManager => ({
+  name: 'mise',
+  pathMarker: '/mise/',
+  installDirs: [join('.local', 'share', 'mise', 'installs', plugin)]
+})
+
+const RUNTIME_DEFINITIONS: RuntimeDefinition[] = [
+  {
+    id: 'node',
+    label: 'Node.js',
+    formulaPattern: /^node(?:@\d+)?$/,
+    searchQuery: '/^node(@[0-9]+)?$/',
+    probe: 'node -p "process.execPath"',
+    managers: [
+      { name: 'nvm', pathMarker: '/.nvm/', installDirs: [join('.nvm', 'versions', 'node')] },
+      {
+        name: 'fnm',
+        pathMarker: '/fnm/',
+        installDirs: [
+          join('.local', 'share', 'fnm', 'node-versions'),
+          join('Library', 'Application Support', 'fnm', 'node-versions')
+        ]
+      },
+      { name: 'volta', pathMarker: '/.volta/', installDirs: [join('.volta', 'tools', 'image')] },
+      asdf('nodejs'),
+      mise('node')
+    ],
+    baseFormula: 'node',
+    versionDepth: 1,
+    toolVersionsPlugins: ['nodejs', 'node'],
+    note: null
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    formulaPattern: /^python@3\.\d+$/,
+    searchQuery: '/^python@3\\.[0-9]+$/',
+    probe: 'python3 -c "import sys; print(sys.executable)"',
+    managers: [
+      { name: 'pyenv', pathMarker: '/.pyenv/', installDirs: [join('.pyenv', 'versions')] },
+      asdf('python'),
+      mise('python')
+    ],
+    baseFormula: 'python',
+    versionDepth: 2,
+    toolVersionsPlugins: ['python'],
+    note: null
+  },
+  {
+    id: 'java',
+    label: 'Java',
+    formulaPattern: /^openjdk(?:@\d+)?$/,
+    searchQuery: '/^openjdk(@[0-9]+)?$/',
+    probe: "java -XshowSettings:properties -version 2>&1 | awk -F' = ' '/java.home/ {print $2}'",
+    managers: [
+      { name: 'jenv', pathMarker: '/.jenv/', installDirs: [join('.jenv', 'versions')] },
+      {
+        name: 'sdkman',
+        pathMarker: '/.sdkman/',
+        installDirs: [join('.sdkman', 'candidates', 'java')]
+      },
+      asdf('java'),
+      mise('java')
+    ],
+    baseFormula: 'openjdk',
+    versionDepth: 1,
+    toolVersionsPlugins: ['java'],
+    note: 'macOS only finds JDKs symlinked into /Library/Java/JavaVirtualMachines; set JAVA_HOME if java still resolves elsewhere.'
+  },
+  {
+    id: 'postgresql',
+    label: 'PostgreSQL',
+    formulaPattern: /^postgresql(?:@\d+)?$/,
+    searchQuery: '/^postgresql(@[0-9]+)?$/',
+    probe: 'command -v postgres',
+    managers: [asdf('postgres'), mise('postgres')],
+    baseFormula: 'postgresql',
+    versionDepth: 1,
+    toolVersionsPlugins: ['postgres', 'postgresql'],
+    note: 'A running postgresql service keeps its version until it is restarted from the Services tab.'
+  },
+  {
+    id: 'ruby',
+    label: 'Ruby',
+    formulaPattern: /^ruby(?:@\d+(?:\.\d+)?)?$/,
+    searchQuery: '/^ruby(@[0-9.]+)?$/',
+    probe: "ruby -e 'print RbConfig.ruby'",
+    managers: [
+      { name: 'rbenv', pathMarker: '/.rbenv/', installDirs: [join('.rbenv', 'versions')] },
+      { name: 'rvm', pathMarker: '/.rvm/', installDirs: [join('.rvm', 'rubies')] },
+      { name: 'chruby', pathMarker: '/.rubies/', installDirs: ['.rubies'] },
+      asdf('ruby'),
+      mise('ruby')
+    ],
+    baseFormula: 'ruby',
+    versionDepth: 2,
+    toolVersionsPlugins: ['ruby'],
+    note: null
+  },
+  {
+    id: 'go',
+    label: 'Go',
+    formulaPattern: /^go(?:@\d+\.\d+)?$/,
+    searchQuery: '/^go(@[0-9.]+)?$/',
+    probe: 'go env GOROOT',
+    managers: [
+      { name: 'goenv', pathMarker: '/.goenv/', installDirs: [join('.goenv', 'versions')] },
+      { name: 'gvm', pathMarker: '/.gvm/', installDirs: [join('.gvm', 'gos')] },
+      asdf('golang'),
+      mise('go')
+    ],
+    baseFormula: 'go',
+    versionDepth: 2,
+    toolVersionsPlugins: ['golang', 'go'],
+    note: null
+  }
+]
+
+let deps: RuntimeDeps | null = null
+
+function getDeps(): RuntimeDeps {
+  if (!deps) throw new Error('Runtime switcher is not configured.')
+  return deps
+}
+
+export function configureRuntimes(nextDeps: RuntimeDeps): void {
+  deps = nextDeps
+}
+
+export function findRuntimeByToolVersionsPlugin(plugin: string): string | null {
+  return RUNTIME_DEFINITIONS.find((entry) => entry.toolVersionsPlugins.includes(plugin))?.id ?? null
+}
+
+function getDefinition(runtimeId: string): RuntimeDefinition {
+  const definition = RUNTIME_DEFINITIONS.find((entry) => entry.id === runtimeId)
+  if (!definition) throw new Error(`Unknown runtime: ${runtimeId}`)
+  return definition
+}
+
+export function listRuntimes(): RuntimeSummary[] {
+  return RUNTIME_DEFINITIONS.map(({ id, label, note }) => ({ id, label, note }))
+}
+
+// Unversioned formula first, then the newest major/minor down.
+function compareFormulae(a: string, b: string): number {
+  if (!a.includes('@')) return -1
+  if (!b.includes('@')) return 1
+  const aVersion = a.split('@')[1].split('.').map(Number)
+  const bVersion = b.split('@')[1].split('.').map(Number)
+  for (let index = 0; index < Math.max(aVersion.length, bVersion.length); index += 1) {
+    const diff = (bVersion[index] ?? 0) - (aVersion[index] ?? 0)
+    if (diff !== 0) return Number.isNaN(diff) ? a.localeCompare(b) : diff
+  }
+  return 0
+}
+
+function resolveActivePath(output: string): string | null {
+  const path = output.trim().split('\n').pop()?.trim() ?? ''
+  if (!path.startsWith('/')) return null
+  try {
+    return realpathSync(path)
+  } catch {
+    return path
+  }
+}
+
+function isHomebrewPath(path: string): boolean {
+  return (
+    path.includes('/Cellar/') ||
+    path.startsWith('/opt/homebrew/') ||
+    path.startsWith('/usr/local/opt/')
+  )
+}
+
+function detectConflicts(
+  definition: RuntimeDefinition,
+  activePath: string | null
+): RuntimeConflict[] {
+  const home = homedir()
+  const activeManager = activePath
+    ? definition.managers.find((manager) => activePath.includes(manager.pathMarker))
+    : undefined
+  const conflicts: RuntimeConflict[] = []
+
+  if (activePath && activeManager) {
+    conflicts.push({
+      manager: activeManager.name,
+      kind: 'active',
+      detail: `${definition.label} resolves to ${activePath}, so switching the Homebrew version has no effect until ${activeManager.name} stops managing it.`
+    })
+  } else if (activePath && !isHomebrewPath(activePath)) {
+    conflicts.push({
+      manager: 'PATH',
+      kind: 'active',
+      detail: `${activePath} comes first on PATH and shadows the linked Homebrew version.`
+    })
+  }
+
+  definition.managers
+    .filter((manager) => manager !== activeManager)
+    .forEach((manager) => {
+      const installDir = manager.installDirs.find((dir) => existsSync(join(home, dir)))
+      if (!installDir) return
+      conflicts.push({
+        manager: manager.name,
+        kind: 'installed',
+        detail: `${manager.name} has its own ${definition.label} versions in ~/${installDir}; shells where it is activated will ignore the Homebrew switch.`
+      })
+    })
+
+  return conflicts
+}
+
+async function readRuntimeStatus(runtimeId: string): Promise<RuntimeStatus> {
+  const definition = getDefinition(runtimeId)
+  const { resolveBrewPath, runCommand, runShellCommand } = getDeps()
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) {
+    return { runtimeId, activePath: null, items: [], conflicts: [] }
+  }
+
+  const [search, probe] = await Promise.all([
+    runCommand(brewPath, ['search', definition.searchQuery], 1000 * 30),
+    runShellCommand(`${definition.probe} 2>/dev/null || true`, 1000 * 15)
+  ])
+  const activePath = resolveActivePath(probe.stdout)
+  const formulae = [
+    ...new Set(
+      search.stdout
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => definition.formulaPattern.test(line))
+    )
+  ].sort(compareFormulae)
+
+  // `brew list --versions` prints one line per installed formula and skips the rest.
+  const installedVersions = new Map<string, string>()
+  if (formulae.length > 0) {
+    const listed = await runCommand(brewPath, ['list', '--versions', ...formulae], 1000 * 30)
+    listed.stdout.split('\n').forEach((line) => {
+      const [formula, version] = line.trim().split(/\s+/)
+      if (formula && version) installedVersions.set(formula, version)
+    })
+  }
+
+  const items = formulae.map((formula) => {
+    const installedVersion = installedVersions.get(formula) ?? null
+    return {
+      formula,
+      installedVersion,
+      installed: installedVersion !== null,
+      active:
+        installedVersion !== null &&
+        activePath !== null &&
+        (activePath.includes(`/Cellar/${formula}/`) || activePath.includes(`/opt/${formula}/`))
+    }
+  })
+
+  return { runtimeId, activePath, items, conflicts: detectConflicts(definition, activePath) }
+}
+
+function versionKey(version: string, depth: number): string | null {
+  const parts = version.match(/\d+(?:\.\d+)*/)?.[0].split('.') ?? []
+  return parts.length >= depth ? parts.slice(0, depth).join('.') : null
+}
+
+function compareVersionKeys(a: string, b: string): number {
+  const aParts = a.split('.').map(Number)
+  const bParts = b.split('.').map(Number)
+  for (let index = 0; index < Math.max(aParts.length, bParts.length); index += 1) {
+    const diff = (aParts[index] ?? 0) - (bParts[index] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+// Maps a requested version such as `20`, `3.12.1` or `openjdk-21` to the formula providing it.
+// The unversioned formula stands in for the newest release line, which has no `@` formula yet.
+export function resolveRuntimeFormula(
+  runtimeId: string,
+  version: string,
+  items: RuntimeVersionItem[]
+): string | null {
+  const definition = getDefinition(runtimeId)
+  const key = versionKey(version, definition.versionDepth)
+  if (!key) return null
+  const versioned = `${definition.baseFormula}@${key}`
+  if (items.some((item) => item.formula === versioned)) return versioned
+
+  const unversioned = items.find((item) => item.formula === definition.baseFormula)
+  if (!unversioned) return null
+  if (unversioned.installedVersion) {
+    const installedKey = versionKey(unversioned.installedVersion, definition.versionDepth)
+    return installedKey === key ? unversioned.formula : null
+  }
+  const newestVersioned = items
+    .map((item) => item.formula.split('@')[1])
+    .filter((suffix): suffix is string => Boolean(suffix))
+    .sort(compareVersionKeys)
+    .pop()
+  return !newestVersioned || compareVersionKeys(key, newestVersioned) > 0
+    ? unversioned.formula
+    : null
+}
+
+function getCacheKey(runtimeId: string): string {
+  return `runtime_versions_v1:${runtimeId}`
+}
+
+function getCachedRuntimeStatus(runtimeId: string): {
+  status: RuntimeStatus | null
+  updatedAt: number | null
+} {
+  return getDeps().getCacheValue<RuntimeStatus>(getCacheKey(getDefinition(runtimeId).id))
+}
+
+async function refreshRuntimeStatus(
+  runtimeId: string
+): Promise<{ status: RuntimeStatus | null; updatedAt: number | null }> {
+  const status = await readRuntimeStatus(runtimeId)
+  const updatedAt = getDeps().setCacheValue(getCacheKey(runtimeId), status)
+  return { status, updatedAt }
+}
+
+// Cached status when available, so callers that check many runtimes avoid repeated brew searches.
+export async function getRuntimeStatus(runtimeId: string, refresh = false): Promise<RuntimeStatus> {
+  const cached = refresh ? null : getCachedRuntimeStatus(runtimeId).status
+  return cached ?? ((await refreshRuntimeStatus(runtimeId)).status as RuntimeStatus)
+}
+
+export function setupRuntimeHandlers(): void {
+  ipcMain.handle('runtimes:list', () => {
+    return listRuntimes()
+  })
+  ipcMain.handle('cache:get-runtime-versions', (_, payload: { runtimeId: string }) => {
+    return getCachedRuntimeStatus(payload.runtimeId)
+  })
+  ipcMain.handle('cache:refresh-runtime-versions', (_, payload: { runtimeId: string }) => {
+    return refreshRuntimeStatus(payload.runtimeId)
+  })
+}
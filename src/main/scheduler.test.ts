@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest'
+import { isWithinQuietHours, type SchedulerSettings } from './scheduler'
+
+vi.mock('electron', () => ({ BrowserWindow: {}, Notification: {}, ipcMain: { handle: vi.fn() } }))
+
+function settings(quietHoursStart: number | null, quietHoursEnd: number | null): SchedulerSettings {
+  return { enabled: true, intervalMinutes: 60, quietHoursStart, quietHoursEnd }
+}
+
+function at(hour: number): Date {
+  return new Date(2026, 0, 1, hour, 30)
+}
+
+describe('isWithinQuietHours', () => {
+  it('covers a range within one day, excluding its end hour', () => {
+    expect(isWithinQuietHours(settings(9, 17), at(8))).toBe(false)
+    expect(isWithinQuietHours(settings(9, 17), at(9))).toBe(true)
+    expect(isWithinQuietHours(settings(9, 17), at(16))).toBe(true)
+    expect(isWithinQuietHours(settings(9, 17), at(17))).toBe(false)
+  })
+
+  it('wraps past midnight when the start is after the end', () => {
+    expect(isWithinQuietHours(settings(22, 7), at(21))).toBe(false)
+    expect(isWithinQuietHours(settings(22, 7), at(23))).toBe(true)
+    expect(isWithinQuietHours(settings(22, 7), at(0))).toBe(true)
+    expect(isWithinQuietHours(settings(22, 7), at(6))).toBe(true)
+    expect(isWithinQuietHours(settings(22, 7), at(7))).toBe(false)
+  })
+
+  it('is off when either bound is missing or both are equal', () => {
+    expect(isWithinQuietHours(settings(null, 7), at(3))).toBe(false)
+    expect(isWithinQuietHours(settings(22, null), at(23))).toBe(false)
+    expect(isWithinQuietHours(settings(5, 5), at(5))).toBe(false)
+  })
+})
@@ -0,0 +1,335 @@
+import { BrowserWindow, Notification, ipcMain } from 'electron'
+import type Database from 'better-sqlite3'
+
+import type { BrewOutdatedPackage } from './brewService'
+
+export type SchedulerSettings = {
+  enabled: boolean
+  intervalMinutes: number
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+}
+
+export type AppUpdateCheck = {
+  success: boolean
+  updateAvailable: boolean
+  currentVersion: string
+  latestVersion?: string
+  releaseNotes?: string
+  downloadUrl?: string | null
+  error?: string
+}
+
+export type ScheduledCheckResult = {
+  trigger: 'schedule' | 'manual'
+  startedAt: number
+  finishedAt: number
+  outdated: { success: boolean; items: BrewOutdatedPackage[]; error?: string }
+  appUpdate: AppUpdateCheck
+  newUpgrades: string[]
+}
+
+export type SchedulerDeps = {
+  getDb: () => Database.Database
+  getOutdatedReport: () => Promise<{
+    success: boolean
+    items: BrewOutdatedPackage[]
+    error?: string
+  }>
+  checkForAppUpdate: () => Promise<AppUpdateCheck>
+  getCacheValue: <T>(cacheKey: string) => { status: T | null; updatedAt: number | null }
+  setCacheValue: (cacheKey: string, value: unknown) => number
+  onNotificationClick: () => void
+}
+
+const SCHEDULER_LAST_RUN_CACHE_KEY = 'scheduler_last_run_v1'
+// Stamped only by checks that fully succeeded; tick() waits an interval from this one.
+const SCHEDULER_LAST_COMPLETED_CACHE_KEY = 'scheduler_last_completed_v1'
+const SCHEDULER_TICK_MS = 1000 * 60 * 5
+const SCHEDULER_STARTUP_DELAY_MS = 1000 * 60
+const MIN_INTERVAL_MINUTES = 30
+const MAX_INTERVAL_MINUTES = 60 * 24 * 7
+
+const DEFAULT_SETTINGS: SchedulerSettings = {
+  enabled: false,
+  intervalMinutes: 60 * 6,
+  quietHoursStart: null,
+  quietHoursEnd: null
+}
+
+let deps: SchedulerDeps | null = null
+let tickTimer: NodeJS.Timeout | null = null
+let startupTimer: NodeJS.Timeout | null = null
+let runningCheck: Promise<ScheduledCheckResult> | null = null
+let lastFailureMessage: string | null = null
+const checkListeners = new Set<(result: ScheduledCheckResult) => void>()
+
+function normalizeHour(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return null
+  return value >= 0 && value <= 23 ? value : null
+}
+
+function normalizeSettings(value: Partial<SchedulerSettings>): SchedulerSettings {
+  const interval = Number(value.intervalMinutes)
+  return {
+    enabled: value.enabled === true,
+    intervalMinutes: Number.isFinite(interval)
+      ? Math.min(MAX_INTERVAL_MINUTES, Math.max(MIN_INTERVAL_MINUTES, Math.floor(interval)))
+      : DEFAULT_SETTINGS.intervalMinutes,
+    quietHoursStart: normalizeHour(value.quietHoursStart),
+    quietHoursEnd: normalizeHour(value.quietHoursEnd)
+  }
+}
+
+export function isWithinQuietHours(settings: SchedulerSettings, date: Date): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings
+  if (start === null || end === null || start === end) return false
+  const hour = date.getHours()
+  // Ranges such as 22 -> 7 wrap around midnight.
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end
+}
+
+function getOutdatedKey(item: BrewOutdatedPackage): string {
+  return `${item.brewType}:${item.token}`
+}
+
+function notify(title: string, body: string): void {
+  if (!Notification.isSupported()) return
+  const notification = new Notification({ title, body })
+  notification.on('click', () => deps?.onNotificationClick())
+  notification.show()
+}
+
+function notifyCheckResult(
+  result: ScheduledCheckResult,
+  previous: ScheduledCheckResult | null
+): void {
+  if (result.newUpgrades.length > 0) {
+    const preview = result.newUpgrades.slice(0, 5).join(', ')
+    const remaining = result.newUpgrades.length - 5
+    notify(
+      `${result.newUpgrades.length} new Homebrew upgrade(s) available`,
+      remaining > 0 ? `${preview} and ${remaining} more` : preview
+    )
+  }
+
+  const { appUpdate } = result
+  const alreadyNotified =
+    previous?.appUpdate.updateAvailable === true &&
+    previous.appUpdate.latestVersion === appUpdate.latestVersion
+  if (appUpdate.updateAvailable && !alreadyNotified) {
+    notify('appPad update available', `${appUpdate.latestVersion} is ready to download.`)
+  }
+}
+
+function describeCheckFailure(result: ScheduledCheckResult): string | null {
+  const failures = [
+    result.outdated.success
+      ? null
+      : `brew outdated failed: ${result.outdated.error ?? 'unknown error'}`,
+    result.appUpdate.success
+      ? null
+      : `App update check failed: ${result.appUpdate.error ?? 'unknown error'}`
+  ].filter((failure): failure is string => failure !== null)
+  return failures.length > 0 ? failures.join('\n') : null
+}
+
+// A failed check is retried on every tick; only a new kind of failure is announced.
+function notifyCheckFailure(message: string): void {
+  if (message === lastFailureMessage) return
+  lastFailureMessage = message
+  notify('Scheduled update check failed', message)
+}
+
+export function configureScheduler(nextDeps: SchedulerDeps): void {
+  deps = nextDeps
+}
+
+export function getSchedulerSettings(): SchedulerSettings {
+  if (!deps) return DEFAULT_SETTINGS
+  const row = deps
+    .getDb()
+    .prepare(
+      `
+      SELECT enabled, interval_minutes, quiet_hours_start, quiet_hours_end
+      FROM scheduler_settings
+      WHERE id = 1
+    `
+    )
+    .get() as
+    | {
+        enabled: number
+        interval_minutes: number
+        quiet_hours_start: number | null
+        quiet_hours_end: number | null
+      }
+    | undefined
+  if (!row) return DEFAULT_SETTINGS
+
+  return normalizeSettings({
+    enabled: row.enabled === 1,
+    intervalMinutes: row.interval_minutes,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end
+  })
+}
+
+export function setSchedulerSettings(value: Partial<SchedulerSettings>): SchedulerSettings {
+  const settings = normalizeSettings({ ...getSchedulerSettings(), ...value })
+  if (!deps) return settings
+  deps
+    .getDb()
+    .prepare(
+      `
+      INSERT INTO scheduler_settings (
+        id, enabled, interval_minutes, quiet_hours_start, quiet_hours_end, updated_at
+      )
+      VALUES (1, @enabled, @interval_minutes, @quiet_hours_start, @quiet_hours_end, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        enabled = excluded.enabled,
+        interval_minutes = excluded.interval_minutes,
+        quiet_hours_start = excluded.quiet_hours_start,
+        quiet_hours_end = excluded.quiet_hours_end,
+        updated_at = excluded.updated_at
+    `
+    )
+    .run({
+      enabled: settings.enabled ? 1 : 0,
+      interval_minutes: settings.intervalMinutes,
+      quiet_hours_start: settings.quietHoursStart,
+      quiet_hours_end: settings.quietHoursEnd,
+      updated_at: Date.now()
+    })
+  return settings
+}
+
+export function getLastScheduledCheck(): {
+  result: ScheduledCheckResult | null
+  updatedAt: number | null
+} {
+  if (!deps) return { result: null, updatedAt: null }
+  const cached = deps.getCacheValue<ScheduledCheckResult>(SCHEDULER_LAST_RUN_CACHE_KEY)
+  return { result: cached.status, updatedAt: cached.updatedAt }
+}
+
+export function onScheduledCheck(listener: (result: ScheduledCheckResult) => void): () => void {
+  checkListeners.add(listener)
+  return () => {
+    checkListeners.delete(listener)
+  }
+}
+
+export async function runScheduledCheck(
+  trigger: ScheduledCheckResult['trigger']
+): Promise<ScheduledCheckResult> {
+  if (runningCheck) return runningCheck
+  if (!deps) throw new Error('Scheduler is not configured.')
+  const activeDeps = deps
+
+  runningCheck = (async () => {
+    const previous = getLastScheduledCheck().result
+    const startedAt = Date.now()
+    const outdated = await activeDeps.getOutdatedReport()
+    const appUpdate = await activeDeps.checkForAppUpdate()
+
+    const previousKeys = new Set((previous?.outdated.items ?? []).map(getOutdatedKey))
+    const newUpgrades = outdated.items
+      .filter((item) => !item.pinned && !previousKeys.has(getOutdatedKey(item)))
+      .map((item) => item.token)
+
+    const result: ScheduledCheckResult = {
+      trigger,
+      startedAt,
+      finishedAt: Date.now(),
+      // Keep the previous outdated list when brew failed so a transient error
+      // does not re-announce every upgrade on the next successful run.
+      outdated: outdated.success
+        ? outdated
+        : { ...outdated, items: previous?.outdated.items ?? [] },
+      appUpdate,
+      newUpgrades: outdated.success ? newUpgrades : []
+    }
+    activeDeps.setCacheValue(SCHEDULER_LAST_RUN_CACHE_KEY, result)
+    if (!describeCheckFailure(result)) {
+      activeDeps.setCacheValue(SCHEDULER_LAST_COMPLETED_CACHE_KEY, result.finishedAt)
+    }
+
+    // Manual runs happen with the window in front of the user, so only
+    // scheduled runs raise native notifications.
+    if (trigger === 'schedule') {
+      notifyCheckResult(result, previous)
+    }
+    checkListeners.forEach((listener) => listener(result))
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('scheduler:checked', result)
+    })
+    return result
+  })()
+
+  try {
+    return await runningCheck
+  } finally {
+    runningCheck = null
+  }
+}
+
+function tick(): void {
+  const settings = getSchedulerSettings()
+  if (!settings.enabled || isWithinQuietHours(settings, new Date())) return
+
+  const { updatedAt } = deps?.getCacheValue<number>(SCHEDULER_LAST_COMPLETED_CACHE_KEY) ?? {}
+  if (updatedAt && Date.now() - updatedAt < settings.intervalMinutes * 60 * 1000) return
+
+  void runScheduledCheck('schedule').then(
+    (result) => {
+      const failure = describeCheckFailure(result)
+      if (failure) {
+        notifyCheckFailure(failure)
+      } else {
+        lastFailureMessage = null
+      }
+    },
+    (error) => {
+      notifyCheckFailure(error instanceof Error ? error.message : 'The check did not complete.')
+    }
+  )
+}
+
+export function startScheduler(): void {
+  stopScheduler()
+  startupTimer = setTimeout(tick, SCHEDULER_STARTUP_DELAY_MS)
+  tickTimer = setInterval(tick, SCHEDULER_TICK_MS)
+}
+
+export function stopScheduler(): void {
+  if (startupTimer) {
+    clearTimeout(startupTimer)
+    startupTimer = null
+  }
+  if (tickTimer) {
+    clearInterval(tickTimer)
+    tickTimer = null
+  }
+}
+
+export function setupSchedulerHandlers(): void {
+  ipcMain.handle('scheduler:get-settings', () => {
+    return getSchedulerSettings()
+  })
+  ipcMain.handle('scheduler:set-settings', (_, payload: Partial<SchedulerSettings>) => {
+    return setSchedulerSettings(payload ?? {})
+  })
+  ipcMain.handle('scheduler:get-last-run', () => {
+    return getLastScheduledCheck()
+  })
+  ipcMain.handle('scheduler:run-now', async () => {
+    try {
+      return { success: true, result: await runScheduledCheck('manual') }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Scheduled check failed.'
+      }
+    }
+  })
+}
@@ -0,0 +1,381 @@
+import { ipcMain } from 'electron'
+import type Database from 'better-sqlite3'
+import { brewCommand, type CommandSpec } from './commandSpec'
+
+export type SnapshotPackage = {
+  token: string
+  brewType: 'cask' | 'formula'
+  versions: string[]
+  pinned: boolean
+  tap: string | null
+  installedOnRequest: boolean
+}
+
+export type PackageSnapshot = {
+  id: number
+  reason: string
+  origin: string
+  createdAt: number
+  packages: SnapshotPackage[]
+}
+
+export type PackageSnapshotSummary = Omit<PackageSnapshot, 'packages'> & {
+  formulaCount: number
+  caskCount: number
+}
+
+export type SnapshotDiffEntry = {
+  token: string
+  brewType: 'cask' | 'formula'
+  fromVersions: string[]
+  toVersions: string[]
+  fromPinned: boolean
+  toPinned: boolean
+}
+
+export type SnapshotDiff = {
+  added: SnapshotDiffEntry[]
+  removed: SnapshotDiffEntry[]
+  changed: SnapshotDiffEntry[]
+}
+
+export type SnapshotRestorePlan = {
+  commands: CommandSpec[]
+  notes: string[]
+}
+
+export type SnapshotDeps = {
+  getDb: () => Database.Database
+  resolveBrewPath: () => Promise<string | null>
+  runCommand: (
+    bin: string,
+    args: string[],
+    timeoutMs?: number
+  ) => Promise<{ success: boolean; stdout: string; stderr: string; error?: string }>
+}
+
+type RawInstalledInfo = {
+  formulae?: Array<{
+    name?: string
+    tap?: string
+    pinned?: boolean
+    installed?: Array<{ version?: string; installed_on_request?: boolean }>
+  }>
+  casks?: Array<{ token?: string; tap?: string; installed?: string | null }>
+}
+
+type SnapshotRow = {
+  id: number
+  reason: string
+  origin: string
+  created_at: number
+  packages: string
+}
+
+const MAX_SNAPSHOTS = 50
+const CORE_TAPS = new Set(['homebrew/core', 'homebrew/cask'])
+
+let deps: SnapshotDeps | null = null
+
+function getDeps(): SnapshotDeps {
+  if (!deps) throw new Error('Snapshots are not configured.')
+  return deps
+}
+
+export function configureSnapshots(nextDeps: SnapshotDeps): void {
+  deps = nextDeps
+}
+
+function packageKey(entry: { token: string; brewType: string }): string {
+  return `${entry.brewType}:${entry.token}`
+}
+
+// `brew list --versions` prints "token version [version...]" per installed keg.
+function parseVersionLines(raw: string): Map<string, string[]> {
+  const versions = new Map<string, string[]>()
+  raw
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .filter((parts) => parts[0])
+    .forEach(([token, ...rest]) => versions.set(token, rest))
+  return versions
+}
+
+async function readInstalledPackages(): Promise<SnapshotPackage[]> {
+  const { resolveBrewPath, runCommand } = getDeps()
+  const brewPath = await resolveBrewPath()
+  if (!brewPath) throw new Error('Homebrew is not installed.')
+
+  const [formulaVersions, caskVersions, infoResult] = await Promise.all([
+    runCommand(brewPath, ['list', '--formula', '--versions'], 1000 * 60),
+    runCommand(brewPath, ['list', '--cask', '--versions'], 1000 * 60),
+    runCommand(brewPath, ['info', '--json=v2', '--installed'], 1000 * 60 * 5)
+  ])
+  if (!formulaVersions.success || !caskVersions.success) {
+    throw new Error(formulaVersions.error || caskVersions.error || 'brew list --versions failed.')
+  }
+
+  let info: RawInstalledInfo = {}
+  try {
+    info = infoResult.success ? (JSON.parse(infoResult.stdout) as RawInstalledInfo) : {}
+  } catch {
+    info = {}
+  }
+  const formulaInfo = new Map((info.formulae ?? []).map((entry) => [entry.name, entry]))
+  const caskInfo = new Map((info.casks ?? []).map((entry) => [entry.token, entry]))
+
+  const formulae = [...parseVersionLines(formulaVersions.stdout)].map(([token, versions]) => {
+    const detail = formulaInfo.get(token)
+    return {
+      token,
+      brewType: 'formula' as const,
+      versions,
+      pinned: detail?.pinned === true,
+      tap: detail?.tap ?? null,
+      installedOnRequest: detail?.installed?.some((keg) => keg.installed_on_request) ?? true
+    }
+  })
+  const casks = [...parseVersionLines(caskVersions.stdout)].map(([token, versions]) => ({
+    token,
+    brewType: 'cask' as const,
+    versions,
+    pinned: false,
+    tap: caskInfo.get(token)?.tap ?? null,
+    installedOnRequest: true
+  }))
+  return [...formulae, ...casks]
+}
+
+function toSnapshot(row: SnapshotRow): PackageSnapshot {
+  let packages: SnapshotPackage[] = []
+  try {
+    packages = JSON.parse(row.packages) as SnapshotPackage[]
+  } catch {
+    packages = []
+  }
+  return {
+    id: row.id,
+    reason: row.reason,
+    origin: row.origin,
+    createdAt: row.created_at,
+    packages
+  }
+}
+
+function getSnapshot(id: number): PackageSnapshot | null {
+  const row = getDeps()
+    .getDb()
+    .prepare('SELECT id, reason, origin, created_at, packages FROM package_snapshots WHERE id = ?')
+    .get(id) as SnapshotRow | undefined
+  return row ? toSnapshot(row) : null
+}
+
+export async function captureSnapshot(
+  reason: string,
+  origin: string
+): Promise<{ success: boolean; snapshot?: PackageSnapshotSummary; error?: string }> {
+  try {
+    const packages = await readInstalledPackages()
+    const db = getDeps().getDb()
+    const createdAt = Date.now()
+    const result = db
+      .prepare(
+        `
+        INSERT INTO package_snapshots (reason, origin, created_at, packages)
+        VALUES (@reason, @origin, @created_at, @packages)
+      `
+      )
+      .run({ reason, origin, created_at: createdAt, packages: JSON.stringify(packages) })
+    db.prepare(
+      `
+      DELETE FROM package_snapshots
+      WHERE id NOT IN (SELECT id FROM package_snapshots ORDER BY created_at DESC, id DESC LIMIT ?)
+    `
+    ).run(MAX_SNAPSHOTS)
+
+    return {
+      success: true,
+      snapshot: {
+        id: Number(result.lastInsertRowid),
+        reason,
+        origin,
+        createdAt,
+        formulaCount: packages.filter((entry) => entry.brewType === 'formula').length,
+        caskCount: packages.filter((entry) => entry.brewType === 'cask').length
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record snapshot.'
+    }
+  }
+}
+
+export function listSnapshots(): PackageSnapshotSummary[] {
+  const rows = getDeps()
+    .getDb()
+    .prepare(
+      `
+      SELECT id, reason, origin, created_at, packages
+      FROM package_snapshots
+      ORDER BY created_at DESC, id DESC
+    `
+    )
+    .all() as SnapshotRow[]
+
+  return rows.map((row) => {
+    const { packages, ...summary } = toSnapshot(row)
+    return {
+      ...summary,
+      formulaCount: packages.filter((entry) => entry.brewType === 'formula').length,
+      caskCount: packages.filter((entry) => entry.brewType === 'cask').length
+    }
+  })
+}
+
+function deleteSnapshot(id: number): { success: boolean } {
+  getDeps().getDb().prepare('DELETE FROM package_snapshots WHERE id = ?').run(id)
+  return { success: true }
+}
+
+function toDiffEntry(
+  from: SnapshotPackage | undefined,
+  to: SnapshotPackage | undefined
+): SnapshotDiffEntry {
+  const entry = (from ?? to) as SnapshotPackage
+  return {
+    token: entry.token,
+    brewType: entry.brewType,
+    fromVersions: from?.versions ?? [],
+    toVersions: to?.versions ?? [],
+    fromPinned: from?.pinned ?? false,
+    toPinned: to?.pinned ?? false
+  }
+}
+
+function comparePackages(from: SnapshotPackage[], to: SnapshotPackage[]): SnapshotDiff {
+  const fromMap = new Map(from.map((entry) => [packageKey(entry), entry]))
+  const toMap = new Map(to.map((entry) => [packageKey(entry), entry]))
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] }
+
+  toMap.forEach((entry, key) => {
+    if (!fromMap.has(key)) diff.added.push(toDiffEntry(undefined, entry))
+  })
+  fromMap.forEach((entry, key) => {
+    const next = toMap.get(key)
+    if (!next) {
+      diff.removed.push(toDiffEntry(entry, undefined))
+    } else if (
+      entry.versions.join(' ') !== next.versions.join(' ') ||
+      entry.pinned !== next.pinned
+    ) {
+      diff.changed.push(toDiffEntry(entry, next))
+    }
+  })
+
+  const byToken = (a: SnapshotDiffEntry, b: SnapshotDiffEntry): number =>
+    a.token.localeCompare(b.token)
+  diff.added.sort(byToken)
+  diff.removed.sort(byToken)
+  diff.changed.sort(byToken)
+  return diff
+}
+
+// Compares two stored snapshots, or a stored snapshot against the live install when `toId` is null.
+export async function diffSnapshots(
+  fromId: number,
+  toId: number | null
+): Promise<{ success: boolean; diff?: SnapshotDiff; error?: string }> {
+  try {
+    const from = getSnapshot(fromId)
+    if (!from) return { success: false, error: 'Snapshot not found.' }
+    let toPackages: SnapshotPackage[]
+    if (toId === null) {
+      toPackages = await readInstalledPackages()
+    } else {
+      const to = getSnapshot(toId)
+      if (!to) return { success: false, error: 'Snapshot not found.' }
+      toPackages = to.packages
+    }
+    return { success: true, diff: comparePackages(from.packages, toPackages) }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare snapshots.'
+    }
+  }
+}
+
+function installName(entry: SnapshotPackage): string {
+  return entry.tap && !CORE_TAPS.has(entry.tap) ? `${entry.tap}/${entry.token}` : entry.token
+}
+
+// Best effort: Homebrew cannot install an older version of the same formula, so version
+// changes are reported rather than reverted.
+export async function planSnapshotRestore(
+  id: number
+): Promise<{ success: boolean; plan?: SnapshotRestorePlan; error?: string }> {
+  try {
+    const snapshot = getSnapshot(id)
+    if (!snapshot) return { success: false, error: 'Snapshot not found.' }
+    const diff = comparePackages(snapshot.packages, await readInstalledPackages())
+    const snapshotMap = new Map(snapshot.packages.map((entry) => [packageKey(entry), entry]))
+
+    const missing = diff.removed
+      .map((entry) => snapshotMap.get(packageKey(entry)) as SnapshotPackage)
+      // Dependencies come back with the formulae that were installed on request.
+      .filter((entry) => entry.installedOnRequest || entry.pinned || entry.token.includes('@'))
+    const unpinned = diff.changed.filter((entry) => entry.fromPinned && !entry.toPinned)
+    const commands: CommandSpec[] = [
+      ...missing.map((entry) =>
+        entry.brewType === 'cask'
+          ? brewCommand('install', '--cask', installName(entry))
+          : brewCommand('install', installName(entry))
+      ),
+      ...[...missing, ...unpinned]
+        .filter(
+          (entry) => entry.brewType === 'formula' && snapshotMap.get(packageKey(entry))?.pinned
+        )
+        .map((entry) => brewCommand('pin', entry.token))
+    ]
+
+    const notes = [
+      ...diff.changed
+        .filter((entry) => entry.fromVersions.join(' ') !== entry.toVersions.join(' '))
+        .map(
+          (entry) =>
+            `${entry.token} is now ${entry.toVersions.join(', ') || 'unversioned'} (was ${entry.fromVersions.join(', ')}); Homebrew cannot downgrade it automatically.`
+        ),
+      ...(diff.added.length > 0
+        ? [
+            `Installed since the snapshot and left in place: ${diff.added.map((entry) => entry.token).join(', ')}.`
+          ]
+        : [])
+    ]
+    return { success: true, plan: { commands, notes } }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to plan restore.'
+    }
+  }
+}
+
+export function setupSnapshotHandlers(): void {
+  ipcMain.handle('snapshots:list', () => {
+    return listSnapshots()
+  })
+  ipcMain.handle('snapshots:capture', (_, payload?: { reason?: string }) => {
+    return captureSnapshot(payload?.reason?.trim() || 'Manual snapshot', 'snapshots')
+  })
+  ipcMain.handle('snapshots:diff', (_, payload: { fromId: number; toId: number | null }) => {
+    return diffSnapshots(payload.fromId, payload.toId ?? null)
+  })
+  ipcMain.handle('snapshots:restore-plan', (_, payload: { id: number }) => {
+    return planSnapshotRestore(payload.id)
+  })
+  ipcMain.handle('snapshots:delete', (_, payload: { id: number }) => {
+    return deleteSnapshot(payload.id)
+  })
+}
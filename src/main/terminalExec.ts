@@ -0,0 +1,299 @@
+import { execFile } from 'child_process'
+import { existsSync, mkdtempSync, readFileSync, rmSync, watch, writeFileSync } from 'fs'
+import type { FSWatcher } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ipcMain, type WebContents } from 'electron'
+import { getRunningJobCommand } from './jobQueue'
+import { getTerminalShellFamily } from './terminalShells'
+
+export type TerminalExecDeps = {
+  getSessionShell: (sessionId: number) => string | null
+  writeToSession: (sessionId: number, data: string) => boolean
+}
+
+export type TerminalExecFinished = {
+  execId: string
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+type PendingExec = {
+  execId: string
+  directory: string
+  sender: WebContents
+  // Set once nobody waits for the result; the directory is removed when the runner is done.
+  detached: boolean
+  cleanupTimer: NodeJS.Timeout | null
+  watcher: FSWatcher | null
+  pollTimer: NodeJS.Timeout
+  onSenderDestroyed: () => void
+  interruptTimers: NodeJS.Timeout[] | null
+}
+
+const EXEC_POLL_INTERVAL_MS = 1000
+const MAX_CAPTURED_CHARS = 512 * 1024
+// Interrupting a command sends SIGINT first and escalates after each delay while it keeps running.
+const INTERRUPT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGKILL']
+const INTERRUPT_ESCALATION_DELAY_MS = 5000
+// A canceled runner normally finishes right after the SIGKILL step; this covers one that died.
+const DETACHED_CLEANUP_DELAY_MS = INTERRUPT_SIGNALS.length * INTERRUPT_ESCALATION_DELAY_MS + 5000
+// The launcher line the jobs pane types for each app-initiated command; the runner it starts
+// echoes the real command, so the temp script path is only noise in an export or a transcript.
+const EXEC_LAUNCHER_LINE_PATTERN = /apppad-exec-[^/\s'"]+\/run\.sh/
+
+let deps: TerminalExecDeps | null = null
+let nextExecId = 1
+const pendingExecs = new Map<string, PendingExec>()
+
+function getDeps(): TerminalExecDeps {
+  if (!deps) throw new Error('Terminal exec is not configured.')
+  return deps
+}
+
+export function configureTerminalExec(nextDeps: TerminalExecDeps): void {
+  deps = nextDeps
+}
+
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// The command runs under /bin/sh whatever the interactive shell is. Its stdout and stderr are
+// each teed through a FIFO into their own file while still reaching the terminal. The exit code
+// lands in `status` only after both tees have drained, which is what the main process waits for.
+function buildRunnerScript(directory: string, command: string): string {
+  const dir = quoteShellArg(directory)
+  return [
+    '#!/bin/sh',
+    `dir=${dir}`,
+    // Keep the runner alive on Ctrl+C so an interrupted command still reports its status.
+    'trap : INT',
+    `printf '\\033[2m$ %s\\033[0m\\n' ${quoteShellArg(command.trim())}`,
+    'if mkfifo "$dir/stdout.pipe" "$dir/stderr.pipe"; then',
+    '  tee "$dir/stdout" < "$dir/stdout.pipe" &',
+    '  tee "$dir/stderr" < "$dir/stderr.pipe" >&2 &',
+    '  /bin/sh "$dir/command.sh" > "$dir/stdout.pipe" 2> "$dir/stderr.pipe"',
+    '  code=$?',
+    // A trapped Ctrl+C cuts `wait` short, so keep waiting until the tees are done.
+    '  until wait; do :; done',
+    'else',
+    '  /bin/sh "$dir/command.sh"',
+    '  code=$?',
+    'fi',
+    'printf \'%s\\n\' "$code" > "$dir/status.tmp" && mv "$dir/status.tmp" "$dir/status"',
+    ''
+  ].join('\n')
+}
+
+function buildLauncherLine(shellPath: string, runnerPath: string): string {
+  // A leading space keeps the launcher out of shell history where the shell supports it.
+  const prefix = getTerminalShellFamily(shellPath) === 'nushell' ? '^' : ' '
+  return `${prefix}/bin/sh ${quoteShellArg(runnerPath)}\n`
+}
+
+function readCapture(path: string): string {
+  try {
+    const content = readFileSync(path, 'utf8')
+    return content.length > MAX_CAPTURED_CHARS ? content.slice(-MAX_CAPTURED_CHARS) : content
+  } catch {
+    return ''
+  }
+}
+
+export function isExecLauncherLine(line: string): boolean {
+  return EXEC_LAUNCHER_LINE_PATTERN.test(line)
+}
+
+function disposeExec(pending: PendingExec): void {
+  pendingExecs.delete(pending.execId)
+  pending.watcher?.close()
+  clearInterval(pending.pollTimer)
+  pending.interruptTimers?.forEach((timer) => clearTimeout(timer))
+  if (pending.cleanupTimer) clearTimeout(pending.cleanupTimer)
+  if (!pending.sender.isDestroyed()) {
+    pending.sender.removeListener('destroyed', pending.onSenderDestroyed)
+  }
+  rmSync(pending.directory, { recursive: true, force: true })
+}
+
+function checkExecFinished(execId: string): void {
+  const pending = pendingExecs.get(execId)
+  if (!pending) return
+  const statusPath = join(pending.directory, 'status')
+  if (!existsSync(statusPath)) return
+
+  if (pending.detached) {
+    disposeExec(pending)
+    return
+  }
+  const parsed = Number.parseInt(readCapture(statusPath).trim(), 10)
+  const finished: TerminalExecFinished = {
+    execId,
+    code: Number.isNaN(parsed) ? null : parsed,
+    stdout: readCapture(join(pending.directory, 'stdout')),
+    stderr: readCapture(join(pending.directory, 'stderr'))
+  }
+  disposeExec(pending)
+  if (!pending.sender.isDestroyed()) {
+    pending.sender.send('terminal:exec-finished', finished)
+  }
+}
+
+// Only the queue's running job can be started, and its command is the one validated at enqueue.
+export function startTerminalExec(
+  sender: WebContents,
+  sessionId: number,
+  batchId: string,
+  itemId: string
+): { success: boolean; execId?: string; error?: string } {
+  const command = getRunningJobCommand(sender, batchId, itemId)
+  if (command === null) {
+    return { success: false, error: 'The job is not running in this terminal.' }
+  }
+  const shellPath = getDeps().getSessionShell(sessionId)
+  if (!shellPath) {
+    return { success: false, error: 'Terminal session is not running.' }
+  }
+
+  const execId = `exec-${Date.now()}-${nextExecId++}`
+  let directory: string
+  try {
+    directory = mkdtempSync(join(tmpdir(), 'apppad-exec-'))
+    // The command's shell records its pid so an interrupt can target it without the runner.
+    writeFileSync(
+      join(directory, 'command.sh'),
+      `printf '%s\\n' "$$" > ${quoteShellArg(join(directory, 'pid'))}\n${command.trim()}\n`
+    )
+    writeFileSync(join(directory, 'run.sh'), buildRunnerScript(directory, command), {
+      mode: 0o700
+    })
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to prepare the command.'
+    }
+  }
+
+  const pending: PendingExec = {
+    execId,
+    directory,
+    sender,
+    detached: false,
+    cleanupTimer: null,
+    watcher: null,
+    // fs.watch can miss events on some volumes, so a slow poll backs it up.
+    pollTimer: setInterval(() => checkExecFinished(execId), EXEC_POLL_INTERVAL_MS),
+    onSenderDestroyed: () => cancelTerminalExec(execId),
+    interruptTimers: null
+  }
+  try {
+    pending.watcher = watch(directory, () => checkExecFinished(execId))
+  } catch {
+    pending.watcher = null
+  }
+  pendingExecs.set(execId, pending)
+  sender.once('destroyed', pending.onSenderDestroyed)
+
+  if (
+    !getDeps().writeToSession(sessionId, buildLauncherLine(shellPath, join(directory, 'run.sh')))
+  ) {
+    disposeExec(pending)
+    return { success: false, error: 'Failed to write command to terminal session.' }
+  }
+  return { success: true, execId }
+}
+
+function listDescendantPids(rootPid: number): Promise<number[]> {
+  return new Promise((resolve) => {
+    execFile('ps', ['-A', '-o', 'pid=,ppid='], { timeout: 5000 }, (error, stdout) => {
+      if (error) {
+        resolve([])
+        return
+      }
+      const children = new Map<number, number[]>()
+      stdout.split('\n').forEach((line) => {
+        const [pid, ppid] = line.trim().split(/\s+/).map(Number)
+        if (!pid || !ppid) return
+        children.set(ppid, [...(children.get(ppid) ?? []), pid])
+      })
+      const descendants: number[] = []
+      const queue = [...(children.get(rootPid) ?? [])]
+      while (queue.length > 0) {
+        const pid = queue.shift() as number
+        descendants.push(pid)
+        queue.push(...(children.get(pid) ?? []))
+      }
+      resolve(descendants)
+    })
+  })
+}
+
+// Signals the command's shell and everything under it, but neither the runner, which has to
+// survive to write the exit status, nor the tees that are still draining output.
+async function signalExecProcesses(pending: PendingExec, signal: NodeJS.Signals): Promise<void> {
+  const commandPid = Number.parseInt(readCapture(join(pending.directory, 'pid')).trim(), 10)
+  if (Number.isNaN(commandPid)) return
+  const descendants = await listDescendantPids(commandPid)
+  if (!pendingExecs.has(pending.execId)) return
+  // Deepest processes first, so the command's shell does not react before its children do.
+  const targets = [...descendants.reverse(), commandPid]
+  targets.forEach((pid) => {
+    try {
+      process.kill(pid, signal)
+    } catch {
+      // The process already exited.
+    }
+  })
+}
+
+export function interruptTerminalExec(execId: string): { success: boolean } {
+  const pending = pendingExecs.get(execId)
+  if (!pending) return { success: false }
+  if (pending.interruptTimers) return { success: true }
+
+  pending.interruptTimers = INTERRUPT_SIGNALS.map((signal, index) =>
+    setTimeout(() => {
+      void signalExecProcesses(pending, signal)
+    }, index * INTERRUPT_ESCALATION_DELAY_MS)
+  )
+  return { success: true }
+}
+
+// Stops reporting the exec. The runner may still be writing into its directory, so the command
+// is interrupted and the directory only removed once the runner is done with it.
+export function cancelTerminalExec(execId: string): void {
+  const pending = pendingExecs.get(execId)
+  if (!pending || pending.detached) return
+  pending.detached = true
+  interruptTerminalExec(execId)
+  pending.cleanupTimer = setTimeout(() => disposeExec(pending), DETACHED_CLEANUP_DELAY_MS)
+}
+
+export function cancelAllTerminalExecs(): void {
+  for (const execId of [...pendingExecs.keys()]) {
+    cancelTerminalExec(execId)
+  }
+}
+
+export function setupTerminalExecHandlers(): void {
+  ipcMain.handle(
+    'terminal:start-exec',
+    (event, payload: { sessionId: number; batchId: string; itemId: string }) => {
+      return startTerminalExec(
+        event.sender,
+        Number(payload.sessionId),
+        String(payload.batchId),
+        String(payload.itemId)
+      )
+    }
+  )
+  ipcMain.handle('terminal:interrupt-exec', (_, payload: { execId: string }) => {
+    return interruptTerminalExec(String(payload.execId))
+  })
+  ipcMain.handle('terminal:cancel-exec', (_, payload: { execId: string }) => {
+    cancelTerminalExec(String(payload.execId))
+    return { success: true }
+  })
+}
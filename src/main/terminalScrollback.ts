@@ -0,0 +1,247 @@
+import { createWriteStream, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import type { WriteStream } from 'fs'
+import { join } from 'path'
+import { app, dialog, ipcMain } from 'electron'
+import type Database from 'better-sqlite3'
+import { isExecLauncherLine } from './terminalExec'
+
+export type TerminalScrollbackSummary = {
+  id: number
+  label: string
+  shell: string
+  cwd: string
+  startedAt: number
+  endedAt: number | null
+  exitCode: number | null
+  bytes: number
+  truncated: boolean
+  recording: boolean
+}
+
+export type TerminalScrollbackDeps = {
+  getDb: () => Database.Database
+}
+
+type ScrollbackRow = {
+  id: number
+  label: string
+  shell: string
+  cwd: string
+  started_at: number
+  ended_at: number | null
+  exit_code: number | null
+  bytes: number
+  truncated: number
+}
+
+type ScrollbackRecording = {
+  id: number
+  stream: WriteStream
+  bytes: number
+  truncated: boolean
+}
+
+const SCROLLBACK_MAX_BYTES = 8 * 1024 * 1024
+const SCROLLBACK_MAX_ENTRIES = 40
+
+let deps: TerminalScrollbackDeps | null = null
+const recordings = new Map<number, ScrollbackRecording>()
+
+function getDeps(): TerminalScrollbackDeps {
+  if (!deps) throw new Error('Terminal scrollback is not configured.')
+  return deps
+}
+
+export function configureTerminalScrollback(nextDeps: TerminalScrollbackDeps): void {
+  deps = nextDeps
+}
+
+function getScrollbackPath(id: number): string {
+  const directory = join(app.getPath('userData'), 'terminal-scrollback')
+  mkdirSync(directory, { recursive: true })
+  return join(directory, `${id}.log`)
+}
+
+function isRecording(id: number): boolean {
+  return [...recordings.values()].some((recording) => recording.id === id)
+}
+
+function removeScrollbackFile(id: number): void {
+  try {
+    rmSync(getScrollbackPath(id), { force: true })
+  } catch {
+    // A missing or locked file only leaves disk space behind.
+  }
+}
+
+function pruneScrollbacks(): void {
+  const db = getDeps().getDb()
+  const stale = db
+    .prepare(
+      'SELECT id FROM terminal_scrollbacks ORDER BY started_at DESC, id DESC LIMIT -1 OFFSET ?'
+    )
+    .all(SCROLLBACK_MAX_ENTRIES) as Array<{ id: number }>
+  stale
+    .filter(({ id }) => !isRecording(id))
+    .forEach(({ id }) => {
+      db.prepare('DELETE FROM terminal_scrollbacks WHERE id = ?').run(id)
+      removeScrollbackFile(id)
+    })
+}
+
+export function startScrollbackRecording(
+  sessionId: number,
+  meta: { label: string; shell: string; cwd: string }
+): void {
+  try {
+    const result = getDeps()
+      .getDb()
+      .prepare(
+        'INSERT INTO terminal_scrollbacks (label, shell, cwd, started_at, bytes, truncated) VALUES (?, ?, ?, ?, 0, 0)'
+      )
+      .run(meta.label, meta.shell, meta.cwd, Date.now())
+    const id = Number(result.lastInsertRowid)
+    const stream = createWriteStream(getScrollbackPath(id), { flags: 'a' })
+    // Recording is best effort; a failing disk must never break the live terminal.
+    stream.on('error', () => {
+      recordings.delete(sessionId)
+    })
+    recordings.set(sessionId, { id, stream, bytes: 0, truncated: false })
+    pruneScrollbacks()
+  } catch {
+    recordings.delete(sessionId)
+  }
+}
+
+export function appendScrollback(sessionId: number, data: string): void {
+  const recording = recordings.get(sessionId)
+  if (!recording || recording.truncated) return
+
+  const size = Buffer.byteLength(data)
+  if (recording.bytes + size > SCROLLBACK_MAX_BYTES) {
+    recording.truncated = true
+    recording.stream.write('\r\n[Recording stopped: scrollback size limit reached]\r\n')
+    return
+  }
+  recording.bytes += size
+  recording.stream.write(data)
+}
+
+export function finishScrollbackRecording(sessionId: number, exitCode: number | null): void {
+  const recording = recordings.get(sessionId)
+  if (!recording) return
+  recordings.delete(sessionId)
+  recording.stream.end()
+  try {
+    getDeps()
+      .getDb()
+      .prepare(
+        'UPDATE terminal_scrollbacks SET ended_at = ?, exit_code = ?, bytes = ?, truncated = ? WHERE id = ?'
+      )
+      .run(Date.now(), exitCode, recording.bytes, recording.truncated ? 1 : 0, recording.id)
+  } catch {
+    // The log file is still readable without its final metadata.
+  }
+}
+
+export function finishAllScrollbackRecordings(): void {
+  for (const sessionId of [...recordings.keys()]) {
+    finishScrollbackRecording(sessionId, null)
+  }
+}
+
+function listScrollbacks(): TerminalScrollbackSummary[] {
+  const rows = getDeps()
+    .getDb()
+    .prepare('SELECT * FROM terminal_scrollbacks ORDER BY started_at DESC, id DESC')
+    .all() as ScrollbackRow[]
+  const liveBytes = new Map([...recordings.values()].map((r) => [r.id, r.bytes] as const))
+
+  return rows.map((row) => ({
+    id: row.id,
+    label: row.label,
+    shell: row.shell,
+    cwd: row.cwd,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    exitCode: row.exit_code,
+    bytes: liveBytes.get(row.id) ?? row.bytes,
+    truncated: row.truncated === 1,
+    recording: liveBytes.has(row.id)
+  }))
+}
+
+function readScrollback(id: number): { success: boolean; content?: string; error?: string } {
+  const path = getScrollbackPath(id)
+  if (!existsSync(path)) {
+    return { success: false, error: 'This scrollback is no longer on disk.' }
+  }
+  try {
+    const content = readFileSync(path, 'utf8')
+      .split('\n')
+      .filter((line) => !isExecLauncherLine(line))
+      .join('\n')
+    return { success: true, content }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read scrollback.'
+    }
+  }
+}
+
+async function exportScrollback(payload: {
+  defaultName: string
+  format: 'text' | 'html'
+  content: string
+}): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> {
+  const extension = payload.format === 'html' ? 'html' : 'txt'
+  const baseName = payload.defaultName.replace(/[/\\:*?"<>|]+/g, '-').trim() || 'terminal'
+  try {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Terminal Output',
+      defaultPath: join(app.getPath('documents'), `${baseName}.${extension}`),
+      filters: [
+        payload.format === 'html'
+          ? { name: 'HTML', extensions: ['html'] }
+          : { name: 'Text', extensions: ['txt'] }
+      ],
+      buttonLabel: 'Export'
+    })
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true }
+    }
+    writeFileSync(result.filePath, payload.content)
+    return { success: true, filePath: result.filePath }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export terminal output.'
+    }
+  }
+}
+
+function deleteScrollback(id: number): { success: boolean; error?: string } {
+  if (isRecording(id)) {
+    return { success: false, error: 'This session is still running.' }
+  }
+  getDeps().getDb().prepare('DELETE FROM terminal_scrollbacks WHERE id = ?').run(id)
+  removeScrollbackFile(id)
+  return { success: true }
+}
+
+export function setupTerminalScrollbackHandlers(): void {
+  ipcMain.handle('terminal-scrollback:list', () => listScrollbacks())
+  ipcMain.handle('terminal-scrollback:read', (_, payload: { id: number }) => {
+    return readScrollback(Number(payload.id))
+  })
+  ipcMain.handle(
+    'terminal-scrollback:export',
+    (_, payload: { defaultName: string; format: 'text' | 'html'; content: string }) => {
+      return exportScrollback(payload)
+    }
+  )
+  ipcMain.handle('terminal-scrollback:delete', (_, payload: { id: number }) => {
+    return deleteScrollback(Number(payload.id))
+  })
+}
@@ -0,0 +1,87 @@
+import { accessSync, constants, existsSync, readFileSync, statSync } from 'fs'
+import { basename } from 'path'
+import { ipcMain } from 'electron'
+
+// Decides how the exec launcher line is written; the command itself always runs under /bin/sh.
+export type TerminalShellFamily = 'posix' | 'fish' | 'nushell'
+
+export type TerminalShellInfo = {
+  path: string
+  name: string
+  family: TerminalShellFamily
+  source: '/etc/shells' | 'homebrew'
+}
+
+const HOMEBREW_BIN_DIRS = ['/opt/homebrew/bin', '/usr/local/bin']
+const HOMEBREW_SHELL_NAMES = ['zsh', 'bash', 'fish', 'nu', 'elvish', 'xonsh', 'dash', 'ksh', 'tcsh']
+// Shells that accept `-l` to start as a login shell and so pick up the user's PATH setup.
+const LOGIN_FLAG_SHELLS = new Set(['zsh', 'bash', 'fish', 'nu', 'ksh', 'dash', 'elvish'])
+const MAX_SHELL_ARGS = 16
+
+function isExecutableFile(path: string): boolean {
+  try {
+    if (!statSync(path).isFile()) return false
+    accessSync(path, constants.X_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getTerminalShellFamily(shellPath: string): TerminalShellFamily {
+  const name = basename(shellPath).toLowerCase()
+  if (name === 'fish') return 'fish'
+  if (name === 'nu' || name === 'nushell') return 'nushell'
+  return 'posix'
+}
+
+export function listTerminalShells(): TerminalShellInfo[] {
+  const shells = new Map<string, TerminalShellInfo>()
+  const add = (path: string, source: TerminalShellInfo['source']): void => {
+    if (shells.has(path) || !isExecutableFile(path)) return
+    shells.set(path, { path, name: basename(path), family: getTerminalShellFamily(path), source })
+  }
+
+  if (existsSync('/etc/shells')) {
+    try {
+      readFileSync('/etc/shells', 'utf8')
+        .split('\n')
+        .map((line) => line.replace(/#.*$/, '').trim())
+        .filter((line) => line.startsWith('/'))
+        .forEach((path) => add(path, '/etc/shells'))
+    } catch {
+      // Homebrew shells are still listed when /etc/shells is unreadable.
+    }
+  }
+  HOMEBREW_BIN_DIRS.forEach((directory) => {
+    HOMEBREW_SHELL_NAMES.forEach((name) => add(`${directory}/${name}`, 'homebrew'))
+  })
+
+  return [...shells.values()]
+}
+
+function getFallbackShell(): string {
+  return process.env.APPPAD_TERMINAL_SHELL || process.env.SHELL || '/bin/zsh'
+}
+
+// Accepts any executable absolute path; bare `zsh`/`bash` keep resolving to the system copies.
+export function resolveTerminalShell(rawShell?: string): string {
+  const candidate = (rawShell || '').trim()
+  if (!candidate) return getFallbackShell()
+
+  if (candidate === 'zsh' || candidate === 'bash') return `/bin/${candidate}`
+  if (candidate.startsWith('/') && isExecutableFile(candidate)) return candidate
+
+  return getFallbackShell()
+}
+
+export function resolveTerminalShellArgs(shellPath: string, rawArgs?: unknown): string[] {
+  if (Array.isArray(rawArgs)) {
+    return rawArgs.filter((arg): arg is string => typeof arg === 'string').slice(0, MAX_SHELL_ARGS)
+  }
+  return LOGIN_FLAG_SHELLS.has(basename(shellPath).toLowerCase()) ? ['-l'] : []
+}
+
+export function setupTerminalShellHandlers(): void {
+  ipcMain.handle('terminal:list-shells', () => listTerminalShells())
+}
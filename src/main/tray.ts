@@ -0,0 +1,161 @@
+import { Menu, Tray, app, nativeImage } from 'electron'
+
+export type TrayAction = 'upgrade-all' | 'sync-installed' | 'mo-clean'
+
+export type TrayActionResult = {
+  success: boolean
+  message?: string
+}
+
+export type TrayDeps = {
+  iconPath: string
+  showMainWindow: () => void
+  runAction: (
+    action: TrayAction,
+    onProgress: (message: string) => void
+  ) => Promise<TrayActionResult>
+  // Asks a running action to stop; its runAction promise still settles with the outcome.
+  cancelAction: (action: TrayAction) => void
+}
+
+type TrayActivity = {
+  action: TrayAction
+  progress: string | null
+}
+
+type TrayOutcome = {
+  action: TrayAction
+  success: boolean
+  message: string | null
+  finishedAt: number
+}
+
+const ACTION_LABELS: Record<TrayAction, string> = {
+  'upgrade-all': 'Upgrade All',
+  'sync-installed': 'Sync Installed',
+  // Opens the window at the mo clean preview, where it still has to be confirmed.
+  'mo-clean': 'mo clean...'
+}
+
+let tray: Tray | null = null
+let deps: TrayDeps | null = null
+let outdatedCount: number | null = null
+let activity: TrayActivity | null = null
+let lastOutcome: TrayOutcome | null = null
+
+function describeOutdated(): string {
+  if (outdatedCount === null) return 'Outdated packages: unknown'
+  if (outdatedCount === 0) return 'Everything is up to date'
+  return `${outdatedCount} outdated package${outdatedCount === 1 ? '' : 's'}`
+}
+
+function describeOutcome(outcome: TrayOutcome): string {
+  const time = new Date(outcome.finishedAt).toLocaleTimeString()
+  const status = outcome.success ? 'finished' : 'failed'
+  return `${ACTION_LABELS[outcome.action]} ${status} at ${time}`
+}
+
+function refreshTray(): void {
+  if (!tray || !deps) return
+  const activeDeps = deps
+
+  const statusItems: Electron.MenuItemConstructorOptions[] = [
+    { label: describeOutdated(), enabled: false }
+  ]
+  if (activity) {
+    const runningAction = activity.action
+    statusItems.push({
+      label: `Running ${ACTION_LABELS[runningAction]}${activity.progress ? `: ${activity.progress}` : '...'}`,
+      enabled: false
+    })
+    if (runningAction === 'upgrade-all') {
+      statusItems.push({
+        label: `Cancel ${ACTION_LABELS[runningAction]}`,
+        click: () => activeDeps.cancelAction(runningAction)
+      })
+    }
+  } else if (lastOutcome) {
+    statusItems.push({ label: describeOutcome(lastOutcome), enabled: false })
+    if (lastOutcome.message) {
+      statusItems.push({ label: lastOutcome.message, enabled: false })
+    }
+  }
+
+  const actionItems: Electron.MenuItemConstructorOptions[] = (
+    Object.keys(ACTION_LABELS) as TrayAction[]
+  ).map((action) => ({
+    label: ACTION_LABELS[action],
+    enabled: activity === null && !(action === 'upgrade-all' && outdatedCount === 0),
+    click: () => {
+      void runTrayAction(action)
+    }
+  }))
+
+  tray.setContextMenu(
+    Menu.buildFromTemplate([
+      ...statusItems,
+      { type: 'separator' },
+      ...actionItems,
+      { type: 'separator' },
+      { label: 'Open appPad', click: () => activeDeps.showMainWindow() },
+      { label: 'Quit appPad', click: () => app.quit() }
+    ])
+  )
+  tray.setToolTip(
+    activity ? `appPad - ${ACTION_LABELS[activity.action]}` : `appPad - ${describeOutdated()}`
+  )
+  if (process.platform === 'darwin') {
+    tray.setTitle(outdatedCount ? String(outdatedCount) : '')
+  }
+}
+
+async function runTrayAction(action: TrayAction): Promise<void> {
+  if (!deps || activity) return
+  activity = { action, progress: null }
+  refreshTray()
+
+  let outcome: TrayActionResult
+  try {
+    outcome = await deps.runAction(action, (progress) => {
+      if (activity?.action !== action) return
+      activity = { action, progress }
+      refreshTray()
+    })
+  } catch (error) {
+    outcome = {
+      success: false,
+      message: error instanceof Error ? error.message : `${ACTION_LABELS[action]} failed.`
+    }
+  }
+
+  activity = null
+  lastOutcome = {
+    action,
+    success: outcome.success,
+    message: outcome.message ?? null,
+    finishedAt: Date.now()
+  }
+  refreshTray()
+}
+
+export function createTray(nextDeps: TrayDeps): void {
+  if (tray) return
+  deps = nextDeps
+  const image = nativeImage.createFromPath(nextDeps.iconPath).resize({ width: 18, height: 18 })
+  tray = new Tray(image)
+  refreshTray()
+}
+
+export function hasTray(): boolean {
+  return tray !== null
+}
+
+export function setTrayOutdatedCount(count: number | null): void {
+  outdatedCount = count
+  refreshTray()
+}
+
+export function destroyTray(): void {
+  tray?.destroy()
+  tray = null
+}
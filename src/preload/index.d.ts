@@ -22,19 +22,12 @@ type MoleStatus = {
   installMethod: string | null
 }
 
-type NodeVersionCacheItem = {
-  formula: string
-  installedVersion: string | null
-  installed: boolean
-  active: boolean
-}
-
 type MoleUninstallCandidate = {
   name: string
   size: string | null
   lastUsed: string | null
   uninstallSource: 'brew' | 'mole'
-  uninstallCommand: string
+  uninstallCommand: CommandSpec
 }
 
 type MoleUninstallAppsCache = {
@@ -105,30 +98,569 @@ type CatalogCachePayload = {
   items: CatalogCacheItem[]
 }
 
+type BrewfileEntry = {
+  kind: 'tap' | 'brew' | 'cask'
+  token: string
+}
+
+type BrewfileImportPreview = {
+  filePath: string
+  entries: BrewfileEntry[]
+  toInstall: BrewfileEntry[]
+  toRemove: BrewfileEntry[]
+  unchanged: BrewfileEntry[]
+  skippedLines: string[]
+}
+
+type JobCommandResult = {
+  success: boolean
+  code: number | null
+  stdout: string
+  stderr: string
+  error?: string
+}
+
+type JobAction = 'install' | 'uninstall' | 'upgrade' | 'command'
+
+type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'canceled'
+
+type JobItem = {
+  itemId: string
+  token: string | null
+  action: JobAction
+  command: string
+  status: JobItemStatus
+  attempts: number
+  cancelRequested: boolean
+  error: string | null
+  result: JobCommandResult | null
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+type JobBatch = {
+  batchId: string
+  origin: string
+  maxRetries: number
+  continueOnFailure: boolean
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  items: JobItem[]
+  createdAt: number
+  finishedAt: number | null
+}
+
+type JobBatchRequest = {
+  origin: string
+  maxRetries?: number
+  continueOnFailure?: boolean
+  approvalId?: string
+  items: Array<{ token?: string | null; action?: JobAction; command: CommandSpec | string }>
+}
+
+type PackageHold = {
+  token: string
+  brewType: 'cask' | 'formula'
+}
+
+type OutdatedPackage = {
+  token: string
+  brewType: 'cask' | 'formula'
+  installedVersion: string | null
+  latestVersion: string | null
+  pinned: boolean
+}
+
+type BrewPackageInfo = {
+  token: string
+  brewType: 'cask' | 'formula'
+  name: string
+  description: string
+  homepage: string | null
+  version: string | null
+}
+
+type SchedulerSettings = {
+  enabled: boolean
+  intervalMinutes: number
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+}
+
+type ScheduledCheckResult = {
+  trigger: 'schedule' | 'manual'
+  startedAt: number
+  finishedAt: number
+  outdated: {
+    success: boolean
+    items: OutdatedPackage[]
+    error?: string
+  }
+  appUpdate: {
+    success: boolean
+    updateAvailable: boolean
+    currentVersion: string
+    latestVersion?: string
+    releaseNotes?: string
+    downloadUrl?: string | null
+    error?: string
+  }
+  newUpgrades: string[]
+}
+
+type BrewPackageDetail = {
+  token: string
+  brewType: 'cask' | 'formula'
+  name: string
+  description: string
+  homepage: string | null
+  tap: string | null
+  license: string | null
+  version: string | null
+  installedVersions: string[]
+  outdated: boolean
+  dependencies: string[]
+  buildDependencies: string[]
+  reverseDependencies: string[]
+  conflicts: string[]
+  caveats: string | null
+  artifacts: string[]
+  analytics: { days30: number | null; days90: number | null; days365: number | null } | null
+  diskBytes: number | null
+}
+
+type BrewCleanupReport = {
+  success: boolean
+  pruneDays: number
+  cachePath: string | null
+  cacheBytes: number | null
+  oldVersions: Array<{
+    token: string
+    keptVersion: string
+    versions: string[]
+    bytes: number | null
+  }>
+  orphans: string[]
+  staleCaskroom: Array<{
+    token: string
+    path: string
+    reason: 'not-installed' | 'old-version'
+    bytes: number | null
+  }>
+  prunePreview: string[]
+  error?: string
+}
+
+type BrewCleanupRunResult = {
+  success: boolean
+  beforeBytes: number | null
+  afterBytes: number | null
+  freedBytes: number | null
+  removedPaths: string[]
+  output: string[]
+  error?: string
+}
+
+type BrewTap = {
+  name: string
+  remote: string | null
+  customRemote: boolean
+  private: boolean
+  official: boolean
+  path: string | null
+  lastCommit: string | null
+  formulaCount: number
+  caskCount: number
+  installedPackages: Array<{ token: string; brewType: 'cask' | 'formula' }>
+}
+
+type BrewTapActionResult = {
+  success: boolean
+  output?: string
+  error?: string
+}
+
+type CustomCatalogSeed = {
+  token: string
+  brewType?: 'cask' | 'formula'
+  name?: string
+  description?: string
+  fallbackDomain?: string
+  iconKey?: string | null
+  installCommand?: string
+  uninstallCommand?: string
+  updateCommand?: string
+}
+
+type CatalogSubscription = {
+  source: string
+  version: string
+  fetchedAt: number
+  changes: {
+    previousVersion: string | null
+    version: string
+    added: string[]
+    removed: string[]
+    changed: string[]
+  } | null
+}
+
+type CustomCatalog = {
+  id: number
+  catalogKey: string
+  title: string
+  description: string
+  icon: string
+  defaultBrewType: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+  sortOrder: number
+  updatedAt: number
+  subscription: CatalogSubscription | null
+}
+
+type CustomCatalogInput = {
+  id?: number
+  title: string
+  description?: string
+  icon?: string
+  defaultBrewType?: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+}
+
+type CommandSpec = {
+  binary: string
+  args: string[]
+  env?: Record<string, string>
+}
+
+type DestructiveActionRequest =
+  | { kind: 'brew-uninstall'; packages: Array<{ token: string; brewType: 'cask' | 'formula' }> }
+  | { kind: 'force-clean-cask'; token: string }
+  | { kind: 'mole-uninstall'; name: string }
+  | { kind: 'mole-clean' }
+  | { kind: 'brew-cleanup'; pruneDays: number; autoremove: boolean; removeStaleCaskroom: boolean }
+
+type DestructiveActionPreview = {
+  actionId: string
+  kind: DestructiveActionRequest['kind']
+  target: string
+  title: string
+  summary: string
+  paths: Array<{ path: string; bytes: number | null }>
+  notes: string[]
+  dryRunOutput: string | null
+  risk: 'normal' | 'high'
+  confirmationPhrase: string | null
+  createdAt: number
+}
+
+type DestructiveActionDecision = {
+  id: number
+  actionId: string
+  kind: DestructiveActionRequest['kind']
+  target: string
+  decision: 'confirmed' | 'cancelled'
+  risk: 'normal' | 'high'
+  paths: string[]
+  decidedAt: number
+}
+
+type PackageSnapshotSummary = {
+  id: number
+  reason: string
+  origin: string
+  createdAt: number
+  formulaCount: number
+  caskCount: number
+}
+
+type SnapshotDiffEntry = {
+  token: string
+  brewType: 'cask' | 'formula'
+  fromVersions: string[]
+  toVersions: string[]
+  fromPinned: boolean
+  toPinned: boolean
+}
+
+type SnapshotDiff = {
+  added: SnapshotDiffEntry[]
+  removed: SnapshotDiffEntry[]
+  changed: SnapshotDiffEntry[]
+}
+
+type RuntimeSummary = {
+  id: string
+  label: string
+  note: string | null
+}
+
+type RuntimeStatus = {
+  runtimeId: string
+  activePath: string | null
+  items: Array<{
+    formula: string
+    installedVersion: string | null
+    installed: boolean
+    active: boolean
+  }>
+  conflicts: Array<{ manager: string; kind: 'active' | 'installed'; detail: string }>
+}
+
+type RuntimeProject = {
+  id: number
+  path: string
+  name: string
+  exists: boolean
+  requirements: Array<{
+    runtimeId: string
+    source: '.nvmrc' | '.node-version' | 'package.json' | '.tool-versions'
+    spec: string
+    formula: string | null
+    installed: boolean
+    installedVersion: string | null
+    active: boolean
+  }>
+}
+
+type TerminalScrollbackSummary = {
+  id: number
+  label: string
+  shell: string
+  cwd: string
+  startedAt: number
+  endedAt: number | null
+  exitCode: number | null
+  bytes: number
+  truncated: boolean
+  recording: boolean
+}
+
+type TerminalShellInfo = {
+  path: string
+  name: string
+  family: 'posix' | 'fish' | 'nushell'
+  source: '/etc/shells' | 'homebrew'
+}
+
+type TerminalExecFinished = {
+  execId: string
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+type BrewDependencyNode = {
+  token: string
+  dependencies: string[]
+  dependents: string[]
+  installedOnRequest: boolean
+  leaf: boolean
+  orphan: boolean
+}
+
+type BrewServiceEntry = {
+  name: string
+  status: string
+  user: string | null
+  file: string | null
+  exitCode: number | null
+}
+
+type BrewServiceDetail = BrewServiceEntry & {
+  running: boolean
+  pid: number | null
+  logPath: string | null
+  errorLogPath: string | null
+}
+
+type JobHistoryEntry = {
+  id: number
+  command: string
+  origin: string
+  token: string | null
+  startedAt: number
+  finishedAt: number
+  exitCode: number | null
+  success: boolean
+  output: string
+  error: string | null
+}
+
 type AppAPI = {
   getBrewStatus: () => Promise<BrewStatus>
   diagnoseBrewVersion: () => Promise<BrewDiagnoseResult>
   installBrew: () => Promise<BrewActionResult>
   updateBrew: () => Promise<BrewActionResult>
-  forceCleanBrewCask: (token: string) => Promise<{
+  forceCleanBrewCask: (
+    token: string,
+    approvalId?: string
+  ) => Promise<{
     success: boolean
     message?: string
     error?: string
     removedPaths?: string[]
   }>
-  createTerminalSession: (payload?: { shell?: string }) => Promise<{ sessionId: number }>
+  createTerminalSession: (payload?: {
+    shell?: string
+    args?: string[]
+    cwd?: string
+    label?: string
+  }) => Promise<{ sessionId: number; shell: string }>
+  listTerminalShells: () => Promise<TerminalShellInfo[]>
+  getTerminalSessionCwd: (sessionId: number) => Promise<{ cwd: string | null }>
   writeTerminalSession: (sessionId: number, data: string) => Promise<{ success: boolean }>
   writeTerminalSessionBinary: (sessionId: number, dataBase64: string) => Promise<{ success: boolean }>
   setTerminalSessionFlowControl: (sessionId: number, paused: boolean) => Promise<{ success: boolean }>
   resizeTerminalSession: (sessionId: number, cols: number, rows: number) => Promise<{ success: boolean }>
   closeTerminalSession: (sessionId: number) => Promise<{ success: boolean }>
-  executeTerminalCommand: (command: string) => Promise<{
+  startTerminalExec: (
+    sessionId: number,
+    batchId: string,
+    itemId: string
+  ) => Promise<{ success: boolean; execId?: string; error?: string }>
+  interruptTerminalExec: (execId: string) => Promise<{ success: boolean }>
+  cancelTerminalExec: (execId: string) => Promise<{ success: boolean }>
+  listTerminalScrollbacks: () => Promise<TerminalScrollbackSummary[]>
+  readTerminalScrollback: (
+    id: number
+  ) => Promise<{ success: boolean; content?: string; error?: string }>
+  exportTerminalScrollback: (payload: {
+    defaultName: string
+    format: 'text' | 'html'
+    content: string
+  }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>
+  deleteTerminalScrollback: (id: number) => Promise<{ success: boolean; error?: string }>
+  executeTerminalCommand: (command: CommandSpec | string) => Promise<{
     success: boolean
     code: number | null
     stdout: string
     stderr: string
     error?: string
   }>
+  getOutdatedReport: () => Promise<{
+    success: boolean
+    items: OutdatedPackage[]
+    error?: string
+  }>
+  listBrewInstalled: () => Promise<{
+    success: boolean
+    brewInstalled: boolean
+    casks: string[]
+    formulae: string[]
+    error?: string
+  }>
+  getBrewOutdated: () => Promise<{
+    success: boolean
+    items: OutdatedPackage[]
+    error?: string
+  }>
+  getBrewInfo: (tokens: string[], brewType?: 'cask' | 'formula') => Promise<BrewPackageInfo[]>
+  searchBrewPackages: (query: string) => Promise<{
+    success: boolean
+    formulae: string[]
+    casks: string[]
+    error?: string
+  }>
+  getBrewPackageDetail: (
+    token: string,
+    brewType: 'cask' | 'formula'
+  ) => Promise<{ success: boolean; detail?: BrewPackageDetail; error?: string }>
+  getBrewDependencyGraph: () => Promise<{
+    success: boolean
+    nodes: BrewDependencyNode[]
+    error?: string
+  }>
+  getInstalledDependents: (token: string) => Promise<string[]>
+  getBrewCleanupReport: (pruneDays: number) => Promise<BrewCleanupReport>
+  runBrewCleanup: (options: {
+    pruneDays: number
+    autoremove: boolean
+    removeStaleCaskroom: boolean
+    approvalId?: string
+  }) => Promise<BrewCleanupRunResult>
+  listBrewTaps: () => Promise<{ success: boolean; taps: BrewTap[]; error?: string }>
+  addBrewTap: (name: string, remote?: string) => Promise<BrewTapActionResult>
+  removeBrewTap: (name: string) => Promise<BrewTapActionResult>
+  repairBrewTaps: () => Promise<BrewTapActionResult>
+  listCustomCatalogs: () => Promise<CustomCatalog[]>
+  saveCustomCatalog: (
+    input: CustomCatalogInput
+  ) => Promise<{ success: boolean; catalog?: CustomCatalog; error?: string }>
+  subscribeCatalog: (
+    source: string
+  ) => Promise<{ success: boolean; catalog?: CustomCatalog; error?: string }>
+  refreshCatalogSubscription: (
+    id: number
+  ) => Promise<{ success: boolean; catalog?: CustomCatalog; error?: string }>
+  chooseCatalogFile: () => Promise<string | null>
+  deleteCustomCatalog: (id: number) => Promise<{ success: boolean }>
+  reorderCustomCatalogs: (ids: number[]) => Promise<CustomCatalog[]>
+  previewDestructiveAction: (request: DestructiveActionRequest) => Promise<{
+    success: boolean
+    preview?: DestructiveActionPreview
+    error?: string
+  }>
+  decideDestructiveAction: (payload: {
+    actionId: string
+    approved: boolean
+    typedConfirmation?: string
+  }) => Promise<{ success: boolean; error?: string }>
+  listDestructiveActionLog: (limit?: number) => Promise<DestructiveActionDecision[]>
+  listSnapshots: () => Promise<PackageSnapshotSummary[]>
+  captureSnapshot: (reason?: string) => Promise<{
+    success: boolean
+    snapshot?: PackageSnapshotSummary
+    error?: string
+  }>
+  diffSnapshots: (
+    fromId: number,
+    toId: number | null
+  ) => Promise<{ success: boolean; diff?: SnapshotDiff; error?: string }>
+  planSnapshotRestore: (id: number) => Promise<{
+    success: boolean
+    plan?: { commands: CommandSpec[]; notes: string[] }
+    error?: string
+  }>
+  deleteSnapshot: (id: number) => Promise<{ success: boolean }>
+  listBrewServices: () => Promise<{
+    success: boolean
+    items: BrewServiceEntry[]
+    error?: string
+  }>
+  getBrewServiceInfo: (name: string) => Promise<BrewServiceDetail | null>
+  startLogTail: (paths: string[]) => Promise<{ success: boolean; tailId?: number; error?: string }>
+  stopLogTail: (tailId: number) => Promise<{ success: boolean }>
+  onLogTailData: (callback: (payload: { tailId: number; data: string }) => void) => () => void
+  onLogTailExit: (
+    callback: (payload: { tailId: number; code: number | null }) => void
+  ) => () => void
+  listPackageHolds: () => Promise<PackageHold[]>
+  setPackageHold: (
+    payload: PackageHold & { held: boolean }
+  ) => Promise<{ success: boolean; error?: string }>
+  listJobHistory: (query?: {
+    token?: string
+    failedOnly?: boolean
+    limit?: number
+  }) => Promise<JobHistoryEntry[]>
+  enqueueJobBatch: (payload: JobBatchRequest) => Promise<JobBatch>
+  listJobBatches: () => Promise<JobBatch[]>
+  retryJobItem: (batchId: string, itemId: string) => Promise<{ success: boolean }>
+  skipJobItem: (batchId: string, itemId: string) => Promise<{ success: boolean }>
+  cancelJobItem: (batchId: string, itemId: string) => Promise<{ success: boolean }>
+  cancelJobBatch: (batchId: string) => Promise<{ success: boolean }>
+  registerJobExecutor: () => Promise<{ success: boolean }>
+  unregisterJobExecutor: () => Promise<{ success: boolean }>
+  reportJobResult: (
+    batchId: string,
+    itemId: string,
+    result: JobCommandResult
+  ) => Promise<{ success: boolean }>
+  onJobRun: (
+    callback: (payload: { batchId: string; itemId: string; command: string }) => void
+  ) => () => void
+  onJobCancel: (callback: (payload: { batchId: string; itemId: string }) => void) => () => void
+  onJobsUpdated: (callback: (batch: JobBatch) => void) => () => void
   getBrowserCatalogCache: () => Promise<BrowserCatalogCachePayload>
   setBrowserCatalogCache: (payload: BrowserCatalogCachePayload) => Promise<{ success: true }>
   getInstalledAppsStatus: (tokens: string[]) => Promise<{
@@ -147,6 +679,23 @@ type AppAPI = {
     count: number
     error?: string
   }>
+  exportBrewfile: () => Promise<{
+    success: boolean
+    canceled?: boolean
+    filePath?: string
+    count?: number
+    error?: string
+  }>
+  importBrewfilePreview: () => Promise<{
+    success: boolean
+    canceled?: boolean
+    preview?: BrewfileImportPreview
+    error?: string
+  }>
+  planBrewfileApply: (payload: {
+    install: BrewfileEntry[]
+    remove: BrewfileEntry[]
+  }) => Promise<{ commands: CommandSpec[] }>
   getSearchIconCache: (tokens: string[]) => Promise<{
     items: Array<{
       token: string
@@ -159,8 +708,13 @@ type AppAPI = {
   refreshBrewStatusCache: () => Promise<CachedStatusPayload<BrewStatus>>
   getCachedMoleStatus: () => Promise<CachedStatusPayload<MoleStatus>>
   refreshMoleStatusCache: () => Promise<CachedStatusPayload<MoleStatus>>
-  getCachedNodeVersions: () => Promise<CachedStatusPayload<NodeVersionCacheItem[]>>
-  refreshNodeVersionsCache: () => Promise<CachedStatusPayload<NodeVersionCacheItem[]>>
+  listRuntimes: () => Promise<RuntimeSummary[]>
+  getCachedRuntimeVersions: (runtimeId: string) => Promise<CachedStatusPayload<RuntimeStatus>>
+  refreshRuntimeVersionsCache: (runtimeId: string) => Promise<CachedStatusPayload<RuntimeStatus>>
+  listRuntimeProjects: (refresh?: boolean) => Promise<RuntimeProject[]>
+  chooseRuntimeProjectDirectory: () => Promise<string | null>
+  addRuntimeProject: (path: string) => Promise<{ success: boolean; error?: string }>
+  removeRuntimeProject: (id: number) => Promise<{ success: boolean }>
   getCachedMoleUninstallApps: () => Promise<CachedStatusPayload<MoleUninstallAppsCache>>
   refreshMoleUninstallAppsCache: () => Promise<CachedStatusPayload<MoleUninstallAppsCache>>
   checkForUpdates: () => Promise<{
@@ -172,6 +726,21 @@ type AppAPI = {
     downloadUrl?: string | null
     error?: string
   }>
+  getSchedulerSettings: () => Promise<SchedulerSettings>
+  setSchedulerSettings: (payload: Partial<SchedulerSettings>) => Promise<SchedulerSettings>
+  getLastScheduledCheck: () => Promise<{
+    result: ScheduledCheckResult | null
+    updatedAt: number | null
+  }>
+  runScheduledCheckNow: () => Promise<{
+    success: boolean
+    result?: ScheduledCheckResult
+    error?: string
+  }>
+  onScheduledCheck: (callback: (result: ScheduledCheckResult) => void) => () => void
+  // A tray action the window should continue, such as showing the mo clean preview.
+  takeTrayRequest: () => Promise<'mo-clean' | null>
+  onTrayRequest: (callback: () => void) => () => void
   downloadAndInstallUpdate: () => Promise<{
     success: boolean
     message?: string
@@ -184,6 +753,7 @@ type AppAPI = {
   onUpdateError: (callback: (message: string) => void) => () => void
   onTerminalData: (callback: (payload: { sessionId: number; data: string }) => void) => () => void
   onTerminalExit: (callback: (payload: { sessionId: number; code: number | null }) => void) => () => void
+  onTerminalExecFinished: (callback: (payload: TerminalExecFinished) => void) => () => void
   getNativeTheme: () => Promise<{ dark: boolean }>
   onNativeThemeChanged: (callback: (isDark: boolean) => void) => () => void
 }
@@ -2,21 +2,370 @@ import { ipcRenderer } from 'electron'
 import { contextBridge } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
+type JobCommandResult = {
+  success: boolean
+  code: number | null
+  stdout: string
+  stderr: string
+  error?: string
+}
+
+type JobBatch = {
+  batchId: string
+  origin: string
+  maxRetries: number
+  continueOnFailure: boolean
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  items: Array<{
+    itemId: string
+    token: string | null
+    action: 'install' | 'uninstall' | 'upgrade' | 'command'
+    command: string
+    status: 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'canceled'
+    attempts: number
+    cancelRequested: boolean
+    error: string | null
+    result: JobCommandResult | null
+    startedAt: number | null
+    finishedAt: number | null
+  }>
+  createdAt: number
+  finishedAt: number | null
+}
+
+type SchedulerSettings = {
+  enabled: boolean
+  intervalMinutes: number
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+}
+
+type ScheduledCheckResult = {
+  trigger: 'schedule' | 'manual'
+  startedAt: number
+  finishedAt: number
+  outdated: {
+    success: boolean
+    items: Array<{
+      token: string
+      brewType: 'cask' | 'formula'
+      installedVersion: string | null
+      latestVersion: string | null
+      pinned: boolean
+    }>
+    error?: string
+  }
+  appUpdate: {
+    success: boolean
+    updateAvailable: boolean
+    currentVersion: string
+    latestVersion?: string
+    releaseNotes?: string
+    downloadUrl?: string | null
+    error?: string
+  }
+  newUpgrades: string[]
+}
+
+type BrewPackageDetail = {
+  token: string
+  brewType: 'cask' | 'formula'
+  name: string
+  description: string
+  homepage: string | null
+  tap: string | null
+  license: string | null
+  version: string | null
+  installedVersions: string[]
+  outdated: boolean
+  dependencies: string[]
+  buildDependencies: string[]
+  reverseDependencies: string[]
+  conflicts: string[]
+  caveats: string | null
+  artifacts: string[]
+  analytics: { days30: number | null; days90: number | null; days365: number | null } | null
+  diskBytes: number | null
+}
+
+type BrewCleanupReport = {
+  success: boolean
+  pruneDays: number
+  cachePath: string | null
+  cacheBytes: number | null
+  oldVersions: Array<{
+    token: string
+    keptVersion: string
+    versions: string[]
+    bytes: number | null
+  }>
+  orphans: string[]
+  staleCaskroom: Array<{
+    token: string
+    path: string
+    reason: 'not-installed' | 'old-version'
+    bytes: number | null
+  }>
+  prunePreview: string[]
+  error?: string
+}
+
+type BrewCleanupRunResult = {
+  success: boolean
+  beforeBytes: number | null
+  afterBytes: number | null
+  freedBytes: number | null
+  removedPaths: string[]
+  output: string[]
+  error?: string
+}
+
+type BrewTap = {
+  name: string
+  remote: string | null
+  customRemote: boolean
+  private: boolean
+  official: boolean
+  path: string | null
+  lastCommit: string | null
+  formulaCount: number
+  caskCount: number
+  installedPackages: Array<{ token: string; brewType: 'cask' | 'formula' }>
+}
+
+type BrewTapActionResult = {
+  success: boolean
+  output?: string
+  error?: string
+}
+
+type CustomCatalogSeed = {
+  token: string
+  brewType?: 'cask' | 'formula'
+  name?: string
+  description?: string
+  fallbackDomain?: string
+  iconKey?: string | null
+  installCommand?: string
+  uninstallCommand?: string
+  updateCommand?: string
+}
+
+type CatalogSubscription = {
+  source: string
+  version: string
+  fetchedAt: number
+  changes: {
+    previousVersion: string | null
+    version: string
+    added: string[]
+    removed: string[]
+    changed: string[]
+  } | null
+}
+
+type CustomCatalog = {
+  id: number
+  catalogKey: string
+  title: string
+  description: string
+  icon: string
+  defaultBrewType: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+  sortOrder: number
+  updatedAt: number
+  subscription: CatalogSubscription | null
+}
+
+type CustomCatalogInput = {
+  id?: number
+  title: string
+  description?: string
+  icon?: string
+  defaultBrewType?: 'cask' | 'formula'
+  seeds: CustomCatalogSeed[]
+}
+
+type CommandSpec = {
+  binary: string
+  args: string[]
+  env?: Record<string, string>
+}
+
+type DestructiveActionRequest =
+  | { kind: 'brew-uninstall'; packages: Array<{ token: string; brewType: 'cask' | 'formula' }> }
+  | { kind: 'force-clean-cask'; token: string }
+  | { kind: 'mole-uninstall'; name: string }
+  | { kind: 'mole-clean' }
+  | { kind: 'brew-cleanup'; pruneDays: number; autoremove: boolean; removeStaleCaskroom: boolean }
+
+type DestructiveActionPreview = {
+  actionId: string
+  kind: DestructiveActionRequest['kind']
+  target: string
+  title: string
+  summary: string
+  paths: Array<{ path: string; bytes: number | null }>
+  notes: string[]
+  dryRunOutput: string | null
+  risk: 'normal' | 'high'
+  confirmationPhrase: string | null
+  createdAt: number
+}
+
+type DestructiveActionDecision = {
+  id: number
+  actionId: string
+  kind: DestructiveActionRequest['kind']
+  target: string
+  decision: 'confirmed' | 'cancelled'
+  risk: 'normal' | 'high'
+  paths: string[]
+  decidedAt: number
+}
+
+type PackageSnapshotSummary = {
+  id: number
+  reason: string
+  origin: string
+  createdAt: number
+  formulaCount: number
+  caskCount: number
+}
+
+type SnapshotDiffEntry = {
+  token: string
+  brewType: 'cask' | 'formula'
+  fromVersions: string[]
+  toVersions: string[]
+  fromPinned: boolean
+  toPinned: boolean
+}
+
+type SnapshotDiff = {
+  added: SnapshotDiffEntry[]
+  removed: SnapshotDiffEntry[]
+  changed: SnapshotDiffEntry[]
+}
+
+type RuntimeSummary = {
+  id: string
+  label: string
+  note: string | null
+}
+
+type RuntimeStatus = {
+  runtimeId: string
+  activePath: string | null
+  items: Array<{
+    formula: string
+    installedVersion: string | null
+    installed: boolean
+    active: boolean
+  }>
+  conflicts: Array<{ manager: string; kind: 'active' | 'installed'; detail: string }>
+}
+
+type RuntimeProject = {
+  id: number
+  path: string
+  name: string
+  exists: boolean
+  requirements: Array<{
+    runtimeId: string
+    source: '.nvmrc' | '.node-version' | 'package.json' | '.tool-versions'
+    spec: string
+    formula: string | null
+    installed: boolean
+    installedVersion: string | null
+    active: boolean
+  }>
+}
+
+type TerminalScrollbackSummary = {
+  id: number
+  label: string
+  shell: string
+  cwd: string
+  startedAt: number
+  endedAt: number | null
+  exitCode: number | null
+  bytes: number
+  truncated: boolean
+  recording: boolean
+}
+
+type TerminalShellInfo = {
+  path: string
+  name: string
+  family: 'posix' | 'fish' | 'nushell'
+  source: '/etc/shells' | 'homebrew'
+}
+
+type TerminalExecFinished = {
+  execId: string
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+type BrewDependencyNode = {
+  token: string
+  dependencies: string[]
+  dependents: string[]
+  installedOnRequest: boolean
+  leaf: boolean
+  orphan: boolean
+}
+
+type BrewServiceEntry = {
+  name: string
+  status: string
+  user: string | null
+  file: string | null
+  exitCode: number | null
+}
+
+type JobHistoryEntry = {
+  id: number
+  command: string
+  origin: string
+  token: string | null
+  startedAt: number
+  finishedAt: number
+  exitCode: number | null
+  success: boolean
+  output: string
+  error: string | null
+}
+
 // Custom APIs for renderer
 const api = {
   getBrewStatus: () => ipcRenderer.invoke('brew:get-status'),
   diagnoseBrewVersion: () => ipcRenderer.invoke('brew:diagnose-version'),
   installBrew: () => ipcRenderer.invoke('brew:install'),
   updateBrew: () => ipcRenderer.invoke('brew:update'),
-  forceCleanBrewCask: (token: string) =>
-    ipcRenderer.invoke('brew:force-clean-cask', { token }) as Promise<{
+  forceCleanBrewCask: (token: string, approvalId?: string) =>
+    ipcRenderer.invoke('brew:force-clean-cask', { token, approvalId }) as Promise<{
       success: boolean
       message?: string
       error?: string
       removedPaths?: string[]
     }>,
-  createTerminalSession: (payload?: { shell?: string }) =>
-    ipcRenderer.invoke('terminal:create', payload) as Promise<{ sessionId: number }>,
+  createTerminalSession: (payload?: {
+    shell?: string
+    args?: string[]
+    cwd?: string
+    label?: string
+  }) =>
+    ipcRenderer.invoke('terminal:create', payload) as Promise<{
+      sessionId: number
+      shell: string
+    }>,
+  listTerminalShells: () =>
+    ipcRenderer.invoke('terminal:list-shells') as Promise<TerminalShellInfo[]>,
+  getTerminalSessionCwd: (sessionId: number) =>
+    ipcRenderer.invoke('terminal:get-cwd', { sessionId }) as Promise<{ cwd: string | null }>,
   writeTerminalSession: (sessionId: number, data: string) =>
     ipcRenderer.invoke('terminal:write', { sessionId, data }) as Promise<{ success: boolean }>,
   writeTerminalSessionBinary: (sessionId: number, dataBase64: string) =>
@@ -27,7 +376,41 @@ const api = {
     ipcRenderer.invoke('terminal:resize', { sessionId, cols, rows }) as Promise<{ success: boolean }>,
   closeTerminalSession: (sessionId: number) =>
     ipcRenderer.invoke('terminal:close', { sessionId }) as Promise<{ success: boolean }>,
-  executeTerminalCommand: (command: string) =>
+  startTerminalExec: (sessionId: number, batchId: string, itemId: string) =>
+    ipcRenderer.invoke('terminal:start-exec', { sessionId, batchId, itemId }) as Promise<{
+      success: boolean
+      execId?: string
+      error?: string
+    }>,
+  interruptTerminalExec: (execId: string) =>
+    ipcRenderer.invoke('terminal:interrupt-exec', { execId }) as Promise<{ success: boolean }>,
+  cancelTerminalExec: (execId: string) =>
+    ipcRenderer.invoke('terminal:cancel-exec', { execId }) as Promise<{ success: boolean }>,
+  listTerminalScrollbacks: () =>
+    ipcRenderer.invoke('terminal-scrollback:list') as Promise<TerminalScrollbackSummary[]>,
+  readTerminalScrollback: (id: number) =>
+    ipcRenderer.invoke('terminal-scrollback:read', { id }) as Promise<{
+      success: boolean
+      content?: string
+      error?: string
+    }>,
+  exportTerminalScrollback: (payload: {
+    defaultName: string
+    format: 'text' | 'html'
+    content: string
+  }) =>
+    ipcRenderer.invoke('terminal-scrollback:export', payload) as Promise<{
+      success: boolean
+      canceled?: boolean
+      filePath?: string
+      error?: string
+    }>,
+  deleteTerminalScrollback: (id: number) =>
+    ipcRenderer.invoke('terminal-scrollback:delete', { id }) as Promise<{
+      success: boolean
+      error?: string
+    }>,
+  executeTerminalCommand: (command: CommandSpec | string) =>
     ipcRenderer.invoke('terminal:exec', { command }) as Promise<{
       success: boolean
       code: number | null
@@ -35,6 +418,262 @@ const api = {
       stderr: string
       error?: string
     }>,
+  getOutdatedReport: () =>
+    ipcRenderer.invoke('brew:outdated-report') as Promise<{
+      success: boolean
+      items: Array<{
+        token: string
+        brewType: 'cask' | 'formula'
+        installedVersion: string | null
+        latestVersion: string | null
+        pinned: boolean
+      }>
+      error?: string
+    }>,
+  listBrewInstalled: () =>
+    ipcRenderer.invoke('brew:list-installed') as Promise<{
+      success: boolean
+      brewInstalled: boolean
+      casks: string[]
+      formulae: string[]
+      error?: string
+    }>,
+  getBrewOutdated: () =>
+    ipcRenderer.invoke('brew:outdated') as Promise<{
+      success: boolean
+      items: Array<{
+        token: string
+        brewType: 'cask' | 'formula'
+        installedVersion: string | null
+        latestVersion: string | null
+        pinned: boolean
+      }>
+      error?: string
+    }>,
+  getBrewInfo: (tokens: string[], brewType?: 'cask' | 'formula') =>
+    ipcRenderer.invoke('brew:info', { tokens, brewType }) as Promise<
+      Array<{
+        token: string
+        brewType: 'cask' | 'formula'
+        name: string
+        description: string
+        homepage: string | null
+        version: string | null
+      }>
+    >,
+  searchBrewPackages: (query: string) =>
+    ipcRenderer.invoke('brew:search', { query }) as Promise<{
+      success: boolean
+      formulae: string[]
+      casks: string[]
+      error?: string
+    }>,
+  getBrewPackageDetail: (token: string, brewType: 'cask' | 'formula') =>
+    ipcRenderer.invoke('brew:package-detail', { token, brewType }) as Promise<{
+      success: boolean
+      detail?: BrewPackageDetail
+      error?: string
+    }>,
+  getBrewDependencyGraph: () =>
+    ipcRenderer.invoke('brew:dependency-graph') as Promise<{
+      success: boolean
+      nodes: BrewDependencyNode[]
+      error?: string
+    }>,
+  getInstalledDependents: (token: string) =>
+    ipcRenderer.invoke('brew:installed-dependents', { token }) as Promise<string[]>,
+  getBrewCleanupReport: (pruneDays: number) =>
+    ipcRenderer.invoke('brew:cleanup-report', { pruneDays }) as Promise<BrewCleanupReport>,
+  runBrewCleanup: (options: {
+    pruneDays: number
+    autoremove: boolean
+    removeStaleCaskroom: boolean
+    approvalId?: string
+  }) => ipcRenderer.invoke('brew:cleanup-run', options) as Promise<BrewCleanupRunResult>,
+  listBrewTaps: () =>
+    ipcRenderer.invoke('brew:taps-list') as Promise<{
+      success: boolean
+      taps: BrewTap[]
+      error?: string
+    }>,
+  addBrewTap: (name: string, remote?: string) =>
+    ipcRenderer.invoke('brew:tap-add', { name, remote }) as Promise<BrewTapActionResult>,
+  removeBrewTap: (name: string) =>
+    ipcRenderer.invoke('brew:tap-remove', { name }) as Promise<BrewTapActionResult>,
+  repairBrewTaps: () => ipcRenderer.invoke('brew:tap-repair') as Promise<BrewTapActionResult>,
+  listCustomCatalogs: () => ipcRenderer.invoke('custom-catalogs:list') as Promise<CustomCatalog[]>,
+  saveCustomCatalog: (input: CustomCatalogInput) =>
+    ipcRenderer.invoke('custom-catalogs:save', input) as Promise<{
+      success: boolean
+      catalog?: CustomCatalog
+      error?: string
+    }>,
+  subscribeCatalog: (source: string) =>
+    ipcRenderer.invoke('custom-catalogs:subscribe', { source }) as Promise<{
+      success: boolean
+      catalog?: CustomCatalog
+      error?: string
+    }>,
+  refreshCatalogSubscription: (id: number) =>
+    ipcRenderer.invoke('custom-catalogs:refresh', { id }) as Promise<{
+      success: boolean
+      catalog?: CustomCatalog
+      error?: string
+    }>,
+  chooseCatalogFile: () =>
+    ipcRenderer.invoke('custom-catalogs:choose-file') as Promise<string | null>,
+  deleteCustomCatalog: (id: number) =>
+    ipcRenderer.invoke('custom-catalogs:delete', { id }) as Promise<{ success: boolean }>,
+  reorderCustomCatalogs: (ids: number[]) =>
+    ipcRenderer.invoke('custom-catalogs:reorder', { ids }) as Promise<CustomCatalog[]>,
+  previewDestructiveAction: (request: DestructiveActionRequest) =>
+    ipcRenderer.invoke('destructive:preview', request) as Promise<{
+      success: boolean
+      preview?: DestructiveActionPreview
+      error?: string
+    }>,
+  decideDestructiveAction: (payload: {
+    actionId: string
+    approved: boolean
+    typedConfirmation?: string
+  }) =>
+    ipcRenderer.invoke('destructive:decide', payload) as Promise<{
+      success: boolean
+      error?: string
+    }>,
+  listDestructiveActionLog: (limit?: number) =>
+    ipcRenderer.invoke('destructive:log', { limit }) as Promise<DestructiveActionDecision[]>,
+  listSnapshots: () => ipcRenderer.invoke('snapshots:list') as Promise<PackageSnapshotSummary[]>,
+  captureSnapshot: (reason?: string) =>
+    ipcRenderer.invoke('snapshots:capture', { reason }) as Promise<{
+      success: boolean
+      snapshot?: PackageSnapshotSummary
+      error?: string
+    }>,
+  diffSnapshots: (fromId: number, toId: number | null) =>
+    ipcRenderer.invoke('snapshots:diff', { fromId, toId }) as Promise<{
+      success: boolean
+      diff?: SnapshotDiff
+      error?: string
+    }>,
+  planSnapshotRestore: (id: number) =>
+    ipcRenderer.invoke('snapshots:restore-plan', { id }) as Promise<{
+      success: boolean
+      plan?: { commands: CommandSpec[]; notes: string[] }
+      error?: string
+    }>,
+  deleteSnapshot: (id: number) =>
+    ipcRenderer.invoke('snapshots:delete', { id }) as Promise<{ success: boolean }>,
+  listBrewServices: () =>
+    ipcRenderer.invoke('brew:services-list') as Promise<{
+      success: boolean
+      items: BrewServiceEntry[]
+      error?: string
+    }>,
+  getBrewServiceInfo: (name: string) =>
+    ipcRenderer.invoke('brew:service-info', { name }) as Promise<
+      | (BrewServiceEntry & {
+          running: boolean
+          pid: number | null
+          logPath: string | null
+          errorLogPath: string | null
+        })
+      | null
+    >,
+  startLogTail: (paths: string[]) =>
+    ipcRenderer.invoke('logs:start-tail', { paths }) as Promise<{
+      success: boolean
+      tailId?: number
+      error?: string
+    }>,
+  stopLogTail: (tailId: number) =>
+    ipcRenderer.invoke('logs:stop-tail', { tailId }) as Promise<{ success: boolean }>,
+  onLogTailData: (callback: (payload: { tailId: number; data: string }) => void): (() => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      payload: { tailId: number; data: string }
+    ): void => {
+      callback(payload)
+    }
+    ipcRenderer.on('logs:tail-data', listener)
+    return () => ipcRenderer.removeListener('logs:tail-data', listener)
+  },
+  onLogTailExit: (
+    callback: (payload: { tailId: number; code: number | null }) => void
+  ): (() => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      payload: { tailId: number; code: number | null }
+    ): void => {
+      callback(payload)
+    }
+    ipcRenderer.on('logs:tail-exit', listener)
+    return () => ipcRenderer.removeListener('logs:tail-exit', listener)
+  },
+  listPackageHolds: () =>
+    ipcRenderer.invoke('holds:list') as Promise<
+      Array<{ token: string; brewType: 'cask' | 'formula' }>
+    >,
+  setPackageHold: (payload: { token: string; brewType: 'cask' | 'formula'; held: boolean }) =>
+    ipcRenderer.invoke('holds:set', payload) as Promise<{ success: boolean; error?: string }>,
+  listJobHistory: (query?: { token?: string; failedOnly?: boolean; limit?: number }) =>
+    ipcRenderer.invoke('history:list', query) as Promise<JobHistoryEntry[]>,
+  enqueueJobBatch: (payload: {
+    origin: string
+    maxRetries?: number
+    continueOnFailure?: boolean
+    items: Array<{
+      token?: string | null
+      action?: 'install' | 'uninstall' | 'upgrade' | 'command'
+      command: CommandSpec | string
+    }>
+  }) => ipcRenderer.invoke('jobs:enqueue-batch', payload) as Promise<JobBatch>,
+  listJobBatches: () => ipcRenderer.invoke('jobs:list') as Promise<JobBatch[]>,
+  retryJobItem: (batchId: string, itemId: string) =>
+    ipcRenderer.invoke('jobs:retry-item', { batchId, itemId }) as Promise<{ success: boolean }>,
+  skipJobItem: (batchId: string, itemId: string) =>
+    ipcRenderer.invoke('jobs:skip-item', { batchId, itemId }) as Promise<{ success: boolean }>,
+  cancelJobItem: (batchId: string, itemId: string) =>
+    ipcRenderer.invoke('jobs:cancel-item', { batchId, itemId }) as Promise<{ success: boolean }>,
+  cancelJobBatch: (batchId: string) =>
+    ipcRenderer.invoke('jobs:cancel-batch', { batchId }) as Promise<{ success: boolean }>,
+  registerJobExecutor: () =>
+    ipcRenderer.invoke('jobs:register-executor') as Promise<{ success: boolean }>,
+  unregisterJobExecutor: () =>
+    ipcRenderer.invoke('jobs:unregister-executor') as Promise<{ success: boolean }>,
+  reportJobResult: (batchId: string, itemId: string, result: JobCommandResult) =>
+    ipcRenderer.invoke('jobs:report-result', { batchId, itemId, result }) as Promise<{
+      success: boolean
+    }>,
+  onJobRun: (
+    callback: (payload: { batchId: string; itemId: string; command: string }) => void
+  ): (() => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      payload: { batchId: string; itemId: string; command: string }
+    ): void => {
+      callback(payload)
+    }
+    ipcRenderer.on('jobs:run', listener)
+    return () => ipcRenderer.removeListener('jobs:run', listener)
+  },
+  onJobCancel: (callback: (payload: { batchId: string; itemId: string }) => void): (() => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      payload: { batchId: string; itemId: string }
+    ): void => {
+      callback(payload)
+    }
+    ipcRenderer.on('jobs:cancel', listener)
+    return () => ipcRenderer.removeListener('jobs:cancel', listener)
+  },
+  onJobsUpdated: (callback: (batch: JobBatch) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, batch: JobBatch): void => {
+      callback(batch)
+    }
+    ipcRenderer.on('jobs:updated', listener)
+    return () => ipcRenderer.removeListener('jobs:updated', listener)
+  },
   getBrowserCatalogCache: () =>
     ipcRenderer.invoke('cache:get-browser-catalog') as Promise<{
       brewInstalled: boolean | null
@@ -112,6 +751,32 @@ const api = {
       count: number
       error?: string
     }>,
+  exportBrewfile: () =>
+    ipcRenderer.invoke('brewfile:export') as Promise<{
+      success: boolean
+      canceled?: boolean
+      filePath?: string
+      count?: number
+      error?: string
+    }>,
+  importBrewfilePreview: () =>
+    ipcRenderer.invoke('brewfile:import-preview') as Promise<{
+      success: boolean
+      canceled?: boolean
+      preview?: {
+        filePath: string
+        entries: Array<{ kind: 'tap' | 'brew' | 'cask'; token: string }>
+        toInstall: Array<{ kind: 'tap' | 'brew' | 'cask'; token: string }>
+        toRemove: Array<{ kind: 'tap' | 'brew' | 'cask'; token: string }>
+        unchanged: Array<{ kind: 'tap' | 'brew' | 'cask'; token: string }>
+        skippedLines: string[]
+      }
+      error?: string
+    }>,
+  planBrewfileApply: (payload: {
+    install: Array<{ kind: 'tap' | 'brew' | 'cask'; token: string }>
+    remove: Array<{ kind: 'tap' | 'brew' | 'cask'; token: string }>
+  }) => ipcRenderer.invoke('brewfile:plan-apply', payload) as Promise<{ commands: CommandSpec[] }>,
   getSearchIconCache: (tokens: string[]) =>
     ipcRenderer.invoke('cache:get-search-icon-cache', { tokens }) as Promise<{
       items: Array<{
@@ -160,26 +825,28 @@ const api = {
       } | null
       updatedAt: number | null
     }>,
-  getCachedNodeVersions: () =>
-    ipcRenderer.invoke('cache:get-node-versions') as Promise<{
-      status: Array<{
-        formula: string
-        installedVersion: string | null
-        installed: boolean
-        active: boolean
-      }> | null
+  listRuntimes: () => ipcRenderer.invoke('runtimes:list') as Promise<RuntimeSummary[]>,
+  getCachedRuntimeVersions: (runtimeId: string) =>
+    ipcRenderer.invoke('cache:get-runtime-versions', { runtimeId }) as Promise<{
+      status: RuntimeStatus | null
       updatedAt: number | null
     }>,
-  refreshNodeVersionsCache: () =>
-    ipcRenderer.invoke('cache:refresh-node-versions') as Promise<{
-      status: Array<{
-        formula: string
-        installedVersion: string | null
-        installed: boolean
-        active: boolean
-      }> | null
+  refreshRuntimeVersionsCache: (runtimeId: string) =>
+    ipcRenderer.invoke('cache:refresh-runtime-versions', { runtimeId }) as Promise<{
+      status: RuntimeStatus | null
       updatedAt: number | null
     }>,
+  listRuntimeProjects: (refresh?: boolean) =>
+    ipcRenderer.invoke('runtime-projects:list', { refresh }) as Promise<RuntimeProject[]>,
+  chooseRuntimeProjectDirectory: () =>
+    ipcRenderer.invoke('runtime-projects:choose-directory') as Promise<string | null>,
+  addRuntimeProject: (path: string) =>
+    ipcRenderer.invoke('runtime-projects:add', { path }) as Promise<{
+      success: boolean
+      error?: string
+    }>,
+  removeRuntimeProject: (id: number) =>
+    ipcRenderer.invoke('runtime-projects:remove', { id }) as Promise<{ success: boolean }>,
   getCachedMoleUninstallApps: () =>
     ipcRenderer.invoke('cache:get-mole-uninstall-apps') as Promise<{
       status: {
@@ -188,7 +855,7 @@ const api = {
           size: string | null
           lastUsed: string | null
           uninstallSource: 'brew' | 'mole'
-          uninstallCommand: string
+          uninstallCommand: CommandSpec
         }>
         rawOutput: string
         queryCommand: string
@@ -204,7 +871,7 @@ const api = {
           size: string | null
           lastUsed: string | null
           uninstallSource: 'brew' | 'mole'
-          uninstallCommand: string
+          uninstallCommand: CommandSpec
         }>
         rawOutput: string
         queryCommand: string
@@ -222,6 +889,36 @@ const api = {
       downloadUrl?: string | null
       error?: string
     }>,
+  getSchedulerSettings: () =>
+    ipcRenderer.invoke('scheduler:get-settings') as Promise<SchedulerSettings>,
+  setSchedulerSettings: (payload: Partial<SchedulerSettings>) =>
+    ipcRenderer.invoke('scheduler:set-settings', payload) as Promise<SchedulerSettings>,
+  getLastScheduledCheck: () =>
+    ipcRenderer.invoke('scheduler:get-last-run') as Promise<{
+      result: ScheduledCheckResult | null
+      updatedAt: number | null
+    }>,
+  runScheduledCheckNow: () =>
+    ipcRenderer.invoke('scheduler:run-now') as Promise<{
+      success: boolean
+      result?: ScheduledCheckResult
+      error?: string
+    }>,
+  onScheduledCheck: (callback: (result: ScheduledCheckResult) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, result: ScheduledCheckResult): void => {
+      callback(result)
+    }
+    ipcRenderer.on('scheduler:checked', listener)
+    return () => ipcRenderer.removeListener('scheduler:checked', listener)
+  },
+  takeTrayRequest: () => ipcRenderer.invoke('tray:take-request') as Promise<'mo-clean' | null>,
+  onTrayRequest: (callback: () => void): (() => void) => {
+    const listener = (): void => {
+      callback()
+    }
+    ipcRenderer.on('tray:request', listener)
+    return () => ipcRenderer.removeListener('tray:request', listener)
+  },
   downloadAndInstallUpdate: () =>
     ipcRenderer.invoke('download-and-install-update') as Promise<{
       success: boolean
@@ -267,6 +964,13 @@ const api = {
     ipcRenderer.on('terminal:exit', listener)
     return () => ipcRenderer.removeListener('terminal:exit', listener)
   },
+  onTerminalExecFinished: (callback: (payload: TerminalExecFinished) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, payload: TerminalExecFinished): void => {
+      callback(payload)
+    }
+    ipcRenderer.on('terminal:exec-finished', listener)
+    return () => ipcRenderer.removeListener('terminal:exec-finished', listener)
+  },
   getNativeTheme: () => ipcRenderer.invoke('get-native-theme') as Promise<{ dark: boolean }>,
   onNativeThemeChanged: (callback: (isDark: boolean) => void) => {
     const listener = (_event: Electron.IpcRendererEvent, isDark: boolean) => {
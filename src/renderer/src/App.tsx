@@ -1,40 +1,61 @@
 import type { CSSProperties } from 'react'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import {
+  AlertCircle,
   ArrowUpCircle,
+  Camera,
   Compass,
   GitBranch,
+  History,
+  Layers,
   List,
   LoaderCircle,
+  Network,
   Package,
   PackageCheck,
+  Plus,
   RefreshCw,
   Search,
+  Server,
   TerminalSquare,
   Wrench
 } from 'lucide-react'
 
 import { useNativeTheme } from '@/hooks/use-theme'
+import CustomCatalogDialog from '@/components/catalog/CustomCatalogDialog'
+import CustomCatalogTab from '@/components/catalog/CustomCatalogTab'
 
 import EssentialsManager from '@/components/essentials/EssentialsManager'
 import BrowserCatalog from '@/components/homebrew/BrowserCatalog'
 import HomebrewManager from '@/components/homebrew/HomebrewManager'
+import HistoryManager from '@/components/history/HistoryManager'
 import HomebrewSearchManager from '@/components/homebrew/HomebrewSearchManager'
-import NodeVersionManager from '@/components/homebrew/NodeVersionManager'
+import RuntimeVersionManager from '@/components/homebrew/RuntimeVersionManager'
+import TapsManager from '@/components/homebrew/TapsManager'
+import DependencyGraphManager from '@/components/installed/DependencyGraphManager'
 import InstalledManager from '@/components/installed/InstalledManager'
+import DestructiveActionDialog from '@/components/layout/DestructiveActionDialog'
 import GlobalTerminalPanel from '@/components/layout/GlobalTerminalPanel'
 import MoleManager from '@/components/mole/MoleManager'
+import ServicesManager from '@/components/services/ServicesManager'
+import SnapshotsManager from '@/components/snapshots/SnapshotsManager'
 import TerminalManager from '@/components/terminal/TerminalManager'
 import ToolsManager from '@/components/tools/ToolsManager'
 import AppUpdateManager from '@/components/update/AppUpdateManager'
 import { Button } from '@/components/ui/button'
 import { SmoothScrollArea } from '@/components/ui/smooth-scroll-area'
 import appadLogoPng from '@/assets/logo-a-lines.png'
+import {
+  type CustomCatalog,
+  type CustomCatalogTabKey,
+  getCustomCatalogIcon
+} from '@/lib/customCatalogs'
 import {
   Sidebar,
   SidebarContent,
   SidebarFooter,
   SidebarGroup,
+  SidebarGroupAction,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
@@ -53,7 +74,9 @@ function App(): React.JSX.Element {
   useNativeTheme()
   const [activeTab, setActiveTab] = useState<
     | 'homebrew'
+    | 'taps'
     | 'installed'
+    | 'dependencies'
     | 'search'
     | 'browser'
     | 'terminal'
@@ -61,9 +84,18 @@ function App(): React.JSX.Element {
     | 'tools'
     | 'mole'
     | 'appUpdate'
-    | 'nodeSwitch'
+    | 'runtimes'
+    | 'history'
+    | 'snapshots'
+    | 'services'
+    | CustomCatalogTabKey
   >('homebrew')
   const [syncingInstalledApps, setSyncingInstalledApps] = useState(false)
+  const [customCatalogs, setCustomCatalogs] = useState<CustomCatalog[]>([])
+  const [customCatalogsError, setCustomCatalogsError] = useState<string | null>(null)
+  const [catalogDialogOpen, setCatalogDialogOpen] = useState(false)
+  const [editingCatalog, setEditingCatalog] = useState<CustomCatalog | null>(null)
+  const [moleCleanRequested, setMoleCleanRequested] = useState(false)
   const navigationTabs = [
     {
       key: 'installed' as const,
@@ -71,6 +103,12 @@ function App(): React.JSX.Element {
       description: 'Apps and tools currently installed via Homebrew.',
       icon: List
     },
+    {
+      key: 'dependencies' as const,
+      title: 'Dependencies',
+      description: 'Dependency graph of installed formulae, leaves and orphans.',
+      icon: Network
+    },
     {
       key: 'search' as const,
       title: 'Search',
@@ -110,6 +148,12 @@ function App(): React.JSX.Element {
       description: 'Manage Homebrew installation and status.',
       icon: Package
     },
+    {
+      key: 'taps' as const,
+      title: 'Taps',
+      description: 'Add, remove and repair Homebrew taps, including private ones.',
+      icon: Layers
+    },
     {
       key: 'mole' as const,
       title: 'Mole',
@@ -123,15 +167,109 @@ function App(): React.JSX.Element {
       icon: ArrowUpCircle
     },
     {
-      key: 'nodeSwitch' as const,
-      title: 'Node Switch',
-      description: 'Switch Homebrew Node formulas and active version.',
+      key: 'runtimes' as const,
+      title: 'Runtimes',
+      description: 'Switch Homebrew versions of Node, Python, Java, PostgreSQL, Ruby and Go.',
       icon: GitBranch
+    },
+    {
+      key: 'services' as const,
+      title: 'Services',
+      description: 'Start, stop and tail logs of Homebrew background services.',
+      icon: Server
+    },
+    {
+      key: 'history' as const,
+      title: 'History',
+      description: 'Recorded commands with exit codes and captured output.',
+      icon: History
+    },
+    {
+      key: 'snapshots' as const,
+      title: 'Snapshots',
+      description: 'Compare installed package snapshots and restore an earlier state.',
+      icon: Camera
     }
   ]
-  const tabs = [...navigationTabs, ...updateTabs]
+  const customTabs = customCatalogs.map((catalog) => ({
+    key: catalog.catalogKey as CustomCatalogTabKey,
+    title: catalog.title,
+    description: catalog.description,
+    icon: getCustomCatalogIcon(catalog.icon)
+  }))
+  const tabs = [...navigationTabs, ...customTabs, ...updateTabs]
   const activeTabConfig = tabs.find((tab) => tab.key === activeTab)
   const activeTitle = activeTabConfig?.title ?? 'appPad'
+  const activeCatalogIndex = customCatalogs.findIndex((catalog) => catalog.catalogKey === activeTab)
+  const activeCatalog = activeCatalogIndex >= 0 ? customCatalogs[activeCatalogIndex] : null
+
+  const loadCustomCatalogs = async (): Promise<void> => {
+    try {
+      setCustomCatalogs(await window.api.listCustomCatalogs())
+      setCustomCatalogsError(null)
+    } catch (error) {
+      setCustomCatalogsError(
+        error instanceof Error ? error.message : 'Failed to load custom catalogs.'
+      )
+    }
+  }
+
+  const openCatalogDialog = (catalog: CustomCatalog | null): void => {
+    setEditingCatalog(catalog)
+    setCatalogDialogOpen(true)
+  }
+
+  const upsertCatalog = (catalog: CustomCatalog): void => {
+    setCustomCatalogs((prev) =>
+      prev.some((entry) => entry.id === catalog.id)
+        ? prev.map((entry) => (entry.id === catalog.id ? catalog : entry))
+        : [...prev, catalog]
+    )
+  }
+
+  const handleCatalogSaved = (catalog: CustomCatalog): void => {
+    setCatalogDialogOpen(false)
+    upsertCatalog(catalog)
+    setActiveTab(catalog.catalogKey as CustomCatalogTabKey)
+  }
+
+  const moveCatalog = async (catalog: CustomCatalog, direction: -1 | 1): Promise<void> => {
+    const ids = customCatalogs.map((entry) => entry.id)
+    const index = ids.indexOf(catalog.id)
+    const target = index + direction
+    if (index < 0 || target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    setCustomCatalogs(await window.api.reorderCustomCatalogs(ids))
+  }
+
+  const deleteCatalog = async (catalog: CustomCatalog): Promise<void> => {
+    const action = catalog.subscription ? 'Unsubscribe from' : 'Delete'
+    if (
+      !window.confirm(`${action} the ${catalog.title} catalog? Installed packages are not removed.`)
+    ) {
+      return
+    }
+    await window.api.deleteCustomCatalog(catalog.id)
+    setActiveTab('homebrew')
+    await loadCustomCatalogs()
+  }
+
+  useEffect(() => {
+    void loadCustomCatalogs()
+  }, [])
+
+  useEffect(() => {
+    const takeTrayRequest = async (): Promise<void> => {
+      if ((await window.api.takeTrayRequest()) !== 'mo-clean') return
+      setActiveTab('mole')
+      setMoleCleanRequested(true)
+    }
+    // The tray may have asked before this window finished loading.
+    void takeTrayRequest()
+    return window.api.onTrayRequest(() => {
+      void takeTrayRequest()
+    })
+  }, [])
 
   const handleRefreshInstalledState = async (): Promise<void> => {
     setSyncingInstalledApps(true)
@@ -192,6 +330,59 @@ function App(): React.JSX.Element {
                   </SidebarMenu>
                 </SidebarGroupContent>
               </SidebarGroup>
+              <SidebarGroup className="group-data-[collapsible=icon]:px-1">
+                <SidebarGroupLabel className="px-3 text-[10px] font-semibold uppercase tracking-[0.12em]">
+                  Catalogs
+                </SidebarGroupLabel>
+                <SidebarGroupAction
+                  title="New Catalog"
+                  aria-label="New Catalog"
+                  onClick={() => openCatalogDialog(null)}
+                >
+                  <Plus />
+                </SidebarGroupAction>
+                <SidebarGroupContent>
+                  <SidebarMenu className="space-y-1 px-2 group-data-[collapsible=icon]:px-1">
+                    {customTabs.map((tab) => (
+                      <SidebarMenuItem key={tab.key}>
+                        <SidebarMenuButton
+                          className="h-9 rounded-lg bg-transparent px-3 text-[12px] font-medium text-sidebar-foreground transition-all duration-300 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground data-[active=true]:bg-sidebar-accent data-[active=true]:text-sidebar-accent-foreground group-data-[collapsible=icon]:px-0 group-data-[collapsible=icon]:justify-center"
+                          isActive={activeTab === tab.key}
+                          tooltip={tab.title}
+                          onClick={() => setActiveTab(tab.key)}
+                        >
+                          <tab.icon />
+                          <span>{tab.title}</span>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    ))}
+                    {customCatalogsError ? (
+                      <SidebarMenuItem>
+                        <SidebarMenuButton
+                          className="h-9 rounded-lg bg-transparent px-3 text-[12px] text-destructive hover:bg-sidebar-accent hover:text-destructive group-data-[collapsible=icon]:px-0 group-data-[collapsible=icon]:justify-center"
+                          title={customCatalogsError}
+                          tooltip={customCatalogsError}
+                          onClick={() => void loadCustomCatalogs()}
+                        >
+                          <AlertCircle />
+                          <span>Failed to load. Retry</span>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    ) : customTabs.length === 0 ? (
+                      <SidebarMenuItem>
+                        <SidebarMenuButton
+                          className="h-9 rounded-lg bg-transparent px-3 text-[12px] text-muted-foreground hover:bg-sidebar-accent group-data-[collapsible=icon]:px-0 group-data-[collapsible=icon]:justify-center"
+                          tooltip="New Catalog"
+                          onClick={() => openCatalogDialog(null)}
+                        >
+                          <Plus />
+                          <span>New Catalog</span>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    ) : null}
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
               <SidebarGroup className="group-data-[collapsible=icon]:px-1">
                 <SidebarGroupLabel className="px-3 text-[10px] font-semibold uppercase tracking-[0.12em]">
                   Updates
@@ -255,20 +446,52 @@ function App(): React.JSX.Element {
               </div>
               <SmoothScrollArea className="relative z-10 h-[90vh] min-h-0 flex-1 bg-gradient-to-b from-glass-bg via-transparent to-glass-bg">
                 {activeTab === 'homebrew' ? <HomebrewManager /> : null}
+                {activeTab === 'taps' ? <TapsManager /> : null}
                 {activeTab === 'browser' ? <BrowserCatalog /> : null}
                 {activeTab === 'terminal' ? <TerminalManager /> : null}
                 {activeTab === 'installed' ? <InstalledManager /> : null}
+                {activeTab === 'dependencies' ? <DependencyGraphManager /> : null}
                 {activeTab === 'search' ? <HomebrewSearchManager /> : null}
                 {activeTab === 'essentials' ? <EssentialsManager /> : null}
                 {activeTab === 'tools' ? <ToolsManager /> : null}
-                {activeTab === 'mole' ? <MoleManager /> : null}
+                {activeTab === 'mole' ? (
+                  <MoleManager
+                    cleanRequested={moleCleanRequested}
+                    onCleanRequestHandled={() => setMoleCleanRequested(false)}
+                  />
+                ) : null}
                 {activeTab === 'appUpdate' ? <AppUpdateManager /> : null}
-                {activeTab === 'nodeSwitch' ? <NodeVersionManager /> : null}
+                {activeTab === 'runtimes' ? <RuntimeVersionManager /> : null}
+                {activeTab === 'history' ? <HistoryManager /> : null}
+                {activeTab === 'snapshots' ? <SnapshotsManager /> : null}
+                {activeTab === 'services' ? <ServicesManager /> : null}
+                {activeCatalog ? (
+                  <CustomCatalogTab
+                    catalog={activeCatalog}
+                    canMoveUp={activeCatalogIndex > 0}
+                    canMoveDown={activeCatalogIndex < customCatalogs.length - 1}
+                    onEdit={() => openCatalogDialog(activeCatalog)}
+                    onMove={(direction) => {
+                      void moveCatalog(activeCatalog, direction)
+                    }}
+                    onDelete={() => {
+                      void deleteCatalog(activeCatalog)
+                    }}
+                    onRefreshed={upsertCatalog}
+                  />
+                ) : null}
               </SmoothScrollArea>
             </div>
           </SidebarInset>
         </div>
         <GlobalTerminalPanel />
+        <DestructiveActionDialog />
+        <CustomCatalogDialog
+          open={catalogDialogOpen}
+          onOpenChange={setCatalogDialogOpen}
+          catalog={editingCatalog}
+          onSaved={handleCatalogSaved}
+        />
       </SidebarProvider>
     </section>
   )
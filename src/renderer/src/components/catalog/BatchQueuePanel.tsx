@@ -0,0 +1,202 @@
+import { useEffect, useRef, useState } from 'react'
+import { CircleStop, RotateCcw, SkipForward, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { isJobBatchFinished, type JobBatch, type JobItemStatus } from '@/lib/jobQueue'
+
+type BatchQueuePanelProps = {
+  origin: string
+  onBatchFinished?: (batch: JobBatch) => void
+}
+
+const STATUS_BADGE_CLASS: Record<JobItemStatus, string> = {
+  pending: 'bg-transparent text-muted-foreground',
+  running: 'border-sky-500/60 bg-sky-500/10 text-sky-600 dark:text-sky-300',
+  succeeded: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-600 dark:text-emerald-300',
+  failed: 'border-red-500/60 bg-red-500/10 text-red-600 dark:text-red-300',
+  skipped: 'bg-transparent text-muted-foreground line-through',
+  canceled: 'border-amber-500/60 bg-amber-500/10 text-amber-600 dark:text-amber-300'
+}
+
+function upsertBatch(batches: JobBatch[], next: JobBatch): JobBatch[] {
+  const index = batches.findIndex((batch) => batch.batchId === next.batchId)
+  if (index === -1) return [...batches, next]
+  const copy = [...batches]
+  copy[index] = next
+  return copy
+}
+
+function BatchQueuePanel({
+  origin,
+  onBatchFinished
+}: BatchQueuePanelProps): React.JSX.Element | null {
+  const [batches, setBatches] = useState<JobBatch[]>([])
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => new Set())
+  const onBatchFinishedRef = useRef(onBatchFinished)
+
+  useEffect(() => {
+    onBatchFinishedRef.current = onBatchFinished
+  }, [onBatchFinished])
+
+  useEffect(() => {
+    let disposed = false
+    void window.api.listJobBatches().then((list) => {
+      if (disposed) return
+      setBatches(list.filter((batch) => batch.origin === origin))
+    })
+
+    const unsubscribe = window.api.onJobsUpdated((batch) => {
+      if (batch.origin !== origin) return
+      setBatches((prev) => upsertBatch(prev, batch))
+      if (isJobBatchFinished(batch)) {
+        onBatchFinishedRef.current?.(batch)
+      }
+    })
+
+    return () => {
+      disposed = true
+      unsubscribe()
+    }
+  }, [origin])
+
+  const visibleBatches = batches.filter((batch) => !dismissedIds.has(batch.batchId))
+  if (visibleBatches.length === 0) return null
+
+  const dismissBatch = (batchId: string): void => {
+    setDismissedIds((prev) => new Set(prev).add(batchId))
+  }
+
+  return (
+    <section className="space-y-3 px-3 py-3 md:px-4">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.08em] text-muted-foreground">
+        Batch Queue
+      </h3>
+      {visibleBatches.map((batch) => {
+        const doneCount = batch.items.filter(
+          (item) => item.status !== 'pending' && item.status !== 'running'
+        ).length
+        return (
+          <div
+            key={batch.batchId}
+            className="space-y-2 rounded-lg border border-glass-border bg-glass-bg px-3 py-2.5"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {doneCount}/{batch.items.length} done
+                {batch.continueOnFailure ? '' : ' · stops on failure'}
+                {batch.maxRetries > 0 ? ` · ${batch.maxRetries} retry` : ''}
+              </p>
+              {isJobBatchFinished(batch) ? (
+                <Button
+                  size="icon-sm"
+                  variant="ghost"
+                  className="h-6 w-6 text-muted-foreground"
+                  onClick={() => dismissBatch(batch.batchId)}
+                  aria-label="Dismiss batch"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              ) : null}
+            </div>
+            <div className="flex flex-col gap-1.5">
+              {batch.items.map((item) => (
+                <div key={item.itemId} className="flex items-center justify-between gap-2">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={`px-1.5 py-0 text-[10px] ${STATUS_BADGE_CLASS[item.status]}`}
+                    >
+                      {item.cancelRequested ? 'canceling' : item.status}
+                    </Badge>
+                    <span className="shrink-0 text-xs font-medium">
+                      {item.action} {item.token ?? item.command}
+                    </span>
+                    {item.attempts > 1 ? (
+                      <span className="shrink-0 text-[11px] text-muted-foreground">
+                        attempt {item.attempts}
+                      </span>
+                    ) : null}
+                    {item.error && item.status !== 'succeeded' ? (
+                      <span className="truncate text-[11px] text-muted-foreground">
+                        {item.error}
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    {item.status === 'failed' ||
+                    item.status === 'skipped' ||
+                    item.status === 'canceled' ? (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="icon-sm"
+                            variant="ghost"
+                            className="h-6 w-6 text-muted-foreground"
+                            onClick={() => {
+                              void window.api.retryJobItem(batch.batchId, item.itemId)
+                            }}
+                            aria-label="Retry"
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={8}>
+                          <p>Retry</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    ) : null}
+                    {item.status === 'pending' ? (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="icon-sm"
+                            variant="ghost"
+                            className="h-6 w-6 text-muted-foreground"
+                            onClick={() => {
+                              void window.api.skipJobItem(batch.batchId, item.itemId)
+                            }}
+                            aria-label="Skip"
+                          >
+                            <SkipForward className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={8}>
+                          <p>Skip</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    ) : null}
+                    {item.status === 'running' ? (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="icon-sm"
+                            variant="ghost"
+                            className="h-6 w-6 text-muted-foreground"
+                            onClick={() => {
+                              void window.api.cancelJobItem(batch.batchId, item.itemId)
+                            }}
+                            disabled={item.cancelRequested}
+                            aria-label="Cancel"
+                          >
+                            <CircleStop className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={8}>
+                          <p>Cancel</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </section>
+  )
+}
+
+export default BatchQueuePanel
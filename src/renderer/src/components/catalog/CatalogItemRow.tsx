@@ -1,5 +1,14 @@
-import { type ComponentType } from 'react'
-import { Download, Globe, RefreshCw, TerminalSquare, Trash2 } from 'lucide-react'
+import { type ComponentType, useState } from 'react'
+import {
+  CircleStop,
+  Download,
+  Globe,
+  Pin,
+  PinOff,
+  RefreshCw,
+  TerminalSquare,
+  Trash2
+} from 'lucide-react'
 import {
   SiArc,
   SiArcHex,
@@ -21,9 +30,12 @@ import {
   SiVivaldiHex
 } from '@icons-pack/react-simple-icons'
 
+import PackageDetailSheet from '@/components/catalog/PackageDetailSheet'
 import { CatalogItem } from '@/lib/catalog'
+import { brewCommand, formatCommand } from '@/lib/command'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 
 type IconConfig = {
@@ -56,8 +68,14 @@ type CatalogItemRowProps = {
   disabled?: boolean
   running?: boolean
   updating?: boolean
+  pinning?: boolean
   onToggle: (item: CatalogItem) => void
   onUpdate?: (item: CatalogItem) => void
+  // Stops this row's running install, uninstall or update.
+  onCancel?: () => void
+  onTogglePin?: (item: CatalogItem) => void
+  selected?: boolean
+  onSelectedChange?: (item: CatalogItem, selected: boolean) => void
 }
 
 function CatalogItemRow({
@@ -65,9 +83,15 @@ function CatalogItemRow({
   disabled = false,
   running = false,
   updating = false,
+  pinning = false,
   onToggle,
-  onUpdate
+  onUpdate,
+  onCancel,
+  onTogglePin,
+  selected = false,
+  onSelectedChange
 }: CatalogItemRowProps): React.JSX.Element {
+  const [detailsOpen, setDetailsOpen] = useState(false)
   const icon = item.iconKey ? ICON_MAP[item.iconKey] : undefined
   const actionIconButtonClass =
     'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
@@ -81,16 +105,24 @@ function CatalogItemRow({
   const command = item.installed
     ? (item.updateCommand ??
       (item.brewType === 'cask'
-        ? `brew upgrade --cask ${item.token}`
-        : `brew upgrade ${item.token}`))
+        ? brewCommand('upgrade', '--cask', item.token)
+        : brewCommand('upgrade', item.token)))
     : (item.installCommand ??
       (item.brewType === 'cask'
-        ? `brew install --cask ${item.token}`
-        : `brew install ${item.token}`))
+        ? brewCommand('install', '--cask', item.token)
+        : brewCommand('install', item.token)))
 
   return (
     <div className="flex flex-col gap-2 rounded-lg px-3 py-2 md:flex-row md:items-center md:justify-between">
       <div className="flex min-w-0 items-center gap-2.5">
+        {onSelectedChange ? (
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange(item, checked === true)}
+            disabled={disabled}
+            aria-label={`Select ${item.name}`}
+          />
+        ) : null}
         {icon ? (
           <icon.Component size={32} color={icon.color} className="shrink-0" />
         ) : item.iconUrl ? (
@@ -113,7 +145,12 @@ function CatalogItemRow({
           <Globe className="h-7 w-7 shrink-0 text-muted-foreground" />
         )}
 
-        <div className="min-w-0">
+        <button
+          type="button"
+          className="min-w-0 cursor-pointer text-left"
+          onClick={() => setDetailsOpen(true)}
+          aria-label={`Show details for ${item.name}`}
+        >
           <div className="flex flex-wrap items-center gap-2">
             <p className="text-[13px] font-medium text-foreground">{item.name}</p>
             <Badge
@@ -126,7 +163,25 @@ function CatalogItemRow({
             >
               {item.installed ? 'Installed' : 'Not Installed'}
             </Badge>
-            {item.installed && item.hasUpdate ? (
+            {item.tap ? (
+              <Badge
+                variant="outline"
+                className="bg-transparent px-1.5 py-0 font-mono text-[10px] text-muted-foreground"
+                title={`From tap ${item.tap}`}
+              >
+                {item.tap}
+              </Badge>
+            ) : null}
+            {item.installed && item.pinned ? (
+              <Badge
+                variant="outline"
+                className="bg-transparent px-1.5 py-0 text-[10px] text-muted-foreground"
+              >
+                <Pin className="h-3 w-3" />
+                Pinned
+              </Badge>
+            ) : null}
+            {item.installed && item.hasUpdate && !item.pinned ? (
               <Badge
                 variant="outline"
                 className="border-amber-500 bg-amber-500 px-1.5 py-0 text-[10px] font-semibold text-white dark:border-amber-400 dark:bg-amber-400 dark:text-amber-950"
@@ -136,10 +191,28 @@ function CatalogItemRow({
             ) : null}
           </div>
           <p className="mt-0.5 text-xs leading-relaxed text-muted-foreground">{item.description}</p>
-        </div>
+        </button>
       </div>
 
       <div className="flex items-center gap-1.5">
+        {(running || updating) && onCancel ? (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                className={actionIconButtonClass}
+                onClick={onCancel}
+                aria-label="Cancel"
+              >
+                <CircleStop className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent sideOffset={8}>
+              <p>Cancel</p>
+            </TooltipContent>
+          </Tooltip>
+        ) : null}
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -154,10 +227,33 @@ function CatalogItemRow({
             </Button>
           </TooltipTrigger>
           <TooltipContent sideOffset={8} className="max-w-[460px]">
-            <p className="font-mono text-[11px]">{command}</p>
+            <p className="font-mono text-[11px]">{formatCommand(command)}</p>
           </TooltipContent>
         </Tooltip>
-        {item.installed && onUpdate ? (
+        {item.installed && onTogglePin ? (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                className={actionIconButtonClass}
+                onClick={() => onTogglePin(item)}
+                disabled={disabled || pinning}
+                aria-label={item.pinned ? 'Unpin' : 'Pin'}
+              >
+                {item.pinned ? (
+                  <PinOff className={`h-4 w-4 ${pinning ? 'animate-pulse' : ''}`} />
+                ) : (
+                  <Pin className={`h-4 w-4 ${pinning ? 'animate-pulse' : ''}`} />
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent sideOffset={8}>
+              <p>{item.pinned ? 'Unpin (allow upgrades)' : 'Pin (hold current version)'}</p>
+            </TooltipContent>
+          </Tooltip>
+        ) : null}
+        {item.installed && !item.pinned && onUpdate ? (
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -198,6 +294,13 @@ function CatalogItemRow({
           </TooltipContent>
         </Tooltip>
       </div>
+
+      <PackageDetailSheet
+        token={item.token}
+        brewType={item.brewType ?? 'cask'}
+        open={detailsOpen}
+        onOpenChange={setDetailsOpen}
+      />
     </div>
   )
 }
@@ -1,10 +1,20 @@
-import { useEffect, useMemo, useState } from 'react'
-import { AlertCircle } from 'lucide-react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertCircle, Download, RefreshCw, Trash2, X } from 'lucide-react'
 
+import BatchQueuePanel from '@/components/catalog/BatchQueuePanel'
 import CatalogItemRow from '@/components/catalog/CatalogItemRow'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Skeleton } from '@/components/ui/skeleton'
-import { executeWithGlobalTerminal } from '@/lib/globalTerminal'
+import { brewCommand, formatCommand, type CommandInput } from '@/lib/command'
+import { confirmDestructiveAction } from '@/lib/destructiveActions'
+import {
+  openGlobalTerminal,
+  startWithGlobalTerminal,
+  type TerminalExecResult
+} from '@/lib/globalTerminal'
+import { type JobAction, type JobHandle } from '@/lib/jobQueue'
 import {
   buildFallbackItems,
   defaultDescriptionFromToken,
@@ -15,17 +25,13 @@ import {
   type CatalogSeed
 } from '@/lib/catalog'
 
-type BrewInfoCask = {
-  token?: string
-  name?: string[]
-  desc?: string
-  homepage?: string
-}
-
-type BrewInfoFormula = {
-  name?: string
-  desc?: string
-  homepage?: string
+type BrewPackageInfo = {
+  token: string
+  brewType: 'cask' | 'formula'
+  name: string
+  description: string
+  homepage: string | null
+  version: string | null
 }
 
 type CatalogTabProps = {
@@ -34,29 +40,52 @@ type CatalogTabProps = {
   seeds: CatalogSeed[]
   defaultBrewType: 'cask' | 'formula'
   discoverInstalled?: boolean
+  toolbar?: React.ReactNode
 }
 
 const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
 
-function chunkTokens(tokens: string[], size = 50): string[][] {
-  const chunks: string[][] = []
-  for (let i = 0; i < tokens.length; i += size) {
-    chunks.push(tokens.slice(i, i + size))
+function getSelectionKey(item: CatalogItem): string {
+  return `${item.brewType ?? 'item'}:${item.token}`
+}
+
+// The cache stores command lines as text; the main process validates them again before they run.
+function toCatalogCacheItems(items: CatalogItem[]): Array<
+  Omit<CatalogItem, 'installCommand' | 'uninstallCommand' | 'updateCommand'> & {
+    installCommand?: string
+    uninstallCommand?: string
+    updateCommand?: string
   }
-  return chunks
+> {
+  const toText = (command?: CommandInput): string | undefined =>
+    command === undefined ? undefined : formatCommand(command)
+  return items.map((item) => ({
+    ...item,
+    installCommand: toText(item.installCommand),
+    uninstallCommand: toText(item.uninstallCommand),
+    updateCommand: toText(item.updateCommand)
+  }))
 }
 
-function parseTokenList(raw: string): string[] {
-  return raw
-    .split('\n')
-    .map((line) => line.trim())
-    .filter(Boolean)
+function getBatchCommand(item: CatalogItem, action: JobAction): CommandInput {
+  if (action === 'uninstall') {
+    return item.uninstallCommand ?? brewCommand('uninstall', item.token)
+  }
+  if (action === 'upgrade') {
+    return (
+      item.updateCommand ??
+      (item.brewType === 'cask'
+        ? brewCommand('upgrade', '--cask', item.token)
+        : brewCommand('upgrade', item.token))
+    )
+  }
+  return item.installCommand ?? brewCommand('install', item.token)
 }
 
 function sortInstalledItems(items: CatalogItem[]): CatalogItem[] {
   return [...items].sort((a, b) => {
-    const aPriority = a.hasUpdate ? 1 : 0
-    const bPriority = b.hasUpdate ? 1 : 0
+    const aPriority = a.hasUpdate && !a.pinned ? 1 : 0
+    const bPriority = b.hasUpdate && !b.pinned ? 1 : 0
     if (aPriority !== bPriority) return bPriority - aPriority
     return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
   })
@@ -67,7 +96,8 @@ function CatalogTab({
   title,
   seeds,
   defaultBrewType,
-  discoverInstalled = false
+  discoverInstalled = false,
+  toolbar
 }: CatalogTabProps): React.JSX.Element {
   const [brewInstalled, setBrewInstalled] = useState<boolean | null>(null)
   const [items, setItems] = useState<CatalogItem[]>([])
@@ -77,34 +107,60 @@ function CatalogTab({
     action: 'install' | 'uninstall' | 'update'
   } | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(() => new Set())
+  const [continueOnFailure, setContinueOnFailure] = useState(true)
+  const [retryFailed, setRetryFailed] = useState(false)
+  const [heldKeys, setHeldKeys] = useState<Set<string>>(() => new Set())
+  const [pinningKey, setPinningKey] = useState<string | null>(null)
+  const runningJobRef = useRef<JobHandle<TerminalExecResult> | null>(null)
 
   const normalizedSeeds = useMemo(
     () => seeds.map((seed) => ({ ...seed, brewType: seed.brewType ?? defaultBrewType })),
     [seeds, defaultBrewType]
   )
+  const displayItems = useMemo(
+    () => items.map((item) => ({ ...item, pinned: heldKeys.has(getSelectionKey(item)) })),
+    [items, heldKeys]
+  )
   const installedVisibleItems = useMemo(
-    () => (discoverInstalled ? sortInstalledItems(items.filter((item) => item.installed)) : []),
-    [discoverInstalled, items]
+    () =>
+      discoverInstalled ? sortInstalledItems(displayItems.filter((item) => item.installed)) : [],
+    [discoverInstalled, displayItems]
   )
   const updatableItems = useMemo(
-    () => (discoverInstalled ? installedVisibleItems.filter((item) => item.hasUpdate) : []),
+    () =>
+      discoverInstalled
+        ? installedVisibleItems.filter((item) => item.hasUpdate && !item.pinned)
+        : [],
     [discoverInstalled, installedVisibleItems]
   )
   const installedCasks = useMemo(
     () =>
       discoverInstalled
-        ? installedVisibleItems.filter((item) => item.brewType === 'cask' && !item.hasUpdate)
+        ? installedVisibleItems.filter(
+            (item) => item.brewType === 'cask' && (!item.hasUpdate || item.pinned)
+          )
         : [],
     [discoverInstalled, installedVisibleItems]
   )
   const installedFormulae = useMemo(
     () =>
       discoverInstalled
-        ? installedVisibleItems.filter((item) => item.brewType === 'formula' && !item.hasUpdate)
+        ? installedVisibleItems.filter(
+            (item) => item.brewType === 'formula' && (!item.hasUpdate || item.pinned)
+          )
         : [],
     [discoverInstalled, installedVisibleItems]
   )
 
+  const selectedItems = useMemo(
+    () => displayItems.filter((item) => selectedKeys.has(getSelectionKey(item))),
+    [displayItems, selectedKeys]
+  )
+  const selectedToInstall = selectedItems.filter((item) => !item.installed)
+  const selectedInstalled = selectedItems.filter((item) => item.installed)
+  const selectedUpgradable = selectedInstalled.filter((item) => !item.pinned)
+
   const loadCatalog = async (forceRefresh = false): Promise<void> => {
     setError(null)
     const shouldShowLoading = items.length === 0
@@ -146,25 +202,14 @@ function CatalogTab({
         setItems(fallbackItems)
         await window.api.setCatalogItemsCache(catalogKey, {
           brewInstalled: false,
-          items: fallbackItems
+          items: toCatalogCacheItems(fallbackItems)
         })
         return
       }
 
-      const caskMeta = new Map<string, BrewInfoCask>()
-      const formulaMeta = new Map<string, BrewInfoFormula>()
-
-      const caskListResult = await window.api.executeTerminalCommand('brew list --cask')
-      const formulaListResult = await window.api.executeTerminalCommand('brew list --formula')
-
-      const installedCaskTokens = caskListResult.stdout
-        .split('\n')
-        .map((line) => line.trim())
-        .filter(Boolean)
-      const installedFormulaTokens = formulaListResult.stdout
-        .split('\n')
-        .map((line) => line.trim())
-        .filter(Boolean)
+      const installedList = await window.api.listBrewInstalled()
+      const installedCaskTokens = installedList.casks
+      const installedFormulaTokens = installedList.formulae
 
       const installedCaskSet = new Set(installedCaskTokens)
       const installedFormulaSet = new Set(installedFormulaTokens)
@@ -172,42 +217,37 @@ function CatalogTab({
       const outdatedFormulaSet = new Set<string>()
 
       if (discoverInstalled) {
-        const [outdatedCaskResult, outdatedFormulaResult] = await Promise.all([
-          window.api.executeTerminalCommand('brew outdated --cask --quiet'),
-          window.api.executeTerminalCommand('brew outdated --formula --quiet')
-        ])
-        parseTokenList(outdatedCaskResult.stdout).forEach((token) => outdatedCaskSet.add(token))
-        parseTokenList(outdatedFormulaResult.stdout).forEach((token) => outdatedFormulaSet.add(token))
-      }
-
-      for (const tokenChunk of chunkTokens(installedCaskTokens)) {
-        if (tokenChunk.length === 0) continue
-        const infoResult = await window.api.executeTerminalCommand(`brew info --json=v2 ${tokenChunk.join(' ')}`)
-        if (!infoResult.success || !infoResult.stdout.trim()) continue
-        try {
-          const parsed = JSON.parse(infoResult.stdout) as { casks?: BrewInfoCask[] }
-          ;(parsed.casks ?? []).forEach((entry) => {
-            if (entry.token) caskMeta.set(entry.token, entry)
-          })
-        } catch {
-          // skip parse failure for chunk
-        }
+        const outdatedReport = await window.api.getBrewOutdated()
+        outdatedReport.items.forEach((entry) => {
+          if (entry.brewType === 'cask') {
+            outdatedCaskSet.add(entry.token)
+          } else {
+            outdatedFormulaSet.add(entry.token)
+          }
+        })
       }
 
-      for (const tokenChunk of chunkTokens(installedFormulaTokens)) {
-        if (tokenChunk.length === 0) continue
-        const infoResult = await window.api.executeTerminalCommand(`brew info --json=v2 ${tokenChunk.join(' ')}`)
-        if (!infoResult.success || !infoResult.stdout.trim()) continue
-        try {
-          const parsed = JSON.parse(infoResult.stdout) as { formulae?: BrewInfoFormula[] }
-          ;(parsed.formulae ?? []).forEach((entry) => {
-            const key = entry.name?.trim()
-            if (key) formulaMeta.set(key, entry)
-          })
-        } catch {
-          // skip parse failure for chunk
-        }
-      }
+      const infoCaskTokens = discoverInstalled
+        ? installedCaskTokens
+        : normalizedSeeds
+            .filter((seed) => (seed.brewType ?? defaultBrewType) === 'cask')
+            .map((seed) => seed.token)
+            .filter((token) => installedCaskSet.has(token))
+      const infoFormulaTokens = discoverInstalled
+        ? installedFormulaTokens
+        : normalizedSeeds
+            .filter((seed) => (seed.brewType ?? defaultBrewType) === 'formula')
+            .map((seed) => seed.token)
+            .filter((token) => installedFormulaSet.has(token))
+
+      const caskMeta = new Map<string, BrewPackageInfo>()
+      const formulaMeta = new Map<string, BrewPackageInfo>()
+      ;(await window.api.getBrewInfo(infoCaskTokens, 'cask')).forEach((entry) => {
+        caskMeta.set(entry.token, entry)
+      })
+      ;(await window.api.getBrewInfo(infoFormulaTokens, 'formula')).forEach((entry) => {
+        formulaMeta.set(entry.token, entry)
+      })
 
       const nextItems: CatalogItem[] = discoverInstalled
         ? [
@@ -217,17 +257,17 @@ function CatalogTab({
               return {
                 token,
                 brewType: 'cask' as const,
-                name: cask?.name?.[0] || formatNameFromToken(token),
-                description: cask?.desc || defaultDescriptionFromToken(token),
+                name: cask?.name || formatNameFromToken(token),
+                description: cask?.description || defaultDescriptionFromToken(token),
                 homepage,
                 iconUrl: homepage ? toDuckDuckGoFavicon(homepage) : null,
                 fallbackIconUrl: homepage ? toDuckDuckGoFavicon(homepage) : null,
                 installed: true,
                 hasUpdate: outdatedCaskSet.has(token),
                 iconKey: null,
-                installCommand: `brew install --cask ${token}`,
-                uninstallCommand: `brew uninstall --cask ${token}`,
-                updateCommand: `brew upgrade --cask ${token}`
+                installCommand: brewCommand('install', '--cask', token),
+                uninstallCommand: brewCommand('uninstall', '--cask', token),
+                updateCommand: brewCommand('upgrade', '--cask', token)
               }
             }),
             ...installedFormulaTokens.map((token) => {
@@ -237,16 +277,16 @@ function CatalogTab({
                 token,
                 brewType: 'formula' as const,
                 name: formula?.name || formatNameFromToken(token),
-                description: formula?.desc || defaultDescriptionFromToken(token),
+                description: formula?.description || defaultDescriptionFromToken(token),
                 homepage,
                 iconUrl: homepage ? toDuckDuckGoFavicon(homepage) : null,
                 fallbackIconUrl: homepage ? toDuckDuckGoFavicon(homepage) : null,
                 installed: true,
                 hasUpdate: outdatedFormulaSet.has(token),
                 iconKey: null,
-                installCommand: `brew install ${token}`,
-                uninstallCommand: `brew uninstall ${token}`,
-                updateCommand: `brew upgrade ${token}`
+                installCommand: brewCommand('install', token),
+                uninstallCommand: brewCommand('uninstall', token),
+                updateCommand: brewCommand('upgrade', token)
               }
             })
           ].sort((a, b) => {
@@ -261,11 +301,11 @@ function CatalogTab({
             const formula = formulaMeta.get(seed.token)
 
             const name =
-              (brewType === 'cask' ? cask?.name?.[0] : formula?.name) ||
+              (brewType === 'cask' ? cask?.name : formula?.name) ||
               seed.name ||
               formatNameFromToken(seed.token)
             const description =
-              (brewType === 'cask' ? cask?.desc : formula?.desc) ||
+              (brewType === 'cask' ? cask?.description : formula?.description) ||
               seed.description ||
               defaultDescriptionFromToken(seed.token)
             const homepage = (brewType === 'cask' ? cask?.homepage : formula?.homepage) || null
@@ -294,25 +334,25 @@ function CatalogTab({
               installCommand:
                 seed.installCommand ??
                 (brewType === 'cask'
-                  ? `brew install --cask ${seed.token}`
-                  : `brew install ${seed.token}`),
+                  ? brewCommand('install', '--cask', seed.token)
+                  : brewCommand('install', seed.token)),
               uninstallCommand:
                 seed.uninstallCommand ??
                 (brewType === 'cask'
-                  ? `brew uninstall --cask ${seed.token}`
-                  : `brew uninstall ${seed.token}`),
+                  ? brewCommand('uninstall', '--cask', seed.token)
+                  : brewCommand('uninstall', seed.token)),
               updateCommand:
                 seed.updateCommand ??
                 (brewType === 'cask'
-                  ? `brew upgrade --cask ${seed.token}`
-                  : `brew upgrade ${seed.token}`)
+                  ? brewCommand('upgrade', '--cask', seed.token)
+                  : brewCommand('upgrade', seed.token))
             }
           })
 
       setItems(nextItems)
       await window.api.setCatalogItemsCache(catalogKey, {
         brewInstalled: true,
-        items: nextItems
+        items: toCatalogCacheItems(nextItems)
       })
     } catch (err) {
       setError(err instanceof Error ? err.message : `Failed to load ${title} list.`)
@@ -331,16 +371,38 @@ function CatalogTab({
     })
   }
 
+  const cancelRunningAction = (): void => {
+    void runningJobRef.current?.cancel()
+  }
+
   const toggleInstall = async (item: CatalogItem): Promise<void> => {
     const action: 'install' | 'uninstall' = item.installed ? 'uninstall' : 'install'
+    const approvalId =
+      action === 'uninstall'
+        ? await confirmDestructiveAction(
+            {
+              kind: 'brew-uninstall',
+              packages: [{ token: item.token, brewType: item.brewType ?? defaultBrewType }]
+            },
+            { command: formatCommand(getBatchCommand(item, 'uninstall')) }
+          )
+        : undefined
+    if (approvalId === null) return
     setRunningAction({ token: item.token, action })
     setError(null)
 
     try {
-      const command = action === 'uninstall'
-        ? (item.uninstallCommand ?? `brew uninstall ${item.token}`)
-        : (item.installCommand ?? `brew install ${item.token}`)
-      const result = await executeWithGlobalTerminal(command)
+      const command = getBatchCommand(item, action)
+      const job = startWithGlobalTerminal(command, {
+        origin: catalogKey,
+        token: item.token,
+        action,
+        approvalId
+      })
+      runningJobRef.current = job
+      const result = await job.result
+      // A canceled job leaves the row as it was, without an error.
+      if (result.canceled) return
       if (!result.success) {
         setError(
           result.error ||
@@ -368,6 +430,7 @@ function CatalogTab({
           : `${action === 'uninstall' ? 'Uninstall' : 'Install'} failed for ${item.token}.`
       )
     } finally {
+      runningJobRef.current = null
       setRunningAction(null)
     }
   }
@@ -377,10 +440,15 @@ function CatalogTab({
     setError(null)
 
     try {
-      const command =
-        item.updateCommand ??
-        (item.brewType === 'cask' ? `brew upgrade --cask ${item.token}` : `brew upgrade ${item.token}`)
-      const result = await executeWithGlobalTerminal(command)
+      const command = getBatchCommand(item, 'upgrade')
+      const job = startWithGlobalTerminal(command, {
+        origin: catalogKey,
+        token: item.token,
+        action: 'upgrade'
+      })
+      runningJobRef.current = job
+      const result = await job.result
+      if (result.canceled) return
       if (!result.success) {
         setError(result.error || result.stderr || `Update failed for ${item.token}.`)
       } else {
@@ -399,17 +467,95 @@ function CatalogTab({
     } catch (err) {
       setError(err instanceof Error ? err.message : `Update failed for ${item.token}.`)
     } finally {
+      runningJobRef.current = null
       setRunningAction(null)
     }
   }
 
+  const loadHolds = async (): Promise<void> => {
+    try {
+      const holds = await window.api.listPackageHolds()
+      setHeldKeys(new Set(holds.map((hold) => `${hold.brewType}:${hold.token}`)))
+    } catch {
+      // holds are advisory; keep the previous set on failure
+    }
+  }
+
+  const togglePin = async (item: CatalogItem): Promise<void> => {
+    const key = getSelectionKey(item)
+    setPinningKey(key)
+    setError(null)
+    try {
+      const result = await window.api.setPackageHold({
+        token: item.token,
+        brewType: item.brewType ?? defaultBrewType,
+        held: !item.pinned
+      })
+      if (!result.success) {
+        setError(result.error ?? `Failed to update pin for ${item.token}.`)
+      }
+      await loadHolds()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to update pin for ${item.token}.`)
+    } finally {
+      setPinningKey(null)
+    }
+  }
+
+  const setItemSelected = (item: CatalogItem, selected: boolean): void => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev)
+      if (selected) {
+        next.add(getSelectionKey(item))
+      } else {
+        next.delete(getSelectionKey(item))
+      }
+      return next
+    })
+  }
+
+  const submitBatch = async (action: JobAction, targets: CatalogItem[]): Promise<void> => {
+    if (targets.length === 0) return
+    const approvalId =
+      action === 'uninstall'
+        ? await confirmDestructiveAction({
+            kind: 'brew-uninstall',
+            packages: targets.map((item) => ({
+              token: item.token,
+              brewType: item.brewType ?? defaultBrewType
+            }))
+          })
+        : undefined
+    if (approvalId === null) return
+    setError(null)
+    try {
+      await window.api.enqueueJobBatch({
+        origin: catalogKey,
+        continueOnFailure,
+        maxRetries: retryFailed ? 1 : 0,
+        approvalId,
+        items: targets.map((item) => ({
+          token: item.token,
+          action,
+          command: getBatchCommand(item, action)
+        }))
+      })
+      setSelectedKeys(new Set())
+      openGlobalTerminal()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue batch.')
+    }
+  }
+
   useEffect(() => {
     void loadCatalog()
+    void loadHolds()
   }, [])
 
   useEffect(() => {
     const handler = (): void => {
       void loadCatalog()
+      void loadHolds()
     }
     window.addEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
     return () => {
@@ -425,6 +571,75 @@ function CatalogTab({
     <main className="flex justify-center py-5 md:py-6">
       <div className="mx-auto flex w-[min(1080px,88vw)] flex-col gap-4">
         <div className="space-y-4">
+          {toolbar}
+
+          {selectedItems.length > 0 ? (
+            <section className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 md:px-4">
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="font-medium">{selectedItems.length} selected</span>
+                <label className="flex items-center gap-1.5 text-muted-foreground">
+                  <Checkbox
+                    checked={continueOnFailure}
+                    onCheckedChange={(checked) => setContinueOnFailure(checked === true)}
+                  />
+                  Continue on failure
+                </label>
+                <label className="flex items-center gap-1.5 text-muted-foreground">
+                  <Checkbox
+                    checked={retryFailed}
+                    onCheckedChange={(checked) => setRetryFailed(checked === true)}
+                  />
+                  Retry failed once
+                </label>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => {
+                    void submitBatch('install', selectedToInstall)
+                  }}
+                  disabled={brewInstalled !== true || selectedToInstall.length === 0}
+                >
+                  <Download className="h-4 w-4" />
+                  Install {selectedToInstall.length}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => {
+                    void submitBatch('upgrade', selectedUpgradable)
+                  }}
+                  disabled={brewInstalled !== true || selectedUpgradable.length === 0}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  Upgrade {selectedUpgradable.length}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => {
+                    void submitBatch('uninstall', selectedInstalled)
+                  }}
+                  disabled={brewInstalled !== true || selectedInstalled.length === 0}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Uninstall {selectedInstalled.length}
+                </Button>
+                <Button
+                  size="icon-sm"
+                  variant="ghost"
+                  onClick={() => setSelectedKeys(new Set())}
+                  aria-label="Clear selection"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </section>
+          ) : null}
+
+          <BatchQueuePanel origin={catalogKey} onBatchFinished={refreshCatalogInBackground} />
+
           {brewInstalled === false ? (
             <Alert className="text-foreground">
               <AlertCircle className="h-4 w-4" />
@@ -458,7 +673,7 @@ function CatalogTab({
                   <div className="flex flex-col gap-2.5">
                     {updatableItems.map((item) => (
                       <CatalogItemRow
-                        key={`${item.brewType ?? 'item'}:${item.token}`}
+                        key={getSelectionKey(item)}
                         item={item}
                         disabled={brewInstalled !== true || runningAction !== null}
                         running={
@@ -466,6 +681,13 @@ function CatalogTab({
                           (runningAction.action === 'install' || runningAction.action === 'uninstall')
                         }
                         updating={runningAction?.token === item.token && runningAction.action === 'update'}
+                        onCancel={cancelRunningAction}
+                        selected={selectedKeys.has(getSelectionKey(item))}
+                        onSelectedChange={setItemSelected}
+                        pinning={pinningKey === getSelectionKey(item)}
+                        onTogglePin={(next) => {
+                          void togglePin(next)
+                        }}
                         onToggle={(next) => {
                           void toggleInstall(next)
                         }}
@@ -491,7 +713,7 @@ function CatalogTab({
                   <div className="flex flex-col gap-2.5">
                     {installedCasks.map((item) => (
                       <CatalogItemRow
-                        key={`${item.brewType ?? 'item'}:${item.token}`}
+                        key={getSelectionKey(item)}
                         item={item}
                         disabled={brewInstalled !== true || runningAction !== null}
                         running={
@@ -499,6 +721,13 @@ function CatalogTab({
                           (runningAction.action === 'install' || runningAction.action === 'uninstall')
                         }
                         updating={runningAction?.token === item.token && runningAction.action === 'update'}
+                        onCancel={cancelRunningAction}
+                        selected={selectedKeys.has(getSelectionKey(item))}
+                        onSelectedChange={setItemSelected}
+                        pinning={pinningKey === getSelectionKey(item)}
+                        onTogglePin={(next) => {
+                          void togglePin(next)
+                        }}
                         onToggle={(next) => {
                           void toggleInstall(next)
                         }}
@@ -526,7 +755,7 @@ function CatalogTab({
                   <div className="flex flex-col gap-2.5">
                     {installedFormulae.map((item) => (
                       <CatalogItemRow
-                        key={`${item.brewType ?? 'item'}:${item.token}`}
+                        key={getSelectionKey(item)}
                         item={item}
                         disabled={brewInstalled !== true || runningAction !== null}
                         running={
@@ -534,6 +763,13 @@ function CatalogTab({
                           (runningAction.action === 'install' || runningAction.action === 'uninstall')
                         }
                         updating={runningAction?.token === item.token && runningAction.action === 'update'}
+                        onCancel={cancelRunningAction}
+                        selected={selectedKeys.has(getSelectionKey(item))}
+                        onSelectedChange={setItemSelected}
+                        pinning={pinningKey === getSelectionKey(item)}
+                        onTogglePin={(next) => {
+                          void togglePin(next)
+                        }}
                         onToggle={(next) => {
                           void toggleInstall(next)
                         }}
@@ -553,9 +789,9 @@ function CatalogTab({
                 <span className="text-[11px] text-muted-foreground/70">{items.length}</span>
               </div>
               <div className="flex flex-col gap-2.5">
-                {items.map((item) => (
+                {displayItems.map((item) => (
                   <CatalogItemRow
-                    key={`${item.brewType ?? 'item'}:${item.token}`}
+                    key={getSelectionKey(item)}
                     item={item}
                     disabled={brewInstalled !== true || runningAction !== null}
                     running={
@@ -563,6 +799,13 @@ function CatalogTab({
                       (runningAction.action === 'install' || runningAction.action === 'uninstall')
                     }
                     updating={runningAction?.token === item.token && runningAction.action === 'update'}
+                    onCancel={cancelRunningAction}
+                    selected={selectedKeys.has(getSelectionKey(item))}
+                    onSelectedChange={setItemSelected}
+                    pinning={pinningKey === getSelectionKey(item)}
+                    onTogglePin={(next) => {
+                      void togglePin(next)
+                    }}
                     onToggle={(next) => {
                       void toggleInstall(next)
                     }}
@@ -0,0 +1,483 @@
+import { useState } from 'react'
+import { AlertCircle, ChevronDown, ChevronRight, FolderOpen, Plus, Trash2 } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { type CatalogSeed } from '@/lib/catalog'
+import { CUSTOM_CATALOG_ICONS, type CustomCatalog } from '@/lib/customCatalogs'
+
+type SeedDraft = {
+  key: number
+  token: string
+  brewType: 'cask' | 'formula'
+  name: string
+  description: string
+  fallbackDomain: string
+  installCommand: string
+  uninstallCommand: string
+  updateCommand: string
+}
+
+type CustomCatalogDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  catalog: CustomCatalog | null
+  onSaved: (catalog: CustomCatalog) => void
+}
+
+let nextSeedKey = 1
+
+function toSeedDraft(seed: CatalogSeed, defaultBrewType: 'cask' | 'formula'): SeedDraft {
+  return {
+    key: nextSeedKey++,
+    token: seed.token,
+    brewType: seed.brewType ?? defaultBrewType,
+    name: seed.name ?? '',
+    description: seed.description ?? '',
+    fallbackDomain: seed.fallbackDomain ?? '',
+    installCommand: seed.installCommand ?? '',
+    uninstallCommand: seed.uninstallCommand ?? '',
+    updateCommand: seed.updateCommand ?? ''
+  }
+}
+
+function emptySeedDraft(brewType: 'cask' | 'formula'): SeedDraft {
+  return toSeedDraft({ token: '' }, brewType)
+}
+
+function toSeed(draft: SeedDraft): CatalogSeed {
+  const optional = (value: string): string | undefined => value.trim() || undefined
+  return {
+    token: draft.token.trim(),
+    brewType: draft.brewType,
+    name: optional(draft.name),
+    description: optional(draft.description),
+    fallbackDomain: optional(draft.fallbackDomain),
+    installCommand: optional(draft.installCommand),
+    uninstallCommand: optional(draft.uninstallCommand),
+    updateCommand: optional(draft.updateCommand)
+  }
+}
+
+function BrewTypeToggle({
+  value,
+  onChange
+}: {
+  value: 'cask' | 'formula'
+  onChange: (value: 'cask' | 'formula') => void
+}): React.JSX.Element {
+  return (
+    <div className="flex shrink-0 items-center gap-1">
+      {(['cask', 'formula'] as const).map((type) => (
+        <Button
+          key={type}
+          type="button"
+          size="sm"
+          variant={value === type ? 'secondary' : 'ghost'}
+          className="h-8 px-2 text-xs"
+          onClick={() => onChange(type)}
+        >
+          {type}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+function CustomCatalogForm({
+  catalog,
+  onCancel,
+  onSaved
+}: {
+  catalog: CustomCatalog | null
+  onCancel: () => void
+  onSaved: (catalog: CustomCatalog) => void
+}): React.JSX.Element {
+  const [title, setTitle] = useState(catalog?.title ?? '')
+  const [description, setDescription] = useState(catalog?.description ?? '')
+  const [icon, setIcon] = useState(catalog?.icon ?? 'package')
+  const [defaultBrewType, setDefaultBrewType] = useState<'cask' | 'formula'>(
+    catalog?.defaultBrewType ?? 'cask'
+  )
+  const [seeds, setSeeds] = useState<SeedDraft[]>(() =>
+    catalog?.seeds.length
+      ? catalog.seeds.map((seed) => toSeedDraft(seed, catalog.defaultBrewType))
+      : [emptySeedDraft('cask')]
+  )
+  const [expandedKey, setExpandedKey] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateSeed = (key: number, patch: Partial<SeedDraft>): void => {
+    setSeeds((prev) => prev.map((seed) => (seed.key === key ? { ...seed, ...patch } : seed)))
+  }
+
+  const save = async (): Promise<void> => {
+    if (!title.trim()) {
+      setError('Catalog title is required.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await window.api.saveCustomCatalog({
+        id: catalog?.id,
+        title,
+        description,
+        icon,
+        defaultBrewType,
+        seeds: seeds.filter((seed) => seed.token.trim()).map(toSeed)
+      })
+      if (!result.success || !result.catalog) {
+        setError(result.error ?? 'Failed to save catalog.')
+        return
+      }
+      onSaved(result.catalog)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save catalog.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Input
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="Title, e.g. Team Onboarding"
+            className="h-8 md:w-64"
+            disabled={saving}
+          />
+          <Input
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="Description (optional)"
+            className="h-8 flex-1"
+            disabled={saving}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            {Object.entries(CUSTOM_CATALOG_ICONS).map(([key, Icon]) => (
+              <Button
+                key={key}
+                type="button"
+                size="icon-sm"
+                variant={icon === key ? 'secondary' : 'ghost'}
+                onClick={() => setIcon(key)}
+                aria-label={`Use ${key} icon`}
+                disabled={saving}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            Default type
+            <BrewTypeToggle value={defaultBrewType} onChange={setDefaultBrewType} />
+          </div>
+        </div>
+
+        <div className="max-h-[45vh] divide-y divide-glass-divider overflow-y-auto">
+          {seeds.map((seed) => {
+            const expanded = expandedKey === seed.key
+            return (
+              <div key={seed.key} className="space-y-2 py-2">
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => setExpandedKey(expanded ? null : seed.key)}
+                    aria-label={expanded ? 'Hide details' : 'Show details'}
+                  >
+                    {expanded ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Input
+                    value={seed.token}
+                    onChange={(event) => updateSeed(seed.key, { token: event.target.value })}
+                    placeholder="token, e.g. visual-studio-code"
+                    className="h-8 font-mono text-xs"
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                    spellCheck={false}
+                    disabled={saving}
+                  />
+                  <BrewTypeToggle
+                    value={seed.brewType}
+                    onChange={(brewType) => updateSeed(seed.key, { brewType })}
+                  />
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => setSeeds((prev) => prev.filter((item) => item.key !== seed.key))}
+                    aria-label="Remove package"
+                    disabled={saving}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {expanded ? (
+                  <div className="grid gap-2 pl-9 md:grid-cols-2">
+                    <Input
+                      value={seed.name}
+                      onChange={(event) => updateSeed(seed.key, { name: event.target.value })}
+                      placeholder="Display name"
+                      className="h-8 text-xs"
+                      disabled={saving}
+                    />
+                    <Input
+                      value={seed.fallbackDomain}
+                      onChange={(event) =>
+                        updateSeed(seed.key, { fallbackDomain: event.target.value })
+                      }
+                      placeholder="Icon domain, e.g. code.visualstudio.com"
+                      className="h-8 text-xs"
+                      disabled={saving}
+                    />
+                    <Input
+                      value={seed.description}
+                      onChange={(event) =>
+                        updateSeed(seed.key, { description: event.target.value })
+                      }
+                      placeholder="Description"
+                      className="h-8 text-xs md:col-span-2"
+                      disabled={saving}
+                    />
+                    <Input
+                      value={seed.installCommand}
+                      onChange={(event) =>
+                        updateSeed(seed.key, { installCommand: event.target.value })
+                      }
+                      placeholder="Install command (default: brew install)"
+                      className="h-8 font-mono text-xs md:col-span-2"
+                      disabled={saving}
+                    />
+                    <Input
+                      value={seed.uninstallCommand}
+                      onChange={(event) =>
+                        updateSeed(seed.key, { uninstallCommand: event.target.value })
+                      }
+                      placeholder="Uninstall command (default: brew uninstall)"
+                      className="h-8 font-mono text-xs md:col-span-2"
+                      disabled={saving}
+                    />
+                    <Input
+                      value={seed.updateCommand}
+                      onChange={(event) =>
+                        updateSeed(seed.key, { updateCommand: event.target.value })
+                      }
+                      placeholder="Update command (default: brew upgrade)"
+                      className="h-8 font-mono text-xs md:col-span-2"
+                      disabled={saving}
+                    />
+                  </div>
+                ) : null}
+              </div>
+            )
+          })}
+        </div>
+
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => setSeeds((prev) => [...prev, emptySeedDraft(defaultBrewType)])}
+          disabled={saving}
+        >
+          <Plus className="h-4 w-4" />
+          Add Package
+        </Button>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => {
+            void save()
+          }}
+          disabled={saving}
+        >
+          {saving ? 'Saving...' : 'Save Catalog'}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
+
+function SubscribeCatalogForm({
+  onCancel,
+  onSaved
+}: {
+  onCancel: () => void
+  onSaved: (catalog: CustomCatalog) => void
+}): React.JSX.Element {
+  const [source, setSource] = useState('')
+  const [subscribing, setSubscribing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const chooseFile = async (): Promise<void> => {
+    const filePath = await window.api.chooseCatalogFile()
+    if (filePath) setSource(filePath)
+  }
+
+  const subscribe = async (): Promise<void> => {
+    setSubscribing(true)
+    setError(null)
+    try {
+      const result = await window.api.subscribeCatalog(source)
+      if (!result.success || !result.catalog) {
+        setError(result.error ?? 'Failed to subscribe to catalog.')
+        return
+      }
+      onSaved(result.catalog)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to subscribe to catalog.')
+    } finally {
+      setSubscribing(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          The source is a JSON object with title, version and seeds, plus optional description, icon
+          and defaultBrewType. Seeds use the same fields as the built-in catalogs.
+        </p>
+        <div className="flex items-center gap-2">
+          <Input
+            value={source}
+            onChange={(event) => setSource(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                void subscribe()
+              }
+            }}
+            placeholder="https://example.com/catalog.json or /Volumes/Shared/catalog.json"
+            className="h-8 flex-1 font-mono text-xs"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            disabled={subscribing}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            onClick={() => {
+              void chooseFile()
+            }}
+            disabled={subscribing}
+          >
+            <FolderOpen className="h-4 w-4" />
+            Choose File
+          </Button>
+        </div>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onCancel} disabled={subscribing}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => {
+            void subscribe()
+          }}
+          disabled={subscribing || source.trim().length === 0}
+        >
+          {subscribing ? 'Subscribing...' : 'Subscribe'}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
+
+function CustomCatalogDialog({
+  open,
+  onOpenChange,
+  catalog,
+  onSaved
+}: CustomCatalogDialogProps): React.JSX.Element {
+  const [mode, setMode] = useState<'build' | 'subscribe'>('build')
+  const subscribing = !catalog && mode === 'subscribe'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{catalog ? `Edit ${catalog.title}` : 'New Catalog'}</DialogTitle>
+          <DialogDescription>
+            A catalog is a sidebar tab listing Homebrew packages, optionally with custom install,
+            uninstall and update commands.
+          </DialogDescription>
+        </DialogHeader>
+        {!catalog ? (
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant={mode === 'build' ? 'secondary' : 'ghost'}
+              onClick={() => setMode('build')}
+            >
+              Build
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === 'subscribe' ? 'secondary' : 'ghost'}
+              onClick={() => setMode('subscribe')}
+            >
+              Subscribe to URL or File
+            </Button>
+          </div>
+        ) : null}
+        {open && subscribing ? (
+          <SubscribeCatalogForm onCancel={() => onOpenChange(false)} onSaved={onSaved} />
+        ) : null}
+        {/* Remount the form per catalog so the draft always starts from saved values. */}
+        {open && !subscribing ? (
+          <CustomCatalogForm
+            key={catalog ? `${catalog.id}:${catalog.updatedAt}` : 'new'}
+            catalog={catalog}
+            onCancel={() => onOpenChange(false)}
+            onSaved={onSaved}
+          />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CustomCatalogDialog
@@ -0,0 +1,178 @@
+import { useState } from 'react'
+import { AlertCircle, ArrowDown, ArrowUp, Pencil, RefreshCw, Trash2 } from 'lucide-react'
+
+import CatalogTab from '@/components/catalog/CatalogTab'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { type CatalogSubscription, type CustomCatalog } from '@/lib/customCatalogs'
+
+type CustomCatalogTabProps = {
+  catalog: CustomCatalog
+  canMoveUp: boolean
+  canMoveDown: boolean
+  onEdit: () => void
+  onMove: (direction: -1 | 1) => void
+  onDelete: () => void
+  onRefreshed: (catalog: CustomCatalog) => void
+}
+
+function describeChanges(subscription: CatalogSubscription): string | null {
+  const { changes } = subscription
+  if (!changes) return null
+  const parts = [
+    changes.added.length ? `added ${changes.added.join(', ')}` : null,
+    changes.removed.length ? `removed ${changes.removed.join(', ')}` : null,
+    changes.changed.length ? `updated ${changes.changed.join(', ')}` : null
+  ].filter(Boolean)
+  const version =
+    changes.previousVersion && changes.previousVersion !== changes.version
+      ? `${changes.previousVersion} → ${changes.version}`
+      : changes.version
+  if (changes.previousVersion === null) return `Subscribed at version ${version}.`
+  return parts.length
+    ? `Last fetch (${version}): ${parts.join('; ')}.`
+    : `Last fetch (${version}): no package changes.`
+}
+
+function CustomCatalogTab({
+  catalog,
+  canMoveUp,
+  canMoveDown,
+  onEdit,
+  onMove,
+  onDelete,
+  onRefreshed
+}: CustomCatalogTabProps): React.JSX.Element {
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { subscription } = catalog
+  const actionIconButtonClass =
+    'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+
+  const refresh = async (): Promise<void> => {
+    setRefreshing(true)
+    setError(null)
+    try {
+      const result = await window.api.refreshCatalogSubscription(catalog.id)
+      if (!result.success || !result.catalog) {
+        setError(result.error ?? 'Failed to refresh catalog.')
+        return
+      }
+      onRefreshed(result.catalog)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh catalog.')
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  const actions = [
+    subscription
+      ? {
+          label: refreshing ? 'Fetching...' : 'Fetch latest version',
+          icon: RefreshCw,
+          onClick: () => {
+            void refresh()
+          },
+          disabled: refreshing,
+          spinning: refreshing
+        }
+      : { label: 'Edit catalog', icon: Pencil, onClick: onEdit, disabled: false, spinning: false },
+    {
+      label: 'Move up',
+      icon: ArrowUp,
+      onClick: () => onMove(-1),
+      disabled: !canMoveUp,
+      spinning: false
+    },
+    {
+      label: 'Move down',
+      icon: ArrowDown,
+      onClick: () => onMove(1),
+      disabled: !canMoveDown,
+      spinning: false
+    },
+    {
+      label: subscription ? 'Unsubscribe' : 'Delete catalog',
+      icon: Trash2,
+      onClick: onDelete,
+      disabled: refreshing,
+      spinning: false
+    }
+  ]
+  const changeSummary = subscription ? describeChanges(subscription) : null
+
+  return (
+    <CatalogTab
+      // Seeds are only read on mount, so remount whenever the catalog is edited.
+      key={`${catalog.catalogKey}:${catalog.updatedAt}`}
+      catalogKey={catalog.catalogKey}
+      title={catalog.title}
+      seeds={catalog.seeds}
+      defaultBrewType={catalog.defaultBrewType}
+      toolbar={
+        <section className="space-y-2 px-3 md:px-4">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {catalog.description || `${catalog.seeds.length} package(s) in this catalog.`}
+            </p>
+            <div className="flex shrink-0 items-center gap-1">
+              {actions.map(({ label, icon: Icon, onClick, disabled, spinning }) => (
+                <Tooltip key={label}>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      className={actionIconButtonClass}
+                      onClick={onClick}
+                      disabled={disabled}
+                      aria-label={label}
+                    >
+                      <Icon className={`h-4 w-4 ${spinning ? 'animate-spin' : ''}`} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent sideOffset={8}>
+                    <p>{label}</p>
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          </div>
+
+          {subscription ? (
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                  Subscribed · v{subscription.version}
+                </Badge>
+                <span className="text-[11px] text-muted-foreground">
+                  fetched {new Date(subscription.fetchedAt).toLocaleString()}
+                </span>
+              </div>
+              <p
+                className="truncate font-mono text-[11px] text-muted-foreground"
+                title={subscription.source}
+              >
+                {subscription.source}
+              </p>
+              {changeSummary ? (
+                <p className="text-xs text-muted-foreground">{changeSummary}</p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {error ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : null}
+        </section>
+      }
+    />
+  )
+}
+
+export default CustomCatalogTab
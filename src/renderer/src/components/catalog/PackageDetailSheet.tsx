@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { AlertCircle, ExternalLink } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet'
+import { Skeleton } from '@/components/ui/skeleton'
+import { formatBytes } from '@/lib/utils'
+
+type BrewPackageDetail = {
+  token: string
+  brewType: 'cask' | 'formula'
+  name: string
+  description: string
+  homepage: string | null
+  tap: string | null
+  license: string | null
+  version: string | null
+  installedVersions: string[]
+  outdated: boolean
+  dependencies: string[]
+  buildDependencies: string[]
+  reverseDependencies: string[]
+  conflicts: string[]
+  caveats: string | null
+  artifacts: string[]
+  analytics: { days30: number | null; days90: number | null; days365: number | null } | null
+  diskBytes: number | null
+}
+
+type PackageDetailSheetProps = {
+  token: string
+  brewType: 'cask' | 'formula'
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }): React.JSX.Element {
+  return (
+    <div className="flex items-start justify-between gap-3 py-1.5">
+      <p className="shrink-0 text-xs text-muted-foreground">{label}</p>
+      <div className="min-w-0 text-right text-xs">{value}</div>
+    </div>
+  )
+}
+
+function TokenList({
+  label,
+  tokens
+}: {
+  label: string
+  tokens: string[]
+}): React.JSX.Element | null {
+  if (tokens.length === 0) return null
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium">
+        {label} ({tokens.length})
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {tokens.map((token) => (
+          <Badge
+            key={token}
+            variant="outline"
+            className="bg-transparent px-1.5 py-0 font-mono text-[10px] text-muted-foreground"
+          >
+            {token}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? '-' : value.toLocaleString()
+}
+
+function PackageDetailSheet({
+  token,
+  brewType,
+  open,
+  onOpenChange
+}: PackageDetailSheetProps): React.JSX.Element {
+  const [detail, setDetail] = useState<BrewPackageDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const requestIdRef = useRef(0)
+
+  const loadDetail = useCallback(async (): Promise<void> => {
+    const requestId = ++requestIdRef.current
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await window.api.getBrewPackageDetail(token, brewType)
+      if (requestId !== requestIdRef.current) return
+      if (!result.success || !result.detail) {
+        setError(result.error ?? `Failed to load details for ${token}.`)
+        setDetail(null)
+        return
+      }
+      setDetail(result.detail)
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return
+      setError(err instanceof Error ? err.message : `Failed to load details for ${token}.`)
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false)
+    }
+  }, [token, brewType])
+
+  useEffect(() => {
+    if (open) {
+      void loadDetail()
+    }
+  }, [open, loadDetail])
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            {detail?.name ?? token}
+            <Badge
+              variant="outline"
+              className="bg-transparent px-1.5 py-0 text-[10px] text-muted-foreground"
+            >
+              {brewType}
+            </Badge>
+          </SheetTitle>
+          <SheetDescription>{detail?.description || token}</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4 pb-6">
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 6 }).map((_, idx) => (
+                <Skeleton key={idx} className="h-5 w-full rounded-md bg-muted" />
+              ))}
+            </div>
+          ) : null}
+
+          {error ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : null}
+
+          {detail && !loading ? (
+            <>
+              <div className="divide-y divide-glass-divider">
+                <DetailRow
+                  label="Token"
+                  value={<span className="font-mono">{detail.token}</span>}
+                />
+                <DetailRow label="Latest version" value={detail.version ?? '-'} />
+                <DetailRow
+                  label="Installed"
+                  value={
+                    detail.installedVersions.length > 0 ? (
+                      <span>
+                        {detail.installedVersions.join(', ')}
+                        {detail.outdated ? (
+                          <span className="text-amber-600 dark:text-amber-300"> (outdated)</span>
+                        ) : null}
+                      </span>
+                    ) : (
+                      'Not installed'
+                    )
+                  }
+                />
+                <DetailRow
+                  label="On-disk size"
+                  value={detail.diskBytes === null ? '-' : formatBytes(detail.diskBytes)}
+                />
+                <DetailRow label="Tap" value={detail.tap ?? '-'} />
+                <DetailRow label="License" value={detail.license ?? '-'} />
+                {detail.homepage ? (
+                  <DetailRow
+                    label="Homepage"
+                    value={
+                      <a
+                        href={detail.homepage}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 break-all underline-offset-2 hover:underline"
+                      >
+                        {detail.homepage}
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                      </a>
+                    }
+                  />
+                ) : null}
+                <DetailRow
+                  label="Installs (30d / 90d / 365d)"
+                  value={
+                    detail.analytics
+                      ? `${formatCount(detail.analytics.days30)} / ${formatCount(detail.analytics.days90)} / ${formatCount(detail.analytics.days365)}`
+                      : '-'
+                  }
+                />
+              </div>
+
+              {detail.caveats ? (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium">Caveats</p>
+                  <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded-md bg-muted/40 p-2 font-mono text-[11px] leading-relaxed">
+                    {detail.caveats}
+                  </pre>
+                </div>
+              ) : null}
+
+              <TokenList label="Dependencies" tokens={detail.dependencies} />
+              <TokenList label="Build dependencies" tokens={detail.buildDependencies} />
+              <TokenList label="Used by (installed)" tokens={detail.reverseDependencies} />
+              <TokenList label="Conflicts with" tokens={detail.conflicts} />
+              <TokenList label="Artifacts" tokens={detail.artifacts} />
+            </>
+          ) : null}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default PackageDetailSheet
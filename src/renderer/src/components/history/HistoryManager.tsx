@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Play,
+  RefreshCw,
+  XCircle
+} from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { executeWithGlobalTerminal } from '@/lib/globalTerminal'
+
+type JobHistoryEntry = {
+  id: number
+  command: string
+  origin: string
+  token: string | null
+  startedAt: number
+  finishedAt: number
+  exitCode: number | null
+  success: boolean
+  output: string
+  error: string | null
+}
+
+type DestructiveActionDecision = {
+  id: number
+  actionId: string
+  kind: string
+  target: string
+  decision: 'confirmed' | 'cancelled'
+  risk: 'normal' | 'high'
+  paths: string[]
+  decidedAt: number
+}
+
+const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function HistoryManager(): React.JSX.Element {
+  const [entries, setEntries] = useState<JobHistoryEntry[]>([])
+  const [decisions, setDecisions] = useState<DestructiveActionDecision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [packageFilter, setPackageFilter] = useState('')
+  const [failedOnly, setFailedOnly] = useState(false)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [rerunningId, setRerunningId] = useState<number | null>(null)
+  const [copiedId, setCopiedId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const actionIconButtonClass =
+    'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+
+  const loadHistory = useCallback(async (): Promise<void> => {
+    setError(null)
+    try {
+      const [rows, decisionRows] = await Promise.all([
+        window.api.listJobHistory({
+          token: packageFilter,
+          failedOnly
+        }),
+        window.api.listDestructiveActionLog(50)
+      ])
+      setEntries(rows)
+      setDecisions(decisionRows)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load command history.')
+    } finally {
+      setLoading(false)
+    }
+  }, [packageFilter, failedOnly])
+
+  const rerun = async (entry: JobHistoryEntry): Promise<void> => {
+    setRerunningId(entry.id)
+    setError(null)
+    try {
+      const result = await executeWithGlobalTerminal(entry.command, {
+        origin: 'history',
+        token: entry.token
+      })
+      if (!result.success) {
+        setError(result.error || result.stderr || `Command failed: ${entry.command}`)
+      }
+      await loadHistory()
+    } finally {
+      setRerunningId(null)
+    }
+  }
+
+  const copyOutput = async (entry: JobHistoryEntry): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(entry.output || entry.error || '')
+      setCopiedId(entry.id)
+      window.setTimeout(() => {
+        setCopiedId((current) => (current === entry.id ? null : current))
+      }, 1500)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy output.')
+    }
+  }
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      void loadHistory()
+    }, 200)
+    return () => window.clearTimeout(timer)
+  }, [loadHistory])
+
+  useEffect(() => {
+    const handler = (): void => {
+      void loadHistory()
+    }
+    window.addEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    return () => {
+      window.removeEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    }
+  }, [loadHistory])
+
+  return (
+    <main className="px-6 py-6 md:px-8 md:py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
+        <section className="space-y-2">
+          <div className="flex items-end justify-between gap-3 px-1">
+            <div>
+              <h2 className="text-base font-semibold">Command History</h2>
+              <p className="text-sm text-muted-foreground">
+                Every command appPad ran, with exit codes and captured output.
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                void loadHistory()
+              }}
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+          <div className="flex items-center gap-3 px-1">
+            <Input
+              value={packageFilter}
+              onChange={(event) => setPackageFilter(event.target.value)}
+              placeholder="Filter by package, e.g. wget"
+              className="h-8 max-w-sm"
+            />
+            <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Checkbox
+                checked={failedOnly}
+                onCheckedChange={(checked) => setFailedOnly(checked === true)}
+              />
+              Failures only
+            </label>
+          </div>
+        </section>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {loading ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">Loading history...</div>
+        ) : entries.length === 0 ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">No recorded commands.</div>
+        ) : (
+          <div className="divide-y divide-glass-divider">
+            {entries.map((entry) => {
+              const expanded = expandedId === entry.id
+              return (
+                <div key={entry.id} className="py-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      type="button"
+                      className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    >
+                      {expanded ? (
+                        <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      )}
+                      {entry.success ? (
+                        <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+                      )}
+                      <span className="truncate font-mono text-xs">{entry.command}</span>
+                    </button>
+                    <div className="flex shrink-0 items-center gap-2 text-[11px] text-muted-foreground">
+                      <Badge variant="outline" className="bg-transparent px-1.5 py-0 text-[10px]">
+                        {entry.origin}
+                      </Badge>
+                      {entry.token ? <span>{entry.token}</span> : null}
+                      <span>{new Date(entry.startedAt).toLocaleString()}</span>
+                      <span>{formatDuration(entry.finishedAt - entry.startedAt)}</span>
+                      <span>exit {entry.exitCode ?? '-'}</span>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="icon-sm"
+                            variant="ghost"
+                            className={actionIconButtonClass}
+                            onClick={() => {
+                              void copyOutput(entry)
+                            }}
+                            aria-label="Copy output"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={8}>
+                          <p>{copiedId === entry.id ? 'Copied' : 'Copy output'}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="icon-sm"
+                            variant="ghost"
+                            className={actionIconButtonClass}
+                            onClick={() => {
+                              void rerun(entry)
+                            }}
+                            disabled={rerunningId !== null}
+                            aria-label="Rerun"
+                          >
+                            <Play
+                              className={`h-4 w-4 ${rerunningId === entry.id ? 'animate-pulse' : ''}`}
+                            />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={8}>
+                          <p>Rerun in terminal</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </div>
+                  </div>
+                  {expanded ? (
+                    <div className="mt-2 space-y-1.5 pl-6">
+                      {entry.error ? (
+                        <p className="text-xs text-red-600 dark:text-red-400">{entry.error}</p>
+                      ) : null}
+                      <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted/40 p-2 font-mono text-[11px] leading-relaxed">
+                        {entry.output || '(no output)'}
+                      </pre>
+                    </div>
+                  ) : null}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {decisions.length > 0 ? (
+          <section className="space-y-1 pt-3">
+            <h3 className="px-1 text-sm font-semibold">Confirmations</h3>
+            <div className="divide-y divide-glass-divider">
+              {decisions.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between gap-3 py-1.5 text-xs"
+                  title={entry.paths.join('\n') || undefined}
+                >
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Badge
+                      variant={entry.decision === 'confirmed' ? 'secondary' : 'outline'}
+                      className="px-1.5 py-0 text-[10px]"
+                    >
+                      {entry.decision === 'confirmed' ? 'Confirmed' : 'Cancelled'}
+                    </Badge>
+                    <span className="shrink-0 font-mono text-[11px]">{entry.kind}</span>
+                    <span className="truncate">{entry.target}</span>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2 text-[11px] text-muted-foreground">
+                    {entry.risk === 'high' ? <span>typed confirmation</span> : null}
+                    <span>{entry.paths.length} path(s)</span>
+                    <span>{new Date(entry.decidedAt).toLocaleString()}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        ) : null}
+      </div>
+    </main>
+  )
+}
+
+export default HistoryManager
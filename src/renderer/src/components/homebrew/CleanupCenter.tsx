@@ -0,0 +1,308 @@
+import { useState } from 'react'
+import { AlertCircle, LoaderCircle, ScanSearch, Trash2 } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { confirmDestructiveAction } from '@/lib/destructiveActions'
+import { formatBytes } from '@/lib/utils'
+
+type CleanupReport = {
+  success: boolean
+  pruneDays: number
+  cachePath: string | null
+  cacheBytes: number | null
+  oldVersions: Array<{
+    token: string
+    keptVersion: string
+    versions: string[]
+    bytes: number | null
+  }>
+  orphans: string[]
+  staleCaskroom: Array<{
+    token: string
+    path: string
+    reason: 'not-installed' | 'old-version'
+    bytes: number | null
+  }>
+  prunePreview: string[]
+  error?: string
+}
+
+type CleanupRunResult = {
+  success: boolean
+  beforeBytes: number | null
+  afterBytes: number | null
+  freedBytes: number | null
+  removedPaths: string[]
+  output: string[]
+  error?: string
+}
+
+type CleanupCenterProps = {
+  disabled?: boolean
+  onFinished?: () => void
+}
+
+const PREVIEW_LIMIT = 50
+
+function sumBytes(entries: Array<{ bytes: number | null }>): number {
+  return entries.reduce((total, entry) => total + (entry.bytes ?? 0), 0)
+}
+
+function CleanupCenter({ disabled = false, onFinished }: CleanupCenterProps): React.JSX.Element {
+  const [pruneDays, setPruneDays] = useState('120')
+  const [report, setReport] = useState<CleanupReport | null>(null)
+  const [autoremove, setAutoremove] = useState(false)
+  const [removeStaleCaskroom, setRemoveStaleCaskroom] = useState(false)
+  const [scanning, setScanning] = useState(false)
+  const [cleaning, setCleaning] = useState(false)
+  const [lastRun, setLastRun] = useState<CleanupRunResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const busy = disabled || scanning || cleaning
+
+  const parsePruneDays = (): number | null => {
+    const days = Number(pruneDays)
+    if (!Number.isInteger(days) || days < 0) {
+      setError('Prune age must be a whole number of days.')
+      return null
+    }
+    return days
+  }
+
+  const scan = async (): Promise<void> => {
+    const days = parsePruneDays()
+    if (days === null) return
+    setScanning(true)
+    setError(null)
+    try {
+      const result = await window.api.getBrewCleanupReport(days)
+      if (!result.success) {
+        setError(result.error ?? 'Failed to inspect Homebrew disk usage.')
+        return
+      }
+      setReport(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to inspect Homebrew disk usage.')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const runCleanup = async (): Promise<void> => {
+    const days = parsePruneDays()
+    if (days === null) return
+    const options = { pruneDays: days, autoremove, removeStaleCaskroom }
+    const approvalId = await confirmDestructiveAction({ kind: 'brew-cleanup', ...options })
+    if (!approvalId) return
+
+    setCleaning(true)
+    setError(null)
+    setLastRun(null)
+    try {
+      const result = await window.api.runBrewCleanup({ ...options, approvalId })
+      setLastRun(result)
+      if (!result.success) {
+        setError(result.error ?? 'Homebrew cleanup failed.')
+      }
+      onFinished?.()
+      await scan()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Homebrew cleanup failed.')
+    } finally {
+      setCleaning(false)
+    }
+  }
+
+  const oldVersionCount =
+    report?.oldVersions.reduce((total, entry) => total + entry.versions.length, 0) ?? 0
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-start justify-between gap-3 py-1">
+        <div>
+          <p className="text-sm font-medium">Cleanup Center</p>
+          <p className="text-xs text-muted-foreground">
+            Inspect the download cache, old Cellar versions, orphaned dependencies and stale
+            Caskroom directories before reclaiming disk space.
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+          Prune after
+          <Input
+            type="number"
+            min={0}
+            value={pruneDays}
+            onChange={(event) => setPruneDays(event.target.value)}
+            className="h-8 w-20"
+            disabled={busy}
+          />
+          days
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => {
+              void scan()
+            }}
+            disabled={busy}
+          >
+            {scanning ? (
+              <LoaderCircle className="h-4 w-4 animate-spin" />
+            ) : (
+              <ScanSearch className="h-4 w-4" />
+            )}
+            {scanning ? 'Scanning...' : 'Scan'}
+          </Button>
+        </div>
+      </div>
+
+      {report ? (
+        <div className="divide-y divide-glass-divider">
+          <div className="flex items-center justify-between gap-3 py-2.5">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Download Cache</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {report.cachePath ?? 'brew --cache unavailable'}
+              </p>
+            </div>
+            <p className="shrink-0 font-mono text-sm">
+              {report.cacheBytes !== null ? formatBytes(report.cacheBytes) : 'N/A'}
+            </p>
+          </div>
+
+          <div className="flex items-start justify-between gap-3 py-2.5">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Old Cellar Versions</p>
+              <p className="text-xs text-muted-foreground">
+                {report.oldVersions.length
+                  ? report.oldVersions
+                      .map((entry) => `${entry.token} ${entry.versions.join(', ')}`)
+                      .join(' · ')
+                  : 'Only one version of each formula is kept.'}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <Badge variant="secondary">{oldVersionCount} version(s)</Badge>
+              <p className="font-mono text-sm">{formatBytes(sumBytes(report.oldVersions))}</p>
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-3 py-2.5">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Orphaned Dependencies</p>
+              <p className="text-xs text-muted-foreground">
+                {report.orphans.length
+                  ? report.orphans.join(', ')
+                  : 'No dependencies would be removed by brew autoremove.'}
+              </p>
+            </div>
+            <Badge variant="secondary" className="shrink-0">
+              {report.orphans.length} formula(e)
+            </Badge>
+          </div>
+
+          <div className="flex items-start justify-between gap-3 py-2.5">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Stale Caskroom Directories</p>
+              <p className="text-xs text-muted-foreground">
+                {report.staleCaskroom.length
+                  ? report.staleCaskroom
+                      .map((entry) =>
+                        entry.reason === 'not-installed'
+                          ? `${entry.token} (not installed)`
+                          : `${entry.token} (old version)`
+                      )
+                      .join(', ')
+                  : 'Every Caskroom directory belongs to an installed cask.'}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <Badge variant="secondary">{report.staleCaskroom.length} dir(s)</Badge>
+              <p className="font-mono text-sm">{formatBytes(sumBytes(report.staleCaskroom))}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2 py-2.5">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium">Cleanup Preview</p>
+                <p className="text-xs text-muted-foreground">
+                  Output of brew cleanup --prune={report.pruneDays} -n
+                </p>
+              </div>
+              <Badge variant="secondary">{report.prunePreview.length} item(s)</Badge>
+            </div>
+            {report.prunePreview.length ? (
+              <pre className="max-h-48 overflow-auto rounded-md bg-muted/40 p-2 font-mono text-[11px] leading-relaxed text-muted-foreground">
+                {report.prunePreview.slice(0, PREVIEW_LIMIT).join('\n')}
+                {report.prunePreview.length > PREVIEW_LIMIT
+                  ? `\n... and ${report.prunePreview.length - PREVIEW_LIMIT} more`
+                  : ''}
+              </pre>
+            ) : null}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 py-2.5">
+            <div className="flex flex-wrap items-center gap-4 text-xs">
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={autoremove}
+                  onCheckedChange={(checked) => setAutoremove(checked === true)}
+                  disabled={busy || report.orphans.length === 0}
+                />
+                Also run brew autoremove
+              </label>
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={removeStaleCaskroom}
+                  onCheckedChange={(checked) => setRemoveStaleCaskroom(checked === true)}
+                  disabled={busy || report.staleCaskroom.length === 0}
+                />
+                Remove stale Caskroom directories
+              </label>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => {
+                void runCleanup()
+              }}
+              disabled={busy}
+            >
+              {cleaning ? (
+                <LoaderCircle className="h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4" />
+              )}
+              {cleaning ? 'Cleaning...' : 'Run Cleanup'}
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {lastRun?.success ? (
+        <Alert>
+          <AlertDescription>
+            {lastRun.freedBytes !== null
+              ? `Freed ${formatBytes(lastRun.freedBytes)} (${formatBytes(lastRun.beforeBytes ?? 0)} → ${formatBytes(lastRun.afterBytes ?? 0)}).`
+              : 'Cleanup finished, but disk usage could not be measured.'}
+            {lastRun.removedPaths.length
+              ? ` Removed ${lastRun.removedPaths.length} Caskroom director${lastRun.removedPaths.length === 1 ? 'y' : 'ies'}.`
+              : ''}
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : null}
+    </div>
+  )
+}
+
+export default CleanupCenter
@@ -1,16 +1,30 @@
-import { useEffect, useMemo, useState } from 'react'
-import { AlertCircle, ArrowUpCircle, CheckCircle2, Package, Rocket, XCircle } from 'lucide-react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  AlertCircle,
+  ArrowUpCircle,
+  CheckCircle2,
+  CircleStop,
+  Package,
+  Rocket,
+  XCircle
+} from 'lucide-react'
 
+import CleanupCenter from '@/components/homebrew/CleanupCenter'
+import UpgradeAllDialog from '@/components/homebrew/UpgradeAllDialog'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Skeleton } from '@/components/ui/skeleton'
+import { brewCommand, HOMEBREW_INSTALL_SCRIPT, type CommandSpec } from '@/lib/command'
+import { confirmDestructiveAction } from '@/lib/destructiveActions'
 import {
   appendToGlobalTerminal,
-  executeWithGlobalTerminal,
-  openGlobalTerminal
+  openGlobalTerminal,
+  startWithGlobalTerminal,
+  type TerminalExecResult
 } from '@/lib/globalTerminal'
+import { type JobHandle } from '@/lib/jobQueue'
 
 type BrewStatus = {
   installed: boolean
@@ -24,12 +38,14 @@ const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
 function HomebrewManager(): React.JSX.Element {
   const [status, setStatus] = useState<BrewStatus | null>(null)
   const [loadingStatus, setLoadingStatus] = useState(true)
-  const [runningAction, setRunningAction] = useState<'install' | 'update' | 'upgradeAll' | null>(null)
+  const [runningAction, setRunningAction] = useState<'install' | 'update' | null>(null)
+  const [upgradeDialogOpen, setUpgradeDialogOpen] = useState(false)
   const [runningTerminalCommand, setRunningTerminalCommand] = useState(false)
   const [cleanupToken, setCleanupToken] = useState('applite')
   const [runningCleanup, setRunningCleanup] = useState(false)
   const [cleanupMessage, setCleanupMessage] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const runningJobRef = useRef<JobHandle<TerminalExecResult> | null>(null)
 
   const installLabel = useMemo(() => {
     return runningAction === 'install' ? 'Installing...' : 'Install Homebrew'
@@ -40,11 +56,11 @@ function HomebrewManager(): React.JSX.Element {
   }, [runningAction])
 
   const upgradeAllLabel = useMemo(() => {
-    return runningAction === 'upgradeAll' ? 'Upgrading...' : 'Upgrade All Packages'
-  }, [runningAction])
+    return upgradeDialogOpen ? 'Upgrading...' : 'Upgrade All Packages'
+  }, [upgradeDialogOpen])
 
   const executeCommandSilently = async (
-    command: string
+    command: CommandSpec
   ): Promise<{
     success: boolean
     stdout: string
@@ -55,7 +71,7 @@ function HomebrewManager(): React.JSX.Element {
     const execute =
       (
         window.api as typeof window.api & {
-          executeTerminalCommand?: (cmd: string) => Promise<{
+          executeTerminalCommand?: (cmd: CommandSpec) => Promise<{
             success: boolean
             code: number | null
             stdout: string
@@ -64,7 +80,7 @@ function HomebrewManager(): React.JSX.Element {
           }>
         }
       ).executeTerminalCommand ??
-      ((cmd: string) =>
+      ((cmd: CommandSpec) =>
         window.electron.ipcRenderer.invoke('terminal:exec', { command: cmd }) as Promise<{
           success: boolean
           code: number | null
@@ -84,9 +100,10 @@ function HomebrewManager(): React.JSX.Element {
       (nextStatus.installedAppCount === null || nextStatus.installedAppCount === undefined)
     ) {
       try {
-        const caskCountResult = await executeCommandSilently('brew list --cask 2>/dev/null | wc -l')
-        const caskCount = Number.parseInt(caskCountResult.stdout.trim(), 10)
-        const safeCaskCount = Number.isFinite(caskCount) ? caskCount : 0
+        const caskListResult = await executeCommandSilently(brewCommand('list', '--cask'))
+        const safeCaskCount = caskListResult.success
+          ? caskListResult.stdout.split('\n').filter((line) => line.trim()).length
+          : 0
         setStatus((prev) => (prev ? { ...prev, installedAppCount: safeCaskCount } : prev))
       } catch {
         // keep N/A if fallback commands fail
@@ -146,23 +163,24 @@ function HomebrewManager(): React.JSX.Element {
     }
   }
 
-  const runAction = async (action: 'install' | 'update' | 'upgradeAll'): Promise<void> => {
+  const runAction = async (action: 'install' | 'update'): Promise<void> => {
     setRunningAction(action)
     setError(null)
     try {
       const command =
         action === 'install'
-          ? '/bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh)"'
-          : action === 'update'
-            ? 'brew update'
-            : 'brew update && brew upgrade --formula && brew upgrade --cask'
+          ? { binary: '/bin/bash', args: ['-c', HOMEBREW_INSTALL_SCRIPT] }
+          : brewCommand('update')
       setRunningTerminalCommand(true)
-      await executeWithGlobalTerminal(command)
+      const job = startWithGlobalTerminal(command, { origin: 'homebrew' })
+      runningJobRef.current = job
+      await job.result
       await window.api.syncInstalledAppsCache()
       await refreshStatus()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Action failed to execute.')
     } finally {
+      runningJobRef.current = null
       setRunningTerminalCommand(false)
       setRunningAction(null)
     }
@@ -174,12 +192,14 @@ function HomebrewManager(): React.JSX.Element {
       setError('Please input a cask token.')
       return
     }
+    const approvalId = await confirmDestructiveAction({ kind: 'force-clean-cask', token })
+    if (!approvalId) return
 
     setRunningCleanup(true)
     setError(null)
     setCleanupMessage(null)
     try {
-      const result = await window.api.forceCleanBrewCask(token)
+      const result = await window.api.forceCleanBrewCask(token, approvalId)
       if (!result.success) {
         setError(result.error ?? 'Failed to force clean cask residue.')
       } else {
@@ -273,7 +293,7 @@ function HomebrewManager(): React.JSX.Element {
                 <p className="text-sm font-medium">Action</p>
                 <p className="text-xs text-muted-foreground">
                   {status?.installed
-                    ? 'Update Homebrew itself, or upgrade all installed formula and cask packages.'
+                    ? 'Update Homebrew itself, or review outdated packages and upgrade the ones you pick.'
                     : 'Install Homebrew using official install script.'}
                 </p>
               </div>
@@ -284,9 +304,14 @@ function HomebrewManager(): React.JSX.Element {
                       size="sm"
                       variant="secondary"
                       onClick={() => {
-                        void runAction('upgradeAll')
+                        setUpgradeDialogOpen(true)
                       }}
-                      disabled={loadingStatus || runningAction !== null || runningTerminalCommand}
+                      disabled={
+                        loadingStatus ||
+                        runningAction !== null ||
+                        runningTerminalCommand ||
+                        upgradeDialogOpen
+                      }
                     >
                       <Rocket className="mr-2 h-4 w-4" />
                       {upgradeAllLabel}
@@ -314,6 +339,18 @@ function HomebrewManager(): React.JSX.Element {
                     {installLabel}
                   </Button>
                 )}
+                {runningAction !== null ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      void runningJobRef.current?.cancel()
+                    }}
+                  >
+                    <CircleStop className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                ) : null}
               </div>
             </div>
 
@@ -353,6 +390,19 @@ function HomebrewManager(): React.JSX.Element {
           </div>
         )}
 
+        {!loadingStatus && status?.installed ? (
+          <CleanupCenter
+            disabled={runningCleanup || runningAction !== null || runningTerminalCommand}
+            onFinished={() => {
+              void (async () => {
+                await window.api.syncInstalledAppsCache()
+                await refreshStatus()
+                window.dispatchEvent(new CustomEvent(APP_TOPBAR_REFRESH_EVENT))
+              })()
+            }}
+          />
+        ) : null}
+
         {cleanupMessage ? (
           <Alert>
             <AlertDescription>{cleanupMessage}</AlertDescription>
@@ -366,6 +416,17 @@ function HomebrewManager(): React.JSX.Element {
           </Alert>
         ) : null}
       </div>
+      <UpgradeAllDialog
+        open={upgradeDialogOpen}
+        onOpenChange={setUpgradeDialogOpen}
+        onFinished={() => {
+          void (async () => {
+            await window.api.syncInstalledAppsCache()
+            await refreshStatus()
+            window.dispatchEvent(new CustomEvent(APP_TOPBAR_REFRESH_EVENT))
+          })()
+        }}
+      />
     </main>
   )
 }
@@ -5,38 +5,19 @@ import CatalogItemRow from '@/components/catalog/CatalogItemRow'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { brewCommand, formatCommand } from '@/lib/command'
+import { confirmDestructiveAction } from '@/lib/destructiveActions'
 import { executeWithGlobalTerminal } from '@/lib/globalTerminal'
 import {
   type CatalogItem,
   defaultDescriptionFromToken,
   formatNameFromToken,
+  tapFromToken,
   toDuckDuckGoFavicon
 } from '@/lib/catalog'
 
 type SearchResultItem = CatalogItem
 
-function shellQuote(value: string): string {
-  return `'${value.replace(/'/g, `'\\''`)}'`
-}
-
-function parseTokens(raw: string): string[] {
-  return raw
-    .split('\n')
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .flatMap((line) => line.split(/\s+/g))
-    .map((token) => token.trim())
-    .filter((token) => token.length > 0 && !token.startsWith('==>') && token !== 'Formulae' && token !== 'Casks')
-}
-
-function chunkTokens(tokens: string[], size = 50): string[][] {
-  const chunks: string[][] = []
-  for (let i = 0; i < tokens.length; i += size) {
-    chunks.push(tokens.slice(i, i + size))
-  }
-  return chunks
-}
-
 function normalizeSearchKeyword(raw: string): string {
   return raw.replace(/[^a-zA-Z0-9]/g, '')
 }
@@ -68,14 +49,15 @@ function HomebrewSearchManager(): React.JSX.Element {
         return
       }
 
-      const quoted = shellQuote(q)
-      const [formulaResult, caskResult] = await Promise.all([
-        window.api.executeTerminalCommand(`brew search --formula ${quoted}`),
-        window.api.executeTerminalCommand(`brew search --cask ${quoted}`)
-      ])
+      const searchResult = await window.api.searchBrewPackages(q)
+      if (!searchResult.success) {
+        setItems([])
+        setError(searchResult.error ?? 'Failed to search Homebrew packages.')
+        return
+      }
 
-      const formulaTokens = parseTokens(formulaResult.stdout)
-      const caskTokens = parseTokens(caskResult.stdout)
+      const formulaTokens = searchResult.formulae
+      const caskTokens = searchResult.casks
 
       const formulaSet = new Set(formulaTokens)
       const caskSet = new Set(caskTokens)
@@ -107,43 +89,22 @@ function HomebrewSearchManager(): React.JSX.Element {
       if (missingIconTokens.length > 0) {
         const fetchedIcons = new Map<string, { iconUrl: string | null; fallbackIconUrl: string | null }>()
 
-        for (const tokenChunk of chunkTokens(missingIconTokens)) {
-          const infoResult = await window.api.executeTerminalCommand(
-            `brew info --json=v2 ${tokenChunk.join(' ')}`
-          )
-          if (!infoResult.success || !infoResult.stdout.trim()) continue
-
-          try {
-            const parsed = JSON.parse(infoResult.stdout) as {
-              casks?: Array<{ token?: string; homepage?: string }>
-              formulae?: Array<{ name?: string; homepage?: string }>
-            }
-
-            ;(parsed.casks ?? []).forEach((entry) => {
-              const token = entry.token?.trim()
-              if (!token) return
-              const homepage = entry.homepage?.trim() || null
-              const iconUrl = `https://formulae.brew.sh/assets/icons/${encodeURIComponent(token)}.png`
-              fetchedIcons.set(token, {
-                iconUrl,
-                fallbackIconUrl: homepage ? toDuckDuckGoFavicon(homepage) : iconUrl
-              })
+        const packages = await window.api.getBrewInfo(missingIconTokens)
+        packages.forEach((entry) => {
+          if (entry.brewType === 'cask') {
+            const iconUrl = `https://formulae.brew.sh/assets/icons/${encodeURIComponent(entry.token)}.png`
+            fetchedIcons.set(entry.token, {
+              iconUrl,
+              fallbackIconUrl: entry.homepage ? toDuckDuckGoFavicon(entry.homepage) : iconUrl
             })
-
-            ;(parsed.formulae ?? []).forEach((entry) => {
-              const token = entry.name?.trim()
-              if (!token) return
-              const homepage = entry.homepage?.trim() || null
-              const iconUrl = homepage ? toDuckDuckGoFavicon(homepage) : null
-              fetchedIcons.set(token, {
-                iconUrl,
-                fallbackIconUrl: iconUrl
-              })
-            })
-          } catch {
-            // ignore parsing failure for this chunk
+            return
           }
-        }
+          const iconUrl = entry.homepage ? toDuckDuckGoFavicon(entry.homepage) : null
+          fetchedIcons.set(entry.token, {
+            iconUrl,
+            fallbackIconUrl: iconUrl
+          })
+        })
 
         if (fetchedIcons.size > 0) {
           const toUpsert = [...fetchedIcons.entries()].map(([token, icon]) => ({
@@ -167,16 +128,24 @@ function HomebrewSearchManager(): React.JSX.Element {
         return {
           token,
           brewType,
-          name: formatNameFromToken(token),
+          name: formatNameFromToken(token.split('/').pop() ?? token),
           description: defaultDescriptionFromToken(token),
+          tap: tapFromToken(token, brewType),
           homepage: null,
           iconUrl: cachedIcon?.iconUrl ?? null,
           fallbackIconUrl: cachedIcon?.fallbackIconUrl ?? null,
           installed: installedMap.get(token) === true,
           iconKey: null,
-          installCommand: brewType === 'cask' ? `brew install --cask ${token}` : `brew install ${token}`,
-          uninstallCommand:
-            brewType === 'cask' ? `brew uninstall --cask ${token}` : `brew uninstall ${token}`
+          installCommand: formatCommand(
+            brewType === 'cask'
+              ? brewCommand('install', '--cask', token)
+              : brewCommand('install', token)
+          ),
+          uninstallCommand: formatCommand(
+            brewType === 'cask'
+              ? brewCommand('uninstall', '--cask', token)
+              : brewCommand('uninstall', token)
+          )
         }
       })
 
@@ -190,13 +159,28 @@ function HomebrewSearchManager(): React.JSX.Element {
   }
 
   const toggleInstall = async (item: SearchResultItem): Promise<void> => {
+    const command = item.installed
+      ? (item.uninstallCommand ?? brewCommand('uninstall', item.token))
+      : (item.installCommand ?? brewCommand('install', item.token))
+    const approvalId = item.installed
+      ? await confirmDestructiveAction(
+          {
+            kind: 'brew-uninstall',
+            packages: [{ token: item.token, brewType: item.brewType ?? 'formula' }]
+          },
+          { command: formatCommand(command) }
+        )
+      : undefined
+    if (approvalId === null) return
     setRunningToken(item.token)
     setError(null)
     try {
-      const command = item.installed
-        ? (item.uninstallCommand ?? `brew uninstall ${item.token}`)
-        : (item.installCommand ?? `brew install ${item.token}`)
-      const result = await executeWithGlobalTerminal(command)
+      const result = await executeWithGlobalTerminal(command, {
+        origin: 'search',
+        token: item.token,
+        action: item.installed ? 'uninstall' : 'install',
+        approvalId
+      })
       if (!result.success) {
         setError(
           result.error ||
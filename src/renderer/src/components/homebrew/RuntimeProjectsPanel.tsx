@@ -0,0 +1,293 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, Download, FolderPlus, Link2, RefreshCw, X } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { switchRuntimeFormula } from '@/lib/runtimeSwitch'
+
+type RuntimeRequirement = {
+  runtimeId: string
+  source: '.nvmrc' | '.node-version' | 'package.json' | '.tool-versions'
+  spec: string
+  formula: string | null
+  installed: boolean
+  installedVersion: string | null
+  active: boolean
+}
+
+type RuntimeProject = {
+  id: number
+  path: string
+  name: string
+  exists: boolean
+  requirements: RuntimeRequirement[]
+}
+
+function RequirementStatus({
+  requirement
+}: {
+  requirement: RuntimeRequirement
+}): React.JSX.Element {
+  if (!requirement.formula) {
+    return <Badge variant="secondary">No matching formula</Badge>
+  }
+  if (requirement.active) return <Badge>Active</Badge>
+  return (
+    <Badge variant={requirement.installed ? 'default' : 'secondary'}>
+      {requirement.installed
+        ? `Installed ${requirement.installedVersion ?? ''}`.trim()
+        : 'Not Installed'}
+    </Badge>
+  )
+}
+
+function RuntimeProjectsPanel({
+  onSwitched
+}: {
+  onSwitched?: (runtimeId: string) => void
+}): React.JSX.Element {
+  const [projects, setProjects] = useState<RuntimeProject[]>([])
+  const [loading, setLoading] = useState(true)
+  const [runningKey, setRunningKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const actionIconButtonClass =
+    'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+
+  const loadProjects = async (refresh = false): Promise<void> => {
+    setLoading(true)
+    setError(null)
+    try {
+      setProjects(await window.api.listRuntimeProjects(refresh))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read project directories.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addProject = async (): Promise<void> => {
+    setError(null)
+    try {
+      const directory = await window.api.chooseRuntimeProjectDirectory()
+      if (!directory) return
+      const result = await window.api.addRuntimeProject(directory)
+      if (!result.success) {
+        setError(result.error ?? 'Failed to add project directory.')
+        return
+      }
+      await loadProjects()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add project directory.')
+    }
+  }
+
+  const removeProject = async (id: number): Promise<void> => {
+    setError(null)
+    try {
+      await window.api.removeRuntimeProject(id)
+      setProjects((prev) => prev.filter((project) => project.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove project directory.')
+    }
+  }
+
+  const applyRequirement = async (key: string, requirement: RuntimeRequirement): Promise<void> => {
+    if (!requirement.formula || runningKey) return
+    setRunningKey(key)
+    setError(null)
+    try {
+      const cached = await window.api.getCachedRuntimeVersions(requirement.runtimeId)
+      const failure = await switchRuntimeFormula({
+        targetFormula: requirement.formula,
+        targetInstalled: requirement.installed,
+        installedFormulae: (cached.status?.items ?? [])
+          .filter((item) => item.installed)
+          .map((item) => item.formula),
+        origin: 'runtimes'
+      })
+      if (failure) {
+        setError(failure)
+        return
+      }
+      await window.api.syncInstalledAppsCache()
+      await loadProjects(true)
+      onSwitched?.(requirement.runtimeId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to switch to ${requirement.formula}.`)
+    } finally {
+      setRunningKey(null)
+    }
+  }
+
+  useEffect(() => {
+    void loadProjects()
+  }, [])
+
+  return (
+    <section className="space-y-2 pt-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold">Projects</h3>
+          <p className="text-xs text-muted-foreground">
+            Runtime versions pinned by .nvmrc, .node-version, package.json engines and
+            .tool-versions.
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                className={actionIconButtonClass}
+                onClick={() => {
+                  void loadProjects(true)
+                }}
+                disabled={loading || runningKey !== null}
+                aria-label="Rescan projects"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent sideOffset={8}>
+              <p>Rescan projects</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                className={actionIconButtonClass}
+                onClick={() => {
+                  void addProject()
+                }}
+                aria-label="Add project directory"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent sideOffset={8}>
+              <p>Add project directory</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : null}
+
+      {!loading && projects.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No project directories yet. Add one to see which runtime versions it needs.
+        </p>
+      ) : null}
+
+      {projects.length > 0 ? (
+        <ul className="divide-y divide-glass-divider">
+          {projects.map((project) => (
+            <li key={project.id} className="space-y-1.5 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{project.name}</p>
+                  <p className="truncate font-mono text-[11px] text-muted-foreground">
+                    {project.path}
+                  </p>
+                </div>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      className={actionIconButtonClass}
+                      onClick={() => {
+                        void removeProject(project.id)
+                      }}
+                      aria-label="Remove project"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent sideOffset={8}>
+                    <p>Remove project</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+
+              {!project.exists ? (
+                <p className="text-xs text-muted-foreground">This directory no longer exists.</p>
+              ) : project.requirements.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No runtime version files found.</p>
+              ) : (
+                project.requirements.map((requirement) => {
+                  const key = `${project.id}:${requirement.source}:${requirement.runtimeId}`
+                  const label = requirement.installed ? 'Link' : 'Install & Link'
+                  return (
+                    <div key={key} className="flex items-center justify-between gap-2 pl-3">
+                      <div className="flex min-w-0 items-center gap-2 text-xs">
+                        <Badge variant="outline" className="bg-transparent px-1.5 py-0 text-[10px]">
+                          {requirement.source}
+                        </Badge>
+                        <span className="font-mono">
+                          {requirement.runtimeId} {requirement.spec}
+                        </span>
+                        {requirement.formula ? (
+                          <span className="font-mono text-muted-foreground">
+                            → {requirement.formula}
+                          </span>
+                        ) : null}
+                        <RequirementStatus requirement={requirement} />
+                      </div>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="icon-sm"
+                            variant="ghost"
+                            className={actionIconButtonClass}
+                            disabled={
+                              !requirement.formula || requirement.active || runningKey !== null
+                            }
+                            onClick={() => {
+                              void applyRequirement(key, requirement)
+                            }}
+                            aria-label={label}
+                          >
+                            {runningKey === key ? (
+                              <RefreshCw className="h-4 w-4 animate-spin" />
+                            ) : requirement.installed ? (
+                              <Link2 className="h-4 w-4" />
+                            ) : (
+                              <Download className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={8}>
+                          <p>{requirement.active ? 'Already Active' : label}</p>
+                          {requirement.formula ? (
+                            <p className="font-mono text-[11px]">
+                              {requirement.installed
+                                ? `brew link --overwrite --force ${requirement.formula}`
+                                : `brew install ${requirement.formula} && brew link --overwrite --force ${requirement.formula}`}
+                            </p>
+                          ) : null}
+                        </TooltipContent>
+                      </Tooltip>
+                    </div>
+                  )
+                })
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  )
+}
+
+export default RuntimeProjectsPanel
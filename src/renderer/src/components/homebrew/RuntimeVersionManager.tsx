@@ -1,20 +1,40 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 
-import { AlertCircle, ArrowRightLeft, Download, RefreshCw } from 'lucide-react'
+import { AlertCircle, AlertTriangle, ArrowRightLeft, Download, RefreshCw } from 'lucide-react'
 
+import RuntimeProjectsPanel from '@/components/homebrew/RuntimeProjectsPanel'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
-import { executeWithGlobalTerminal } from '@/lib/globalTerminal'
+import { switchRuntimeFormula } from '@/lib/runtimeSwitch'
 
-type NodeVersionItem = {
+type RuntimeSummary = {
+  id: string
+  label: string
+  note: string | null
+}
+
+type RuntimeVersionItem = {
   formula: string
   installedVersion: string | null
   installed: boolean
   active: boolean
 }
 
+type RuntimeConflict = {
+  manager: string
+  kind: 'active' | 'installed'
+  detail: string
+}
+
+type RuntimeStatus = {
+  runtimeId: string
+  activePath: string | null
+  items: RuntimeVersionItem[]
+  conflicts: RuntimeConflict[]
+}
+
 type BrewStatus = {
   installed: boolean
   currentVersion: string | null
@@ -23,17 +43,26 @@ type BrewStatus = {
 }
 
 const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+const DEFAULT_RUNTIME_ID = 'node'
 
-function NodeVersionManager(): React.JSX.Element {
+function RuntimeVersionManager(): React.JSX.Element {
   const [brewStatus, setBrewStatus] = useState<BrewStatus | null>(null)
   const [loadingStatus, setLoadingStatus] = useState(true)
-  const [nodeVersions, setNodeVersions] = useState<NodeVersionItem[]>([])
-  const [loadingNodeVersions, setLoadingNodeVersions] = useState(false)
-  const [runningNodeFormula, setRunningNodeFormula] = useState<string | null>(null)
+  const [runtimes, setRuntimes] = useState<RuntimeSummary[]>([])
+  const [runtimeId, setRuntimeId] = useState(DEFAULT_RUNTIME_ID)
+  const [runtimeStatus, setRuntimeStatus] = useState<RuntimeStatus | null>(null)
+  const [loadingVersions, setLoadingVersions] = useState(false)
+  const [runningFormula, setRunningFormula] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const runtimeIdRef = useRef(runtimeId)
   const actionIconButtonClass =
     'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
 
+  const versions = runtimeStatus?.runtimeId === runtimeId ? runtimeStatus.items : []
+  const conflicts = runtimeStatus?.runtimeId === runtimeId ? runtimeStatus.conflicts : []
+  const activeRuntime = runtimes.find((entry) => entry.id === runtimeId)
+  const runtimeLabel = activeRuntime?.label ?? runtimeId
+
   const refreshBrewStatus = async (showLoading = false): Promise<BrewStatus | null> => {
     if (showLoading) setLoadingStatus(true)
     try {
@@ -77,116 +106,123 @@ function NodeVersionManager(): React.JSX.Element {
     }
   }
 
+  const loadRuntimes = async (): Promise<void> => {
+    try {
+      setRuntimes(await window.api.listRuntimes())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load runtimes.')
+    }
+  }
+
   const refreshAll = async (): Promise<void> => {
     setError(null)
     try {
       const refreshed = await refreshBrewStatus(true)
       if (!refreshed?.installed) {
-        setNodeVersions([])
+        setRuntimeStatus(null)
         return
       }
-      await loadNodeVersions(true, refreshed)
+      await loadVersions(runtimeId, true, refreshed)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to refresh Node versions.')
+      setError(err instanceof Error ? err.message : `Failed to refresh ${runtimeLabel} versions.`)
     }
   }
 
-  const loadNodeVersions = async (
+  const loadVersions = async (
+    targetRuntimeId: string,
     forceRefresh = false,
     statusOverride?: BrewStatus | null
   ): Promise<void> => {
     const nextStatus = statusOverride ?? brewStatus
     if (!nextStatus?.installed) {
-      setNodeVersions([])
+      setRuntimeStatus(null)
       return
     }
 
-    const shouldShowLoading = forceRefresh || nodeVersions.length === 0
+    const shouldShowLoading =
+      forceRefresh || runtimeStatus?.runtimeId !== targetRuntimeId || versions.length === 0
     if (shouldShowLoading) {
-      setLoadingNodeVersions(true)
+      setLoadingVersions(true)
       setError(null)
     }
     let hasCached = false
     try {
       if (!forceRefresh) {
-        const cached = await window.api.getCachedNodeVersions()
+        const cached = await window.api.getCachedRuntimeVersions(targetRuntimeId)
+        if (runtimeIdRef.current !== targetRuntimeId) return
         if (cached.status) {
           hasCached = true
-          setNodeVersions(cached.status)
+          setRuntimeStatus(cached.status)
           if (shouldShowLoading) {
-            setLoadingNodeVersions(false)
+            setLoadingVersions(false)
           }
         }
       }
 
-      const refreshed = await window.api.refreshNodeVersionsCache()
+      const refreshed = await window.api.refreshRuntimeVersionsCache(targetRuntimeId)
+      // Ignore a slow refresh for a runtime the user already switched away from.
+      if (runtimeIdRef.current !== targetRuntimeId) return
       if (refreshed.status) {
-        setNodeVersions(refreshed.status)
+        setRuntimeStatus(refreshed.status)
       } else if (!hasCached) {
-        setNodeVersions([])
+        setRuntimeStatus(null)
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load Node versions.')
+      setError(err instanceof Error ? err.message : 'Failed to load runtime versions.')
       if (!hasCached) {
-        setNodeVersions([])
+        setRuntimeStatus(null)
       }
     } finally {
-      setLoadingNodeVersions(false)
+      setLoadingVersions(false)
     }
   }
 
-  const runSwitchNodeVersion = async (targetFormula: string): Promise<void> => {
-    if (!brewStatus?.installed || runningNodeFormula) return
-    if (!/^node(?:@\d+)?$/.test(targetFormula)) {
-      setError(`Invalid Node formula: ${targetFormula}`)
+  const runSwitchVersion = async (targetFormula: string): Promise<void> => {
+    if (!brewStatus?.installed || runningFormula) return
+    const target = versions.find((item) => item.formula === targetFormula)
+    if (!target) {
+      setError(`Unknown ${runtimeLabel} formula: ${targetFormula}`)
       return
     }
 
-    setRunningNodeFormula(targetFormula)
+    setRunningFormula(targetFormula)
     setError(null)
     try {
-      const unlinkTargets = nodeVersions
-        .map((item) => item.formula.trim())
-        .filter((formula) => /^node(?:@\d+)?$/.test(formula))
-      const target = nodeVersions.find((item) => item.formula === targetFormula)
-      const commands: string[] = []
-
-      if (!target?.installed) {
-        commands.push(`brew install ${targetFormula}`)
-      }
-      if (unlinkTargets.length > 0) {
-        commands.push(unlinkTargets.map((formula) => `brew unlink ${formula} >/dev/null 2>&1 || true`).join(' && '))
-      }
-      commands.push(`brew link --overwrite --force ${targetFormula}`)
-
-      const result = await executeWithGlobalTerminal(commands.join(' && '))
-      if (!result.success) {
-        setError(result.error || result.stderr || `Failed to switch to ${targetFormula}.`)
+      const failure = await switchRuntimeFormula({
+        targetFormula,
+        targetInstalled: target.installed,
+        installedFormulae: versions.filter((item) => item.installed).map((item) => item.formula),
+        origin: 'runtimes'
+      })
+      if (failure) {
+        setError(failure)
         return
       }
 
       await window.api.syncInstalledAppsCache()
       const refreshedStatus = await refreshBrewStatus()
-      await loadNodeVersions(true, refreshedStatus)
+      await loadVersions(runtimeId, true, refreshedStatus)
     } catch (err) {
       setError(err instanceof Error ? err.message : `Failed to switch to ${targetFormula}.`)
     } finally {
-      setRunningNodeFormula(null)
+      setRunningFormula(null)
     }
   }
 
   useEffect(() => {
     void loadStatus()
+    void loadRuntimes()
   }, [])
 
   useEffect(() => {
     if (!brewStatus?.installed) {
-      setNodeVersions([])
+      setRuntimeStatus(null)
       return
     }
-    void loadNodeVersions(false, brewStatus)
+    runtimeIdRef.current = runtimeId
+    void loadVersions(runtimeId, false, brewStatus)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [brewStatus?.installed])
+  }, [brewStatus?.installed, runtimeId])
 
   useEffect(() => {
     const handler = (): void => {
@@ -198,15 +234,17 @@ function NodeVersionManager(): React.JSX.Element {
     }
   }, [])
 
+  const busy = loadingStatus || loadingVersions
+
   return (
     <main className="px-6 py-6 md:px-8 md:py-8">
       <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
         <section className="space-y-2">
           <div className="flex items-center justify-between gap-3">
             <div>
-              <h2 className="text-base font-semibold">Node Version Switch</h2>
+              <h2 className="text-base font-semibold">Runtime Version Switch</h2>
               <p className="text-sm text-muted-foreground">
-                List Homebrew Node formulas and switch active version.
+                List Homebrew formulae of a runtime and switch the linked version.
               </p>
             </div>
             <Tooltip>
@@ -218,42 +256,88 @@ function NodeVersionManager(): React.JSX.Element {
                   onClick={() => {
                     void refreshAll()
                   }}
-                  disabled={loadingStatus || loadingNodeVersions || runningNodeFormula !== null}
-                  aria-label={loadingStatus || loadingNodeVersions ? 'Refreshing...' : 'Refresh'}
+                  disabled={busy || runningFormula !== null}
+                  aria-label={busy ? 'Refreshing...' : 'Refresh'}
                 >
-                  <RefreshCw className={`h-4 w-4 ${loadingStatus || loadingNodeVersions ? 'animate-spin' : ''}`} />
+                  <RefreshCw className={`h-4 w-4 ${busy ? 'animate-spin' : ''}`} />
                 </Button>
               </TooltipTrigger>
               <TooltipContent sideOffset={8}>
-                <p>{loadingStatus || loadingNodeVersions ? 'Refreshing...' : 'Refresh'}</p>
+                <p>{busy ? 'Refreshing...' : 'Refresh'}</p>
               </TooltipContent>
             </Tooltip>
           </div>
 
+          {runtimes.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-1.5">
+              {runtimes.map((runtime) => (
+                <Button
+                  key={runtime.id}
+                  size="sm"
+                  variant={runtime.id === runtimeId ? 'secondary' : 'ghost'}
+                  onClick={() => setRuntimeId(runtime.id)}
+                  disabled={runningFormula !== null}
+                >
+                  {runtime.label}
+                </Button>
+              ))}
+            </div>
+          ) : null}
+
           {!loadingStatus && !brewStatus?.installed ? (
             <p className="text-sm text-muted-foreground">
               Homebrew is not installed. Please install Homebrew in the Homebrew tab first.
             </p>
           ) : null}
 
-          {loadingNodeVersions && nodeVersions.length === 0 ? (
-            <p className="text-sm text-muted-foreground">Loading Node versions...</p>
+          {runtimeStatus?.runtimeId === runtimeId && brewStatus?.installed ? (
+            <p className="truncate text-xs text-muted-foreground">
+              Active binary:{' '}
+              <span className="font-mono">{runtimeStatus.activePath ?? 'not found on PATH'}</span>
+            </p>
           ) : null}
 
-          {!loadingNodeVersions && brewStatus?.installed && nodeVersions.length === 0 ? (
-            <p className="text-sm text-muted-foreground">No Homebrew Node formulas found.</p>
+          {activeRuntime?.note ? (
+            <p className="text-xs text-muted-foreground">{activeRuntime.note}</p>
           ) : null}
 
-          {nodeVersions.length > 0 ? (
+          {conflicts.map((conflict) => (
+            <Alert key={`${conflict.kind}:${conflict.manager}`}>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <span className="font-medium">
+                  {conflict.kind === 'active'
+                    ? `${conflict.manager} is active`
+                    : `${conflict.manager} installed`}
+                </span>
+                {' · '}
+                {conflict.detail}
+              </AlertDescription>
+            </Alert>
+          ))}
+
+          {loadingVersions && versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading {runtimeLabel} versions...</p>
+          ) : null}
+
+          {!loadingVersions && brewStatus?.installed && versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No Homebrew {runtimeLabel} formulas found.
+            </p>
+          ) : null}
+
+          {versions.length > 0 ? (
             <ul className="divide-y divide-glass-divider">
-              {nodeVersions.map((item) => (
+              {versions.map((item) => (
                 <li key={item.formula} className="flex items-center justify-between gap-2 py-2">
                   <div className="min-w-0">
                     <div className="flex items-center gap-2">
                       <p className="font-mono text-sm">{item.formula}</p>
                       {item.active ? <Badge>Active</Badge> : null}
                       <Badge variant={item.installed ? 'default' : 'secondary'}>
-                        {item.installed ? `Installed ${item.installedVersion ?? ''}`.trim() : 'Not Installed'}
+                        {item.installed
+                          ? `Installed ${item.installedVersion ?? ''}`.trim()
+                          : 'Not Installed'}
                       </Badge>
                     </div>
                   </div>
@@ -263,12 +347,12 @@ function NodeVersionManager(): React.JSX.Element {
                         size="icon-sm"
                         variant="ghost"
                         className={actionIconButtonClass}
-                        disabled={item.active || runningNodeFormula !== null || loadingNodeVersions || loadingStatus}
+                        disabled={item.active || runningFormula !== null || busy}
                         onClick={() => {
-                          void runSwitchNodeVersion(item.formula)
+                          void runSwitchVersion(item.formula)
                         }}
                         aria-label={
-                          runningNodeFormula === item.formula
+                          runningFormula === item.formula
                             ? 'Switching...'
                             : item.active
                               ? 'Already Active'
@@ -277,7 +361,7 @@ function NodeVersionManager(): React.JSX.Element {
                                 : 'Install & Switch'
                         }
                       >
-                        {runningNodeFormula === item.formula ? (
+                        {runningFormula === item.formula ? (
                           <RefreshCw className="h-4 w-4 animate-spin" />
                         ) : item.installed ? (
                           <ArrowRightLeft className="h-4 w-4" />
@@ -288,7 +372,7 @@ function NodeVersionManager(): React.JSX.Element {
                     </TooltipTrigger>
                     <TooltipContent sideOffset={8}>
                       <p>
-                        {runningNodeFormula === item.formula
+                        {runningFormula === item.formula
                           ? 'Switching...'
                           : item.active
                             ? 'Already Active'
@@ -315,9 +399,19 @@ function NodeVersionManager(): React.JSX.Element {
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         ) : null}
+
+        {brewStatus?.installed ? (
+          <RuntimeProjectsPanel
+            onSwitched={(switchedRuntimeId) => {
+              if (switchedRuntimeId === runtimeIdRef.current) {
+                void loadVersions(switchedRuntimeId, true)
+              }
+            }}
+          />
+        ) : null}
       </div>
     </main>
   )
 }
 
-export default NodeVersionManager
+export default RuntimeVersionManager
@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, Plus, RefreshCw, Trash2, Wrench } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+
+type BrewTap = {
+  name: string
+  remote: string | null
+  customRemote: boolean
+  private: boolean
+  official: boolean
+  path: string | null
+  lastCommit: string | null
+  formulaCount: number
+  caskCount: number
+  installedPackages: Array<{ token: string; brewType: 'cask' | 'formula' }>
+}
+
+const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+const TAP_NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]*\/[a-z0-9][a-z0-9_.-]*$/i
+
+function TapsManager(): React.JSX.Element {
+  const [taps, setTaps] = useState<BrewTap[]>([])
+  const [loading, setLoading] = useState(true)
+  const [runningKey, setRunningKey] = useState<string | null>(null)
+  const [tapName, setTapName] = useState('')
+  const [tapRemote, setTapRemote] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const actionIconButtonClass =
+    'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+
+  const loadTaps = async (): Promise<void> => {
+    try {
+      const result = await window.api.listBrewTaps()
+      if (!result.success) {
+        setError(result.error ?? 'Failed to list Homebrew taps.')
+        setTaps([])
+        return
+      }
+      setTaps(result.taps)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list Homebrew taps.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addTap = async (): Promise<void> => {
+    const name = tapName.trim()
+    if (!TAP_NAME_PATTERN.test(name)) {
+      setError('Tap names look like user/repo.')
+      return
+    }
+    setRunningKey('add')
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await window.api.addBrewTap(name, tapRemote.trim() || undefined)
+      if (!result.success) {
+        setError(result.error ?? `brew tap ${name} failed.`)
+        return
+      }
+      setMessage(`Tapped ${name}.`)
+      setTapName('')
+      setTapRemote('')
+      await loadTaps()
+    } finally {
+      setRunningKey(null)
+    }
+  }
+
+  const removeTap = async (tap: BrewTap): Promise<void> => {
+    if (!window.confirm(`Untap ${tap.name}? Its formulae and casks will no longer be available.`)) {
+      return
+    }
+    setRunningKey(`remove:${tap.name}`)
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await window.api.removeBrewTap(tap.name)
+      if (!result.success) {
+        setError(result.error ?? `brew untap ${tap.name} failed.`)
+        return
+      }
+      setMessage(`Untapped ${tap.name}.`)
+      await loadTaps()
+    } finally {
+      setRunningKey(null)
+    }
+  }
+
+  const repairTaps = async (): Promise<void> => {
+    setRunningKey('repair')
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await window.api.repairBrewTaps()
+      if (!result.success) {
+        setError(result.error ?? 'brew tap --repair failed.')
+        return
+      }
+      setMessage(result.output || 'Tap remotes and symlinks repaired.')
+      await loadTaps()
+    } finally {
+      setRunningKey(null)
+    }
+  }
+
+  useEffect(() => {
+    void loadTaps()
+    const handler = (): void => {
+      void loadTaps()
+    }
+    window.addEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    return () => {
+      window.removeEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    }
+  }, [])
+
+  return (
+    <main className="px-6 py-6 md:px-8 md:py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
+        <section className="flex items-end justify-between gap-3 px-1">
+          <div>
+            <h2 className="text-base font-semibold">Taps</h2>
+            <p className="text-sm text-muted-foreground">
+              Third-party and private repositories Homebrew installs formulae and casks from.
+            </p>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                void repairTaps()
+              }}
+              disabled={runningKey !== null}
+            >
+              <Wrench className={`h-4 w-4 ${runningKey === 'repair' ? 'animate-pulse' : ''}`} />
+              Repair
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                setLoading(true)
+                void loadTaps()
+              }}
+              disabled={runningKey !== null}
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </section>
+
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Input
+            value={tapName}
+            onChange={(event) => setTapName(event.target.value)}
+            placeholder="user/repo"
+            className="h-8 md:w-56"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            disabled={runningKey !== null}
+          />
+          <Input
+            value={tapRemote}
+            onChange={(event) => setTapRemote(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                void addTap()
+              }
+            }}
+            placeholder="Remote URL (optional, e.g. git@github.com:team/homebrew-tools.git)"
+            className="h-8 flex-1"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            disabled={runningKey !== null}
+          />
+          <Button
+            size="sm"
+            onClick={() => {
+              void addTap()
+            }}
+            disabled={runningKey !== null || tapName.trim().length === 0}
+          >
+            <Plus className="h-4 w-4" />
+            {runningKey === 'add' ? 'Tapping...' : 'Add Tap'}
+          </Button>
+        </div>
+
+        {message ? (
+          <Alert>
+            <AlertDescription className="whitespace-pre-wrap">{message}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {loading ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">Loading taps...</div>
+        ) : taps.length === 0 ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">No taps are installed.</div>
+        ) : (
+          <div className="divide-y divide-glass-divider">
+            {taps.map((tap) => {
+              const inUse = tap.installedPackages.length > 0
+              return (
+                <div key={tap.name} className="flex items-start justify-between gap-3 py-2.5">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-sm font-medium">{tap.name}</span>
+                      {tap.official ? (
+                        <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">
+                          Official
+                        </Badge>
+                      ) : null}
+                      {tap.private ? (
+                        <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                          Private
+                        </Badge>
+                      ) : null}
+                      {tap.customRemote ? (
+                        <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                          Custom Remote
+                        </Badge>
+                      ) : null}
+                      <span className="text-[11px] text-muted-foreground">
+                        {tap.formulaCount} formulae · {tap.caskCount} casks
+                        {tap.lastCommit ? ` · updated ${tap.lastCommit}` : ''}
+                      </span>
+                    </div>
+                    <p
+                      className="truncate font-mono text-[11px] text-muted-foreground"
+                      title={tap.path ?? undefined}
+                    >
+                      {tap.remote ?? tap.path ?? 'No remote configured'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {inUse
+                        ? `Installed from this tap: ${tap.installedPackages
+                            .map((entry) =>
+                              entry.brewType === 'cask' ? `${entry.token} (cask)` : entry.token
+                            )
+                            .join(', ')}`
+                        : 'No installed packages come from this tap.'}
+                    </p>
+                  </div>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      {/* Wrapper keeps the tooltip working while the button is disabled. */}
+                      <span className="shrink-0">
+                        <Button
+                          size="icon-sm"
+                          variant="ghost"
+                          className={actionIconButtonClass}
+                          onClick={() => {
+                            void removeTap(tap)
+                          }}
+                          disabled={runningKey !== null || inUse}
+                          aria-label={`Untap ${tap.name}`}
+                        >
+                          <Trash2
+                            className={`h-4 w-4 ${runningKey === `remove:${tap.name}` ? 'animate-pulse' : ''}`}
+                          />
+                        </Button>
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent sideOffset={8}>
+                      <p>
+                        {inUse
+                          ? 'Uninstall the packages from this tap before untapping.'
+                          : `brew untap ${tap.name}`}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
+
+export default TapsManager
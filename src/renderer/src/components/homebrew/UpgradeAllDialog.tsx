@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertCircle, ArrowRight, CircleStop, Rocket } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Skeleton } from '@/components/ui/skeleton'
+import { brewCommand } from '@/lib/command'
+import { openGlobalTerminal } from '@/lib/globalTerminal'
+import {
+  startJobBatch,
+  type JobBatch,
+  type JobHandle,
+  type JobItem,
+  type JobItemStatus
+} from '@/lib/jobQueue'
+
+type OutdatedPackage = {
+  token: string
+  brewType: 'cask' | 'formula'
+  installedVersion: string | null
+  latestVersion: string | null
+  pinned: boolean
+}
+
+type UpgradeAllDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onFinished: () => void
+}
+
+const OUTCOME_BADGE_CLASS: Record<JobItemStatus, string> = {
+  pending: 'bg-transparent text-muted-foreground',
+  running: 'border-sky-500/60 bg-sky-500/10 text-sky-600 dark:text-sky-300',
+  succeeded: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-600 dark:text-emerald-300',
+  failed: 'border-red-500/60 bg-red-500/10 text-red-600 dark:text-red-300',
+  skipped: 'bg-transparent text-muted-foreground',
+  canceled: 'border-amber-500/60 bg-amber-500/10 text-amber-600 dark:text-amber-300'
+}
+
+function getPackageKey(item: OutdatedPackage): string {
+  return `${item.brewType}:${item.token}`
+}
+
+function UpgradeAllDialog({
+  open,
+  onOpenChange,
+  onFinished
+}: UpgradeAllDialogProps): React.JSX.Element {
+  const [loading, setLoading] = useState(false)
+  const [items, setItems] = useState<OutdatedPackage[]>([])
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(() => new Set())
+  const [running, setRunning] = useState(false)
+  const [batch, setBatch] = useState<JobBatch | null>(null)
+  const [batchKeys, setBatchKeys] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const jobRef = useRef<JobHandle<JobBatch> | null>(null)
+
+  const outcomeByKey = useMemo(() => {
+    const outcomes = new Map<string, JobItem>()
+    if (!batch) return outcomes
+    batchKeys.forEach((key, index) => {
+      const item = batch.items[index]
+      if (item) outcomes.set(key, item)
+    })
+    return outcomes
+  }, [batch, batchKeys])
+
+  const selectableItems = items.filter((item) => !item.pinned)
+  const allSelected =
+    selectableItems.length > 0 &&
+    selectableItems.every((item) => selectedKeys.has(getPackageKey(item)))
+
+  const loadReport = async (): Promise<void> => {
+    setLoading(true)
+    setError(null)
+    setBatch(null)
+    setBatchKeys([])
+    try {
+      const report = await window.api.getOutdatedReport()
+      if (!report.success) {
+        setError(report.error ?? 'Failed to check outdated packages.')
+        setItems([])
+        return
+      }
+      setItems(report.items)
+      setSelectedKeys(
+        new Set(report.items.filter((item) => !item.pinned).map((item) => getPackageKey(item)))
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check outdated packages.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runUpgrade = async (): Promise<void> => {
+    const targets = items.filter((item) => !item.pinned && selectedKeys.has(getPackageKey(item)))
+    if (targets.length === 0) return
+    setRunning(true)
+    setError(null)
+    setBatchKeys(targets.map((item) => getPackageKey(item)))
+    openGlobalTerminal()
+    try {
+      const job = startJobBatch(
+        {
+          origin: 'homebrew',
+          continueOnFailure: true,
+          items: targets.map((item) => ({
+            token: item.token,
+            action: 'upgrade' as const,
+            command:
+              item.brewType === 'cask'
+                ? brewCommand('upgrade', '--cask', item.token)
+                : brewCommand('upgrade', item.token)
+          }))
+        },
+        { onUpdate: setBatch }
+      )
+      jobRef.current = job
+      const finished = await job.result
+      setBatch(finished)
+      const failedCount = finished.items.filter((item) => item.status !== 'succeeded').length
+      if (failedCount > 0) {
+        setError(`${failedCount} of ${finished.items.length} upgrade(s) did not succeed.`)
+      }
+      onFinished()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run upgrades.')
+    } finally {
+      jobRef.current = null
+      setRunning(false)
+    }
+  }
+
+  const toggleAll = (checked: boolean): void => {
+    setSelectedKeys(
+      checked ? new Set(selectableItems.map((item) => getPackageKey(item))) : new Set()
+    )
+  }
+
+  const toggleItem = (item: OutdatedPackage, checked: boolean): void => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(getPackageKey(item))
+      } else {
+        next.delete(getPackageKey(item))
+      }
+      return next
+    })
+  }
+
+  useEffect(() => {
+    if (open) {
+      void loadReport()
+    }
+  }, [open])
+
+  const selectedCount = selectableItems.filter((item) =>
+    selectedKeys.has(getPackageKey(item))
+  ).length
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!running) onOpenChange(next)
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Upgrade Packages</DialogTitle>
+          <DialogDescription>
+            Review outdated formulae and casks and choose which ones to upgrade.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, idx) => (
+              <Skeleton key={idx} className="h-8 w-full rounded-md bg-muted" />
+            ))}
+          </div>
+        ) : items.length === 0 && !error ? (
+          <p className="py-4 text-sm text-muted-foreground">Everything is up to date.</p>
+        ) : items.length > 0 ? (
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 px-1 text-xs font-medium">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => toggleAll(checked === true)}
+                disabled={running || batch !== null}
+              />
+              Select all ({selectableItems.length})
+            </label>
+            <div className="max-h-[50vh] divide-y divide-glass-divider overflow-y-auto">
+              {items.map((item) => {
+                const key = getPackageKey(item)
+                const outcome = outcomeByKey.get(key)
+                return (
+                  <div key={key} className="flex items-center justify-between gap-3 px-1 py-2">
+                    <label className="flex min-w-0 items-center gap-2">
+                      <Checkbox
+                        checked={!item.pinned && selectedKeys.has(key)}
+                        onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                        disabled={item.pinned || running || batch !== null}
+                      />
+                      <span className="truncate text-sm font-medium">{item.token}</span>
+                      <Badge
+                        variant="outline"
+                        className="bg-transparent px-1.5 py-0 text-[10px] text-muted-foreground"
+                      >
+                        {item.brewType}
+                      </Badge>
+                      {item.pinned ? (
+                        <Badge
+                          variant="outline"
+                          className="bg-transparent px-1.5 py-0 text-[10px] text-muted-foreground"
+                        >
+                          Pinned
+                        </Badge>
+                      ) : null}
+                    </label>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <span className="flex items-center gap-1 font-mono text-[11px] text-muted-foreground">
+                        {item.installedVersion ?? '?'}
+                        <ArrowRight className="h-3 w-3" />
+                        <span className="text-foreground">{item.latestVersion ?? '?'}</span>
+                      </span>
+                      {outcome ? (
+                        <Badge
+                          variant="outline"
+                          className={`px-1.5 py-0 text-[10px] ${OUTCOME_BADGE_CLASS[outcome.status]}`}
+                          title={outcome.error ?? undefined}
+                        >
+                          {outcome.cancelRequested ? 'canceling' : outcome.status}
+                        </Badge>
+                      ) : null}
+                      {batch && outcome?.status === 'running' ? (
+                        <Button
+                          size="icon-sm"
+                          variant="ghost"
+                          className="h-6 w-6 text-muted-foreground"
+                          onClick={() => {
+                            void window.api.cancelJobItem(batch.batchId, outcome.itemId)
+                          }}
+                          disabled={outcome.cancelRequested}
+                          aria-label={`Cancel upgrade of ${item.token}`}
+                          title="Cancel"
+                        >
+                          <CircleStop className="h-3.5 w-3.5" />
+                        </Button>
+                      ) : null}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ) : null}
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        <DialogFooter>
+          {running ? (
+            <Button size="sm" variant="ghost" onClick={() => void jobRef.current?.cancel()}>
+              <CircleStop className="h-4 w-4" />
+              Cancel upgrades
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={() => onOpenChange(false)}>
+              {batch ? 'Close' : 'Cancel'}
+            </Button>
+          )}
+          {batch === null ? (
+            <Button
+              size="sm"
+              onClick={() => {
+                void runUpgrade()
+              }}
+              disabled={loading || running || selectedCount === 0}
+            >
+              <Rocket className="h-4 w-4" />
+              Upgrade {selectedCount} selected
+            </Button>
+          ) : null}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default UpgradeAllDialog
@@ -0,0 +1,281 @@
+import { useState } from 'react'
+import { AlertCircle, FileDown, FileUp, Play, X } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { confirmDestructiveAction } from '@/lib/destructiveActions'
+import { openGlobalTerminal } from '@/lib/globalTerminal'
+import { runJobBatch } from '@/lib/jobQueue'
+
+type BrewfileEntry = {
+  kind: 'tap' | 'brew' | 'cask'
+  token: string
+}
+
+type BrewfileImportPreview = {
+  filePath: string
+  entries: BrewfileEntry[]
+  toInstall: BrewfileEntry[]
+  toRemove: BrewfileEntry[]
+  unchanged: BrewfileEntry[]
+  skippedLines: string[]
+}
+
+const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+
+function EntryList({ entries }: { entries: BrewfileEntry[] }): React.JSX.Element {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {entries.map((entry) => (
+        <Badge
+          key={`${entry.kind}:${entry.token}`}
+          variant="outline"
+          className="bg-transparent px-1.5 py-0 font-mono text-[11px]"
+        >
+          <span className="text-muted-foreground">{entry.kind}</span>
+          {entry.token}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+function BrewfilePanel(): React.JSX.Element {
+  const [runningAction, setRunningAction] = useState<'export' | 'import' | 'apply' | null>(null)
+  const [preview, setPreview] = useState<BrewfileImportPreview | null>(null)
+  const [includeRemovals, setIncludeRemovals] = useState(false)
+  const [applyProgress, setApplyProgress] = useState<{ done: number; total: number } | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const runExport = async (): Promise<void> => {
+    setRunningAction('export')
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await window.api.exportBrewfile()
+      if (result.canceled) return
+      if (!result.success) {
+        setError(result.error ?? 'Failed to export Brewfile.')
+        return
+      }
+      setMessage(`Exported ${result.count ?? 0} entries to ${result.filePath}.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export Brewfile.')
+    } finally {
+      setRunningAction(null)
+    }
+  }
+
+  const runImport = async (): Promise<void> => {
+    setRunningAction('import')
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await window.api.importBrewfilePreview()
+      if (result.canceled) return
+      if (!result.success || !result.preview) {
+        setError(result.error ?? 'Failed to read Brewfile.')
+        return
+      }
+      setPreview(result.preview)
+      setIncludeRemovals(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read Brewfile.')
+    } finally {
+      setRunningAction(null)
+    }
+  }
+
+  const runApply = async (): Promise<void> => {
+    if (!preview) return
+    setRunningAction('apply')
+    setError(null)
+    setMessage(null)
+    try {
+      const removals = includeRemovals
+        ? preview.toRemove.filter((entry) => entry.kind !== 'tap')
+        : []
+      const approvalId =
+        removals.length > 0
+          ? await confirmDestructiveAction({
+              kind: 'brew-uninstall',
+              packages: removals.map((entry) => ({
+                token: entry.token,
+                brewType: entry.kind === 'cask' ? 'cask' : 'formula'
+              }))
+            })
+          : undefined
+      if (approvalId === null) return
+
+      const plan = await window.api.planBrewfileApply({
+        install: preview.toInstall,
+        remove: removals
+      })
+      setApplyProgress({ done: 0, total: plan.commands.length })
+      openGlobalTerminal()
+      const batch = await runJobBatch(
+        {
+          origin: 'installed',
+          continueOnFailure: true,
+          approvalId,
+          items: plan.commands.map((command) => ({ command }))
+        },
+        {
+          onUpdate: (next) => {
+            const done = next.items.filter(
+              (item) => item.status !== 'pending' && item.status !== 'running'
+            ).length
+            setApplyProgress({ done, total: plan.commands.length })
+          }
+        }
+      )
+      const failedCommands = batch.items
+        .filter((item) => item.status !== 'succeeded')
+        .map((item) => item.command)
+
+      await window.api.syncInstalledAppsCache()
+      window.dispatchEvent(new CustomEvent(APP_TOPBAR_REFRESH_EVENT))
+      setPreview(null)
+
+      if (failedCommands.length > 0) {
+        setError(`${failedCommands.length} command(s) failed: ${failedCommands.join('; ')}`)
+      } else {
+        setMessage(`Brewfile applied (${plan.commands.length} command(s)).`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply Brewfile.')
+    } finally {
+      setApplyProgress(null)
+      setRunningAction(null)
+    }
+  }
+
+  const pendingChangeCount =
+    (preview?.toInstall.length ?? 0) + (includeRemovals ? (preview?.toRemove.length ?? 0) : 0)
+
+  return (
+    <section className="px-3 py-3 md:px-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.08em] text-muted-foreground">
+            Brewfile
+          </h3>
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            Export installed casks and formulae, or preview a Brewfile before applying it.
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1.5">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => {
+              void runExport()
+            }}
+            disabled={runningAction !== null}
+          >
+            <FileDown className="h-4 w-4" />
+            {runningAction === 'export' ? 'Exporting...' : 'Export'}
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => {
+              void runImport()
+            }}
+            disabled={runningAction !== null}
+          >
+            <FileUp className="h-4 w-4" />
+            {runningAction === 'import' ? 'Reading...' : 'Import'}
+          </Button>
+        </div>
+      </div>
+
+      {preview ? (
+        <div className="mt-3 space-y-3 rounded-lg border border-glass-border bg-glass-bg px-3 py-3">
+          <p className="truncate font-mono text-[11px] text-muted-foreground">{preview.filePath}</p>
+
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium">
+              Will install{' '}
+              <span className="text-muted-foreground">({preview.toInstall.length})</span>
+            </p>
+            {preview.toInstall.length > 0 ? (
+              <EntryList entries={preview.toInstall} />
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Everything in this Brewfile is installed.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="flex items-center gap-2 text-xs font-medium">
+              <Checkbox
+                checked={includeRemovals}
+                onCheckedChange={(checked) => setIncludeRemovals(checked === true)}
+                disabled={runningAction !== null || preview.toRemove.length === 0}
+              />
+              Remove packages not listed{' '}
+              <span className="text-muted-foreground">({preview.toRemove.length})</span>
+            </label>
+            {preview.toRemove.length > 0 ? (
+              <div className={includeRemovals ? '' : 'opacity-50'}>
+                <EntryList entries={preview.toRemove} />
+              </div>
+            ) : null}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {preview.unchanged.length} already satisfied
+            {preview.skippedLines.length > 0
+              ? `, ${preview.skippedLines.length} unsupported line(s) skipped`
+              : ''}
+            .
+          </p>
+
+          <div className="flex items-center justify-end gap-1.5">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setPreview(null)}
+              disabled={runningAction !== null}
+            >
+              <X className="h-4 w-4" />
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                void runApply()
+              }}
+              disabled={runningAction !== null || pendingChangeCount === 0}
+            >
+              <Play className="h-4 w-4" />
+              {applyProgress
+                ? `Applying ${applyProgress.done}/${applyProgress.total}...`
+                : `Apply ${pendingChangeCount} change(s)`}
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {message ? (
+        <Alert className="mt-3">
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      ) : null}
+
+      {error ? (
+        <Alert variant="destructive" className="mt-3">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : null}
+    </section>
+  )
+}
+
+export default BrewfilePanel
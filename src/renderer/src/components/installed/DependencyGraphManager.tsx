@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, RefreshCw } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+type BrewDependencyNode = {
+  token: string
+  dependencies: string[]
+  dependents: string[]
+  installedOnRequest: boolean
+  leaf: boolean
+  orphan: boolean
+}
+
+type NodeFilter = 'all' | 'leaves' | 'orphans'
+
+const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+const GRAPH_ROW_HEIGHT = 30
+const GRAPH_NODE_WIDTH = 150
+const GRAPH_NODE_HEIGHT = 22
+const GRAPH_COLUMNS = { dependents: 85, selected: 290, dependencies: 495 }
+const GRAPH_WIDTH = 580
+
+const FILTERS: Array<{ key: NodeFilter; label: string }> = [
+  { key: 'all', label: 'All' },
+  { key: 'leaves', label: 'Leaves' },
+  { key: 'orphans', label: 'Orphans' }
+]
+
+function collectDependents(token: string, nodeMap: Map<string, BrewDependencyNode>): string[] {
+  const seen = new Set<string>()
+  const queue = [...(nodeMap.get(token)?.dependents ?? [])]
+  while (queue.length > 0) {
+    const next = queue.shift() as string
+    if (seen.has(next) || next === token) continue
+    seen.add(next)
+    queue.push(...(nodeMap.get(next)?.dependents ?? []))
+  }
+  return [...seen].sort()
+}
+
+function getNodeClass(node: BrewDependencyNode | undefined, breaks: boolean): string {
+  if (breaks) return 'fill-red-500/10 stroke-red-500'
+  if (node?.orphan) return 'fill-amber-500/10 stroke-amber-500'
+  if (node?.leaf) return 'fill-emerald-500/10 stroke-emerald-500'
+  return 'fill-muted stroke-border'
+}
+
+function truncateLabel(label: string): string {
+  return label.length > 20 ? `${label.slice(0, 19)}…` : label
+}
+
+function DependencyGraphManager(): React.JSX.Element {
+  const [nodes, setNodes] = useState<BrewDependencyNode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [query, setQuery] = useState('')
+  const [filter, setFilter] = useState<NodeFilter>('all')
+  const [selectedToken, setSelectedToken] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const nodeMap = useMemo(() => new Map(nodes.map((node) => [node.token, node])), [nodes])
+  const selected = selectedToken ? nodeMap.get(selectedToken) : undefined
+  const wouldBreak = useMemo(
+    () => (selectedToken ? collectDependents(selectedToken, nodeMap) : []),
+    [selectedToken, nodeMap]
+  )
+  const wouldBreakSet = useMemo(() => new Set(wouldBreak), [wouldBreak])
+
+  const visibleNodes = useMemo(() => {
+    const keyword = query.trim().toLowerCase()
+    return nodes
+      .filter((node) =>
+        filter === 'leaves' ? node.leaf : filter === 'orphans' ? node.orphan : true
+      )
+      .filter((node) => !keyword || node.token.toLowerCase().includes(keyword))
+      .sort((a, b) => a.token.localeCompare(b.token))
+  }, [nodes, query, filter])
+
+  const loadGraph = async (): Promise<void> => {
+    setError(null)
+    try {
+      const result = await window.api.getBrewDependencyGraph()
+      if (!result.success) {
+        setError(result.error ?? 'Failed to load dependency graph.')
+        setNodes([])
+        return
+      }
+      setNodes(result.nodes)
+      setSelectedToken((current) =>
+        current && result.nodes.some((node) => node.token === current) ? current : null
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load dependency graph.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    void loadGraph()
+    const handler = (): void => {
+      void loadGraph()
+    }
+    window.addEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    return () => {
+      window.removeEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    }
+  }, [])
+
+  const renderGraph = (node: BrewDependencyNode): React.JSX.Element => {
+    const rows = Math.max(node.dependents.length, node.dependencies.length, 1)
+    const height = rows * GRAPH_ROW_HEIGHT + 20
+    const centerY = height / 2
+    const columnY = (index: number, count: number): number =>
+      centerY + (index - (count - 1) / 2) * GRAPH_ROW_HEIGHT
+
+    const renderNode = (
+      token: string,
+      x: number,
+      y: number,
+      isSelected = false
+    ): React.JSX.Element => {
+      const target = nodeMap.get(token)
+      return (
+        <g
+          key={`${x}:${token}`}
+          className={isSelected ? undefined : 'cursor-pointer'}
+          onClick={() => {
+            if (!isSelected) setSelectedToken(token)
+          }}
+        >
+          <title>{token}</title>
+          <rect
+            x={x - GRAPH_NODE_WIDTH / 2}
+            y={y - GRAPH_NODE_HEIGHT / 2}
+            width={GRAPH_NODE_WIDTH}
+            height={GRAPH_NODE_HEIGHT}
+            rx={6}
+            className={`${getNodeClass(target, wouldBreakSet.has(token))} ${isSelected ? 'stroke-2' : ''}`}
+          />
+          <text
+            x={x}
+            y={y + 4}
+            textAnchor="middle"
+            className={`fill-foreground font-mono text-[11px] ${isSelected ? 'font-semibold' : ''}`}
+          >
+            {truncateLabel(token)}
+          </text>
+        </g>
+      )
+    }
+
+    const edge = (fromX: number, fromY: number, toX: number, toY: number): string => {
+      const midX = (fromX + toX) / 2
+      return `M ${fromX} ${fromY} C ${midX} ${fromY}, ${midX} ${toY}, ${toX} ${toY}`
+    }
+
+    return (
+      <svg
+        viewBox={`0 0 ${GRAPH_WIDTH} ${height}`}
+        width="100%"
+        style={{ minHeight: height }}
+        role="img"
+        aria-label={`Dependency graph for ${node.token}`}
+      >
+        {node.dependents.map((token, index) => (
+          <path
+            key={`in:${token}`}
+            d={edge(
+              GRAPH_COLUMNS.dependents + GRAPH_NODE_WIDTH / 2,
+              columnY(index, node.dependents.length),
+              GRAPH_COLUMNS.selected - GRAPH_NODE_WIDTH / 2,
+              centerY
+            )}
+            className="fill-none stroke-red-500/50"
+          />
+        ))}
+        {node.dependencies.map((token, index) => (
+          <path
+            key={`out:${token}`}
+            d={edge(
+              GRAPH_COLUMNS.selected + GRAPH_NODE_WIDTH / 2,
+              centerY,
+              GRAPH_COLUMNS.dependencies - GRAPH_NODE_WIDTH / 2,
+              columnY(index, node.dependencies.length)
+            )}
+            className="fill-none stroke-muted-foreground/40"
+          />
+        ))}
+        {node.dependents.map((token, index) =>
+          renderNode(token, GRAPH_COLUMNS.dependents, columnY(index, node.dependents.length))
+        )}
+        {renderNode(node.token, GRAPH_COLUMNS.selected, centerY, true)}
+        {node.dependencies.map((token, index) =>
+          renderNode(token, GRAPH_COLUMNS.dependencies, columnY(index, node.dependencies.length))
+        )}
+      </svg>
+    )
+  }
+
+  return (
+    <main className="px-6 py-6 md:px-8 md:py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
+        <section className="space-y-2">
+          <div className="flex items-end justify-between gap-3 px-1">
+            <div>
+              <h2 className="text-base font-semibold">Dependencies</h2>
+              <p className="text-sm text-muted-foreground">
+                How installed formulae depend on each other, and what breaks if one is removed.
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                setLoading(true)
+                void loadGraph()
+              }}
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+          <div className="flex items-center gap-3 px-1">
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="Filter formulae"
+              className="h-8 max-w-xs"
+            />
+            <div className="flex items-center gap-1">
+              {FILTERS.map((entry) => (
+                <Button
+                  key={entry.key}
+                  size="sm"
+                  variant={filter === entry.key ? 'secondary' : 'ghost'}
+                  onClick={() => setFilter(entry.key)}
+                >
+                  {entry.label}
+                </Button>
+              ))}
+            </div>
+            <div className="ml-auto flex items-center gap-3 text-[11px] text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full bg-emerald-500" /> leaf
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full bg-amber-500" /> orphan
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full bg-red-500" /> would break
+              </span>
+            </div>
+          </div>
+        </section>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {loading ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">Loading dependency graph...</div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            <div className="max-h-[60vh] divide-y divide-glass-divider overflow-y-auto">
+              {visibleNodes.length === 0 ? (
+                <p className="px-2 py-4 text-sm text-muted-foreground">No matching formulae.</p>
+              ) : (
+                visibleNodes.map((node) => (
+                  <button
+                    key={node.token}
+                    type="button"
+                    className={`flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left text-xs hover:bg-accent ${
+                      node.token === selectedToken ? 'bg-accent' : ''
+                    }`}
+                    onClick={() => setSelectedToken(node.token)}
+                  >
+                    <span className="truncate font-mono">{node.token}</span>
+                    <span className="flex shrink-0 items-center gap-1">
+                      {node.orphan ? (
+                        <span className="h-2 w-2 rounded-full bg-amber-500" />
+                      ) : node.leaf ? (
+                        <span className="h-2 w-2 rounded-full bg-emerald-500" />
+                      ) : null}
+                      <span className="text-muted-foreground">{node.dependents.length}</span>
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <div className="min-w-0 space-y-3">
+              {selected ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 px-1">
+                    <p className="font-mono text-sm font-medium">{selected.token}</p>
+                    {selected.leaf ? <Badge variant="outline">leaf</Badge> : null}
+                    {selected.orphan ? <Badge variant="outline">orphan</Badge> : null}
+                    {selected.installedOnRequest ? (
+                      <Badge variant="outline">installed on request</Badge>
+                    ) : (
+                      <Badge variant="outline">installed as dependency</Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {selected.dependents.length} dependent(s) · {selected.dependencies.length}{' '}
+                      dependenc{selected.dependencies.length === 1 ? 'y' : 'ies'}
+                    </span>
+                  </div>
+                  <div className="max-h-[50vh] overflow-auto rounded-md border border-glass-divider p-2">
+                    {renderGraph(selected)}
+                  </div>
+                  <div className="space-y-1.5 px-1">
+                    <p className="text-xs font-medium">
+                      Removing {selected.token} would break {wouldBreak.length} formula(e)
+                    </p>
+                    {wouldBreak.length > 0 ? (
+                      <div className="flex flex-wrap gap-1">
+                        {wouldBreak.map((token) => (
+                          <Badge
+                            key={token}
+                            variant="outline"
+                            className="cursor-pointer border-red-500/60 bg-red-500/10 px-1.5 py-0 font-mono text-[10px] text-red-600 dark:text-red-300"
+                            onClick={() => setSelectedToken(token)}
+                          >
+                            {token}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Nothing installed depends on it.
+                      </p>
+                    )}
+                  </div>
+                </>
+              ) : (
+                <p className="px-1 py-4 text-sm text-muted-foreground">
+                  Select a formula to see its dependencies and dependents.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
+
+export default DependencyGraphManager
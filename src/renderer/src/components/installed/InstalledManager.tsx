@@ -1,4 +1,5 @@
 import CatalogTab from '@/components/catalog/CatalogTab'
+import BrewfilePanel from '@/components/installed/BrewfilePanel'
 
 function InstalledManager(): React.JSX.Element {
   return (
@@ -8,6 +9,7 @@ function InstalledManager(): React.JSX.Element {
       seeds={[]}
       defaultBrewType="cask"
       discoverInstalled
+      toolbar={<BrewfilePanel />}
     />
   )
 }
@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { getDestructiveActionEvent, type DestructiveActionPrompt } from '@/lib/destructiveActions'
+import { formatBytes } from '@/lib/utils'
+
+type DestructiveActionPreview = {
+  actionId: string
+  kind: string
+  target: string
+  title: string
+  summary: string
+  paths: Array<{ path: string; bytes: number | null }>
+  notes: string[]
+  dryRunOutput: string | null
+  risk: 'normal' | 'high'
+  confirmationPhrase: string | null
+  createdAt: number
+}
+
+const DESTRUCTIVE_ACTION_EVENT = getDestructiveActionEvent()
+
+function DestructiveActionDialog(): React.JSX.Element {
+  const [prompt, setPrompt] = useState<DestructiveActionPrompt | null>(null)
+  const [preview, setPreview] = useState<DestructiveActionPreview | null>(null)
+  const [typed, setTyped] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const promptRef = useRef<DestructiveActionPrompt | null>(null)
+
+  const loadPreview = async (next: DestructiveActionPrompt): Promise<void> => {
+    try {
+      const result = await window.api.previewDestructiveAction(next.request)
+      if (promptRef.current !== next) return
+      if (!result.success || !result.preview) {
+        setError(result.error ?? 'Failed to preview this action.')
+        return
+      }
+      setPreview(result.preview)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview this action.')
+    }
+  }
+
+  useEffect(() => {
+    const handler = (event: Event): void => {
+      const next = (event as CustomEvent<DestructiveActionPrompt>).detail
+      event.preventDefault()
+      // One confirmation at a time; a second request while one is open is cancelled.
+      if (promptRef.current) {
+        next.resolve(null)
+        return
+      }
+      promptRef.current = next
+      setPrompt(next)
+      setPreview(null)
+      setTyped('')
+      setError(null)
+      void loadPreview(next)
+    }
+    window.addEventListener(DESTRUCTIVE_ACTION_EVENT, handler)
+    return () => {
+      window.removeEventListener(DESTRUCTIVE_ACTION_EVENT, handler)
+    }
+  }, [])
+
+  const close = (actionId: string | null): void => {
+    promptRef.current?.resolve(actionId)
+    promptRef.current = null
+    setPrompt(null)
+    setPreview(null)
+    setSubmitting(false)
+  }
+
+  const decide = async (approved: boolean): Promise<void> => {
+    if (!preview) {
+      close(null)
+      return
+    }
+    setSubmitting(true)
+    setError(null)
+    try {
+      const result = await window.api.decideDestructiveAction({
+        actionId: preview.actionId,
+        approved,
+        typedConfirmation: typed
+      })
+      if (!result.success && approved) {
+        setError(result.error ?? 'Confirmation was rejected.')
+        setSubmitting(false)
+        return
+      }
+      close(approved ? preview.actionId : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the decision.')
+      setSubmitting(false)
+    }
+  }
+
+  const phrase = preview?.confirmationPhrase ?? null
+  const totalBytes = (preview?.paths ?? []).reduce((total, entry) => total + (entry.bytes ?? 0), 0)
+  const canConfirm = Boolean(preview) && !submitting && (!phrase || typed.trim() === phrase)
+
+  return (
+    <Dialog
+      open={prompt !== null}
+      onOpenChange={(open) => {
+        if (!open && !submitting) {
+          void decide(false)
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {preview?.title ?? 'Preparing preview...'}
+            {preview?.risk === 'high' ? (
+              <Badge
+                variant="outline"
+                className="border-red-500/60 bg-red-500/10 px-1.5 py-0 text-[10px] text-red-600 dark:text-red-300"
+              >
+                Risky
+              </Badge>
+            ) : null}
+          </DialogTitle>
+          <DialogDescription>
+            {preview?.summary ?? 'Checking what this action would remove.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview && !error ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-2/3" />
+            <Skeleton className="h-4 w-1/2" />
+          </div>
+        ) : null}
+
+        {preview ? (
+          <div className="min-w-0 space-y-3">
+            {prompt?.command ? (
+              <p className="break-all rounded-md bg-muted/40 px-2 py-1.5 font-mono text-[11px]">
+                {prompt.command}
+              </p>
+            ) : null}
+
+            {preview.notes.map((note) => (
+              <Alert key={note}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{note}</AlertDescription>
+              </Alert>
+            ))}
+
+            {preview.paths.length > 0 ? (
+              <div className="space-y-1">
+                <p className="text-xs font-medium">
+                  Would remove {preview.paths.length} path(s)
+                  {totalBytes > 0 ? ` · ${formatBytes(totalBytes)}` : ''}
+                </p>
+                <div className="max-h-48 overflow-auto rounded-md border border-glass-divider">
+                  {preview.paths.map((entry) => (
+                    <div
+                      key={entry.path}
+                      className="flex items-center justify-between gap-3 px-2 py-1 text-[11px]"
+                    >
+                      <span className="truncate font-mono" title={entry.path}>
+                        {entry.path}
+                      </span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {entry.bytes === null ? '—' : formatBytes(entry.bytes)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : preview.dryRunOutput === null ? (
+              <p className="text-xs text-muted-foreground">No files were found for this action.</p>
+            ) : null}
+
+            {preview.dryRunOutput !== null ? (
+              <div className="space-y-1">
+                <p className="text-xs font-medium">Dry run</p>
+                <pre className="max-h-56 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted/40 p-2 font-mono text-[11px] leading-relaxed">
+                  {preview.dryRunOutput}
+                </pre>
+              </div>
+            ) : null}
+
+            {phrase ? (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Type <span className="font-mono font-medium text-foreground">{phrase}</span> to
+                  confirm.
+                </p>
+                <Input
+                  value={typed}
+                  onChange={(event) => setTyped(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter' && canConfirm) {
+                      void decide(true)
+                    }
+                  }}
+                  className="h-8 font-mono"
+                  autoCapitalize="off"
+                  autoCorrect="off"
+                  spellCheck={false}
+                  autoFocus
+                />
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        <DialogFooter>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              void decide(false)
+            }}
+            disabled={submitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => {
+              void decide(true)
+            }}
+            disabled={!canConfirm}
+          >
+            {submitting ? 'Confirming...' : 'Confirm'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default DestructiveActionDialog
@@ -1,669 +1,388 @@
-import { useEffect, useRef, useState } from 'react'
-import { Minimize2, TerminalSquare } from 'lucide-react'
-import { FitAddon } from '@xterm/addon-fit'
-import { WebLinksAddon } from '@xterm/addon-web-links'
-import { Terminal } from '@xterm/xterm'
-import '@xterm/xterm/css/xterm.css'
+import { useCallback, useEffect, useState } from 'react'
+import { Columns2, History, Minimize2, Plus, Rows2, Search, TerminalSquare, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
-import { getGlobalTerminalEvents, type TerminalExecResult } from '@/lib/globalTerminal'
+import { getGlobalTerminalEvents } from '@/lib/globalTerminal'
+import TerminalPane from './TerminalPane'
+import TerminalScrollbackDialog from './TerminalScrollbackDialog'
+import TerminalShellDialog from './TerminalShellDialog'
 
-const OUTPUT_PAUSE_WATERMARK = 512 * 1024
-const OUTPUT_RESUME_WATERMARK = 128 * 1024
-const EXEC_BEGIN_MARKER_PREFIX = '__APPPAD_EXEC_BEGIN__'
-const EXEC_DONE_MARKER_PREFIX = '__APPPAD_EXEC_DONE__'
 const TERMINAL_EVENTS = getGlobalTerminalEvents()
 const TERMINAL_SHELL_STORAGE_KEY = 'appPad.terminal.shell'
-const EXEC_REQUEST_TIMEOUT_MS = 1000 * 60 * 30
+const TERMINAL_CUSTOM_SHELLS_STORAGE_KEY = 'appPad.terminal.customShells'
+const DEFAULT_SHELL: TerminalShellChoice = { path: '/bin/zsh', args: null }
+const CUSTOM_SHELL_OPTION = '__custom__'
+const TERMINAL_TABS_STORAGE_KEY = 'appPad.terminal.tabs'
+const JOBS_TAB_ID = 'jobs'
+const MAX_PANES_PER_TAB = 4
+
+type TerminalShellChoice = {
+  path: string
+  // null starts the shell with its default login flags.
+  args: string[] | null
+}
 
-type TerminalShellChoice = 'zsh' | 'bash'
+type TerminalShellInfo = {
+  path: string
+  name: string
+  family: 'posix' | 'fish' | 'nushell'
+  source: '/etc/shells' | 'homebrew'
+}
 
-type ExecRequest = {
-  requestId: string
-  command: string
+type TerminalPaneConfig = {
+  paneId: string
+  shell: TerminalShellChoice
+  cwd: string | null
 }
 
-type ActiveExecState = {
-  requestId: string
-  beginMarker: string
-  doneMarker: string
-  started: boolean
-  partial: string
-  outputFilterPartial: string
-  captured: string
+type TerminalTabConfig = {
+  tabId: string
+  title: string
+  kind: 'jobs' | 'shell'
+  // `row` places panes side by side, `column` stacks them.
+  split: 'row' | 'column'
+  panes: TerminalPaneConfig[]
 }
 
-function encodeBinaryToBase64(data: string): string {
-  if (typeof window !== 'undefined' && typeof window.btoa === 'function') {
-    return window.btoa(data)
-  }
-  if (typeof Buffer !== 'undefined') {
-    return Buffer.from(data, 'binary').toString('base64')
-  }
-  return ''
+type TerminalLayoutState = {
+  tabs: TerminalTabConfig[]
+  activeTabId: string
+  focusedPaneIds: Record<string, string>
 }
 
-function getMarkerTailLength(input: string, marker: string): number {
-  const upper = Math.min(input.length, marker.length - 1)
-  for (let len = upper; len > 0; len -= 1) {
-    if (input.endsWith(marker.slice(0, len))) return len
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Also reads the plain `zsh`/`bash` values stored before arbitrary shells were supported.
+function parseShellChoice(value: unknown): TerminalShellChoice | null {
+  if (value === 'zsh' || value === 'bash') return { path: `/bin/${value}`, args: null }
+  if (!value || typeof value !== 'object') return null
+  const choice = value as Partial<TerminalShellChoice>
+  if (typeof choice.path !== 'string' || !choice.path.startsWith('/')) return null
+  return {
+    path: choice.path,
+    args: Array.isArray(choice.args)
+      ? choice.args.filter((arg): arg is string => typeof arg === 'string')
+      : null
   }
-  return 0
 }
 
-function findStandaloneMarkerLine(input: string, marker: string): number {
-  let searchFrom = 0
-  while (searchFrom < input.length) {
-    const idx = input.indexOf(marker, searchFrom)
-    if (idx === -1) return -1
-    const prev = idx === 0 ? '' : input[idx - 1]
-    const next = input[idx + marker.length] ?? ''
-    const prevOk = prev === '' || prev === '\n' || prev === '\r'
-    const nextOk = next === '' || next === '\n' || next === '\r'
-    if (prevOk && nextOk) {
-      return idx
-    }
-    searchFrom = idx + marker.length
+function readStoredJson(key: string): unknown {
+  const raw = window.localStorage.getItem(key)
+  if (raw === null) return null
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
   }
-  return -1
 }
 
-function escapeRegExp(input: string): string {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+function getStoredDefaultShell(): TerminalShellChoice {
+  if (typeof window === 'undefined') return DEFAULT_SHELL
+  return parseShellChoice(readStoredJson(TERMINAL_SHELL_STORAGE_KEY)) ?? DEFAULT_SHELL
 }
 
-function shouldFilterExecNoiseLine(line: string, beginMarker: string, doneMarker: string): boolean {
-  const normalized = line.replace(/\r?\n$/, '')
-  if (!normalized.trim()) return false
-  if (normalized.includes('__apppad_exec_code=$?')) return true
-  if (normalized.includes("printf '%s%s%s\\n'")) return true
-  if (normalized.includes(beginMarker)) return true
-  if (normalized.includes(doneMarker)) return true
-  if (/^\s*%\s*$/.test(normalized)) return true
-  if (/^\s*~\s*'\s*$/.test(normalized)) return true
-  return false
+function getStoredCustomShells(): TerminalShellChoice[] {
+  if (typeof window === 'undefined') return []
+  const stored = readStoredJson(TERMINAL_CUSTOM_SHELLS_STORAGE_KEY)
+  return (Array.isArray(stored) ? stored : [])
+    .map(parseShellChoice)
+    .filter((choice): choice is TerminalShellChoice => choice !== null)
 }
 
-function filterExecNoiseChunk(
-  chunk: string,
-  active: Pick<ActiveExecState, 'beginMarker' | 'doneMarker' | 'outputFilterPartial'>
-): {
-  visible: string
-  partial: string
-} {
-  const combined = `${active.outputFilterPartial}${chunk}`
-  let visible = ''
-  let cursor = 0
-
-  while (cursor < combined.length) {
-    const nextLf = combined.indexOf('\n', cursor)
-    if (nextLf === -1) break
-    const lineWithLf = combined.slice(cursor, nextLf + 1)
-    if (!shouldFilterExecNoiseLine(lineWithLf, active.beginMarker, active.doneMarker)) {
-      visible += lineWithLf
-    }
-    cursor = nextLf + 1
-  }
+function getShellKey(shell: TerminalShellChoice): string {
+  return JSON.stringify([shell.path, shell.args])
+}
+
+function getShellLabel(shell: TerminalShellChoice): string {
+  const name = shell.path.split('/').pop() || shell.path
+  return shell.args ? `${name} ${shell.args.join(' ')}`.trim() : name
+}
 
+function createPane(shell: TerminalShellChoice, cwd: string | null = null): TerminalPaneConfig {
+  return { paneId: createId('pane'), shell, cwd }
+}
+
+function createJobsTab(shell: TerminalShellChoice): TerminalTabConfig {
   return {
-    visible,
-    partial: combined.slice(cursor)
+    tabId: JOBS_TAB_ID,
+    title: 'Jobs',
+    kind: 'jobs',
+    split: 'row',
+    panes: [{ paneId: JOBS_TAB_ID, shell, cwd: null }]
   }
 }
 
-function buildExecWrapper(command: string, beginMarker: string, doneMarker: string): string {
-  const normalizedCommand = command.endsWith('\n') ? command : `${command}\n`
-  return `printf '%s\\n' '${beginMarker}'\n${normalizedCommand}__apppad_exec_code=$?\nprintf '%s%s%s\\n' '${doneMarker}' "$__apppad_exec_code" '__'\n`
+function createShellTab(title: string, shell: TerminalShellChoice): TerminalTabConfig {
+  return { tabId: createId('tab'), title, kind: 'shell', split: 'row', panes: [createPane(shell)] }
+}
+
+function nextShellTabTitle(tabs: TerminalTabConfig[]): string {
+  const used = new Set(tabs.map((tab) => tab.title))
+  let index = tabs.filter((tab) => tab.kind === 'shell').length + 1
+  while (used.has(`Shell ${index}`)) index += 1
+  return `Shell ${index}`
 }
 
-function getDoneMarkerPartialTailLength(input: string, doneMarker: string): number {
-  const markerTailLen = getMarkerTailLength(input, doneMarker)
-  const doneTailPattern = new RegExp(`${escapeRegExp(doneMarker)}-?\\d*_{0,2}$`)
-  const doneTailMatch = input.match(doneTailPattern)
-  if (!doneTailMatch) return markerTailLen
-  return Math.max(markerTailLen, doneTailMatch[0].length)
+function sanitizePane(value: unknown): TerminalPaneConfig | null {
+  if (!value || typeof value !== 'object') return null
+  const pane = value as Partial<TerminalPaneConfig>
+  if (typeof pane.paneId !== 'string' || !pane.paneId) return null
+  return {
+    paneId: pane.paneId,
+    shell: parseShellChoice(pane.shell) ?? DEFAULT_SHELL,
+    cwd: typeof pane.cwd === 'string' && pane.cwd ? pane.cwd : null
+  }
 }
 
-function getInitialTerminalShell(): TerminalShellChoice {
-  if (typeof window === 'undefined') return 'zsh'
-  const stored = window.localStorage.getItem(TERMINAL_SHELL_STORAGE_KEY)
-  return stored === 'bash' ? 'bash' : 'zsh'
+function sanitizeTab(value: unknown): TerminalTabConfig | null {
+  if (!value || typeof value !== 'object') return null
+  const tab = value as Partial<TerminalTabConfig>
+  if (typeof tab.tabId !== 'string' || !tab.tabId || tab.tabId === JOBS_TAB_ID) return null
+  const panes = (Array.isArray(tab.panes) ? tab.panes : [])
+    .map(sanitizePane)
+    .filter((pane): pane is TerminalPaneConfig => pane !== null)
+    .slice(0, MAX_PANES_PER_TAB)
+  if (panes.length === 0) return null
+  return {
+    tabId: tab.tabId,
+    title: typeof tab.title === 'string' && tab.title.trim() ? tab.title.trim() : 'Shell',
+    kind: 'shell',
+    split: tab.split === 'column' ? 'column' : 'row',
+    panes
+  }
 }
 
-function toShellPath(shell: TerminalShellChoice): string {
-  return shell === 'bash' ? '/bin/bash' : '/bin/zsh'
+function getInitialLayout(): TerminalLayoutState {
+  const defaultShell = getStoredDefaultShell()
+  const fallback = (): TerminalLayoutState => {
+    const shellTab = createShellTab('Shell 1', defaultShell)
+    return {
+      tabs: [createJobsTab(defaultShell), shellTab],
+      activeTabId: shellTab.tabId,
+      focusedPaneIds: {}
+    }
+  }
+  if (typeof window === 'undefined') return fallback()
+
+  try {
+    const raw = window.localStorage.getItem(TERMINAL_TABS_STORAGE_KEY)
+    if (!raw) return fallback()
+    const parsed = JSON.parse(raw) as { tabs?: unknown[]; activeTabId?: unknown }
+    const storedTabs = Array.isArray(parsed.tabs) ? parsed.tabs : []
+    const storedJobs = storedTabs.find(
+      (tab): tab is TerminalTabConfig =>
+        Boolean(tab) && (tab as TerminalTabConfig).tabId === JOBS_TAB_ID
+    )
+    const jobsTab = createJobsTab(parseShellChoice(storedJobs?.panes?.[0]?.shell) ?? defaultShell)
+    const shellTabs = storedTabs
+      .map(sanitizeTab)
+      .filter((tab): tab is TerminalTabConfig => tab !== null)
+    const tabs = [jobsTab, ...shellTabs]
+    const activeTabId = tabs.some((tab) => tab.tabId === parsed.activeTabId)
+      ? (parsed.activeTabId as string)
+      : tabs[tabs.length - 1].tabId
+    return { tabs, activeTabId, focusedPaneIds: {} }
+  } catch {
+    return fallback()
+  }
 }
 
 function GlobalTerminalPanel(): React.JSX.Element {
   const [expanded, setExpanded] = useState(false)
-  const [sessionReady, setSessionReady] = useState(false)
-  const [selectedShell, setSelectedShell] = useState<TerminalShellChoice>(() => getInitialTerminalShell())
-
-  const containerRef = useRef<HTMLDivElement | null>(null)
-  const termRef = useRef<Terminal | null>(null)
-  const fitRef = useRef<FitAddon | null>(null)
-  const sessionIdRef = useRef<number | null>(null)
-  const selectedShellRef = useRef<TerminalShellChoice>(selectedShell)
-  const recreateSessionRef = useRef<(() => Promise<void>) | null>(null)
-  const suppressNextExitRef = useRef(false)
-  const creatingSessionPromiseRef = useRef<Promise<void> | null>(null)
-  const pumpingOutputRef = useRef(false)
-  const flowPausedRef = useRef(false)
-  const pendingOutputRef = useRef<string[]>([])
-  const pendingBytesRef = useRef(0)
-  const execQueueRef = useRef<ExecRequest[]>([])
-  const activeExecRef = useRef<ActiveExecState | null>(null)
-  const activeExecTimeoutIdRef = useRef<number | null>(null)
-  const suppressNextPromptRef = useRef(false)
-  const sessionJustStartedRef = useRef(false)
-  const userInteractedRef = useRef(false)
-
-  const openPanel = (): void => {
-    setExpanded(true)
-    setTimeout(() => {
-      fitRef.current?.fit()
-      const sessionId = sessionIdRef.current
-      const dims = fitRef.current?.proposeDimensions()
-      if (sessionId && dims) {
-        void window.api.resizeTerminalSession(sessionId, dims.cols, dims.rows)
-      }
-      termRef.current?.focus()
-    }, 220)
-  }
+  const [layout, setLayout] = useState<TerminalLayoutState>(() => getInitialLayout())
+  const [readyPaneIds, setReadyPaneIds] = useState<Set<string>>(() => new Set())
+  const [renamingTabId, setRenamingTabId] = useState<string | null>(null)
+  const [renameDraft, setRenameDraft] = useState('')
+  const [findPaneId, setFindPaneId] = useState<string | null>(null)
+  const [scrollbackOpen, setScrollbackOpen] = useState(false)
+  const [availableShells, setAvailableShells] = useState<TerminalShellInfo[]>([])
+  const [customShells, setCustomShells] = useState<TerminalShellChoice[]>(() =>
+    getStoredCustomShells()
+  )
+  const [customShellOpen, setCustomShellOpen] = useState(false)
 
-  useEffect(() => {
-    selectedShellRef.current = selectedShell
-    if (typeof window !== 'undefined') {
-      window.localStorage.setItem(TERMINAL_SHELL_STORAGE_KEY, selectedShell)
-    }
-  }, [selectedShell])
+  const { tabs, activeTabId, focusedPaneIds } = layout
+  const activeTab = tabs.find((tab) => tab.tabId === activeTabId) ?? tabs[0]
+  const focusedPane =
+    activeTab.panes.find((pane) => pane.paneId === focusedPaneIds[activeTab.tabId]) ??
+    activeTab.panes[0]
+  const activeTabReady = activeTab.panes.some((pane) => readyPaneIds.has(pane.paneId))
 
   useEffect(() => {
-    if (!containerRef.current || termRef.current) return
-
-    const term = new Terminal({
-      cursorBlink: true,
-      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
-      fontSize: 13,
-      scrollback: 5000,
-      theme: {
-        background: 'rgba(17, 17, 19, 0.96)',
-        foreground: '#e6edf3'
-      }
-    })
-
-    const fit = new FitAddon()
-    term.loadAddon(fit)
-    term.loadAddon(new WebLinksAddon())
-    term.open(containerRef.current)
-    fit.fit()
-    term.focus()
-
-    termRef.current = term
-    fitRef.current = fit
-
-    const dispatchExecResult = (requestId: string, result: TerminalExecResult): void => {
-      window.dispatchEvent(
-        new CustomEvent<{ requestId: string; result: TerminalExecResult }>(TERMINAL_EVENTS.execResultEvent, {
-          detail: { requestId, result }
-        })
-      )
-    }
-
-    const clearActiveExecTimeout = (): void => {
-      if (activeExecTimeoutIdRef.current === null) return
-      window.clearTimeout(activeExecTimeoutIdRef.current)
-      activeExecTimeoutIdRef.current = null
-    }
+    if (typeof window === 'undefined') return
+    window.localStorage.setItem(TERMINAL_TABS_STORAGE_KEY, JSON.stringify({ tabs, activeTabId }))
+  }, [tabs, activeTabId])
 
-    const failPendingExecRequests = (message: string): void => {
-      if (activeExecRef.current) {
-        const active = activeExecRef.current
-        activeExecRef.current = null
-        clearActiveExecTimeout()
-        dispatchExecResult(active.requestId, {
-          success: false,
-          code: null,
-          stdout: active.captured,
-          stderr: '',
-          error: message
-        })
-      }
-
-      while (execQueueRef.current.length > 0) {
-        const queued = execQueueRef.current.shift()
-        if (!queued) continue
-        dispatchExecResult(queued.requestId, {
-          success: false,
-          code: null,
-          stdout: '',
-          stderr: '',
-          error: message
-        })
-      }
-    }
-
-    const setFlowPaused = async (paused: boolean): Promise<void> => {
-      const sessionId = sessionIdRef.current
-      if (!sessionId) return
-      if (flowPausedRef.current === paused) return
-      const result = await window.api.setTerminalSessionFlowControl(sessionId, paused)
-      if (result.success) {
-        flowPausedRef.current = paused
-      }
-    }
+  useEffect(() => {
+    void window.api
+      .listTerminalShells()
+      .then(setAvailableShells)
+      .catch(() => setAvailableShells([]))
+  }, [])
 
-    const pumpOutput = (): void => {
-      if (pumpingOutputRef.current || !termRef.current) return
-      pumpingOutputRef.current = true
-      const writeNext = (): void => {
-        if (!termRef.current) {
-          pumpingOutputRef.current = false
-          return
-        }
-        const chunk = pendingOutputRef.current.shift()
-        if (!chunk) {
-          pumpingOutputRef.current = false
-          if (flowPausedRef.current && pendingBytesRef.current <= OUTPUT_RESUME_WATERMARK) {
-            void setFlowPaused(false)
-          }
-          return
-        }
-        pendingBytesRef.current = Math.max(0, pendingBytesRef.current - chunk.length)
-        termRef.current.write(chunk, () => {
-          if (flowPausedRef.current && pendingBytesRef.current <= OUTPUT_RESUME_WATERMARK) {
-            void setFlowPaused(false)
-          }
-          writeNext()
-        })
-      }
-      writeNext()
-    }
+  const showJobsTab = useCallback((): void => {
+    setExpanded(true)
+    setLayout((prev) =>
+      prev.activeTabId === JOBS_TAB_ID ? prev : { ...prev, activeTabId: JOBS_TAB_ID }
+    )
+  }, [])
 
-    const enqueueOutput = (data: string): void => {
-      if (!data) return
-      pendingOutputRef.current.push(data)
-      pendingBytesRef.current += data.length
-      if (!flowPausedRef.current && pendingBytesRef.current >= OUTPUT_PAUSE_WATERMARK) {
-        void setFlowPaused(true)
-      }
-      pumpOutput()
+  useEffect(() => {
+    const openHandler = (): void => {
+      setExpanded(true)
     }
+    // App-initiated output always lands in the jobs tab, so bring it forward.
+    const unsubscribeJobRun = window.api.onJobRun((payload) => {
+      if (payload?.itemId && payload.command) showJobsTab()
+    })
 
-    const syncPtySize = async (): Promise<void> => {
-      fit.fit()
-      const sessionId = sessionIdRef.current
-      const dims = fit.proposeDimensions()
-      if (!sessionId || !dims) return
-      await window.api.resizeTerminalSession(sessionId, dims.cols, dims.rows)
+    window.addEventListener(TERMINAL_EVENTS.openEvent, openHandler as EventListener)
+    window.addEventListener(TERMINAL_EVENTS.appendEvent, showJobsTab as EventListener)
+    return () => {
+      unsubscribeJobRun()
+      window.removeEventListener(TERMINAL_EVENTS.openEvent, openHandler as EventListener)
+      window.removeEventListener(TERMINAL_EVENTS.appendEvent, showJobsTab as EventListener)
     }
+  }, [showJobsTab])
+
+  const updateTab = (
+    tabId: string,
+    update: (tab: TerminalTabConfig) => TerminalTabConfig
+  ): void => {
+    setLayout((prev) => ({
+      ...prev,
+      tabs: prev.tabs.map((tab) => (tab.tabId === tabId ? update(tab) : tab))
+    }))
+  }
 
-    const ensureSession = async (): Promise<void> => {
-      if (sessionIdRef.current) return
-      if (creatingSessionPromiseRef.current) {
-        await creatingSessionPromiseRef.current
-        return
-      }
-
-      const creation = (async () => {
-        try {
-          const result = await window.api.createTerminalSession({
-            shell: toShellPath(selectedShellRef.current)
+  const updatePane = (paneId: string, update: Partial<TerminalPaneConfig>): void => {
+    setLayout((prev) => {
+      let changed = false
+      const nextTabs = prev.tabs.map((tab) => {
+        if (!tab.panes.some((pane) => pane.paneId === paneId)) return tab
+        return {
+          ...tab,
+          panes: tab.panes.map((pane) => {
+            if (pane.paneId !== paneId) return pane
+            const next = { ...pane, ...update }
+            changed =
+              changed ||
+              getShellKey(next.shell) !== getShellKey(pane.shell) ||
+              next.cwd !== pane.cwd
+            return next
           })
-          sessionIdRef.current = result.sessionId
-          sessionJustStartedRef.current = true
-          userInteractedRef.current = false
-          flowPausedRef.current = false
-          setSessionReady(true)
-          await syncPtySize()
-          term.focus()
-        } catch (error) {
-          setSessionReady(false)
-          enqueueOutput(`${error instanceof Error ? error.message : 'failed to start terminal session'}\r\n`)
-        }
-      })()
-
-      creatingSessionPromiseRef.current = creation
-      try {
-        await creation
-      } finally {
-        if (creatingSessionPromiseRef.current === creation) {
-          creatingSessionPromiseRef.current = null
-        }
-      }
-    }
-
-    const processExecOutput = (incoming: string): string => {
-      const active = activeExecRef.current
-      if (!active) return incoming
-
-      const combined = `${active.partial}${incoming}`
-      if (!active.started) {
-        const beginIndex = findStandaloneMarkerLine(combined, active.beginMarker)
-        if (beginIndex === -1) {
-          const keepLen = Math.max(getMarkerTailLength(combined, active.beginMarker), active.beginMarker.length)
-          active.partial = combined.slice(Math.max(0, combined.length - keepLen))
-          return ''
-        }
-        active.started = true
-        active.partial = ''
-        const afterBeginRaw = combined.slice(beginIndex + active.beginMarker.length)
-        const afterBegin =
-          afterBeginRaw.startsWith('\r\n')
-            ? afterBeginRaw.slice(2)
-            : afterBeginRaw.startsWith('\n')
-              ? afterBeginRaw.slice(1)
-              : afterBeginRaw
-        return processExecOutput(afterBegin)
-      }
-
-      const donePattern = new RegExp(`${escapeRegExp(active.doneMarker)}(-?\\d+)__`)
-      const doneMatch = donePattern.exec(combined)
-      if (!doneMatch) {
-        const keepLen = getDoneMarkerPartialTailLength(combined, active.doneMarker)
-        const rawVisible = combined.slice(0, combined.length - keepLen)
-        const filtered = filterExecNoiseChunk(rawVisible, active)
-        active.partial = combined.slice(combined.length - keepLen)
-        active.outputFilterPartial = filtered.partial
-        active.captured += filtered.visible
-        return filtered.visible
-      }
-
-      const markerIndex = combined.indexOf(active.doneMarker, doneMatch.index)
-      const parsedCode = Number.parseInt(doneMatch[1] ?? '1', 10)
-      const markerSuffixLength = active.doneMarker.length + String(doneMatch[1] ?? '').length + 2
-
-      const rawVisibleBefore = combined.slice(0, markerIndex)
-      const filteredBefore = filterExecNoiseChunk(rawVisibleBefore, active)
-      active.outputFilterPartial = filteredBefore.partial
-      active.captured += filteredBefore.visible
-      if (
-        active.outputFilterPartial &&
-        !shouldFilterExecNoiseLine(active.outputFilterPartial, active.beginMarker, active.doneMarker)
-      ) {
-        active.captured += active.outputFilterPartial
-      }
-      active.outputFilterPartial = ''
-
-      const exitCode = Number.isNaN(parsedCode) ? 1 : parsedCode
-      const requestId = active.requestId
-      const stdout = active.captured
-
-      clearActiveExecTimeout()
-      activeExecRef.current = null
-
-      if (exitCode === 0) {
-        dispatchExecResult(requestId, {
-          success: true,
-          code: 0,
-          stdout,
-          stderr: ''
-        })
-      } else {
-        const errorMessage = `Command exited with code ${exitCode}.`
-        dispatchExecResult(requestId, {
-          success: false,
-          code: exitCode,
-          stdout,
-          stderr: errorMessage,
-          error: errorMessage
-        })
-      }
-
-      suppressNextPromptRef.current = true
-      void startNextExec()
-      return filteredBefore.visible + combined.slice(markerIndex + markerSuffixLength)
-    }
-
-    const stripPostExecPromptNoise = (output: string): string => {
-      if (!suppressNextPromptRef.current || !output) return output
-
-      if (/^(?:\r?\n)*\s*%\s*$/.test(output) || /^(?:\r?\n)*\s*~\s*'\s*$/.test(output)) {
-        suppressNextPromptRef.current = false
-        return ''
-      }
-
-      const promptWithNewline = output.match(/^(?:\r?\n)*\s*%\s*(\r?\n)/)
-      if (promptWithNewline) {
-        suppressNextPromptRef.current = false
-        return output.slice(promptWithNewline[0].length)
-      }
-
-      if (/\S/.test(output)) {
-        suppressNextPromptRef.current = false
-      }
-
-      return output
-    }
-
-    const stripInitialPromptNoise = (output: string): string => {
-      if (!output) return output
-      if (!sessionJustStartedRef.current || userInteractedRef.current) return output
-
-      const promptOnly = output.match(/^(?:\r?\n)*\s*%\s*(?:\r?\n)?$/)
-      if (promptOnly) {
-        return ''
-      }
-
-      const leadingPromptWithNewline = output.match(/^(?:\r?\n)*\s*%\s*(\r?\n)/)
-      if (leadingPromptWithNewline) {
-        sessionJustStartedRef.current = false
-        return output.slice(leadingPromptWithNewline[0].length)
-      }
-
-      if (/\S/.test(output)) {
-        sessionJustStartedRef.current = false
-      }
-      return output
-    }
-
-    const startNextExec = async (): Promise<void> => {
-      if (activeExecRef.current) return
-      if (execQueueRef.current.length === 0) return
-
-      await ensureSession()
-      if (activeExecRef.current) return
-      const sessionId = sessionIdRef.current
-      if (!sessionId) {
-        failPendingExecRequests('Unable to create terminal session.')
-        return
-      }
-
-      const next = execQueueRef.current.shift()
-      if (!next) return
-
-      const beginMarker = `${EXEC_BEGIN_MARKER_PREFIX}${next.requestId}__`
-      const doneMarker = `${EXEC_DONE_MARKER_PREFIX}${next.requestId}_`
-      activeExecRef.current = {
-        requestId: next.requestId,
-        beginMarker,
-        doneMarker,
-        started: false,
-        partial: '',
-        outputFilterPartial: '',
-        captured: ''
-      }
-      clearActiveExecTimeout()
-      activeExecTimeoutIdRef.current = window.setTimeout(() => {
-        const active = activeExecRef.current
-        if (!active || active.requestId !== next.requestId) return
-        activeExecRef.current = null
-        dispatchExecResult(next.requestId, {
-          success: false,
-          code: null,
-          stdout: active.captured,
-          stderr: '',
-          error: `Command timed out after ${Math.round(EXEC_REQUEST_TIMEOUT_MS / 1000)}s in global terminal.`
-        })
-        if (sessionIdRef.current) {
-          void window.api.writeTerminalSession(sessionIdRef.current, '\u0003')
         }
-        void startNextExec()
-      }, EXEC_REQUEST_TIMEOUT_MS)
-
-      const wrapper = buildExecWrapper(next.command, beginMarker, doneMarker)
-      const writeResult = await window.api.writeTerminalSession(sessionId, wrapper)
-      if (!writeResult.success) {
-        activeExecRef.current = null
-        clearActiveExecTimeout()
-        dispatchExecResult(next.requestId, {
-          success: false,
-          code: null,
-          stdout: '',
-          stderr: '',
-          error: 'Failed to write command to terminal session.'
-        })
-        void startNextExec()
-      }
-    }
-
-    const recreateSession = async (): Promise<void> => {
-      if (activeExecRef.current || execQueueRef.current.length > 0) {
-        failPendingExecRequests('Terminal session restarted before command completion.')
-      }
-      if (sessionIdRef.current) {
-        suppressNextExitRef.current = true
-        if (flowPausedRef.current) {
-          await window.api.setTerminalSessionFlowControl(sessionIdRef.current, false)
-        }
-        await window.api.closeTerminalSession(sessionIdRef.current)
-        sessionIdRef.current = null
-        flowPausedRef.current = false
-        setSessionReady(false)
-        suppressNextExitRef.current = false
-      }
-      await ensureSession()
-    }
-
-    recreateSessionRef.current = recreateSession
-
-    void ensureSession()
-
-    const disposeData = term.onData((data) => {
-      if (data.length > 0) {
-        userInteractedRef.current = true
-        sessionJustStartedRef.current = false
-      }
-      const sessionId = sessionIdRef.current
-      if (!sessionId) {
-        if (data === '\r') {
-          term.writeln('')
-          void ensureSession()
-        }
-        return
-      }
-      void window.api.writeTerminalSession(sessionId, data)
+      })
+      return changed ? { ...prev, tabs: nextTabs } : prev
     })
+  }
 
-    const disposeBinary = term.onBinary((data) => {
-      const sessionId = sessionIdRef.current
-      if (!sessionId) return
-      const dataBase64 = encodeBinaryToBase64(data)
-      if (!dataBase64) return
-      void window.api.writeTerminalSessionBinary(sessionId, dataBase64)
-    })
+  const focusPane = (tabId: string, paneId: string): void => {
+    setLayout((prev) =>
+      prev.focusedPaneIds[tabId] === paneId
+        ? prev
+        : { ...prev, focusedPaneIds: { ...prev.focusedPaneIds, [tabId]: paneId } }
+    )
+  }
 
-    const unsubscribeTerminalData = window.api.onTerminalData((payload) => {
-      if (payload.sessionId !== sessionIdRef.current || !termRef.current) return
-      const visibleOutput = stripInitialPromptNoise(
-        stripPostExecPromptNoise(processExecOutput(payload.data))
-      )
-      if (visibleOutput.length > 0) {
-        enqueueOutput(visibleOutput)
-      }
+  const setPaneReady = useCallback((paneId: string, ready: boolean): void => {
+    setReadyPaneIds((prev) => {
+      if (prev.has(paneId) === ready) return prev
+      const next = new Set(prev)
+      if (ready) next.add(paneId)
+      else next.delete(paneId)
+      return next
     })
+  }, [])
 
-    const unsubscribeTerminalExit = window.api.onTerminalExit((payload) => {
-      if (payload.sessionId !== sessionIdRef.current || !termRef.current) return
-      sessionIdRef.current = null
-      flowPausedRef.current = false
-      setSessionReady(false)
-      if (suppressNextExitRef.current) {
-        suppressNextExitRef.current = false
-        return
-      }
-      failPendingExecRequests(`Terminal session exited (${payload.code ?? 'unknown'}).`)
-      enqueueOutput(`\r\n[terminal exited (${payload.code ?? 'unknown'})]\r\nPress Enter to restart shell session.\r\n`)
+  const addTab = (): void => {
+    setLayout((prev) => {
+      const tab = createShellTab(nextShellTabTitle(prev.tabs), getStoredDefaultShell())
+      return { ...prev, tabs: [...prev.tabs, tab], activeTabId: tab.tabId }
     })
+  }
 
-    const resizeHandler = (): void => {
-      void syncPtySize()
-    }
-
-    const appendHandler = (event: Event): void => {
-      const custom = event as CustomEvent<string>
-      if (!custom.detail || !termRef.current) return
-      setExpanded(true)
-      const normalized = custom.detail.replace(/\r?\n/g, '\r\n')
-      enqueueOutput(normalized.endsWith('\r\n') ? normalized : `${normalized}\r\n`)
-    }
+  const closeTab = (tabId: string): void => {
+    if (tabId === JOBS_TAB_ID) return
+    setLayout((prev) => {
+      const index = prev.tabs.findIndex((tab) => tab.tabId === tabId)
+      if (index < 0) return prev
+      const nextTabs = prev.tabs.filter((tab) => tab.tabId !== tabId)
+      const nextActive =
+        prev.activeTabId === tabId ? nextTabs[Math.max(0, index - 1)].tabId : prev.activeTabId
+      const nextFocused = { ...prev.focusedPaneIds }
+      delete nextFocused[tabId]
+      return { tabs: nextTabs, activeTabId: nextActive, focusedPaneIds: nextFocused }
+    })
+  }
 
-    const execHandler = (event: Event): void => {
-      const custom = event as CustomEvent<ExecRequest>
-      const payload = custom.detail
-      if (!payload?.requestId || !payload.command) return
-      setExpanded(true)
-      execQueueRef.current.push(payload)
-      void startNextExec()
-    }
+  const splitActiveTab = (split: TerminalTabConfig['split']): void => {
+    if (activeTab.kind === 'jobs' || activeTab.panes.length >= MAX_PANES_PER_TAB) return
+    // New panes inherit the focused pane's shell and working directory.
+    const pane = createPane(focusedPane.shell, focusedPane.cwd)
+    setLayout((prev) => ({
+      ...prev,
+      tabs: prev.tabs.map((tab) =>
+        tab.tabId === activeTab.tabId ? { ...tab, split, panes: [...tab.panes, pane] } : tab
+      ),
+      focusedPaneIds: { ...prev.focusedPaneIds, [activeTab.tabId]: pane.paneId }
+    }))
+  }
 
-    const openHandler = (): void => {
-      openPanel()
-      window.dispatchEvent(new CustomEvent(TERMINAL_EVENTS.readyEvent))
-    }
+  const closePane = (tabId: string, paneId: string): void => {
+    updateTab(tabId, (tab) =>
+      tab.panes.length > 1
+        ? { ...tab, panes: tab.panes.filter((pane) => pane.paneId !== paneId) }
+        : tab
+    )
+    setPaneReady(paneId, false)
+  }
 
-    const resizeObserver = new ResizeObserver(() => {
-      void syncPtySize()
-    })
-    resizeObserver.observe(containerRef.current)
+  const commitRename = (): void => {
+    if (!renamingTabId) return
+    const title = renameDraft.trim()
+    if (title) updateTab(renamingTabId, (tab) => ({ ...tab, title }))
+    setRenamingTabId(null)
+  }
 
-    window.addEventListener(TERMINAL_EVENTS.appendEvent, appendHandler as EventListener)
-    window.addEventListener(TERMINAL_EVENTS.openEvent, openHandler as EventListener)
-    window.addEventListener(TERMINAL_EVENTS.execEvent, execHandler as EventListener)
-    window.addEventListener('resize', resizeHandler)
-    window.dispatchEvent(new CustomEvent(TERMINAL_EVENTS.readyEvent))
+  const switchTerminalShell = (shell: TerminalShellChoice): void => {
+    if (getShellKey(shell) === getShellKey(focusedPane.shell)) return
+    updatePane(focusedPane.paneId, { shell })
+    window.localStorage.setItem(TERMINAL_SHELL_STORAGE_KEY, JSON.stringify(shell))
+  }
 
-    return () => {
-      window.dispatchEvent(new CustomEvent(TERMINAL_EVENTS.disposedEvent))
-      resizeObserver.disconnect()
-      window.removeEventListener(TERMINAL_EVENTS.appendEvent, appendHandler as EventListener)
-      window.removeEventListener(TERMINAL_EVENTS.openEvent, openHandler as EventListener)
-      window.removeEventListener(TERMINAL_EVENTS.execEvent, execHandler as EventListener)
-      window.removeEventListener('resize', resizeHandler)
-      unsubscribeTerminalData()
-      unsubscribeTerminalExit()
-      disposeBinary.dispose()
-      failPendingExecRequests('Terminal panel was disposed before command completion.')
-      clearActiveExecTimeout()
-      creatingSessionPromiseRef.current = null
-      recreateSessionRef.current = null
-      if (sessionIdRef.current) {
-        if (flowPausedRef.current) {
-          void window.api.setTerminalSessionFlowControl(sessionIdRef.current, false)
-        }
-        void window.api.closeTerminalSession(sessionIdRef.current)
-        sessionIdRef.current = null
-      }
-      flowPausedRef.current = false
-      pumpingOutputRef.current = false
-      pendingOutputRef.current = []
-      pendingBytesRef.current = 0
-      setSessionReady(false)
-      disposeData.dispose()
-      fit.dispose()
-      term.dispose()
-      fitRef.current = null
-      termRef.current = null
-    }
-  }, [])
+  const addCustomShell = (shell: TerminalShellChoice): void => {
+    const next = [
+      ...customShells.filter((entry) => getShellKey(entry) !== getShellKey(shell)),
+      shell
+    ]
+    setCustomShells(next)
+    window.localStorage.setItem(TERMINAL_CUSTOM_SHELLS_STORAGE_KEY, JSON.stringify(next))
+    switchTerminalShell(shell)
+  }
 
-  const switchTerminalShell = (shell: TerminalShellChoice): void => {
-    if (shell === selectedShell) return
-    setSelectedShell(shell)
-    if (recreateSessionRef.current) {
-      void recreateSessionRef.current()
-    }
+  // Discovered shells first, then custom entries and the focused pane's shell if it is neither.
+  const shellOptions: Array<{ key: string; label: string; shell: TerminalShellChoice }> = []
+  const addShellOption = (shell: TerminalShellChoice, label = getShellLabel(shell)): void => {
+    const key = getShellKey(shell)
+    if (!shellOptions.some((option) => option.key === key)) shellOptions.push({ key, label, shell })
   }
+  availableShells.forEach((info) =>
+    addShellOption({ path: info.path, args: null }, info.path.replace(/^\/bin\//, ''))
+  )
+  customShells.forEach((shell) => addShellOption(shell, `${getShellLabel(shell)} (custom)`))
+  addShellOption(focusedPane.shell, focusedPane.shell.path)
+
+  const tabButtonClass = (active: boolean): string =>
+    `group flex h-7 max-w-[9rem] shrink-0 items-center gap-1 rounded-md px-2 text-xs ${
+      active
+        ? 'bg-white/[0.12] text-zinc-100'
+        : 'text-zinc-400 hover:bg-white/[0.06] hover:text-zinc-100'
+    }`
+  const headerIconButtonClass = 'h-7 w-7 text-zinc-300 hover:bg-white/[0.08] hover:text-white'
+  const canSplit = activeTab.kind === 'shell' && activeTab.panes.length < MAX_PANES_PER_TAB
 
   return (
     <>
@@ -672,75 +391,218 @@ function GlobalTerminalPanel(): React.JSX.Element {
           size="icon"
           variant="ghost"
           className="fixed bottom-6 right-6 z-50 h-10 w-10 rounded-full border-0 bg-[#121214]/92 text-zinc-100 shadow-xl shadow-black/45 backdrop-blur-md hover:bg-[#1b1b1f] hover:text-white"
-          onClick={openPanel}
+          onClick={() => setExpanded(true)}
           title="Open terminal"
         >
           <TerminalSquare className="h-4 w-4" />
         </Button>
       ) : null}
       <aside
-        className={`fixed bottom-6 right-6 z-50 w-[min(560px,calc(100vw-3rem))] transition-transform duration-300 ease-out ${
+        className={`fixed bottom-6 right-6 z-50 w-[min(720px,calc(100vw-3rem))] transition-transform duration-300 ease-out ${
           expanded ? 'translate-x-0' : 'translate-x-[calc(100%+3rem)]'
         }`}
       >
         <div className="overflow-hidden rounded-xl bg-[#111113]/95 shadow-2xl shadow-black/50 backdrop-blur-xl">
-          <div className="flex h-10 items-center justify-between border-b border-white/[0.08] bg-gradient-to-b from-[#1a1a1d]/72 to-[#131316]/58 px-3 text-zinc-100">
+          <div className="flex h-10 items-center justify-between gap-2 border-b border-white/[0.08] bg-gradient-to-b from-[#1a1a1d]/72 to-[#131316]/58 px-3 text-zinc-100">
             <div className="flex items-center gap-2 text-sm">
               <TerminalSquare className="h-4 w-4" />
-              <span>{sessionReady ? 'Terminal' : 'Starting shell...'}</span>
+              <span>{activeTabReady ? 'Terminal' : 'Starting shell...'}</span>
             </div>
-            <div className="flex items-center gap-2">
-              <div
-                role="radiogroup"
+            <div className="flex items-center gap-1">
+              <select
                 aria-label="Terminal shell"
-                className="flex items-center gap-1 rounded-md bg-[#17171a] p-0.5"
+                title={focusedPane.shell.path}
+                value={getShellKey(focusedPane.shell)}
+                onChange={(event) => {
+                  if (event.target.value === CUSTOM_SHELL_OPTION) {
+                    setCustomShellOpen(true)
+                    return
+                  }
+                  const option = shellOptions.find((entry) => entry.key === event.target.value)
+                  if (option) switchTerminalShell(option.shell)
+                }}
+                className="mr-1 h-7 max-w-[11rem] rounded-md border-0 bg-[#17171a] px-2 text-xs text-zinc-100 outline-none"
               >
-                <button
-                  type="button"
-                  role="radio"
-                  aria-checked={selectedShell === 'zsh'}
-                  onClick={() => switchTerminalShell('zsh')}
-                  className={`h-6 rounded px-2 text-xs ${
-                    selectedShell === 'zsh'
-                      ? 'bg-white/[0.14] text-zinc-100'
-                      : 'text-zinc-400 hover:bg-white/[0.08] hover:text-zinc-100'
-                  }`}
-                >
-                  zsh
-                </button>
-                <button
-                  type="button"
-                  role="radio"
-                  aria-checked={selectedShell === 'bash'}
-                  onClick={() => switchTerminalShell('bash')}
-                  className={`h-6 rounded px-2 text-xs ${
-                    selectedShell === 'bash'
-                      ? 'bg-white/[0.14] text-zinc-100'
-                      : 'text-zinc-400 hover:bg-white/[0.08] hover:text-zinc-100'
-                  }`}
-                >
-                  bash
-                </button>
-              </div>
+                {shellOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+                <option value={CUSTOM_SHELL_OPTION}>Custom shell...</option>
+              </select>
               <Button
                 size="icon"
                 variant="ghost"
-                className="h-7 w-7 text-zinc-300 hover:bg-white/[0.08] hover:text-white"
+                className={headerIconButtonClass}
+                onClick={() =>
+                  setFindPaneId((prev) => (prev === focusedPane.paneId ? null : focusedPane.paneId))
+                }
+                title="Find in terminal (⌘F)"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={headerIconButtonClass}
+                onClick={() => setScrollbackOpen(true)}
+                title="Saved terminal output"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={headerIconButtonClass}
+                onClick={() => splitActiveTab('row')}
+                disabled={!canSplit}
+                title="Split right"
+              >
+                <Columns2 className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={headerIconButtonClass}
+                onClick={() => splitActiveTab('column')}
+                disabled={!canSplit}
+                title="Split down"
+              >
+                <Rows2 className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={headerIconButtonClass}
                 onClick={() => setExpanded(false)}
+                title="Minimize terminal"
               >
                 <Minimize2 className="h-4 w-4" />
               </Button>
             </div>
           </div>
-          <div className="bg-[#111113] p-2">
-            <div
-              ref={containerRef}
-              className="h-72 w-full overflow-hidden rounded-md bg-[#0b0b0d]"
-              onClick={() => termRef.current?.focus()}
-            />
+          <div className="flex items-center gap-1 overflow-x-auto border-b border-white/[0.06] bg-[#131316] px-2 py-1">
+            {tabs.map((tab) => {
+              const active = tab.tabId === activeTab.tabId
+              return (
+                <div
+                  key={tab.tabId}
+                  role="tab"
+                  aria-selected={active}
+                  className={tabButtonClass(active)}
+                  onClick={() => setLayout((prev) => ({ ...prev, activeTabId: tab.tabId }))}
+                  onDoubleClick={() => {
+                    if (tab.kind === 'jobs') return
+                    setRenamingTabId(tab.tabId)
+                    setRenameDraft(tab.title)
+                  }}
+                >
+                  {renamingTabId === tab.tabId ? (
+                    <input
+                      autoFocus
+                      value={renameDraft}
+                      onChange={(event) => setRenameDraft(event.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') commitRename()
+                        if (event.key === 'Escape') setRenamingTabId(null)
+                      }}
+                      className="w-24 bg-transparent text-xs text-zinc-100 outline-none"
+                      aria-label="Tab name"
+                    />
+                  ) : (
+                    <span className="truncate">{tab.title}</span>
+                  )}
+                  {tab.kind === 'shell' ? (
+                    <button
+                      type="button"
+                      className="rounded p-0.5 text-zinc-500 opacity-0 hover:bg-white/[0.1] hover:text-zinc-100 group-hover:opacity-100"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        closeTab(tab.tabId)
+                      }}
+                      aria-label={`Close ${tab.title}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  ) : null}
+                </div>
+              )
+            })}
+            <button
+              type="button"
+              className="flex h-7 w-7 shrink-0 items-center justify-center rounded-md text-zinc-400 hover:bg-white/[0.06] hover:text-zinc-100"
+              onClick={addTab}
+              aria-label="New terminal tab"
+              title="New terminal tab"
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="relative h-80 bg-[#111113] p-2">
+            {tabs.map((tab) => {
+              const tabVisible = expanded && tab.tabId === activeTab.tabId
+              const tabFocusedPaneId = focusedPaneIds[tab.tabId] ?? tab.panes[0].paneId
+              return (
+                <div
+                  key={tab.tabId}
+                  className={`h-full gap-2 ${tab.split === 'column' ? 'flex-col' : 'flex-row'} ${
+                    tab.tabId === activeTab.tabId ? 'flex' : 'hidden'
+                  }`}
+                >
+                  {tab.panes.map((pane) => (
+                    <div
+                      key={pane.paneId}
+                      className={`relative min-h-0 min-w-0 flex-1 rounded-md ${
+                        tab.panes.length > 1 && pane.paneId === tabFocusedPaneId
+                          ? 'ring-1 ring-white/[0.18]'
+                          : ''
+                      }`}
+                    >
+                      <TerminalPane
+                        title={tab.title}
+                        shellPath={pane.shell.path}
+                        shellArgs={pane.shell.args}
+                        cwd={pane.cwd}
+                        visible={tabVisible}
+                        focused={pane.paneId === tabFocusedPaneId}
+                        jobExecutor={tab.kind === 'jobs'}
+                        findOpen={findPaneId === pane.paneId}
+                        onFindOpenChange={(open) => {
+                          setFindPaneId((prev) =>
+                            open ? pane.paneId : prev === pane.paneId ? null : prev
+                          )
+                        }}
+                        onFocus={() => focusPane(tab.tabId, pane.paneId)}
+                        onCwdChange={(cwd) => updatePane(pane.paneId, { cwd })}
+                        onReadyChange={(ready) => setPaneReady(pane.paneId, ready)}
+                      />
+                      {tab.panes.length > 1 ? (
+                        <button
+                          type="button"
+                          className="absolute right-1 top-1 rounded p-0.5 text-zinc-500 hover:bg-white/[0.1] hover:text-zinc-100"
+                          onClick={() => closePane(tab.tabId, pane.paneId)}
+                          aria-label="Close pane"
+                          title="Close pane"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+              )
+            })}
           </div>
         </div>
       </aside>
+      <TerminalScrollbackDialog open={scrollbackOpen} onOpenChange={setScrollbackOpen} />
+      <TerminalShellDialog
+        open={customShellOpen}
+        onOpenChange={setCustomShellOpen}
+        initialShell={focusedPane.shell}
+        onSave={addCustomShell}
+      />
     </>
   )
 }
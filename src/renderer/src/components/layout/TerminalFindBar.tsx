@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from 'react'
+import { ChevronDown, ChevronUp, X } from 'lucide-react'
+import type { ISearchOptions, SearchAddon } from '@xterm/addon-search'
+
+const SEARCH_DECORATIONS: ISearchOptions['decorations'] = {
+  matchBackground: '#3f3f46',
+  matchOverviewRuler: '#71717a',
+  activeMatchBackground: '#ca8a04',
+  activeMatchColorOverviewRuler: '#facc15'
+}
+
+type TerminalFindBarProps = {
+  // Read lazily so the bar can render before the terminal has loaded its addons.
+  searchRef: React.RefObject<SearchAddon | null>
+  onClose: () => void
+}
+
+function isValidRegExp(pattern: string, caseSensitive: boolean): boolean {
+  try {
+    new RegExp(pattern, caseSensitive ? 'g' : 'gi')
+    return true
+  } catch {
+    return false
+  }
+}
+
+function TerminalFindBar({ searchRef, onClose }: TerminalFindBarProps): React.JSX.Element {
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const [query, setQuery] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [results, setResults] = useState<{ index: number; count: number } | null>(null)
+
+  const invalidPattern = regex && query !== '' && !isValidRegExp(query, caseSensitive)
+
+  const find = (direction: 'next' | 'previous', incremental = false): void => {
+    const search = searchRef.current
+    if (!search) return
+    if (!query || invalidPattern) {
+      search.clearDecorations()
+      setResults(null)
+      return
+    }
+    const options: ISearchOptions = {
+      regex,
+      caseSensitive,
+      incremental,
+      decorations: SEARCH_DECORATIONS
+    }
+    const found =
+      direction === 'next' ? search.findNext(query, options) : search.findPrevious(query, options)
+    if (!found) setResults({ index: -1, count: 0 })
+  }
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    const search = searchRef.current
+    if (!search) return
+    const subscription = search.onDidChangeResults(({ resultIndex, resultCount }) => {
+      setResults({ index: resultIndex, count: resultCount })
+    })
+    return () => {
+      subscription.dispose()
+      search.clearDecorations()
+    }
+  }, [searchRef])
+
+  // Re-run the search as the query or its options change, keeping the current match if it still fits.
+  useEffect(() => {
+    find('next', true)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, regex, caseSensitive])
+
+  const toggleClass = (active: boolean): string =>
+    `h-6 rounded px-1.5 font-mono text-[11px] ${
+      active
+        ? 'bg-white/[0.16] text-zinc-100'
+        : 'text-zinc-400 hover:bg-white/[0.08] hover:text-zinc-100'
+    }`
+  const iconButtonClass =
+    'flex h-6 w-6 items-center justify-center rounded text-zinc-400 hover:bg-white/[0.08] hover:text-zinc-100 disabled:opacity-40'
+
+  return (
+    <div
+      className="flex items-center gap-1 rounded-md border border-white/[0.1] bg-[#17171a]/95 p-1 shadow-lg shadow-black/40"
+      onMouseDown={(event) => event.stopPropagation()}
+    >
+      <input
+        ref={inputRef}
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            event.preventDefault()
+            find(event.shiftKey ? 'previous' : 'next')
+          }
+          if (event.key === 'Escape') {
+            event.preventDefault()
+            onClose()
+          }
+        }}
+        placeholder="Find"
+        aria-label="Find in terminal"
+        aria-invalid={invalidPattern}
+        className={`h-6 w-40 rounded bg-black/30 px-2 text-xs text-zinc-100 outline-none placeholder:text-zinc-500 ${
+          invalidPattern ? 'ring-1 ring-red-500/70' : ''
+        }`}
+      />
+      <span className="w-14 text-center text-[11px] tabular-nums text-zinc-400">
+        {invalidPattern
+          ? 'Invalid'
+          : !query || !results
+            ? ''
+            : results.count === 0
+              ? 'No results'
+              : `${results.index + 1}/${results.count}`}
+      </span>
+      <button
+        type="button"
+        className={toggleClass(caseSensitive)}
+        aria-pressed={caseSensitive}
+        onClick={() => setCaseSensitive((prev) => !prev)}
+        title="Match case"
+      >
+        Aa
+      </button>
+      <button
+        type="button"
+        className={toggleClass(regex)}
+        aria-pressed={regex}
+        onClick={() => setRegex((prev) => !prev)}
+        title="Use regular expression"
+      >
+        .*
+      </button>
+      <button
+        type="button"
+        className={iconButtonClass}
+        onClick={() => find('previous')}
+        disabled={!query || invalidPattern}
+        aria-label="Previous match"
+        title="Previous match (Shift+Enter)"
+      >
+        <ChevronUp className="h-3.5 w-3.5" />
+      </button>
+      <button
+        type="button"
+        className={iconButtonClass}
+        onClick={() => find('next')}
+        disabled={!query || invalidPattern}
+        aria-label="Next match"
+        title="Next match (Enter)"
+      >
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+      <button
+        type="button"
+        className={iconButtonClass}
+        onClick={onClose}
+        aria-label="Close find"
+        title="Close (Esc)"
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  )
+}
+
+export default TerminalFindBar
@@ -0,0 +1,594 @@
+import { useEffect, useRef } from 'react'
+import type { FitAddon } from '@xterm/addon-fit'
+import type { SearchAddon } from '@xterm/addon-search'
+import type { Terminal } from '@xterm/xterm'
+
+import { getGlobalTerminalEvents, type TerminalExecResult } from '@/lib/globalTerminal'
+import { createXterm } from '@/lib/xterm'
+import TerminalFindBar from './TerminalFindBar'
+
+const OUTPUT_PAUSE_WATERMARK = 512 * 1024
+const OUTPUT_RESUME_WATERMARK = 128 * 1024
+const TERMINAL_EVENTS = getGlobalTerminalEvents()
+const EXEC_REQUEST_TIMEOUT_MS = 1000 * 60 * 30
+const CWD_POLL_INTERVAL_MS = 1000 * 15
+const REVEAL_FIT_DELAY_MS = 220
+
+type ExecRequest = {
+  batchId: string
+  itemId: string
+  command: string
+}
+
+type ActiveExecState = {
+  batchId: string
+  itemId: string
+  // Set once the main process has launched the command in the session.
+  execId: string | null
+  // Why the command is being interrupted; reported instead of its exit code.
+  interruptReason: string | null
+}
+
+export type TerminalPaneProps = {
+  // Names the session's scrollback recording.
+  title: string
+  shellPath: string
+  // null lets the main process pick the shell's default login flags.
+  shellArgs?: string[] | null
+  cwd: string | null
+  visible: boolean
+  focused: boolean
+  // The jobs pane runs queued app commands; interactive panes only ever receive user input.
+  jobExecutor?: boolean
+  findOpen?: boolean
+  onFindOpenChange?: (open: boolean) => void
+  onFocus?: () => void
+  onCwdChange?: (cwd: string) => void
+  onReadyChange?: (ready: boolean) => void
+}
+
+function encodeBinaryToBase64(data: string): string {
+  if (typeof window !== 'undefined' && typeof window.btoa === 'function') {
+    return window.btoa(data)
+  }
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(data, 'binary').toString('base64')
+  }
+  return ''
+}
+
+function TerminalPane({
+  title,
+  shellPath,
+  shellArgs = null,
+  cwd,
+  visible,
+  focused,
+  jobExecutor = false,
+  findOpen = false,
+  onFindOpenChange,
+  onFocus,
+  onCwdChange,
+  onReadyChange
+}: TerminalPaneProps): React.JSX.Element {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const termRef = useRef<Terminal | null>(null)
+  const fitRef = useRef<FitAddon | null>(null)
+  const searchRef = useRef<SearchAddon | null>(null)
+  const sessionIdRef = useRef<number | null>(null)
+  const titleRef = useRef(title)
+  const shellPathRef = useRef(shellPath)
+  const shellArgsRef = useRef(shellArgs)
+  const cwdRef = useRef(cwd)
+  const focusedRef = useRef(focused)
+  const jobExecutorRef = useRef(jobExecutor)
+  const onFindOpenChangeRef = useRef(onFindOpenChange)
+  const onCwdChangeRef = useRef(onCwdChange)
+  const onReadyChangeRef = useRef(onReadyChange)
+  const recreateSessionRef = useRef<(() => Promise<void>) | null>(null)
+  const suppressNextExitRef = useRef(false)
+  const creatingSessionPromiseRef = useRef<Promise<void> | null>(null)
+  const pumpingOutputRef = useRef(false)
+  const flowPausedRef = useRef(false)
+  const pendingOutputRef = useRef<string[]>([])
+  const pendingBytesRef = useRef(0)
+  const activeExecRef = useRef<ActiveExecState | null>(null)
+  const activeExecTimeoutIdRef = useRef<number | null>(null)
+  // Jobs canceled by the queue before this pane got to start them.
+  const canceledJobItemIdsRef = useRef<Set<string>>(new Set())
+  const sessionJustStartedRef = useRef(false)
+  const userInteractedRef = useRef(false)
+
+  useEffect(() => {
+    titleRef.current = title
+    cwdRef.current = cwd
+    focusedRef.current = focused
+    onFindOpenChangeRef.current = onFindOpenChange
+    onCwdChangeRef.current = onCwdChange
+    onReadyChangeRef.current = onReadyChange
+  }, [title, cwd, focused, onFindOpenChange, onCwdChange, onReadyChange])
+
+  useEffect(() => {
+    if (!containerRef.current || termRef.current) return
+
+    const { term, fit, search } = createXterm(containerRef.current)
+    if (focusedRef.current) term.focus()
+    // Cmd+F opens the find bar; Ctrl+F stays with the shell's line editor.
+    term.attachCustomKeyEventHandler((event) => {
+      if (
+        event.type === 'keydown' &&
+        event.metaKey &&
+        !event.ctrlKey &&
+        !event.altKey &&
+        event.key.toLowerCase() === 'f'
+      ) {
+        onFindOpenChangeRef.current?.(true)
+        return false
+      }
+      return true
+    })
+    const jobExecutor = jobExecutorRef.current
+    const reportReady = (ready: boolean): void => {
+      onReadyChangeRef.current?.(ready)
+    }
+
+    termRef.current = term
+    fitRef.current = fit
+    searchRef.current = search
+
+    const reportExecResult = (
+      exec: Pick<ActiveExecState, 'batchId' | 'itemId'>,
+      result: TerminalExecResult
+    ): void => {
+      void window.api.reportJobResult(exec.batchId, exec.itemId, result)
+    }
+
+    const clearActiveExecTimeout = (): void => {
+      if (activeExecTimeoutIdRef.current === null) return
+      window.clearTimeout(activeExecTimeoutIdRef.current)
+      activeExecTimeoutIdRef.current = null
+    }
+
+    const failActiveExec = (message: string): void => {
+      const active = activeExecRef.current
+      if (!active) return
+      activeExecRef.current = null
+      clearActiveExecTimeout()
+      if (active.execId) void window.api.cancelTerminalExec(active.execId)
+      reportExecResult(active, {
+        success: false,
+        code: null,
+        stdout: '',
+        stderr: '',
+        error: message
+      })
+    }
+
+    // Stops the running command through the main process, which escalates from SIGINT to SIGKILL;
+    // the result is still reported when the runner finishes.
+    const interruptActiveExec = (reason: string): void => {
+      const active = activeExecRef.current
+      if (!active || active.interruptReason) return
+      active.interruptReason = reason
+      if (active.execId) void window.api.interruptTerminalExec(active.execId)
+    }
+
+    const setFlowPaused = async (paused: boolean): Promise<void> => {
+      const sessionId = sessionIdRef.current
+      if (!sessionId) return
+      if (flowPausedRef.current === paused) return
+      const result = await window.api.setTerminalSessionFlowControl(sessionId, paused)
+      if (result.success) {
+        flowPausedRef.current = paused
+      }
+    }
+
+    const pumpOutput = (): void => {
+      if (pumpingOutputRef.current || !termRef.current) return
+      pumpingOutputRef.current = true
+      const writeNext = (): void => {
+        if (!termRef.current) {
+          pumpingOutputRef.current = false
+          return
+        }
+        const chunk = pendingOutputRef.current.shift()
+        if (!chunk) {
+          pumpingOutputRef.current = false
+          if (flowPausedRef.current && pendingBytesRef.current <= OUTPUT_RESUME_WATERMARK) {
+            void setFlowPaused(false)
+          }
+          return
+        }
+        pendingBytesRef.current = Math.max(0, pendingBytesRef.current - chunk.length)
+        termRef.current.write(chunk, () => {
+          if (flowPausedRef.current && pendingBytesRef.current <= OUTPUT_RESUME_WATERMARK) {
+            void setFlowPaused(false)
+          }
+          writeNext()
+        })
+      }
+      writeNext()
+    }
+
+    const enqueueOutput = (data: string): void => {
+      if (!data) return
+      pendingOutputRef.current.push(data)
+      pendingBytesRef.current += data.length
+      if (!flowPausedRef.current && pendingBytesRef.current >= OUTPUT_PAUSE_WATERMARK) {
+        void setFlowPaused(true)
+      }
+      pumpOutput()
+    }
+
+    const syncPtySize = async (): Promise<void> => {
+      fit.fit()
+      const sessionId = sessionIdRef.current
+      const dims = fit.proposeDimensions()
+      if (!sessionId || !dims) return
+      await window.api.resizeTerminalSession(sessionId, dims.cols, dims.rows)
+    }
+
+    const ensureSession = async (): Promise<void> => {
+      if (sessionIdRef.current) return
+      if (creatingSessionPromiseRef.current) {
+        await creatingSessionPromiseRef.current
+        return
+      }
+
+      const creation = (async () => {
+        try {
+          const requestedShell = shellPathRef.current
+          const result = await window.api.createTerminalSession({
+            shell: requestedShell,
+            args: shellArgsRef.current ?? undefined,
+            cwd: cwdRef.current ?? undefined,
+            label: titleRef.current
+          })
+          sessionIdRef.current = result.sessionId
+          if (result.shell !== requestedShell) {
+            enqueueOutput(
+              `\x1b[33m${requestedShell} is not an executable shell; started ${result.shell} instead.\x1b[0m\r\n`
+            )
+          }
+          sessionJustStartedRef.current = true
+          userInteractedRef.current = false
+          flowPausedRef.current = false
+          reportReady(true)
+          await syncPtySize()
+          if (focusedRef.current) term.focus()
+        } catch (error) {
+          reportReady(false)
+          enqueueOutput(
+            `${error instanceof Error ? error.message : 'failed to start terminal session'}\r\n`
+          )
+        }
+      })()
+
+      creatingSessionPromiseRef.current = creation
+      try {
+        await creation
+      } finally {
+        if (creatingSessionPromiseRef.current === creation) {
+          creatingSessionPromiseRef.current = null
+        }
+      }
+    }
+
+    const stripInitialPromptNoise = (output: string): string => {
+      if (!output) return output
+      if (!sessionJustStartedRef.current || userInteractedRef.current) return output
+
+      const promptOnly = output.match(/^(?:\r?\n)*\s*%\s*(?:\r?\n)?$/)
+      if (promptOnly) {
+        return ''
+      }
+
+      const leadingPromptWithNewline = output.match(/^(?:\r?\n)*\s*%\s*(\r?\n)/)
+      if (leadingPromptWithNewline) {
+        sessionJustStartedRef.current = false
+        return output.slice(leadingPromptWithNewline[0].length)
+      }
+
+      if (/\S/.test(output)) {
+        sessionJustStartedRef.current = false
+      }
+      return output
+    }
+
+    const startExec = async (next: ExecRequest): Promise<void> => {
+      const busyError = (message: string): void => {
+        reportExecResult(next, {
+          success: false,
+          code: null,
+          stdout: '',
+          stderr: '',
+          error: message
+        })
+      }
+      if (activeExecRef.current) {
+        busyError('Another command is still running in the global terminal.')
+        return
+      }
+
+      await ensureSession()
+      if (activeExecRef.current) {
+        busyError('Another command is still running in the global terminal.')
+        return
+      }
+      const sessionId = sessionIdRef.current
+      if (!sessionId) {
+        busyError('Unable to create terminal session.')
+        return
+      }
+      if (canceledJobItemIdsRef.current.delete(next.itemId)) {
+        busyError('Canceled by user.')
+        return
+      }
+
+      const active: ActiveExecState = {
+        batchId: next.batchId,
+        itemId: next.itemId,
+        execId: null,
+        interruptReason: null
+      }
+      activeExecRef.current = active
+      clearActiveExecTimeout()
+      activeExecTimeoutIdRef.current = window.setTimeout(() => {
+        if (activeExecRef.current !== active) return
+        interruptActiveExec(
+          `Command timed out after ${Math.round(EXEC_REQUEST_TIMEOUT_MS / 1000)}s in global terminal.`
+        )
+      }, EXEC_REQUEST_TIMEOUT_MS)
+
+      const startResult = await window.api.startTerminalExec(sessionId, next.batchId, next.itemId)
+      if (activeExecRef.current !== active) {
+        // The exec was failed while starting; make sure the launched runner is not tracked.
+        if (startResult.execId) void window.api.cancelTerminalExec(startResult.execId)
+        return
+      }
+      if (!startResult.success || !startResult.execId) {
+        activeExecRef.current = null
+        clearActiveExecTimeout()
+        reportExecResult(next, {
+          success: false,
+          code: null,
+          stdout: '',
+          stderr: '',
+          error: startResult.error ?? 'Failed to write command to terminal session.'
+        })
+        return
+      }
+      active.execId = startResult.execId
+      if (active.interruptReason) void window.api.interruptTerminalExec(active.execId)
+    }
+
+    const recreateSession = async (): Promise<void> => {
+      failActiveExec('Terminal session restarted before command completion.')
+      if (sessionIdRef.current) {
+        suppressNextExitRef.current = true
+        if (flowPausedRef.current) {
+          await window.api.setTerminalSessionFlowControl(sessionIdRef.current, false)
+        }
+        await window.api.closeTerminalSession(sessionIdRef.current)
+        sessionIdRef.current = null
+        flowPausedRef.current = false
+        reportReady(false)
+        suppressNextExitRef.current = false
+      }
+      await ensureSession()
+    }
+
+    recreateSessionRef.current = recreateSession
+
+    void ensureSession()
+
+    const disposeData = term.onData((data) => {
+      if (data.length > 0) {
+        userInteractedRef.current = true
+        sessionJustStartedRef.current = false
+      }
+      const sessionId = sessionIdRef.current
+      if (!sessionId) {
+        if (data === '\r') {
+          term.writeln('')
+          void ensureSession()
+        }
+        return
+      }
+      void window.api.writeTerminalSession(sessionId, data)
+    })
+
+    const disposeBinary = term.onBinary((data) => {
+      const sessionId = sessionIdRef.current
+      if (!sessionId) return
+      const dataBase64 = encodeBinaryToBase64(data)
+      if (!dataBase64) return
+      void window.api.writeTerminalSessionBinary(sessionId, dataBase64)
+    })
+
+    const unsubscribeTerminalData = window.api.onTerminalData((payload) => {
+      if (payload.sessionId !== sessionIdRef.current || !termRef.current) return
+      const visibleOutput = stripInitialPromptNoise(payload.data)
+      if (visibleOutput.length > 0) {
+        enqueueOutput(visibleOutput)
+      }
+    })
+
+    // Completion, exit code and the separate stdout/stderr captures arrive out of band from the
+    // main process, so the PTY stream itself is never parsed.
+    const unsubscribeExecFinished = window.api.onTerminalExecFinished((payload) => {
+      const active = activeExecRef.current
+      if (!active || active.execId !== payload.execId) return
+      activeExecRef.current = null
+      clearActiveExecTimeout()
+      const success = payload.code === 0
+      reportExecResult(active, {
+        success,
+        code: payload.code,
+        stdout: payload.stdout,
+        stderr: payload.stderr,
+        ...(success
+          ? {}
+          : {
+              error:
+                active.interruptReason ?? `Command exited with code ${payload.code ?? 'unknown'}.`
+            })
+      })
+    })
+
+    const unsubscribeTerminalExit = window.api.onTerminalExit((payload) => {
+      if (payload.sessionId !== sessionIdRef.current || !termRef.current) return
+      sessionIdRef.current = null
+      flowPausedRef.current = false
+      reportReady(false)
+      if (suppressNextExitRef.current) {
+        suppressNextExitRef.current = false
+        return
+      }
+      failActiveExec(`Terminal session exited (${payload.code ?? 'unknown'}).`)
+      enqueueOutput(
+        `\r\n[terminal exited (${payload.code ?? 'unknown'})]\r\nPress Enter to restart shell session.\r\n`
+      )
+    })
+
+    const resizeHandler = (): void => {
+      void syncPtySize()
+    }
+
+    const appendHandler = (event: Event): void => {
+      const custom = event as CustomEvent<string>
+      if (!custom.detail || !termRef.current) return
+      const normalized = custom.detail.replace(/\r?\n/g, '\r\n')
+      enqueueOutput(normalized.endsWith('\r\n') ? normalized : `${normalized}\r\n`)
+    }
+
+    // Only the jobs pane executes app-initiated commands and shows app messages.
+    const unsubscribeJobRun = jobExecutor
+      ? window.api.onJobRun((payload) => {
+          if (!payload?.itemId || !payload.command) return
+          void startExec(payload)
+        })
+      : () => undefined
+    const unsubscribeJobCancel = jobExecutor
+      ? window.api.onJobCancel((payload) => {
+          const active = activeExecRef.current
+          if (active?.batchId === payload.batchId && active.itemId === payload.itemId) {
+            interruptActiveExec('Canceled by user.')
+          } else {
+            canceledJobItemIdsRef.current.add(payload.itemId)
+          }
+        })
+      : () => undefined
+
+    const cwdTimer = window.setInterval(() => {
+      const sessionId = sessionIdRef.current
+      if (!sessionId || !onCwdChangeRef.current) return
+      void window.api.getTerminalSessionCwd(sessionId).then(({ cwd }) => {
+        if (cwd && sessionIdRef.current === sessionId) onCwdChangeRef.current?.(cwd)
+      })
+    }, CWD_POLL_INTERVAL_MS)
+
+    const resizeObserver = new ResizeObserver(() => {
+      void syncPtySize()
+    })
+    resizeObserver.observe(containerRef.current)
+
+    window.addEventListener('resize', resizeHandler)
+    if (jobExecutor) {
+      window.addEventListener(TERMINAL_EVENTS.appendEvent, appendHandler as EventListener)
+      void window.api.registerJobExecutor()
+    }
+
+    return () => {
+      if (jobExecutor) {
+        void window.api.unregisterJobExecutor()
+        window.removeEventListener(TERMINAL_EVENTS.appendEvent, appendHandler as EventListener)
+      }
+      unsubscribeJobRun()
+      unsubscribeJobCancel()
+      window.clearInterval(cwdTimer)
+      resizeObserver.disconnect()
+      window.removeEventListener('resize', resizeHandler)
+      unsubscribeTerminalData()
+      unsubscribeTerminalExit()
+      unsubscribeExecFinished()
+      disposeBinary.dispose()
+      failActiveExec('Terminal panel was disposed before command completion.')
+      clearActiveExecTimeout()
+      creatingSessionPromiseRef.current = null
+      recreateSessionRef.current = null
+      if (sessionIdRef.current) {
+        if (flowPausedRef.current) {
+          void window.api.setTerminalSessionFlowControl(sessionIdRef.current, false)
+        }
+        void window.api.closeTerminalSession(sessionIdRef.current)
+        sessionIdRef.current = null
+      }
+      flowPausedRef.current = false
+      pumpingOutputRef.current = false
+      pendingOutputRef.current = []
+      pendingBytesRef.current = 0
+      reportReady(false)
+      disposeData.dispose()
+      fit.dispose()
+      term.dispose()
+      fitRef.current = null
+      termRef.current = null
+    }
+  }, [])
+
+  const shellArgsKey = JSON.stringify(shellArgs)
+  useEffect(() => {
+    if (
+      shellPathRef.current === shellPath &&
+      JSON.stringify(shellArgsRef.current) === shellArgsKey
+    ) {
+      return
+    }
+    shellPathRef.current = shellPath
+    shellArgsRef.current = JSON.parse(shellArgsKey) as string[] | null
+    void recreateSessionRef.current?.()
+  }, [shellPath, shellArgsKey])
+
+  useEffect(() => {
+    if (!visible) return
+    // Wait for the panel slide-in so the fit measures the final size.
+    const timer = window.setTimeout(() => {
+      fitRef.current?.fit()
+      const sessionId = sessionIdRef.current
+      const dims = fitRef.current?.proposeDimensions()
+      if (sessionId && dims) {
+        void window.api.resizeTerminalSession(sessionId, dims.cols, dims.rows)
+      }
+      if (focusedRef.current) termRef.current?.focus()
+    }, REVEAL_FIT_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [visible])
+
+  useEffect(() => {
+    if (focused && visible) termRef.current?.focus()
+  }, [focused, visible])
+
+  return (
+    <div className="relative h-full min-h-0 w-full min-w-0" onMouseDown={() => onFocus?.()}>
+      <div
+        ref={containerRef}
+        className="h-full w-full overflow-hidden rounded-md bg-[#0b0b0d]"
+        onClick={() => termRef.current?.focus()}
+      />
+      {findOpen ? (
+        <div className="absolute right-2 top-2 z-10">
+          <TerminalFindBar
+            searchRef={searchRef}
+            onClose={() => {
+              onFindOpenChange?.(false)
+              termRef.current?.focus()
+            }}
+          />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+export default TerminalPane
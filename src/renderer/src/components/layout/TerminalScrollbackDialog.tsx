@@ -0,0 +1,332 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertCircle, FileCode2, FileText, RefreshCw, Search, Trash2 } from 'lucide-react'
+import type { SearchAddon } from '@xterm/addon-search'
+import type { SerializeAddon } from '@xterm/addon-serialize'
+import type { Terminal } from '@xterm/xterm'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { createXterm, getXtermBufferText } from '@/lib/xterm'
+import { formatBytes } from '@/lib/utils'
+import TerminalFindBar from './TerminalFindBar'
+
+// Enough rows for a full recording; the main process caps each one at a few megabytes.
+const VIEWER_SCROLLBACK_ROWS = 100_000
+
+type TerminalScrollbackSummary = {
+  id: number
+  label: string
+  shell: string
+  cwd: string
+  startedAt: number
+  endedAt: number | null
+  exitCode: number | null
+  bytes: number
+  truncated: boolean
+  recording: boolean
+}
+
+type TerminalScrollbackDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function getExportName(entry: TerminalScrollbackSummary): string {
+  const stamp = new Date(entry.startedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-')
+  return `${entry.label}-${stamp}`
+}
+
+function ScrollbackViewer({
+  entry,
+  content
+}: {
+  entry: TerminalScrollbackSummary
+  content: string
+}): React.JSX.Element {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const termRef = useRef<Terminal | null>(null)
+  const searchRef = useRef<SearchAddon | null>(null)
+  const serializeRef = useRef<SerializeAddon | null>(null)
+  const [findOpen, setFindOpen] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const { term, fit, search, serialize } = createXterm(containerRef.current, {
+      cursorBlink: false,
+      disableStdin: true,
+      scrollback: VIEWER_SCROLLBACK_ROWS
+    })
+    term.attachCustomKeyEventHandler((event) => {
+      if (event.type === 'keydown' && event.metaKey && event.key.toLowerCase() === 'f') {
+        setFindOpen(true)
+        return false
+      }
+      return true
+    })
+    termRef.current = term
+    searchRef.current = search
+    serializeRef.current = serialize
+    term.write(content)
+
+    const resizeObserver = new ResizeObserver(() => {
+      fit.fit()
+    })
+    resizeObserver.observe(containerRef.current)
+
+    return () => {
+      resizeObserver.disconnect()
+      termRef.current = null
+      searchRef.current = null
+      serializeRef.current = null
+      fit.dispose()
+      term.dispose()
+    }
+  }, [content])
+
+  const exportAs = async (format: 'text' | 'html'): Promise<void> => {
+    const term = termRef.current
+    const serialize = serializeRef.current
+    if (!term || !serialize) return
+    setExportError(null)
+    try {
+      const exported =
+        format === 'html'
+          ? serialize.serializeAsHTML({ includeGlobalBackground: true })
+          : getXtermBufferText(term)
+      const result = await window.api.exportTerminalScrollback({
+        defaultName: getExportName(entry),
+        format,
+        content: exported
+      })
+      if (!result.success && !result.canceled) {
+        setExportError(result.error ?? 'Failed to export terminal output.')
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export terminal output.')
+    }
+  }
+
+  return (
+    <div className="min-w-0 flex-1 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="min-w-0 truncate font-mono text-[11px] text-muted-foreground">
+          {entry.shell} · {entry.cwd}
+        </p>
+        <div className="flex shrink-0 items-center gap-1">
+          <Button size="sm" variant="ghost" onClick={() => setFindOpen((prev) => !prev)}>
+            <Search className="h-4 w-4" />
+            Find
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => void exportAs('text')}>
+            <FileText className="h-4 w-4" />
+            Text
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => void exportAs('html')}>
+            <FileCode2 className="h-4 w-4" />
+            HTML
+          </Button>
+        </div>
+      </div>
+      {exportError ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{exportError}</AlertDescription>
+        </Alert>
+      ) : null}
+      <div className="relative">
+        <div
+          ref={containerRef}
+          className="h-80 overflow-hidden rounded-md border border-glass-divider bg-[rgba(17,17,19,0.96)] p-2"
+        />
+        {findOpen ? (
+          <div className="absolute right-2 top-2 z-10">
+            <TerminalFindBar
+              searchRef={searchRef}
+              onClose={() => {
+                setFindOpen(false)
+                termRef.current?.focus()
+              }}
+            />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+function TerminalScrollbackDialog({
+  open,
+  onOpenChange
+}: TerminalScrollbackDialogProps): React.JSX.Element {
+  const [entries, setEntries] = useState<TerminalScrollbackSummary[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [content, setContent] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const selectedIdRef = useRef<number | null>(null)
+
+  const selected = entries.find((entry) => entry.id === selectedId) ?? null
+
+  const selectEntry = async (id: number): Promise<void> => {
+    selectedIdRef.current = id
+    setSelectedId(id)
+    setContent(null)
+    setError(null)
+    try {
+      const result = await window.api.readTerminalScrollback(id)
+      if (selectedIdRef.current !== id) return
+      if (!result.success) {
+        setError(result.error ?? 'Failed to read scrollback.')
+        return
+      }
+      setContent(result.content ?? '')
+    } catch (err) {
+      if (selectedIdRef.current === id) {
+        setError(err instanceof Error ? err.message : 'Failed to read scrollback.')
+      }
+    }
+  }
+
+  const loadEntries = async (): Promise<void> => {
+    setLoading(true)
+    setError(null)
+    try {
+      const next = await window.api.listTerminalScrollbacks()
+      setEntries(next)
+      const keep = next.find((entry) => entry.id === selectedIdRef.current) ?? next[0]
+      if (keep) {
+        await selectEntry(keep.id)
+      } else {
+        selectedIdRef.current = null
+        setSelectedId(null)
+        setContent(null)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list saved terminal output.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const deleteEntry = async (id: number): Promise<void> => {
+    setError(null)
+    try {
+      const result = await window.api.deleteTerminalScrollback(id)
+      if (!result.success) {
+        setError(result.error ?? 'Failed to delete scrollback.')
+        return
+      }
+      if (selectedIdRef.current === id) selectedIdRef.current = null
+      await loadEntries()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scrollback.')
+    }
+  }
+
+  useEffect(() => {
+    if (open) void loadEntries()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Saved Terminal Output
+            <Button
+              size="icon-sm"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => void loadEntries()}
+              disabled={loading}
+              aria-label="Reload saved output"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </DialogTitle>
+          <DialogDescription>
+            Every terminal session is recorded to disk, so its output stays searchable and
+            exportable after the session ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {!loading && entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No terminal output has been recorded yet.</p>
+        ) : null}
+
+        {entries.length > 0 ? (
+          <div className="flex min-w-0 gap-3">
+            <ul className="max-h-96 w-56 shrink-0 divide-y divide-glass-divider overflow-auto">
+              {entries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className={`group flex cursor-pointer items-start justify-between gap-1 rounded-md px-2 py-1.5 ${
+                    entry.id === selectedId ? 'bg-accent' : 'hover:bg-accent/50'
+                  }`}
+                  onClick={() => void selectEntry(entry.id)}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="truncate text-sm font-medium">{entry.label}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {new Date(entry.startedAt).toLocaleString()}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 text-[11px] text-muted-foreground">
+                      <span>{formatBytes(entry.bytes)}</span>
+                      {entry.recording ? (
+                        <Badge className="px-1.5 py-0 text-[10px]">Live</Badge>
+                      ) : entry.exitCode !== null ? (
+                        <span>exit {entry.exitCode}</span>
+                      ) : null}
+                      {entry.truncated ? <span>· truncated</span> : null}
+                    </div>
+                  </div>
+                  {!entry.recording ? (
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        void deleteEntry(entry.id)
+                      }}
+                      aria-label={`Delete ${entry.label}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+            {selected && content !== null ? (
+              <ScrollbackViewer key={selected.id} entry={selected} content={content} />
+            ) : (
+              <div className="flex h-80 flex-1 items-center justify-center text-sm text-muted-foreground">
+                {!selected ? 'Select a session.' : error ? 'Unavailable.' : 'Loading...'}
+              </div>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TerminalScrollbackDialog
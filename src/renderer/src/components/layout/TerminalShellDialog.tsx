@@ -0,0 +1,142 @@
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+
+type TerminalShellChoice = {
+  path: string
+  args: string[] | null
+}
+
+type TerminalShellDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialShell: TerminalShellChoice
+  onSave: (shell: TerminalShellChoice) => void
+}
+
+// Splits on whitespace, keeping single- or double-quoted runs together.
+function parseShellArgs(input: string): string[] {
+  const args: string[] = []
+  for (const match of input.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] ?? match[2] ?? match[3])
+  }
+  return args
+}
+
+function formatShellArgs(args: string[]): string {
+  return args.map((arg) => (/[\s"']/.test(arg) ? `'${arg}'` : arg)).join(' ')
+}
+
+function ShellForm({
+  initialShell,
+  onCancel,
+  onSave
+}: {
+  initialShell: TerminalShellChoice
+  onCancel: () => void
+  onSave: (shell: TerminalShellChoice) => void
+}): React.JSX.Element {
+  const [path, setPath] = useState(initialShell.path)
+  const [args, setArgs] = useState(initialShell.args ? formatShellArgs(initialShell.args) : '')
+  const [useDefaultArgs, setUseDefaultArgs] = useState(initialShell.args === null)
+
+  const trimmedPath = path.trim()
+  const pathError = trimmedPath && !trimmedPath.startsWith('/') ? 'Use an absolute path.' : null
+
+  return (
+    <>
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <label className="text-xs font-medium" htmlFor="terminal-shell-path">
+            Shell path
+          </label>
+          <Input
+            id="terminal-shell-path"
+            value={path}
+            onChange={(event) => setPath(event.target.value)}
+            placeholder="/opt/homebrew/bin/fish"
+            className="h-8 font-mono text-xs"
+          />
+          {pathError ? <p className="text-xs text-destructive">{pathError}</p> : null}
+        </div>
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-xs font-medium">
+            <Checkbox
+              checked={useDefaultArgs}
+              onCheckedChange={(checked) => setUseDefaultArgs(checked === true)}
+            />
+            Start with the default login arguments
+          </label>
+          <Input
+            value={args}
+            onChange={(event) => setArgs(event.target.value)}
+            disabled={useDefaultArgs}
+            placeholder="--login --no-rc"
+            className="h-8 font-mono text-xs"
+            aria-label="Shell arguments"
+          />
+          <p className="text-xs text-muted-foreground">
+            Commands the app runs in the jobs tab are launched through /bin/sh, so any shell that
+            can start an external program works.
+          </p>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() =>
+            onSave({ path: trimmedPath, args: useDefaultArgs ? null : parseShellArgs(args) })
+          }
+          disabled={!trimmedPath || pathError !== null}
+        >
+          Use Shell
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
+
+function TerminalShellDialog({
+  open,
+  onOpenChange,
+  initialShell,
+  onSave
+}: TerminalShellDialogProps): React.JSX.Element {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Custom Shell</DialogTitle>
+          <DialogDescription>
+            Start the focused terminal pane with any installed shell binary.
+          </DialogDescription>
+        </DialogHeader>
+        {open ? (
+          <ShellForm
+            initialShell={initialShell}
+            onCancel={() => onOpenChange(false)}
+            onSave={(shell) => {
+              onSave(shell)
+              onOpenChange(false)
+            }}
+          />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TerminalShellDialog
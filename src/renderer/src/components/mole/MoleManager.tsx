@@ -13,6 +13,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { brewCommand, formatCommand, type CommandSpec } from '@/lib/command'
+import { confirmDestructiveAction } from '@/lib/destructiveActions'
 import { executeWithGlobalTerminal } from '@/lib/globalTerminal'
 
 type UninstallCandidate = {
@@ -20,7 +22,7 @@ type UninstallCandidate = {
   size: string | null
   lastUsed: string | null
   uninstallSource: 'brew' | 'mole'
-  uninstallCommand: string
+  uninstallCommand: CommandSpec
 }
 
 type MoleStatus = {
@@ -29,7 +31,7 @@ type MoleStatus = {
   installMethod: string | null
 }
 
-const MOLE_INSTALL_COMMAND = 'brew install mole'
+const MOLE_INSTALL_COMMAND = brewCommand('install', 'mole')
 
 type MoleUninstallAppsCache = {
   rows: UninstallCandidate[]
@@ -38,7 +40,16 @@ type MoleUninstallAppsCache = {
   error: string | null
 }
 
-function MoleManager(): React.JSX.Element {
+type MoleManagerProps = {
+  // Set when the tray asked for mo clean; the preview opens once and the request is handed back.
+  cleanRequested?: boolean
+  onCleanRequestHandled?: () => void
+}
+
+function MoleManager({
+  cleanRequested = false,
+  onCleanRequestHandled
+}: MoleManagerProps): React.JSX.Element {
   const [status, setStatus] = useState<MoleStatus | null>(null)
   const [loadingStatus, setLoadingStatus] = useState(true)
   const [runningUpdate, setRunningUpdate] = useState(false)
@@ -101,7 +112,10 @@ function MoleManager(): React.JSX.Element {
     setRunningUpdate(true)
     setError(null)
     try {
-      const result = await executeWithGlobalTerminal('mo update')
+      const result = await executeWithGlobalTerminal(
+        { binary: 'mo', args: ['update'] },
+        { origin: 'mole' }
+      )
       if (!result.success) {
         setError(result.error ?? 'Mole update failed.')
       }
@@ -118,7 +132,7 @@ function MoleManager(): React.JSX.Element {
     setRunningInstall(true)
     setError(null)
     try {
-      const result = await executeWithGlobalTerminal(MOLE_INSTALL_COMMAND)
+      const result = await executeWithGlobalTerminal(MOLE_INSTALL_COMMAND, { origin: 'mole' })
       if (!result.success) {
         setError(result.error ?? 'Mole install failed.')
       }
@@ -132,10 +146,18 @@ function MoleManager(): React.JSX.Element {
 
   const runClean = async (): Promise<void> => {
     if (runningClean) return
+    const approvalId = await confirmDestructiveAction(
+      { kind: 'mole-clean' },
+      { command: 'mo clean' }
+    )
+    if (!approvalId) return
     setRunningClean(true)
     setError(null)
     try {
-      const result = await executeWithGlobalTerminal('mo clean')
+      const result = await executeWithGlobalTerminal(
+        { binary: 'mo', args: ['clean'] },
+        { origin: 'mole', approvalId }
+      )
       if (!result.success) {
         setError(result.error ?? 'Mole clean failed.')
         return
@@ -194,15 +216,29 @@ function MoleManager(): React.JSX.Element {
 
   const runUninstall = async (row: UninstallCandidate): Promise<void> => {
     if (runningUninstallApp) return
-    const confirmed = window.confirm(
-      `Confirm uninstall ${row.name}?\n\nCommand: ${row.uninstallCommand}`
+    const { uninstallCommand } = row
+    const approvalId = await confirmDestructiveAction(
+      row.uninstallSource === 'brew'
+        ? {
+            kind: 'brew-uninstall',
+            packages: [
+              { token: uninstallCommand.args[uninstallCommand.args.length - 1], brewType: 'cask' }
+            ]
+          }
+        : { kind: 'mole-uninstall', name: row.name },
+      { command: formatCommand(uninstallCommand) }
     )
-    if (!confirmed) return
+    if (!approvalId) return
 
     setRunningUninstallApp(row.name)
     setError(null)
     try {
-      const result = await executeWithGlobalTerminal(row.uninstallCommand)
+      const result = await executeWithGlobalTerminal(row.uninstallCommand, {
+        origin: 'mole',
+        token: row.name,
+        action: 'uninstall',
+        approvalId
+      })
       if (!result.success) {
         setError(result.error ?? `Failed to uninstall ${row.name}.`)
         return
@@ -225,6 +261,13 @@ function MoleManager(): React.JSX.Element {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  useEffect(() => {
+    if (!cleanRequested) return
+    onCleanRequestHandled?.()
+    void runClean()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cleanRequested])
+
   return (
     <main className="px-6 py-6 md:px-8 md:py-8">
       <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
@@ -443,7 +486,9 @@ function MoleManager(): React.JSX.Element {
                           </TooltipTrigger>
                           <TooltipContent sideOffset={8}>
                             <p>{runningUninstallApp === row.name ? 'Uninstalling...' : 'Uninstall'}</p>
-                            <p className="font-mono text-[11px]">{row.uninstallCommand}</p>
+                            <p className="font-mono text-[11px]">
+                              {formatCommand(row.uninstallCommand)}
+                            </p>
                           </TooltipContent>
                         </Tooltip>
                       </td>
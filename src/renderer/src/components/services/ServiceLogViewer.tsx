@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react'
+import { X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { createXterm } from '@/lib/xterm'
+
+type ServiceLogViewerProps = {
+  serviceName: string
+  paths: string[]
+  onClose: () => void
+}
+
+function ServiceLogViewer({
+  serviceName,
+  paths,
+  onClose
+}: ServiceLogViewerProps): React.JSX.Element {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const [status, setStatus] = useState<string>('Connecting...')
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const { term, fit } = createXterm(containerRef.current, {
+      cursorBlink: false,
+      disableStdin: true,
+      convertEol: true
+    })
+    let disposed = false
+    let tailId: number | null = null
+    // Chunks can arrive before the start call resolves, so hold them until the id is known.
+    const pending: Array<{ tailId: number; data: string }> = []
+
+    const unsubscribeData = window.api.onLogTailData((payload) => {
+      if (tailId === null) {
+        pending.push(payload)
+        return
+      }
+      if (payload.tailId === tailId) term.write(payload.data)
+    })
+    const unsubscribeExit = window.api.onLogTailExit((payload) => {
+      if (payload.tailId === tailId) setStatus('Log tail stopped.')
+    })
+
+    void window.api.startLogTail(paths).then((result) => {
+      if (disposed) {
+        if (result.tailId) void window.api.stopLogTail(result.tailId)
+        return
+      }
+      if (!result.success || !result.tailId) {
+        setStatus(result.error ?? 'Failed to tail log.')
+        return
+      }
+      tailId = result.tailId
+      pending
+        .filter((payload) => payload.tailId === tailId)
+        .forEach((payload) => term.write(payload.data))
+      pending.length = 0
+      setStatus(`Following ${paths.join(', ')}`)
+    })
+
+    const resizeObserver = new ResizeObserver(() => {
+      fit.fit()
+    })
+    resizeObserver.observe(containerRef.current)
+
+    return () => {
+      disposed = true
+      resizeObserver.disconnect()
+      unsubscribeData()
+      unsubscribeExit()
+      if (tailId !== null) void window.api.stopLogTail(tailId)
+      fit.dispose()
+      term.dispose()
+    }
+  }, [paths])
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-center justify-between gap-3 px-1">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">{serviceName} logs</p>
+          <p className="truncate text-xs text-muted-foreground">{status}</p>
+        </div>
+        <Button size="sm" variant="ghost" onClick={onClose}>
+          <X className="h-4 w-4" />
+          Close
+        </Button>
+      </div>
+      <div
+        ref={containerRef}
+        className="h-72 overflow-hidden rounded-md border border-glass-divider bg-[rgba(17,17,19,0.96)] p-2"
+      />
+    </section>
+  )
+}
+
+export default ServiceLogViewer
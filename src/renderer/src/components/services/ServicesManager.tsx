@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, Play, RefreshCw, RotateCw, ScrollText, Square, Zap } from 'lucide-react'
+
+import ServiceLogViewer from '@/components/services/ServiceLogViewer'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { brewCommand } from '@/lib/command'
+import { executeWithGlobalTerminal } from '@/lib/globalTerminal'
+
+type BrewServiceEntry = {
+  name: string
+  status: string
+  user: string | null
+  file: string | null
+  exitCode: number | null
+}
+
+type ServiceAction = 'start' | 'stop' | 'restart' | 'run'
+
+type LogTarget = {
+  name: string
+  paths: string[]
+}
+
+const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+
+const SERVICE_ACTIONS: Array<{ action: ServiceAction; label: string; icon: typeof Play }> = [
+  { action: 'start', label: 'Start (and run at login)', icon: Play },
+  { action: 'stop', label: 'Stop', icon: Square },
+  { action: 'restart', label: 'Restart', icon: RotateCw },
+  { action: 'run', label: 'Run without registering at login', icon: Zap }
+]
+
+function getStatusBadgeClass(status: string): string {
+  if (status === 'started') {
+    return 'border-emerald-500/60 bg-emerald-500/10 text-emerald-600 dark:text-emerald-300'
+  }
+  if (status === 'error') {
+    return 'border-red-500/60 bg-red-500/10 text-red-600 dark:text-red-300'
+  }
+  if (status === 'none' || status === 'stopped') {
+    return 'bg-transparent text-muted-foreground'
+  }
+  return 'border-amber-500/60 bg-amber-500/10 text-amber-600 dark:text-amber-300'
+}
+
+function ServicesManager(): React.JSX.Element {
+  const [services, setServices] = useState<BrewServiceEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [runningKey, setRunningKey] = useState<string | null>(null)
+  const [logTarget, setLogTarget] = useState<LogTarget | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const actionIconButtonClass =
+    'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+
+  const loadServices = async (): Promise<void> => {
+    setError(null)
+    try {
+      const result = await window.api.listBrewServices()
+      if (!result.success) {
+        setError(result.error ?? 'Failed to list Homebrew services.')
+        setServices([])
+        return
+      }
+      setServices(result.items)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list Homebrew services.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runServiceAction = async (
+    service: BrewServiceEntry,
+    action: ServiceAction
+  ): Promise<void> => {
+    setRunningKey(`${action}:${service.name}`)
+    setError(null)
+    try {
+      const result = await executeWithGlobalTerminal(
+        brewCommand('services', action, service.name),
+        { origin: 'services', token: service.name }
+      )
+      if (!result.success) {
+        setError(result.error || result.stderr || `brew services ${action} ${service.name} failed.`)
+      }
+      await loadServices()
+    } finally {
+      setRunningKey(null)
+    }
+  }
+
+  const openLogs = async (service: BrewServiceEntry): Promise<void> => {
+    setRunningKey(`logs:${service.name}`)
+    setError(null)
+    try {
+      const info = await window.api.getBrewServiceInfo(service.name)
+      const paths = [info?.logPath, info?.errorLogPath].filter((path): path is string =>
+        Boolean(path)
+      )
+      if (paths.length === 0) {
+        setError(`${service.name} does not declare a log file.`)
+        return
+      }
+      setLogTarget({ name: service.name, paths })
+    } finally {
+      setRunningKey(null)
+    }
+  }
+
+  useEffect(() => {
+    void loadServices()
+    const handler = (): void => {
+      void loadServices()
+    }
+    window.addEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    return () => {
+      window.removeEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    }
+  }, [])
+
+  return (
+    <main className="px-6 py-6 md:px-8 md:py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
+        <section className="flex items-end justify-between gap-3 px-1">
+          <div>
+            <h2 className="text-base font-semibold">Services</h2>
+            <p className="text-sm text-muted-foreground">
+              Background services managed by brew services, such as databases and web servers.
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => {
+              void loadServices()
+            }}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+        </section>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {loading ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">Loading services...</div>
+        ) : services.length === 0 ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">
+            No formulae with services are installed.
+          </div>
+        ) : (
+          <div className="divide-y divide-glass-divider">
+            {services.map((service) => (
+              <div key={service.name} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{service.name}</span>
+                    <Badge
+                      variant="outline"
+                      className={`px-1.5 py-0 text-[10px] ${getStatusBadgeClass(service.status)}`}
+                    >
+                      {service.status}
+                    </Badge>
+                    {service.exitCode !== null ? (
+                      <span className="text-[11px] text-muted-foreground">
+                        exit {service.exitCode}
+                      </span>
+                    ) : null}
+                  </div>
+                  <p
+                    className="truncate font-mono text-[11px] text-muted-foreground"
+                    title={service.file ?? undefined}
+                  >
+                    {service.user ? `${service.user} · ` : ''}
+                    {service.file ?? 'No plist registered'}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {SERVICE_ACTIONS.map(({ action, label, icon: Icon }) => (
+                    <Tooltip key={action}>
+                      <TooltipTrigger asChild>
+                        <Button
+                          size="icon-sm"
+                          variant="ghost"
+                          className={actionIconButtonClass}
+                          onClick={() => {
+                            void runServiceAction(service, action)
+                          }}
+                          disabled={runningKey !== null}
+                          aria-label={label}
+                        >
+                          <Icon
+                            className={`h-4 w-4 ${runningKey === `${action}:${service.name}` ? 'animate-pulse' : ''}`}
+                          />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent sideOffset={8}>
+                        <p>{label}</p>
+                        <p className="font-mono text-[11px]">
+                          brew services {action} {service.name}
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  ))}
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        className={actionIconButtonClass}
+                        onClick={() => {
+                          void openLogs(service)
+                        }}
+                        disabled={runningKey !== null}
+                        aria-label="Tail logs"
+                      >
+                        <ScrollText className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent sideOffset={8}>
+                      <p>Tail logs</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {logTarget ? (
+          <ServiceLogViewer
+            key={logTarget.name}
+            serviceName={logTarget.name}
+            paths={logTarget.paths}
+            onClose={() => setLogTarget(null)}
+          />
+        ) : null}
+      </div>
+    </main>
+  )
+}
+
+export default ServicesManager
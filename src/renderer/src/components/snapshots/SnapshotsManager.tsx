@@ -0,0 +1,465 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, Camera, GitCompare, RefreshCw, RotateCcw, Trash2 } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { formatCommand, type CommandSpec } from '@/lib/command'
+import { openGlobalTerminal } from '@/lib/globalTerminal'
+import { runJobBatch } from '@/lib/jobQueue'
+
+type PackageSnapshotSummary = {
+  id: number
+  reason: string
+  origin: string
+  createdAt: number
+  formulaCount: number
+  caskCount: number
+}
+
+type SnapshotDiffEntry = {
+  token: string
+  brewType: 'cask' | 'formula'
+  fromVersions: string[]
+  toVersions: string[]
+  fromPinned: boolean
+  toPinned: boolean
+}
+
+type SnapshotDiff = {
+  added: SnapshotDiffEntry[]
+  removed: SnapshotDiffEntry[]
+  changed: SnapshotDiffEntry[]
+}
+
+type RestorePlan = {
+  snapshot: PackageSnapshotSummary
+  commands: CommandSpec[]
+  notes: string[]
+}
+
+const APP_TOPBAR_REFRESH_EVENT = 'app:topbar-refresh'
+
+function formatVersions(versions: string[], pinned: boolean): string {
+  const label = versions.join(', ') || '—'
+  return pinned ? `${label} (pinned)` : label
+}
+
+function DiffSection({
+  title,
+  entries,
+  tone
+}: {
+  title: string
+  entries: SnapshotDiffEntry[]
+  tone: 'added' | 'removed' | 'changed'
+}): React.JSX.Element | null {
+  if (entries.length === 0) return null
+  const toneClass =
+    tone === 'added'
+      ? 'text-green-600 dark:text-green-400'
+      : tone === 'removed'
+        ? 'text-red-600 dark:text-red-400'
+        : 'text-amber-600 dark:text-amber-400'
+  return (
+    <div className="space-y-1">
+      <p className={`text-xs font-medium ${toneClass}`}>
+        {title} ({entries.length})
+      </p>
+      <div className="divide-y divide-glass-divider">
+        {entries.map((entry) => (
+          <div
+            key={`${entry.brewType}:${entry.token}`}
+            className="flex items-center justify-between gap-3 py-1 text-xs"
+          >
+            <div className="flex min-w-0 items-center gap-2">
+              <Badge variant="outline" className="bg-transparent px-1.5 py-0 text-[10px]">
+                {entry.brewType}
+              </Badge>
+              <span className="truncate font-mono">{entry.token}</span>
+            </div>
+            <span className="shrink-0 font-mono text-[11px] text-muted-foreground">
+              {tone === 'added'
+                ? formatVersions(entry.toVersions, entry.toPinned)
+                : tone === 'removed'
+                  ? formatVersions(entry.fromVersions, entry.fromPinned)
+                  : `${formatVersions(entry.fromVersions, entry.fromPinned)} → ${formatVersions(entry.toVersions, entry.toPinned)}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function SnapshotsManager(): React.JSX.Element {
+  const [snapshots, setSnapshots] = useState<PackageSnapshotSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [capturing, setCapturing] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [diffLabel, setDiffLabel] = useState('')
+  const [comparing, setComparing] = useState(false)
+  const [plan, setPlan] = useState<RestorePlan | null>(null)
+  const [planningId, setPlanningId] = useState<number | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const actionIconButtonClass =
+    'h-7 w-7 border-0 bg-transparent text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+
+  const loadSnapshots = async (): Promise<void> => {
+    setError(null)
+    try {
+      const rows = await window.api.listSnapshots()
+      setSnapshots(rows)
+      setSelectedIds((prev) => prev.filter((id) => rows.some((row) => row.id === id)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const capture = async (): Promise<void> => {
+    setCapturing(true)
+    setError(null)
+    try {
+      const result = await window.api.captureSnapshot()
+      if (!result.success) {
+        setError(result.error ?? 'Failed to record snapshot.')
+        return
+      }
+      await loadSnapshots()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record snapshot.')
+    } finally {
+      setCapturing(false)
+    }
+  }
+
+  const toggleSelected = (id: number, checked: boolean): void => {
+    setSelectedIds((prev) => {
+      if (!checked) return prev.filter((entry) => entry !== id)
+      // Keep the two most recent picks so the comparison is always pairwise.
+      return [...prev.filter((entry) => entry !== id), id].slice(-2)
+    })
+  }
+
+  const compare = async (): Promise<void> => {
+    if (selectedIds.length === 0) return
+    // Older snapshot on the left; a single pick is compared with what is installed now.
+    const ordered = snapshots.filter((entry) => selectedIds.includes(entry.id)).reverse()
+    const from = ordered[0]
+    const to = ordered[1] ?? null
+    setComparing(true)
+    setError(null)
+    try {
+      const result = await window.api.diffSnapshots(from.id, to?.id ?? null)
+      if (!result.success || !result.diff) {
+        setError(result.error ?? 'Failed to compare snapshots.')
+        return
+      }
+      setDiff(result.diff)
+      setDiffLabel(
+        `${new Date(from.createdAt).toLocaleString()} → ${to ? new Date(to.createdAt).toLocaleString() : 'now'}`
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare snapshots.')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const prepareRestore = async (snapshot: PackageSnapshotSummary): Promise<void> => {
+    setPlanningId(snapshot.id)
+    setError(null)
+    try {
+      const result = await window.api.planSnapshotRestore(snapshot.id)
+      if (!result.success || !result.plan) {
+        setError(result.error ?? 'Failed to plan restore.')
+        return
+      }
+      setPlan({ snapshot, ...result.plan })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan restore.')
+    } finally {
+      setPlanningId(null)
+    }
+  }
+
+  const runRestore = async (): Promise<void> => {
+    if (!plan || plan.commands.length === 0) return
+    setRestoring(true)
+    setError(null)
+    openGlobalTerminal()
+    try {
+      const finished = await runJobBatch({
+        origin: 'snapshots',
+        continueOnFailure: true,
+        items: plan.commands.map((command) => ({
+          token: command.args[command.args.length - 1] ?? null,
+          action: command.args[0] === 'install' ? ('install' as const) : ('command' as const),
+          command
+        }))
+      })
+      setPlan(null)
+      const failedCount = finished.items.filter((item) => item.status !== 'succeeded').length
+      if (failedCount > 0) {
+        setError(`${failedCount} of ${finished.items.length} restore step(s) did not succeed.`)
+      }
+      await window.api.syncInstalledAppsCache()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot.')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const removeSnapshot = async (id: number): Promise<void> => {
+    setError(null)
+    try {
+      await window.api.deleteSnapshot(id)
+      await loadSnapshots()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot.')
+    }
+  }
+
+  useEffect(() => {
+    void loadSnapshots()
+  }, [])
+
+  useEffect(() => {
+    const handler = (): void => {
+      void loadSnapshots()
+    }
+    window.addEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    return () => {
+      window.removeEventListener(APP_TOPBAR_REFRESH_EVENT, handler as EventListener)
+    }
+  }, [])
+
+  const diffIsEmpty =
+    diff !== null &&
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+
+  return (
+    <main className="px-6 py-6 md:px-8 md:py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-3">
+        <section className="space-y-2">
+          <div className="flex items-end justify-between gap-3 px-1">
+            <div>
+              <h2 className="text-base font-semibold">Snapshots</h2>
+              <p className="text-sm text-muted-foreground">
+                Installed packages and versions, recorded before every upgrade and uninstall.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => {
+                  void loadSnapshots()
+                }}
+              >
+                <RefreshCw className="h-4 w-4" />
+                Refresh
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => {
+                  void capture()
+                }}
+                disabled={capturing}
+              >
+                <Camera className={`h-4 w-4 ${capturing ? 'animate-pulse' : ''}`} />
+                {capturing ? 'Recording...' : 'Take Snapshot'}
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3 px-1">
+            <p className="text-xs text-muted-foreground">
+              {selectedIds.length === 0
+                ? 'Select two snapshots to compare them, or one to compare with what is installed now.'
+                : selectedIds.length === 1
+                  ? 'Comparing the selected snapshot with what is installed now.'
+                  : 'Comparing the two selected snapshots.'}
+            </p>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                void compare()
+              }}
+              disabled={selectedIds.length === 0 || comparing}
+            >
+              <GitCompare className="h-4 w-4" />
+              {comparing ? 'Comparing...' : 'Compare'}
+            </Button>
+          </div>
+        </section>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {loading ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">Loading snapshots...</div>
+        ) : snapshots.length === 0 ? (
+          <div className="px-4 py-8 text-sm text-muted-foreground">No snapshots recorded yet.</div>
+        ) : (
+          <div className="divide-y divide-glass-divider">
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className="flex items-center justify-between gap-3 py-2">
+                <label className="flex min-w-0 flex-1 items-center gap-2">
+                  <Checkbox
+                    checked={selectedIds.includes(snapshot.id)}
+                    onCheckedChange={(checked) => toggleSelected(snapshot.id, checked === true)}
+                  />
+                  <span className="truncate text-sm">{snapshot.reason}</span>
+                </label>
+                <div className="flex shrink-0 items-center gap-2 text-[11px] text-muted-foreground">
+                  <Badge variant="outline" className="bg-transparent px-1.5 py-0 text-[10px]">
+                    {snapshot.origin}
+                  </Badge>
+                  <span>
+                    {snapshot.formulaCount} formulae · {snapshot.caskCount} casks
+                  </span>
+                  <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        className={actionIconButtonClass}
+                        onClick={() => {
+                          void prepareRestore(snapshot)
+                        }}
+                        disabled={planningId !== null || restoring}
+                        aria-label="Restore"
+                      >
+                        <RotateCcw
+                          className={`h-4 w-4 ${planningId === snapshot.id ? 'animate-spin' : ''}`}
+                        />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent sideOffset={8}>
+                      <p>Restore this snapshot</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        className={actionIconButtonClass}
+                        onClick={() => {
+                          void removeSnapshot(snapshot.id)
+                        }}
+                        aria-label="Delete snapshot"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent sideOffset={8}>
+                      <p>Delete snapshot</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {diff ? (
+          <section className="space-y-2 pt-3">
+            <div className="px-1">
+              <h3 className="text-sm font-semibold">Differences</h3>
+              <p className="text-xs text-muted-foreground">{diffLabel}</p>
+            </div>
+            {diffIsEmpty ? (
+              <p className="px-1 text-xs text-muted-foreground">No differences.</p>
+            ) : (
+              <div className="space-y-3 px-1">
+                <DiffSection title="Added" entries={diff.added} tone="added" />
+                <DiffSection title="Removed" entries={diff.removed} tone="removed" />
+                <DiffSection title="Changed" entries={diff.changed} tone="changed" />
+              </div>
+            )}
+          </section>
+        ) : null}
+      </div>
+
+      <Dialog
+        open={plan !== null}
+        onOpenChange={(open) => {
+          if (!open && !restoring) setPlan(null)
+        }}
+      >
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Restore snapshot</DialogTitle>
+            <DialogDescription>
+              {plan
+                ? `${plan.snapshot.reason} · ${new Date(plan.snapshot.createdAt).toLocaleString()}`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {plan ? (
+            <div className="min-w-0 space-y-3">
+              {plan.commands.length > 0 ? (
+                <div className="max-h-56 overflow-auto rounded-md bg-muted/40 p-2 font-mono text-[11px] leading-relaxed">
+                  {plan.commands.map((command) => (
+                    <p key={formatCommand(command)} className="break-all">
+                      {formatCommand(command)}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Nothing to reinstall or re-pin; installed packages already cover this snapshot.
+                </p>
+              )}
+              {plan.notes.map((note) => (
+                <p key={note} className="text-xs text-muted-foreground">
+                  {note}
+                </p>
+              ))}
+            </div>
+          ) : null}
+          <DialogFooter>
+            <Button size="sm" variant="ghost" onClick={() => setPlan(null)} disabled={restoring}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                void runRestore()
+              }}
+              disabled={!plan || plan.commands.length === 0 || restoring}
+            >
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </main>
+  )
+}
+
+export default SnapshotsManager
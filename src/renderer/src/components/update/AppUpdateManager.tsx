@@ -4,6 +4,7 @@ import { AlertCircle, Download, LoaderCircle, RefreshCw } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import BackgroundChecksPanel from '@/components/update/BackgroundChecksPanel'
 
 type UpdateInfoState = {
   currentVersion: string
@@ -169,6 +170,8 @@ function AppUpdateManager(): React.JSX.Element {
           </div>
         </div>
 
+        <BackgroundChecksPanel />
+
         {info?.releaseNotes ? (
           <div className="space-y-1.5">
             <div className="py-1">
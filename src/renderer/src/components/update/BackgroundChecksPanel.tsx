@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, LoaderCircle, Play, Save } from 'lucide-react'
+
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+
+type SchedulerSettings = {
+  enabled: boolean
+  intervalMinutes: number
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+}
+
+type ScheduledCheckResult = {
+  trigger: 'schedule' | 'manual'
+  startedAt: number
+  finishedAt: number
+  outdated: {
+    success: boolean
+    items: Array<{ token: string; brewType: 'cask' | 'formula'; pinned: boolean }>
+    error?: string
+  }
+  appUpdate: {
+    success: boolean
+    updateAvailable: boolean
+    latestVersion?: string
+    error?: string
+  }
+  newUpgrades: string[]
+}
+
+type SettingsDraft = {
+  enabled: boolean
+  intervalHours: string
+  quietHoursStart: string
+  quietHoursEnd: string
+}
+
+function toDraft(settings: SchedulerSettings): SettingsDraft {
+  return {
+    enabled: settings.enabled,
+    intervalHours: String(Math.round((settings.intervalMinutes / 60) * 10) / 10),
+    quietHoursStart: settings.quietHoursStart === null ? '' : String(settings.quietHoursStart),
+    quietHoursEnd: settings.quietHoursEnd === null ? '' : String(settings.quietHoursEnd)
+  }
+}
+
+function parseHour(raw: string): number | null {
+  if (!raw.trim()) return null
+  const value = Number(raw)
+  return Number.isInteger(value) && value >= 0 && value <= 23 ? value : null
+}
+
+function BackgroundChecksPanel(): React.JSX.Element {
+  const [draft, setDraft] = useState<SettingsDraft | null>(null)
+  const [lastRun, setLastRun] = useState<ScheduledCheckResult | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadState = async (): Promise<void> => {
+    try {
+      const [settings, cached] = await Promise.all([
+        window.api.getSchedulerSettings(),
+        window.api.getLastScheduledCheck()
+      ])
+      setDraft(toDraft(settings))
+      setLastRun(cached.result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load background check settings.')
+    }
+  }
+
+  const saveSettings = async (): Promise<void> => {
+    if (!draft) return
+    const intervalHours = Number(draft.intervalHours)
+    if (!Number.isFinite(intervalHours) || intervalHours <= 0) {
+      setError('Interval must be a positive number of hours.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const saved = await window.api.setSchedulerSettings({
+        enabled: draft.enabled,
+        intervalMinutes: Math.round(intervalHours * 60),
+        quietHoursStart: parseHour(draft.quietHoursStart),
+        quietHoursEnd: parseHour(draft.quietHoursEnd)
+      })
+      setDraft(toDraft(saved))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save background check settings.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const runNow = async (): Promise<void> => {
+    setRunning(true)
+    setError(null)
+    try {
+      const response = await window.api.runScheduledCheckNow()
+      if (!response.success) {
+        setError(response.error ?? 'Background check failed.')
+        return
+      }
+      setLastRun(response.result ?? null)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  useEffect(() => {
+    void loadState()
+    return window.api.onScheduledCheck((result) => {
+      setLastRun(result)
+    })
+  }, [])
+
+  const upgradableCount = lastRun?.outdated.items.filter((item) => !item.pinned).length ?? 0
+
+  return (
+    <div className="space-y-1.5">
+      <div className="py-1">
+        <p className="text-sm font-medium">Background Checks</p>
+        <p className="text-xs text-muted-foreground">
+          Periodically run brew update, brew outdated and the app update check, and notify when new
+          upgrades appear.
+        </p>
+      </div>
+
+      <div className="divide-y divide-glass-divider">
+        <div className="flex items-center justify-between gap-3 py-2.5">
+          <div>
+            <p className="text-sm font-medium">Enabled</p>
+            <p className="text-xs text-muted-foreground">Runs while appPad is open.</p>
+          </div>
+          <Checkbox
+            checked={draft?.enabled ?? false}
+            onCheckedChange={(checked) =>
+              setDraft((prev) => (prev ? { ...prev, enabled: checked === true } : prev))
+            }
+            disabled={!draft || saving}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-3 py-2.5">
+          <div>
+            <p className="text-sm font-medium">Interval</p>
+            <p className="text-xs text-muted-foreground">Hours between checks (minimum 0.5).</p>
+          </div>
+          <Input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={draft?.intervalHours ?? ''}
+            onChange={(event) =>
+              setDraft((prev) => (prev ? { ...prev, intervalHours: event.target.value } : prev))
+            }
+            className="h-8 w-24"
+            disabled={!draft || saving}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-3 py-2.5">
+          <div>
+            <p className="text-sm font-medium">Quiet Hours</p>
+            <p className="text-xs text-muted-foreground">
+              No checks or notifications between these hours (0-23). Leave empty to disable.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Input
+              type="number"
+              min={0}
+              max={23}
+              value={draft?.quietHoursStart ?? ''}
+              onChange={(event) =>
+                setDraft((prev) => (prev ? { ...prev, quietHoursStart: event.target.value } : prev))
+              }
+              placeholder="22"
+              className="h-8 w-16"
+              disabled={!draft || saving}
+            />
+            to
+            <Input
+              type="number"
+              min={0}
+              max={23}
+              value={draft?.quietHoursEnd ?? ''}
+              onChange={(event) =>
+                setDraft((prev) => (prev ? { ...prev, quietHoursEnd: event.target.value } : prev))
+              }
+              placeholder="7"
+              className="h-8 w-16"
+              disabled={!draft || saving}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 py-2.5">
+          <div>
+            <p className="text-sm font-medium">Last Check</p>
+            <p className="text-xs text-muted-foreground">
+              {lastRun
+                ? `${new Date(lastRun.finishedAt).toLocaleString()} (${lastRun.trigger})`
+                : 'Never run'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {lastRun ? (
+              <Badge variant="secondary">
+                {lastRun.outdated.success
+                  ? `${upgradableCount} upgrade(s)`
+                  : 'brew outdated failed'}
+              </Badge>
+            ) : null}
+            {lastRun?.appUpdate.updateAvailable ? (
+              <Badge variant="outline">App {lastRun.appUpdate.latestVersion}</Badge>
+            ) : null}
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                void runNow()
+              }}
+              disabled={running}
+            >
+              {running ? (
+                <LoaderCircle className="h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+              {running ? 'Checking...' : 'Run Now'}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                void saveSettings()
+              }}
+              disabled={!draft || saving}
+            >
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : null}
+    </div>
+  )
+}
+
+export default BackgroundChecksPanel
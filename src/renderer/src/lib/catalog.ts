@@ -1,3 +1,5 @@
+import { type CommandInput } from '@/lib/command'
+
 export type CatalogSeed = {
   token: string
   brewType?: 'cask' | 'formula'
@@ -20,10 +22,12 @@ export type CatalogItem = {
   fallbackIconUrl: string | null
   installed: boolean
   iconKey: string | null
-  installCommand?: string
-  uninstallCommand?: string
-  updateCommand?: string
+  installCommand?: CommandInput
+  uninstallCommand?: CommandInput
+  updateCommand?: CommandInput
   hasUpdate?: boolean
+  pinned?: boolean
+  tap?: string
 }
 
 export function formatNameFromToken(token: string): string {
@@ -34,6 +38,13 @@ export function formatNameFromToken(token: string): string {
     .join(' ')
 }
 
+// `brew search` prints third-party results fully qualified as user/repo/token.
+export function tapFromToken(token: string, brewType: 'cask' | 'formula'): string {
+  const parts = token.split('/')
+  if (parts.length === 3) return `${parts[0]}/${parts[1]}`
+  return brewType === 'cask' ? 'homebrew/cask' : 'homebrew/core'
+}
+
 export function defaultDescriptionFromToken(token: string): string {
   return `Homebrew package: ${token}`
 }
@@ -0,0 +1,7 @@
+export {
+  brewCommand,
+  formatCommand,
+  HOMEBREW_INSTALL_SCRIPT,
+  type CommandInput,
+  type CommandSpec
+} from '../../../shared/command'
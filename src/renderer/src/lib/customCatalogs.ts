@@ -0,0 +1,56 @@
+import {
+  Boxes,
+  Briefcase,
+  Code,
+  type LucideIcon,
+  Package,
+  Palette,
+  Rocket,
+  Star,
+  Users
+} from 'lucide-react'
+
+import { type CatalogSeed } from '@/lib/catalog'
+
+export type CatalogSubscription = {
+  source: string
+  version: string
+  fetchedAt: number
+  changes: {
+    previousVersion: string | null
+    version: string
+    added: string[]
+    removed: string[]
+    changed: string[]
+  } | null
+}
+
+export type CustomCatalog = {
+  id: number
+  catalogKey: string
+  title: string
+  description: string
+  icon: string
+  defaultBrewType: 'cask' | 'formula'
+  seeds: CatalogSeed[]
+  sortOrder: number
+  updatedAt: number
+  subscription: CatalogSubscription | null
+}
+
+export type CustomCatalogTabKey = `custom:${number}`
+
+export const CUSTOM_CATALOG_ICONS: Record<string, LucideIcon> = {
+  package: Package,
+  boxes: Boxes,
+  briefcase: Briefcase,
+  code: Code,
+  palette: Palette,
+  rocket: Rocket,
+  star: Star,
+  users: Users
+}
+
+export function getCustomCatalogIcon(icon: string): LucideIcon {
+  return CUSTOM_CATALOG_ICONS[icon] ?? Package
+}
@@ -0,0 +1,34 @@
+export type DestructiveActionRequest =
+  | { kind: 'brew-uninstall'; packages: Array<{ token: string; brewType: 'cask' | 'formula' }> }
+  | { kind: 'force-clean-cask'; token: string }
+  | { kind: 'mole-uninstall'; name: string }
+  | { kind: 'mole-clean' }
+  | { kind: 'brew-cleanup'; pruneDays: number; autoremove: boolean; removeStaleCaskroom: boolean }
+
+export type DestructiveActionPrompt = {
+  request: DestructiveActionRequest
+  // Shown alongside the preview so the user sees exactly what will run.
+  command?: string
+  resolve: (actionId: string | null) => void
+}
+
+const APP_DESTRUCTIVE_ACTION_EVENT = 'app:destructive-action'
+
+export function getDestructiveActionEvent(): string {
+  return APP_DESTRUCTIVE_ACTION_EVENT
+}
+
+// Resolves with the approved action id, or null when the user cancels or the preview fails.
+export async function confirmDestructiveAction(
+  request: DestructiveActionRequest,
+  options: { command?: string } = {}
+): Promise<string | null> {
+  return await new Promise<string | null>((resolve) => {
+    const event = new CustomEvent<DestructiveActionPrompt>(APP_DESTRUCTIVE_ACTION_EVENT, {
+      detail: { request, command: options.command, resolve },
+      cancelable: true
+    })
+    // Without a mounted dialog nobody can confirm, so treat the action as cancelled.
+    if (window.dispatchEvent(event)) resolve(null)
+  })
+}
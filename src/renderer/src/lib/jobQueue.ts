@@ -0,0 +1,146 @@
+import { type CommandInput } from '@/lib/command'
+
+export type JobAction = 'install' | 'uninstall' | 'upgrade' | 'command'
+
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'canceled'
+
+export type JobItem = {
+  itemId: string
+  token: string | null
+  action: JobAction
+  command: string
+  status: JobItemStatus
+  attempts: number
+  cancelRequested: boolean
+  error: string | null
+  result: {
+    success: boolean
+    code: number | null
+    stdout: string
+    stderr: string
+    error?: string
+  } | null
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+export type JobBatch = {
+  batchId: string
+  origin: string
+  maxRetries: number
+  continueOnFailure: boolean
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  items: JobItem[]
+  createdAt: number
+  finishedAt: number | null
+}
+
+export type JobBatchRequest = {
+  origin: string
+  maxRetries?: number
+  continueOnFailure?: boolean
+  // The id confirmDestructiveAction resolved with, for batches that uninstall or clean something.
+  approvalId?: string
+  items: Array<{ token?: string | null; action?: JobAction; command: CommandInput }>
+}
+
+// A started job: `result` settles once the job finishes, `cancel` stops whatever has not.
+export type JobHandle<T> = {
+  result: Promise<T>
+  cancel: () => Promise<void>
+}
+
+export function isJobBatchFinished(batch: JobBatch): boolean {
+  return batch.finishedAt !== null
+}
+
+// `timeoutMs` bounds each item from the moment it starts running; time spent queued behind other
+// jobs does not count.
+export function startJobBatch(
+  request: JobBatchRequest,
+  options: { onUpdate?: (batch: JobBatch) => void; timeoutMs?: number } = {}
+): JobHandle<JobBatch> {
+  let batchId: string | null = null
+  let cancelRequested = false
+
+  const cancel = async (): Promise<void> => {
+    cancelRequested = true
+    if (batchId) await window.api.cancelJobBatch(batchId)
+  }
+
+  const result = new Promise<JobBatch>((resolve, reject) => {
+    let settled = false
+    let timeoutId: number | null = null
+    let timedRunKey: string | null = null
+    const earlyUpdates: JobBatch[] = []
+
+    const finish = (callback: () => void): void => {
+      if (settled) return
+      settled = true
+      unsubscribe()
+      if (timeoutId !== null) window.clearTimeout(timeoutId)
+      callback()
+    }
+
+    // A timed-out batch is canceled too, so it does not keep the queue busy unobserved.
+    const startTimeout = (timeoutMs: number): void => {
+      if (timeoutId !== null) window.clearTimeout(timeoutId)
+      timeoutId = window.setTimeout(() => {
+        void cancel()
+        finish(() =>
+          reject(
+            new Error(
+              `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for job completion.`
+            )
+          )
+        )
+      }, timeoutMs)
+    }
+
+    const handleUpdate = (batch: JobBatch): void => {
+      if (batch.batchId !== batchId) return
+      options.onUpdate?.(batch)
+      if (isJobBatchFinished(batch)) {
+        finish(() => resolve(batch))
+        return
+      }
+      // Each attempt of each item gets the full timeout.
+      const running = batch.items.find((item) => item.status === 'running')
+      const runKey = running ? `${running.itemId}:${running.attempts}` : null
+      if (options.timeoutMs && runKey && runKey !== timedRunKey) {
+        timedRunKey = runKey
+        startTimeout(options.timeoutMs)
+      }
+    }
+
+    const unsubscribe = window.api.onJobsUpdated((batch) => {
+      if (batchId === null) {
+        earlyUpdates.push(batch)
+        return
+      }
+      handleUpdate(batch)
+    })
+
+    window.api
+      .enqueueJobBatch(request)
+      .then((batch) => {
+        batchId = batch.batchId
+        // Cancel was requested before the batch had an id to cancel by.
+        if (cancelRequested) void window.api.cancelJobBatch(batch.batchId)
+        earlyUpdates.forEach(handleUpdate)
+        handleUpdate(batch)
+      })
+      .catch((error) => {
+        finish(() => reject(error))
+      })
+  })
+
+  return { result, cancel }
+}
+
+export async function runJobBatch(
+  request: JobBatchRequest,
+  options: { onUpdate?: (batch: JobBatch) => void; timeoutMs?: number } = {}
+): Promise<JobBatch> {
+  return await startJobBatch(request, options).result
+}
@@ -0,0 +1,49 @@
+import { brewCommand, type CommandSpec } from '@/lib/command'
+import { openGlobalTerminal } from '@/lib/globalTerminal'
+import { runJobBatch } from '@/lib/jobQueue'
+
+const SWITCH_TIMEOUT_MS = 1000 * 60 * 30
+
+// Installs the target when needed, unlinks every installed sibling and force-links the target.
+// Resolves with an error message, or null when the target ended up linked.
+export async function switchRuntimeFormula(options: {
+  targetFormula: string
+  targetInstalled: boolean
+  installedFormulae: string[]
+  origin: string
+}): Promise<string | null> {
+  const { targetFormula } = options
+  const commands: Array<{ spec: CommandSpec; required: boolean }> = []
+
+  if (!options.targetInstalled) {
+    commands.push({ spec: brewCommand('install', targetFormula), required: true })
+  }
+  // Unlinking a version that is not linked may fail; only install and link decide the outcome.
+  options.installedFormulae.forEach((formula) => {
+    commands.push({ spec: brewCommand('unlink', formula), required: false })
+  })
+  commands.push({
+    spec: brewCommand('link', '--overwrite', '--force', targetFormula),
+    required: true
+  })
+
+  openGlobalTerminal()
+  const batch = await runJobBatch(
+    {
+      origin: options.origin,
+      continueOnFailure: true,
+      items: commands.map(({ spec }) => ({ command: spec, token: targetFormula }))
+    },
+    { timeoutMs: SWITCH_TIMEOUT_MS }
+  )
+  const failed = batch.items.find(
+    (item, index) => commands[index]?.required && item.status !== 'succeeded'
+  )
+  if (!failed) return null
+  return (
+    failed.result?.error ||
+    failed.result?.stderr ||
+    failed.error ||
+    `Failed to switch to ${targetFormula}.`
+  )
+}
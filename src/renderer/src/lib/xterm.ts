@@ -0,0 +1,56 @@
+import { FitAddon } from '@xterm/addon-fit'
+import { SearchAddon } from '@xterm/addon-search'
+import { SerializeAddon } from '@xterm/addon-serialize'
+import { WebLinksAddon } from '@xterm/addon-web-links'
+import { Terminal, type ITerminalOptions } from '@xterm/xterm'
+import '@xterm/xterm/css/xterm.css'
+
+export type XtermInstance = {
+  term: Terminal
+  fit: FitAddon
+  search: SearchAddon
+  serialize: SerializeAddon
+}
+
+const BASE_TERMINAL_OPTIONS: ITerminalOptions = {
+  cursorBlink: true,
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+  fontSize: 13,
+  scrollback: 5000,
+  theme: {
+    background: 'rgba(17, 17, 19, 0.96)',
+    foreground: '#e6edf3'
+  }
+}
+
+export function createXterm(container: HTMLElement, options?: ITerminalOptions): XtermInstance {
+  const term = new Terminal({ ...BASE_TERMINAL_OPTIONS, ...options })
+  const fit = new FitAddon()
+  term.loadAddon(fit)
+  const search = new SearchAddon()
+  term.loadAddon(search)
+  const serialize = new SerializeAddon()
+  term.loadAddon(serialize)
+  term.loadAddon(new WebLinksAddon())
+  term.open(container)
+  fit.fit()
+  return { term, fit, search, serialize }
+}
+
+// Plain text of the whole buffer, with soft-wrapped rows joined back into their logical lines.
+export function getXtermBufferText(term: Terminal): string {
+  const buffer = term.buffer.active
+  const lines: string[] = []
+  for (let index = 0; index < buffer.length; index += 1) {
+    const line = buffer.getLine(index)
+    if (!line) continue
+    const text = line.translateToString(true)
+    if (line.isWrapped && lines.length > 0) {
+      lines[lines.length - 1] += text
+    } else {
+      lines.push(text)
+    }
+  }
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop()
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,36 @@
+// Shared by the main process and the renderer so both quote commands the same way.
+
+export type CommandSpec = {
+  binary: string
+  args: string[]
+  env?: Record<string, string>
+}
+
+// Catalog seeds, cached rows and history entries still carry command lines as plain text.
+// The main process tokenizes those into a CommandSpec and never hands them to a shell as-is.
+export type CommandInput = CommandSpec | string
+
+export const HOMEBREW_INSTALL_SCRIPT =
+  'exec /bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh)"'
+
+// A leading `=` is left quoted because zsh expands `=name` to a command path.
+const PLAIN_WORD_PATTERN = /^[A-Za-z0-9@%+:,./_-][A-Za-z0-9@%+=:,./_-]*$/
+
+export function brewCommand(...args: string[]): CommandSpec {
+  return { binary: 'brew', args }
+}
+
+function quoteWord(value: string): string {
+  return PLAIN_WORD_PATTERN.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// Renders a spec for display and for typing into the terminal. Every word is quoted, so the
+// shell only ever sees literal arguments.
+export function formatCommandSpec(spec: CommandSpec): string {
+  const env = Object.entries(spec.env ?? {}).map(([key, value]) => `${key}=${quoteWord(value)}`)
+  return [...env, quoteWord(spec.binary), ...spec.args.map(quoteWord)].join(' ')
+}
+
+export function formatCommand(command: CommandInput): string {
+  return typeof command === 'string' ? command : formatCommandSpec(command)
+}